@@ -1,6 +1,7 @@
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { BatchProcessingResult } from "@/lib/types";
+import { BatchProcessingResult, Form1099Status } from "@/lib/types";
+import { determine1099Reportability, FORM_1099_STATUSES } from "@/lib/classification/form1099Rules";
 
 interface BatchProcessingSummaryProps {
   summary: BatchProcessingResult;
@@ -39,6 +40,15 @@ const BatchProcessingSummary = ({ summary }: BatchProcessingSummaryProps) => {
     return acc;
   }, {} as Record<string, number>);
   
+  // 1099 reportability distribution
+  const form1099Counts = summary.results.reduce((acc, result) => {
+    if (result && result.result) {
+      const { status } = determine1099Reportability(result.payeeName, result.result);
+      acc[status]++;
+    }
+    return acc;
+  }, { 'Likely Reportable': 0, 'Exempt': 0, 'Review': 0 } as Record<Form1099Status, number>);
+  
   return (
     <Card className="mt-6">
       <CardHeader>
@@ -71,6 +81,19 @@ const BatchProcessingSummary = ({ summary }: BatchProcessingSummaryProps) => {
           </div>
         </div>
         
+        {/* 1099 reportability breakdown */}
+        <div className="mt-6">
+          <h4 className="text-sm font-medium mb-2">1099 Reportability</h4>
+          <div className="grid gap-4 grid-cols-1 sm:grid-cols-3">
+            {FORM_1099_STATUSES.map(status => (
+              <div key={status} className="p-4 bg-background border rounded-lg">
+                <div className="text-sm text-muted-foreground">{status}</div>
+                <div className="text-2xl font-bold">{form1099Counts[status]}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+        
         {/* Processing tier breakdown */}
         <div className="mt-6">
           <h4 className="text-sm font-medium mb-2">Processing Tier Distribution</h4>
@@ -12,7 +12,7 @@ interface ClassificationResultCardProps {
 
 const ClassificationResultCard = ({ result }: ClassificationResultCardProps) => {
   const { payeeName, timestamp } = result;
-  const { classification, confidence, reasoning, processingTier, matchingRules, sicCode, sicDescription } = result.result;
+  const { classification, entityType, confidence, reasoning, processingTier, matchingRules, sicCode, sicDescription, ensemble, composite } = result.result;
   
   return (
     <Card className="w-full mb-4">
@@ -26,6 +26,9 @@ const ClassificationResultCard = ({ result }: ClassificationResultCardProps) =>
             <Badge variant={classification === 'Business' ? 'default' : 'secondary'}>
               {classification}
             </Badge>
+            {entityType && entityType !== classification && (
+              <Badge variant="outline">{entityType}</Badge>
+            )}
             <ClassificationBadge confidence={confidence} />
           </div>
         </div>
@@ -51,6 +54,43 @@ const ClassificationResultCard = ({ result }: ClassificationResultCardProps) =>
         
         <p className="text-sm">{reasoning}</p>
 
+        {ensemble && (
+          <div className="mt-3 p-2 rounded border">
+            <div className="flex items-center gap-2 mb-2">
+              <span className="text-sm font-medium">Ensemble disagreement:</span>
+              <Badge variant={ensemble.flagged ? 'destructive' : 'outline'}>
+                {ensemble.disagreementScore}%{ensemble.flagged ? ' - Needs review' : ''}
+              </Badge>
+            </div>
+            <ul className="text-sm space-y-1">
+              {ensemble.votes.map(vote => (
+                <li key={vote.voter}>
+                  {vote.voter}: {vote.classification} ({vote.confidence}%, weight {vote.weight})
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {composite && (
+          <div className="mt-3 p-2 rounded border">
+            <div className="flex items-center gap-2 mb-2">
+              <span className="text-sm font-medium">Composite payee:</span>
+              <Badge variant="outline">{composite.relationship}</Badge>
+            </div>
+            <ul className="text-sm space-y-1">
+              <li>
+                Primary: {composite.primary.name} - {composite.primary.entityType || composite.primary.classification} ({composite.primary.confidence}%)
+              </li>
+              {composite.secondary && (
+                <li>
+                  Secondary: {composite.secondary.name} - {composite.secondary.entityType || composite.secondary.classification} ({composite.secondary.confidence}%)
+                </li>
+              )}
+            </ul>
+          </div>
+        )}
+
         {matchingRules && matchingRules.length > 0 && (
           <Accordion type="single" collapsible className="mt-4">
             <AccordionItem value="rules">
@@ -6,6 +6,7 @@ import { Input } from "@/components/ui/input";
 import { Slider } from "@/components/ui/slider";
 import { Switch } from "@/components/ui/switch";
 import { classifyPayee } from "@/lib/classification/finalClassification";
+import { getEnsembleSettings } from "@/lib/classification/ensembleClassification";
 import { createPayeeClassification } from "@/lib/utils";
 import ClassificationResultCard from "./ClassificationResultCard";
 import { PayeeClassification, ClassificationConfig } from "@/lib/types";
@@ -26,7 +27,8 @@ const SingleClassificationForm = ({ onClassify }: SingleClassificationFormProps)
     aiThreshold: 80,
     bypassRuleNLP: true,
     useEnhanced: true,
-    offlineMode: false
+    offlineMode: false,
+    ensembleMode: getEnsembleSettings().enabled
   });
   const { toast } = useToast();
 
@@ -91,6 +93,10 @@ const SingleClassificationForm = ({ onClassify }: SingleClassificationFormProps)
     setConfig(prev => ({ ...prev, offlineMode: checked }));
   };
 
+  const handleEnsembleModeChange = (checked: boolean) => {
+    setConfig(prev => ({ ...prev, ensembleMode: checked }));
+  };
+
   return (
     <Card>
       <CardHeader>
@@ -144,6 +150,15 @@ const SingleClassificationForm = ({ onClassify }: SingleClassificationFormProps)
                 />
                 <Label htmlFor="offlineMode">Offline Mode (No AI/Web Search)</Label>
               </div>
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="ensembleMode"
+                  checked={config.ensembleMode}
+                  onCheckedChange={handleEnsembleModeChange}
+                  disabled={isProcessing}
+                />
+                <Label htmlFor="ensembleMode">Ensemble Mode (All tiers vote)</Label>
+              </div>
               <p className="text-xs text-muted-foreground">
                 V3 uses intelligent escalation: Rule-Based → Fuzzy Matching → AI → Web Search Enhanced AI
               </p>
@@ -1,4 +1,5 @@
 
+import { useMemo, useState } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { BatchJob } from '@/lib/openai/trueBatchAPI';
 import { PayeeClassification, BatchProcessingResult } from '@/lib/types';
@@ -9,6 +10,10 @@ import { useEnhancedNotifications } from '@/components/ui/enhanced-notifications
 import SmartFileUploadHeader from './upload/SmartFileUploadHeader';
 import SmartFileUploadContent from './upload/SmartFileUploadContent';
 import SmartFileUploadStatusDisplay from './upload/SmartFileUploadStatusDisplay';
+import PromptTemplateSelect from './prompts/PromptTemplateSelect';
+import BatchCostEstimate from './upload/BatchCostEstimate';
+import PackSizeInput from './upload/PackSizeInput';
+import { DEFAULT_PACK_SIZE } from '@/lib/openai/payeePacking';
 
 
 interface SmartFileUploadProps {
@@ -19,6 +24,9 @@ interface SmartFileUploadProps {
 const SmartFileUpload = ({ onBatchJobCreated, onProcessingComplete }: SmartFileUploadProps) => {
   const hasError = () => false; // Simplified for now
   const { showSuccess, showError, showLoading } = useEnhancedNotifications();
+  const [promptTemplateId, setPromptTemplateId] = useState<string>();
+  const [model, setModel] = useState<string>();
+  const [packSize, setPackSize] = useState(DEFAULT_PACK_SIZE);
   
   const {
     uploadState,
@@ -60,7 +68,8 @@ const SmartFileUpload = ({ onBatchJobCreated, onProcessingComplete }: SmartFileU
       const batchJob = await createBatchJob(
         payeeRowData.uniquePayeeNames,
         `File upload batch: ${payeeRowData.uniquePayeeNames.length} payees`,
-        jobName
+        jobName,
+        { promptTemplateId, model, packSize }
       );
       
       console.log('Batch job created successfully:', batchJob.id);
@@ -133,6 +142,19 @@ const SmartFileUpload = ({ onBatchJobCreated, onProcessingComplete }: SmartFileU
   };
 
   const isProcessing = uploadState === 'processing';
+
+  // Distinct names in the chosen column, for the pre-submission cost estimate
+  const estimatePayeeNames = useMemo(() => {
+    if (uploadState !== 'uploaded' || !selectedPayeeColumn || !fileData) {
+      return [];
+    }
+    const names = new Set<string>();
+    for (const row of fileData) {
+      const name = String(row?.[selectedPayeeColumn] ?? '').trim();
+      if (name) names.add(name);
+    }
+    return Array.from(names);
+  }, [uploadState, selectedPayeeColumn, fileData]);
   const hasGlobalError = false;
 
   return (
@@ -155,6 +177,28 @@ const SmartFileUpload = ({ onBatchJobCreated, onProcessingComplete }: SmartFileU
           fileData={fileData}
         />
 
+        <PromptTemplateSelect
+          purpose="batch_classification"
+          value={promptTemplateId}
+          onChange={setPromptTemplateId}
+          disabled={isProcessing}
+        />
+
+        <PackSizeInput
+          value={packSize}
+          onChange={setPackSize}
+          disabled={isProcessing}
+        />
+
+        <BatchCostEstimate
+          payeeNames={estimatePayeeNames}
+          promptTemplateId={promptTemplateId}
+          packSize={packSize}
+          model={model}
+          onModelChange={setModel}
+          disabled={isProcessing}
+        />
+
         <SmartFileUploadContent
           uploadState={uploadState}
           isProcessing={isProcessing}
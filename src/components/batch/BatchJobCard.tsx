@@ -13,6 +13,7 @@ import BatchJobStatusIndicator from './BatchJobStatusIndicator';
 import LargeJobStatusIndicator from './LargeJobStatusIndicator';
 import LargeJobManagementPanel from './LargeJobManagementPanel';
 import { BatchJobAutoRefreshIndicator } from './BatchJobAutoRefreshIndicator';
+import BatchJobLineage from './BatchJobLineage';
 
 interface StalledJobAction {
   isStalled?: boolean;
@@ -85,6 +86,8 @@ const BatchJobCard = ({
           />
         </div>
 
+        <BatchJobLineage job={job} />
+
         {/* Auto-refresh indicator for active jobs */}
         {isActive && (
           <div className="flex justify-between items-center mb-3">
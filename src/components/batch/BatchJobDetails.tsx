@@ -4,6 +4,7 @@ import { AlertCircle } from 'lucide-react';
 import { BatchJob } from '@/lib/openai/trueBatchAPI';
 import { PayeeRowData } from '@/lib/rowMapping';
 import BatchJobPayeeStats from './BatchJobPayeeStats';
+import BatchReconciliationSummary from './BatchReconciliationSummary';
 
 interface BatchJobDetailsProps {
   job: BatchJob;
@@ -25,10 +26,24 @@ const BatchJobDetails = ({ job, payeeData, lastError }: BatchJobDetailsProps) =>
         <div>Requests: {job.request_counts.completed}/{job.request_counts.total} 
           {job.request_counts.failed > 0 && ` (${job.request_counts.failed} failed)`}
         </div>
+        {job.metadata?.model && (
+          <div>Model: {job.metadata.model}</div>
+        )}
+        {job.metadata?.prompt_version && (
+          <div>Prompt: {job.metadata.prompt_version}</div>
+        )}
+        {job.metadata?.few_shot_example_ids && job.metadata.few_shot_example_ids.length > 0 && (
+          <div>Few-shot examples: {job.metadata.few_shot_example_ids.length} reviewed payees</div>
+        )}
+        {job.metadata?.pack_size && (
+          <div>Packing: {job.metadata.pack_size} payees per request</div>
+        )}
       </div>
 
       <BatchJobPayeeStats payeeData={payeeData} />
 
+      <BatchReconciliationSummary jobId={job.id} enabled={job.status === 'completed'} />
+
       {lastError && (
         <div className="flex items-start gap-2 p-2 bg-red-50 border border-red-200 rounded text-sm text-red-700">
           <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
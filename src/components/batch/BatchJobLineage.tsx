@@ -0,0 +1,56 @@
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+import { BatchJob } from '@/lib/openai/trueBatchAPI';
+import { BatchJobRetry, loadBatchJobRetries } from '@/lib/database/batchJobRetryService';
+import { MAX_BATCH_ATTEMPTS } from '@/lib/services/batchFollowUpService';
+
+interface BatchJobLineageProps {
+  job: BatchJob;
+}
+
+/**
+ * Links a follow-up batch to the job it retries, and lists the follow-ups of an original job
+ */
+const BatchJobLineage = ({ job }: BatchJobLineageProps) => {
+  const parentBatchId = job.metadata?.parent_batch_id;
+  const [retries, setRetries] = React.useState<BatchJobRetry[]>([]);
+
+  React.useEffect(() => {
+    // Follow-ups are only submitted once the original job has completed
+    if (parentBatchId || job.status !== 'completed') return;
+    let cancelled = false;
+    loadBatchJobRetries(job.id).then(loaded => {
+      if (!cancelled) setRetries(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [job.id, job.status, parentBatchId]);
+
+  if (parentBatchId) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <RotateCcw className="h-3 w-3" />
+        Follow-up of job {parentBatchId.slice(-8)} · attempt {job.metadata?.attempt || 2} of {MAX_BATCH_ATTEMPTS}
+      </div>
+    );
+  }
+
+  if (retries.length === 0) return null;
+
+  return (
+    <div className="flex items-start gap-2 text-xs text-muted-foreground">
+      <RotateCcw className="h-3 w-3 mt-0.5" />
+      <div>
+        <div>Attempts: {retries.length + 1} of {MAX_BATCH_ATTEMPTS}</div>
+        {retries.map(retry => (
+          <div key={retry.childBatchId}>
+            Attempt {retry.attempt}: job {retry.childBatchId.slice(-8)} retried {retry.payeeNames.length} failed payees
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BatchJobLineage;
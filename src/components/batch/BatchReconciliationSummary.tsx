@@ -0,0 +1,64 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { loadReconciliationReport } from '@/lib/database/batchRequestMapService';
+import { BatchReconciliationReport, formatReconciliationReport, isCleanReconciliation } from '@/lib/openai/batchReconciliation';
+
+interface BatchReconciliationSummaryProps {
+  jobId: string;
+  // Reports only exist once results have been retrieved
+  enabled: boolean;
+}
+
+const MAX_LISTED_IDS = 5;
+
+const IdList = ({ label, ids }: { label: string; ids: string[] }) => {
+  if (ids.length === 0) return null;
+  const more = ids.length - MAX_LISTED_IDS;
+  return (
+    <div>
+      {label}: {ids.slice(0, MAX_LISTED_IDS).join(', ')}{more > 0 && ` and ${more} more`}
+    </div>
+  );
+};
+
+const BatchReconciliationSummary = ({ jobId, enabled }: BatchReconciliationSummaryProps) => {
+  const [report, setReport] = React.useState<BatchReconciliationReport | null>(null);
+
+  React.useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    loadReconciliationReport(jobId).then(loaded => {
+      if (!cancelled) setReport(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [jobId, enabled]);
+
+  if (!report) return null;
+
+  if (isCleanReconciliation(report)) {
+    return (
+      <div className="text-xs text-muted-foreground">
+        Output reconciled by custom_id: {formatReconciliationReport(report)}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-start gap-2 p-2 bg-amber-50 border border-amber-200 rounded text-xs text-amber-800">
+      <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+      <div className="space-y-1">
+        <div className="font-medium">Output did not match the submitted requests: {formatReconciliationReport(report)}</div>
+        {!report.usedStoredMapping && (
+          <div>This job has no stored request mapping, so requests with no output line cannot be listed.</div>
+        )}
+        <IdList label="Missing" ids={report.missingIds} />
+        <IdList label="Duplicated" ids={report.duplicatedIds} />
+        <IdList label="Unknown" ids={report.unknownIds} />
+      </div>
+    </div>
+  );
+};
+
+export default BatchReconciliationSummary;
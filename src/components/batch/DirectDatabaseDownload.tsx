@@ -6,6 +6,9 @@ import { supabase } from '@/integrations/supabase/client';
 import { mapResultsToOriginalRows } from '@/lib/rowMapping/mapper';
 import { createMappedRow } from '@/lib/rowMapping/rowCreator';
 import { PayeeRowData } from '@/lib/rowMapping/types';
+import { EnsembleVote } from '@/lib/types';
+import { normalizeEntityType } from '@/lib/classification/entityTaxonomy';
+import { loadReviewsForBatch, applyReviewToResult } from '@/lib/database/reviewQueueService';
 
 interface DirectDatabaseDownloadProps {
   jobId: string;
@@ -65,6 +68,9 @@ const DirectDatabaseDownload = ({ jobId, className }: DirectDatabaseDownloadProp
         }
       };
 
+      // Reviewed values from the human review queue take precedence
+      const reviews = await loadReviewsForBatch(jobId);
+
       // Step 4: Convert database classifications back to the expected format
       const classificationResults = batchJob.unique_payee_names.map((payeeName: string, index: number) => {
         const dbClassification = classifications.find(c => 
@@ -96,8 +102,9 @@ const DirectDatabaseDownload = ({ jobId, className }: DirectDatabaseDownloadProp
         return {
           id: dbClassification.id,
           payeeName: dbClassification.payee_name,
-          result: {
+          result: applyReviewToResult({
             classification: dbClassification.classification,
+            entityType: normalizeEntityType(dbClassification.entity_type, dbClassification.classification),
             confidence: dbClassification.confidence,
             reasoning: dbClassification.reasoning,
             processingTier: dbClassification.processing_tier,
@@ -106,8 +113,26 @@ const DirectDatabaseDownload = ({ jobId, className }: DirectDatabaseDownloadProp
             sicDescription: dbClassification.sic_description,
             keywordExclusion: dbClassification.keyword_exclusion,
             similarityScores: dbClassification.similarity_scores,
-            matchingRules: dbClassification.matching_rules
-          },
+            matchingRules: dbClassification.matching_rules,
+            cacheHit: dbClassification.cache_hit,
+            cachedFromBatchId: dbClassification.cached_from_batch_id || undefined,
+            promptVersionId: dbClassification.prompt_version_id || undefined,
+            usage: dbClassification.prompt_tokens !== null ? {
+              promptTokens: dbClassification.prompt_tokens,
+              completionTokens: dbClassification.completion_tokens || 0,
+              totalTokens: dbClassification.prompt_tokens + (dbClassification.completion_tokens || 0),
+              costUsd: dbClassification.ai_cost_usd
+            } : undefined,
+            ensemble: dbClassification.ensemble_disagreement !== null ? {
+              votes: (dbClassification.ensemble_votes || []) as unknown as EnsembleVote[],
+              disagreementScore: dbClassification.ensemble_disagreement,
+              flagged: dbClassification.ensemble_flagged
+            } : undefined,
+            batchError: dbClassification.error_message ? {
+              code: dbClassification.error_code,
+              message: dbClassification.error_message
+            } : undefined
+          }, reviews.get(dbClassification.id)),
           timestamp: new Date(dbClassification.created_at),
           originalData: dbClassification.original_data,
           rowIndex: dbClassification.row_index,
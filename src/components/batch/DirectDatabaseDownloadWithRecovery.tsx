@@ -5,6 +5,9 @@ import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { mapResultsToOriginalRows } from '@/lib/rowMapping/mapper';
 import { PayeeRowData } from '@/lib/rowMapping/types';
+import { EnsembleVote } from '@/lib/types';
+import { normalizeEntityType } from '@/lib/classification/entityTaxonomy';
+import { loadReviewsForBatch, applyReviewToResult } from '@/lib/database/reviewQueueService';
 
 interface DirectDatabaseDownloadWithRecoveryProps {
   jobId: string;
@@ -92,6 +95,9 @@ const DirectDatabaseDownloadWithRecovery = ({ jobId, className }: DirectDatabase
         }
       };
 
+      // Reviewed values from the human review queue take precedence
+      const reviews = await loadReviewsForBatch(jobId);
+
       // Step 5: Convert database classifications to expected format
       const classificationResults = batchJob.unique_payee_names.map((payeeName: string, index: number) => {
         const dbClassification = classifications.find(c => 
@@ -122,8 +128,9 @@ const DirectDatabaseDownloadWithRecovery = ({ jobId, className }: DirectDatabase
         return {
           id: dbClassification.id,
           payeeName: dbClassification.payee_name,
-          result: {
+          result: applyReviewToResult({
             classification: dbClassification.classification,
+            entityType: normalizeEntityType(dbClassification.entity_type, dbClassification.classification),
             confidence: dbClassification.confidence,
             reasoning: dbClassification.reasoning,
             processingTier: dbClassification.processing_tier,
@@ -132,8 +139,26 @@ const DirectDatabaseDownloadWithRecovery = ({ jobId, className }: DirectDatabase
             sicDescription: dbClassification.sic_description,
             keywordExclusion: dbClassification.keyword_exclusion,
             similarityScores: dbClassification.similarity_scores,
-            matchingRules: dbClassification.matching_rules
-          },
+            matchingRules: dbClassification.matching_rules,
+            cacheHit: dbClassification.cache_hit,
+            cachedFromBatchId: dbClassification.cached_from_batch_id || undefined,
+            promptVersionId: dbClassification.prompt_version_id || undefined,
+            usage: dbClassification.prompt_tokens !== null ? {
+              promptTokens: dbClassification.prompt_tokens,
+              completionTokens: dbClassification.completion_tokens || 0,
+              totalTokens: dbClassification.prompt_tokens + (dbClassification.completion_tokens || 0),
+              costUsd: dbClassification.ai_cost_usd
+            } : undefined,
+            ensemble: dbClassification.ensemble_disagreement !== null ? {
+              votes: (dbClassification.ensemble_votes || []) as unknown as EnsembleVote[],
+              disagreementScore: dbClassification.ensemble_disagreement,
+              flagged: dbClassification.ensemble_flagged
+            } : undefined,
+            batchError: dbClassification.error_message ? {
+              code: dbClassification.error_code,
+              message: dbClassification.error_message
+            } : undefined
+          }, reviews.get(dbClassification.id)),
           timestamp: new Date(dbClassification.created_at),
           originalData: dbClassification.original_data,
           rowIndex: dbClassification.row_index,
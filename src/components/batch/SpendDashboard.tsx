@@ -0,0 +1,141 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { DollarSign, Loader2, RefreshCw } from "lucide-react";
+import { useSpendLedger } from "@/hooks/useSpendLedger";
+import { SpendBreakdown } from "@/lib/database/spendLedgerService";
+import { formatCost } from "@/lib/openai/costEstimator";
+
+// Per-payee costs are fractions of a cent, so they need more precision than formatCost
+function formatPayeeCost(cost: number | null): string {
+  return cost === null ? '—' : `$${cost.toFixed(4)}`;
+}
+
+function SpendTable({ title, rows }: { title: string; rows: SpendBreakdown[] }) {
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium">{title}</h4>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{title.replace(/^By /, '')}</TableHead>
+            <TableHead className="text-right">Requests</TableHead>
+            <TableHead className="text-right">Payees</TableHead>
+            <TableHead className="text-right">Tokens</TableHead>
+            <TableHead className="text-right">Cost</TableHead>
+            <TableHead className="text-right">Per payee</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map(row => (
+            <TableRow key={row.key}>
+              <TableCell className="font-medium">{row.label}</TableCell>
+              <TableCell className="text-right">{row.requestCount.toLocaleString()}</TableCell>
+              <TableCell className="text-right">{row.payeeCount.toLocaleString()}</TableCell>
+              <TableCell className="text-right">{row.totalTokens.toLocaleString()}</TableCell>
+              <TableCell className="text-right">
+                {formatCost(row.costUsd)}{row.hasUnpricedUsage ? '+' : ''}
+              </TableCell>
+              <TableCell className="text-right">{formatPayeeCost(row.costPerPayee)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+const SpendDashboard = () => {
+  const { summary, currentMonthSpend, monthlyBudget, setMonthlyBudget, loading, refresh } = useSpendLedger();
+  const { total } = summary;
+  const budgetUsed = monthlyBudget ? Math.min(100, (currentMonthSpend / monthlyBudget) * 100) : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <DollarSign className="h-5 w-5" />
+          AI Spend
+        </CardTitle>
+        <CardDescription>
+          Tokens billed by completed batch jobs, priced at batch rates. A "+" marks totals that include
+          models without known pricing.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="monthlyBudget">Monthly budget (USD)</Label>
+            <Input
+              id="monthlyBudget"
+              type="number"
+              min={0}
+              step="1"
+              placeholder="No budget"
+              value={monthlyBudget ?? ''}
+              onChange={(e) => setMonthlyBudget(e.target.value ? Number(e.target.value) : null)}
+              className="w-40"
+            />
+          </div>
+          <Button variant="outline" size="sm" onClick={refresh} disabled={loading}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center p-8">
+            <Loader2 className="h-8 w-8 animate-spin" />
+            <span className="ml-2">Loading spend ledger...</span>
+          </div>
+        ) : total.requestCount === 0 ? (
+          <p className="text-muted-foreground text-center py-8">
+            No batch usage recorded yet. Spend appears here once a job's results are downloaded.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <div className="text-sm text-muted-foreground">Total spend</div>
+                <div className="text-2xl font-bold">{formatCost(total.costUsd)}{total.hasUnpricedUsage ? '+' : ''}</div>
+              </div>
+              <div>
+                <div className="text-sm text-muted-foreground">Tokens</div>
+                <div className="text-2xl font-bold">{total.totalTokens.toLocaleString()}</div>
+              </div>
+              <div>
+                <div className="text-sm text-muted-foreground">Payees classified</div>
+                <div className="text-2xl font-bold">{total.payeeCount.toLocaleString()}</div>
+              </div>
+              <div>
+                <div className="text-sm text-muted-foreground">Cost per payee</div>
+                <div className="text-2xl font-bold">{formatPayeeCost(total.costPerPayee)}</div>
+              </div>
+            </div>
+
+            {monthlyBudget && (
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span>This month</span>
+                  <span className={currentMonthSpend > monthlyBudget ? 'text-destructive font-medium' : ''}>
+                    {formatCost(currentMonthSpend)} of {formatCost(monthlyBudget)}
+                  </span>
+                </div>
+                <Progress value={budgetUsed} />
+              </div>
+            )}
+
+            <SpendTable title="By month" rows={summary.byMonth} />
+            <SpendTable title="By model" rows={summary.byModel} />
+            <SpendTable title="By job" rows={summary.byJob} />
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SpendDashboard;
@@ -8,6 +8,9 @@ import DirectDatabaseDownload from '@/components/batch/DirectDatabaseDownload';
 import { Badge } from '@/components/ui/badge';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { useToast } from '@/hooks/use-toast';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { isNameComponentExportEnabled, setNameComponentExportEnabled } from '@/lib/rowMapping/nameComponents';
 
 interface UnifiedDownloadCenterProps {
   jobs: BatchJob[];
@@ -24,8 +27,14 @@ const UnifiedDownloadCenter = ({
 }: UnifiedDownloadCenterProps) => {
   const [downloadingJobs, setDownloadingJobs] = useState<Set<string>>(new Set());
   const [deletingJobs, setDeletingJobs] = useState<Set<string>>(new Set());
+  const [includeNameComponents, setIncludeNameComponents] = useState(isNameComponentExportEnabled);
   const { toast } = useToast();
 
+  const handleNameComponentsChange = (checked: boolean) => {
+    setNameComponentExportEnabled(checked);
+    setIncludeNameComponents(checked);
+  };
+
   // Filter jobs that are available for download
   const downloadableJobs = jobs.filter(job => 
     job.status === 'completed' && 
@@ -128,6 +137,16 @@ const UnifiedDownloadCenter = ({
         <p className="text-sm text-muted-foreground">
           Download results from completed jobs
         </p>
+        <div className="flex items-center space-x-2 pt-2">
+          <Switch
+            id="exportNameComponents"
+            checked={includeNameComponents}
+            onCheckedChange={handleNameComponentsChange}
+          />
+          <Label htmlFor="exportNameComponents" className="text-sm">
+            Include parsed name columns (prefix, first, middle, last, suffix, additional parties / corporation name, legal type)
+          </Label>
+        </div>
       </CardHeader>
       <CardContent>
         <div className="space-y-3">
@@ -29,13 +29,14 @@ const DuplicateReviewModal = ({
   if (!duplicateGroup) return null;
 
   const getMethodIcon = (method: string) => {
-    if (method === 'AI Judgment') return <Brain className="h-4 w-4" />;
+    if (method === 'AI Judgment' || method === 'AI Judgment Failed') return <Brain className="h-4 w-4" />;
     return <BarChart3 className="h-4 w-4" />;
   };
 
   const getMethodBadgeColor = (method: string) => {
     switch (method) {
       case 'AI Judgment': return 'bg-purple-500';
+      case 'AI Judgment Failed': return 'bg-red-500';
       case 'Algorithmic - High Confidence': return 'bg-green-500';
       default: return 'bg-blue-500';
     }
@@ -1,9 +1,11 @@
 
 import React, { useMemo, useEffect } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { FileText, Upload, Play, TestTube, Users, Eye, Activity, BarChart3, Download } from "lucide-react";
+import { FileText, Upload, Play, TestTube, Users, Eye, Activity, BarChart3, Download, ClipboardCheck } from "lucide-react";
 import SingleClassificationForm from "@/components/SingleClassificationForm";
 import HealthCheckPanel from "@/components/testing/HealthCheckPanel";
+import GoldSetEvaluationPanel from "@/components/testing/GoldSetEvaluationPanel";
+import LocalModelPanel from "@/components/testing/LocalModelPanel";
 import ImplementationSummary from "@/components/testing/ImplementationSummary";
 import { EmergencyRecoveryPanel } from "@/components/debug/EmergencyRecoveryPanel";
 import BreadcrumbNavigation from "@/components/ui/breadcrumb-navigation";
@@ -15,8 +17,16 @@ import CodeQualityDashboard from "@/components/quality/CodeQualityDashboard";
 
 import SmartFileUpload from "@/components/SmartFileUpload";
 import KeywordExclusionManager from "@/components/KeywordExclusionManager";
+import ClassificationRuleManager from "@/components/rules/ClassificationRuleManager";
 import BatchJobManagerContainer from "@/components/batch/BatchJobManagerContainer";
+import SpendDashboard from "@/components/batch/SpendDashboard";
 import UnifiedDownloadCenter from "@/components/download/UnifiedDownloadCenter";
+import ReviewQueuePanel from "@/components/review/ReviewQueuePanel";
+import ConsistencyReportPanel from "@/components/review/ConsistencyReportPanel";
+import ClassificationCacheSettingsCard from "@/components/upload/ClassificationCacheSettingsCard";
+import EnsembleSettingsCard from "@/components/upload/EnsembleSettingsCard";
+import FewShotSettingsCard from "@/components/upload/FewShotSettingsCard";
+import PromptTemplateManager from "@/components/prompts/PromptTemplateManager";
 
 
 import OptimizedVirtualizedTable from "@/components/table/OptimizedVirtualizedTable";
@@ -106,7 +116,12 @@ const MainTabs = React.memo(({ allResults, onComplete, onJobDelete }: MainTabsPr
       const newBatchJob = await createBatchJob(
         payeeRowData.uniquePayeeNames,
         `Payee classification for ${payeeRowData.uniquePayeeNames.length} payees`,
-        jobName
+        jobName,
+        {
+          promptTemplateId: batchJob?.metadata?.prompt_version_id,
+          model: batchJob?.metadata?.model,
+          packSize: batchJob?.metadata?.pack_size
+        }
       );
       
       // Add to the batch job store
@@ -117,6 +132,12 @@ const MainTabs = React.memo(({ allResults, onComplete, onJobDelete }: MainTabsPr
       const { EnhancedBatchJobOperations } = await import('@/lib/database/enhancedBatchJobOperations');
       await EnhancedBatchJobOperations.saveBatchJobIntelligently(newBatchJob, payeeRowData);
       
+      // Jobs resolved entirely from stored overrides complete immediately
+      if (newBatchJob.status === 'completed') {
+        const { AutomaticResultProcessor } = await import('@/lib/services/automaticResultProcessor');
+        await AutomaticResultProcessor.processCompletedBatch(newBatchJob);
+      }
+      
       showSuccess(
         "Batch Job Created Successfully!",
         `Processing ${payeeRowData.uniquePayeeNames.length} payees`,
@@ -198,6 +219,7 @@ const MainTabs = React.memo(({ allResults, onComplete, onJobDelete }: MainTabsPr
         upload: 'File Upload',
         jobs: 'Batch Jobs',
         downloads: 'Download Center',
+        review: 'Review Queue',
         keywords: 'Keyword Management',
         health: 'System Health',
         quality: 'Code Quality'
@@ -220,7 +242,7 @@ const MainTabs = React.memo(({ allResults, onComplete, onJobDelete }: MainTabsPr
       />
       
       <Tabs value={activeTab} onValueChange={handleTabChange} className="w-full">
-        <TabsList className="grid w-full grid-cols-7" role="tablist">
+        <TabsList className="grid w-full grid-cols-8" role="tablist">
           <TabsTrigger 
             value="single" 
             className="flex items-center gap-2"
@@ -253,6 +275,14 @@ const MainTabs = React.memo(({ allResults, onComplete, onJobDelete }: MainTabsPr
             <Download className="h-4 w-4" />
             Downloads
           </TabsTrigger>
+          <TabsTrigger 
+            value="review" 
+            className="flex items-center gap-2"
+            aria-label="Review Queue"
+          >
+            <ClipboardCheck className="h-4 w-4" />
+            Review
+          </TabsTrigger>
           <TabsTrigger 
             value="keywords" 
             className="flex items-center gap-2"
@@ -292,7 +322,7 @@ const MainTabs = React.memo(({ allResults, onComplete, onJobDelete }: MainTabsPr
               <SingleClassificationForm onClassify={handleSingleClassify} />
             </TabsContent>
 
-            <TabsContent value="upload" className="mt-6" role="tabpanel">
+            <TabsContent value="upload" className="mt-6 space-y-6" role="tabpanel">
               <SmartFileUpload 
                 onBatchJobCreated={handleBatchJobCreated}
                 onProcessingComplete={(results, summary, jobId) => {
@@ -302,10 +332,15 @@ const MainTabs = React.memo(({ allResults, onComplete, onJobDelete }: MainTabsPr
                   setTimeout(() => setActiveTab('jobs'), 1500);
                 }}
               />
+              <ClassificationCacheSettingsCard />
+              <EnsembleSettingsCard />
+              <FewShotSettingsCard />
+              <PromptTemplateManager />
             </TabsContent>
 
-            <TabsContent value="jobs" className="mt-6" role="tabpanel">
+            <TabsContent value="jobs" className="mt-6 space-y-6" role="tabpanel">
               <BatchJobManagerContainer />
+              <SpendDashboard />
             </TabsContent>
 
             <TabsContent value="downloads" className="mt-6" role="tabpanel">
@@ -329,7 +364,13 @@ const MainTabs = React.memo(({ allResults, onComplete, onJobDelete }: MainTabsPr
               />
             </TabsContent>
 
-            <TabsContent value="keywords" className="mt-6" role="tabpanel">
+            <TabsContent value="review" className="mt-6 space-y-6" role="tabpanel">
+              <ReviewQueuePanel />
+              <ConsistencyReportPanel />
+            </TabsContent>
+
+            <TabsContent value="keywords" className="mt-6 space-y-6" role="tabpanel">
+              <ClassificationRuleManager />
               <KeywordExclusionManager />
             </TabsContent>
 
@@ -337,6 +378,8 @@ const MainTabs = React.memo(({ allResults, onComplete, onJobDelete }: MainTabsPr
               <div className="space-y-6">
                 <ImplementationSummary />
                 <HealthCheckPanel />
+                <GoldSetEvaluationPanel />
+                <LocalModelPanel />
                 <EmergencyRecoveryPanel />
               </div>
             </TabsContent>
@@ -0,0 +1,249 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FileCode, Loader2, Save, Star } from "lucide-react";
+import { usePromptTemplates } from "@/hooks/usePromptTemplates";
+import {
+  extractTemplateVariables,
+  formatPromptVersion,
+  PROMPT_PREVIEW_VALUES,
+  PROMPT_PURPOSE_LABELS,
+  PROMPT_RUNTIME_VARIABLES,
+  PromptPurpose,
+  PromptTemplate,
+  renderPromptTemplate,
+  validatePromptTemplate
+} from "@/lib/openai/promptTemplates";
+
+interface TemplateDraft {
+  templateKey?: string;
+  name: string;
+  systemPrompt: string;
+  userPrompt: string;
+  variables: Record<string, string>;
+  notes: string;
+}
+
+function toDraft(template: PromptTemplate): TemplateDraft {
+  return {
+    // Built-in templates cannot gain versions; editing one starts a new template
+    templateKey: template.builtIn ? undefined : template.templateKey,
+    name: template.builtIn ? `${template.name} (custom)` : template.name,
+    systemPrompt: template.systemPrompt,
+    userPrompt: template.userPrompt,
+    variables: { ...template.variables },
+    notes: ''
+  };
+}
+
+const PromptTemplateManager = () => {
+  const [purpose, setPurpose] = useState<PromptPurpose>('batch_classification');
+  const { templates, defaultId, loading, saving, saveVersion, setDefault } = usePromptTemplates(purpose);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+
+  const selected = templates.find(t => t.id === (selectedId || defaultId)) || templates[0];
+  const editing = draft || (selected ? toDraft(selected) : null);
+
+  const runtimeVariables = PROMPT_RUNTIME_VARIABLES[purpose];
+  const templateVariables = editing
+    ? extractTemplateVariables(`${editing.systemPrompt}\n${editing.userPrompt}`).filter(name => !runtimeVariables.includes(name))
+    : [];
+  const draftTemplate = editing ? {
+    ...editing,
+    purpose,
+    // Only variables the prompt still uses are kept
+    variables: Object.fromEntries(templateVariables.map(name => [name, editing.variables[name] ?? '']))
+  } : null;
+  const validationError = draftTemplate ? validatePromptTemplate(draftTemplate) : null;
+  const preview = draftTemplate && !validationError
+    ? renderPromptTemplate({ ...draftTemplate, id: 'preview', templateKey: 'preview', version: 0, builtIn: false }, PROMPT_PREVIEW_VALUES)
+    : null;
+
+  const updateDraft = (changes: Partial<TemplateDraft>) => {
+    if (!editing) return;
+    setDraft({ ...editing, ...changes });
+  };
+
+  const selectTemplate = (id: string) => {
+    setSelectedId(id);
+    setDraft(null);
+  };
+
+  const changePurpose = (value: PromptPurpose) => {
+    setPurpose(value);
+    setSelectedId(null);
+    setDraft(null);
+  };
+
+  const handleSave = async () => {
+    if (!draftTemplate) return;
+    const saved = await saveVersion({ ...draftTemplate, notes: draftTemplate.notes || null });
+    if (saved) {
+      setSelectedId(saved.id);
+      setDraft(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileCode className="h-5 w-5" />
+          Prompt Templates
+        </CardTitle>
+        <CardDescription>
+          Every saved edit becomes a new version, and jobs and results record the version they were
+          classified with. Batch jobs can choose a version when they are created; other calls use the default.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label>Used For</Label>
+            <Select value={purpose} onValueChange={(value) => changePurpose(value as PromptPurpose)}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(PROMPT_PURPOSE_LABELS) as PromptPurpose[]).map(value => (
+                  <SelectItem key={value} value={value}>{PROMPT_PURPOSE_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Version</Label>
+            <Select value={selected?.id} onValueChange={selectTemplate} disabled={loading}>
+              <SelectTrigger className="w-80">
+                <SelectValue placeholder="Loading templates..." />
+              </SelectTrigger>
+              <SelectContent>
+                {templates.map(template => (
+                  <SelectItem key={template.id} value={template.id}>
+                    {formatPromptVersion(template)}{template.id === defaultId ? ' (default)' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {selected && (
+            <Button
+              variant="outline"
+              disabled={selected.id === defaultId}
+              onClick={() => setDefault(selected)}
+            >
+              <Star className="h-4 w-4 mr-2" />
+              {selected.id === defaultId ? 'Default' : 'Make Default'}
+            </Button>
+          )}
+        </div>
+
+        {selected && (
+          <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+            {selected.builtIn && <Badge variant="secondary">Built-in</Badge>}
+            <span className="font-mono">{selected.id}</span>
+            {selected.createdBy && <span>by {selected.createdBy}</span>}
+            {selected.notes && <span>· {selected.notes}</span>}
+          </div>
+        )}
+
+        {loading || !editing ? (
+          <div className="flex items-center justify-center p-8">
+            <Loader2 className="h-8 w-8 animate-spin" />
+            <span className="ml-2">Loading prompt templates...</span>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="prompt-name">Template Name</Label>
+                <Input
+                  id="prompt-name"
+                  value={editing.name}
+                  onChange={(e) => updateDraft({ name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="prompt-notes">Change Notes</Label>
+                <Input
+                  id="prompt-notes"
+                  placeholder="What changed in this version"
+                  value={editing.notes}
+                  onChange={(e) => updateDraft({ notes: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="prompt-system">System Prompt</Label>
+              <Textarea
+                id="prompt-system"
+                className="min-h-[240px] font-mono text-xs"
+                value={editing.systemPrompt}
+                onChange={(e) => updateDraft({ systemPrompt: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="prompt-user">User Prompt</Label>
+              <Textarea
+                id="prompt-user"
+                className="min-h-[80px] font-mono text-xs"
+                value={editing.userPrompt}
+                onChange={(e) => updateDraft({ userPrompt: e.target.value })}
+              />
+              <p className="text-xs text-muted-foreground">
+                Filled in per call: {runtimeVariables.map(name => `{{${name}}}`).join(', ')}. Any other
+                {' {{variable}} '}gets its value below.
+              </p>
+            </div>
+
+            {templateVariables.map(name => (
+              <div key={name} className="space-y-2">
+                <Label htmlFor={`prompt-variable-${name}`}>
+                  Variable <span className="font-mono">{`{{${name}}}`}</span>
+                </Label>
+                <Textarea
+                  id={`prompt-variable-${name}`}
+                  className="min-h-[80px] font-mono text-xs"
+                  value={editing.variables[name] ?? ''}
+                  onChange={(e) => updateDraft({ variables: { ...editing.variables, [name]: e.target.value } })}
+                />
+              </div>
+            ))}
+
+            {validationError ? (
+              <p className="text-sm text-destructive">{validationError}</p>
+            ) : preview && (
+              <div className="space-y-2">
+                <Label>Preview</Label>
+                <pre className="max-h-80 overflow-auto rounded-md bg-muted p-4 text-xs whitespace-pre-wrap">
+                  {`[system]\n${preview.system}\n\n[user]\n${preview.user}`}
+                </pre>
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button onClick={handleSave} disabled={saving || !draft || Boolean(validationError)}>
+                {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                {editing.templateKey ? 'Save as New Version' : 'Save as New Template'}
+              </Button>
+              {draft && (
+                <Button variant="outline" onClick={() => setDraft(null)} disabled={saving}>
+                  Discard Changes
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PromptTemplateManager;
@@ -0,0 +1,43 @@
+import { useEffect } from "react";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { usePromptTemplates } from "@/hooks/usePromptTemplates";
+import { formatPromptVersion, PromptPurpose } from "@/lib/openai/promptTemplates";
+
+interface PromptTemplateSelectProps {
+  purpose: PromptPurpose;
+  value: string | undefined;
+  onChange: (templateId: string) => void;
+  disabled?: boolean;
+}
+
+const PromptTemplateSelect = ({ purpose, value, onChange, disabled }: PromptTemplateSelectProps) => {
+  const { templates, defaultId, loading } = usePromptTemplates(purpose);
+
+  // Start from the default version until the user picks one
+  useEffect(() => {
+    if (!value && defaultId) {
+      onChange(defaultId);
+    }
+  }, [value, defaultId, onChange]);
+
+  return (
+    <div className="space-y-2">
+      <Label>Prompt Template</Label>
+      <Select value={value} onValueChange={onChange} disabled={disabled || loading}>
+        <SelectTrigger className="w-full md:w-96">
+          <SelectValue placeholder={loading ? "Loading templates..." : "Choose a prompt template"} />
+        </SelectTrigger>
+        <SelectContent>
+          {templates.map(template => (
+            <SelectItem key={template.id} value={template.id}>
+              {formatPromptVersion(template)}{template.id === defaultId ? ' (default)' : ''}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+export default PromptTemplateSelect;
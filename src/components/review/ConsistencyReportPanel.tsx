@@ -0,0 +1,141 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { GitCompare, Loader2, RefreshCw } from "lucide-react";
+import { useConsistencyReport } from "@/hooks/useConsistencyReport";
+
+const CONFLICT_LABELS = {
+  classification: 'Classification',
+  sic: 'SIC code'
+};
+
+const ConsistencyReportPanel = () => {
+  const {
+    groups,
+    reviewer,
+    setReviewer,
+    loading,
+    resolvingKey,
+    refresh,
+    resolve
+  } = useConsistencyReport();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitCompare className="h-5 w-5" />
+          Cross-Batch Consistency
+        </CardTitle>
+        <CardDescription>
+          Payees classified differently in different batches. Choosing the canonical answer updates every
+          affected row, remembers it as an override and regenerates the affected jobs' files.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="consistencyReviewer">Reviewer</Label>
+            <Input
+              id="consistencyReviewer"
+              placeholder="Your name"
+              value={reviewer}
+              onChange={(e) => setReviewer(e.target.value)}
+              className="w-48"
+            />
+          </div>
+          <Button variant="outline" size="sm" onClick={refresh} disabled={loading}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Rescan
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center p-8">
+            <Loader2 className="h-8 w-8 animate-spin" />
+            <span className="ml-2">Scanning saved classifications...</span>
+          </div>
+        ) : groups.length === 0 ? (
+          <p className="text-muted-foreground text-center py-8">
+            No payees have conflicting answers across batches.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Payee</TableHead>
+                <TableHead>Conflict</TableHead>
+                <TableHead>Answers</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {groups.map(group => (
+                <TableRow key={group.key}>
+                  <TableCell className="align-top">
+                    <div className="font-medium">{group.payeeNames[0]}</div>
+                    {group.payeeNames.length > 1 && (
+                      <div className="text-xs text-muted-foreground">
+                        also {group.payeeNames.slice(1, 4).join(', ')}{group.payeeNames.length > 4 ? '…' : ''}
+                      </div>
+                    )}
+                    <div className="text-xs text-muted-foreground">
+                      {group.rowIds.length} rows in {group.batchIds.length} batches
+                    </div>
+                  </TableCell>
+                  <TableCell className="align-top">
+                    <div className="flex flex-wrap gap-1">
+                      {group.conflicts.map(conflict => (
+                        <Badge key={conflict} variant="destructive">{CONFLICT_LABELS[conflict]}</Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="space-y-2">
+                      {group.answers.map(answer => (
+                        <div key={answer.key} className="flex items-center justify-between gap-4">
+                          <div className="text-sm">
+                            <span className="font-medium">{answer.entityType}</span>
+                            {answer.sicCode && (
+                              <span className="font-mono ml-2">{answer.sicCode}</span>
+                            )}
+                            {answer.sicDescription && (
+                              <span className="text-muted-foreground ml-1">{answer.sicDescription}</span>
+                            )}
+                            <div className="text-xs text-muted-foreground">
+                              {answer.rowCount} rows · {answer.batchIds.length} batches · avg {answer.averageConfidence}%
+                            </div>
+                          </div>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={!reviewer.trim() || resolvingKey === group.key}
+                            onClick={() => resolve(group, answer)}
+                          >
+                            {resolvingKey === group.key ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              'Use this'
+                            )}
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {!reviewer.trim() && groups.length > 0 && (
+          <p className="text-sm text-muted-foreground">Enter your name to choose canonical answers.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ConsistencyReportPanel;
@@ -0,0 +1,264 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ClipboardCheck, Check, Pencil, Loader2, RefreshCw } from "lucide-react";
+import { useReviewQueue } from "@/hooks/useReviewQueue";
+import { ClassificationReview, ReviewStatus } from "@/lib/database/reviewQueueService";
+import { ENTITY_TYPES, normalizeEntityType } from "@/lib/classification/entityTaxonomy";
+import { EntityType } from "@/lib/types";
+
+const STATUS_LABELS: Record<ReviewStatus | 'all', string> = {
+  pending: 'Pending',
+  accepted: 'Accepted',
+  overridden: 'Overridden',
+  all: 'All'
+};
+
+const ReviewQueuePanel = () => {
+  const {
+    reviews,
+    statusFilter,
+    setStatusFilter,
+    reviewer,
+    setReviewer,
+    loading,
+    savingId,
+    refresh,
+    submitDecision
+  } = useReviewQueue();
+
+  const [overriding, setOverriding] = useState<ClassificationReview | null>(null);
+  const [entityType, setEntityType] = useState<EntityType>('Business');
+  const [sicCode, setSicCode] = useState("");
+  const [sicDescription, setSicDescription] = useState("");
+  const [reason, setReason] = useState("");
+
+  const openOverride = (review: ClassificationReview) => {
+    setOverriding(review);
+    setEntityType(normalizeEntityType(review.original_entity_type, review.original_classification));
+    setSicCode(review.original_sic_code || "");
+    setSicDescription(review.original_sic_description || "");
+    setReason("");
+  };
+
+  const handleOverride = async () => {
+    if (!overriding) return;
+    const saved = await submitDecision(overriding, {
+      action: 'override',
+      entityType,
+      sicCode,
+      sicDescription,
+      reason
+    });
+    if (saved) {
+      setOverriding(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5" />
+          Review Queue
+        </CardTitle>
+        <CardDescription>
+          Low-confidence classifications waiting for a human decision. Reviewed values are used in downloads.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="reviewerName">Reviewer</Label>
+            <Input
+              id="reviewerName"
+              placeholder="Your name"
+              value={reviewer}
+              onChange={(e) => setReviewer(e.target.value)}
+              className="w-48"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Status</Label>
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as ReviewStatus | 'all')}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(STATUS_LABELS) as Array<ReviewStatus | 'all'>).map(status => (
+                  <SelectItem key={status} value={status}>{STATUS_LABELS[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button variant="outline" size="sm" onClick={refresh} disabled={loading}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center p-8">
+            <Loader2 className="h-8 w-8 animate-spin" />
+            <span className="ml-2">Loading review queue...</span>
+          </div>
+        ) : reviews.length === 0 ? (
+          <p className="text-muted-foreground text-center py-8">
+            No {statusFilter === 'all' ? '' : STATUS_LABELS[statusFilter].toLowerCase() + ' '}reviews.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Payee</TableHead>
+                <TableHead>Classification</TableHead>
+                <TableHead>Confidence</TableHead>
+                <TableHead>SIC</TableHead>
+                <TableHead>Review</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {reviews.map(review => (
+                <TableRow key={review.id}>
+                  <TableCell className="font-medium">{review.payee_name}</TableCell>
+                  <TableCell>
+                    {review.status === 'overridden' ? (
+                      <span>
+                        <span className="line-through text-muted-foreground mr-1">
+                          {review.original_entity_type || review.original_classification}
+                        </span>
+                        {review.reviewed_entity_type || review.reviewed_classification}
+                      </span>
+                    ) : (
+                      review.original_entity_type || review.original_classification
+                    )}
+                  </TableCell>
+                  <TableCell>{Math.round(review.original_confidence)}%</TableCell>
+                  <TableCell className="font-mono text-sm">
+                    {(review.status === 'pending' ? review.original_sic_code : review.reviewed_sic_code) || '-'}
+                  </TableCell>
+                  <TableCell>
+                    {review.status === 'pending' ? (
+                      <Badge variant="outline">Pending</Badge>
+                    ) : (
+                      <div className="text-xs text-muted-foreground">
+                        <Badge variant={review.status === 'accepted' ? 'secondary' : 'default'}>
+                          {STATUS_LABELS[review.status]}
+                        </Badge>
+                        <div className="mt-1">
+                          {review.reviewer} · {review.reviewed_at ? new Date(review.reviewed_at).toLocaleString() : ''}
+                        </div>
+                        {review.review_reason && <div className="italic">{review.review_reason}</div>}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {review.status === 'pending' && (
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={!reviewer.trim() || savingId === review.id}
+                          onClick={() => submitDecision(review, { action: 'accept' })}
+                        >
+                          {savingId === review.id ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <Check className="h-4 w-4" />
+                          )}
+                          Accept
+                        </Button>
+                        <Button
+                          size="sm"
+                          disabled={!reviewer.trim() || savingId === review.id}
+                          onClick={() => openOverride(review)}
+                        >
+                          <Pencil className="h-4 w-4" />
+                          Override
+                        </Button>
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {!reviewer.trim() && reviews.some(review => review.status === 'pending') && (
+          <p className="text-sm text-muted-foreground">Enter your name to accept or override classifications.</p>
+        )}
+      </CardContent>
+
+      <Dialog open={overriding !== null} onOpenChange={(open) => !open && setOverriding(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Override Classification</DialogTitle>
+            <DialogDescription>{overriding?.payee_name}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Entity Type</Label>
+              <Select value={entityType} onValueChange={(value) => setEntityType(value as EntityType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ENTITY_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{type}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {entityType !== 'Individual' && (
+              <div className="grid grid-cols-3 gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="overrideSicCode">SIC Code</Label>
+                  <Input
+                    id="overrideSicCode"
+                    placeholder="e.g. 7372"
+                    value={sicCode}
+                    onChange={(e) => setSicCode(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2 col-span-2">
+                  <Label htmlFor="overrideSicDescription">SIC Description</Label>
+                  <Input
+                    id="overrideSicDescription"
+                    value={sicDescription}
+                    onChange={(e) => setSicDescription(e.target.value)}
+                  />
+                </div>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="overrideReason">Reason</Label>
+              <Textarea
+                id="overrideReason"
+                placeholder="Why is the original classification wrong?"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOverriding(null)}>Cancel</Button>
+            <Button onClick={handleOverride} disabled={!reason.trim() || savingId === overriding?.id}>
+              Save Override
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default ReviewQueuePanel;
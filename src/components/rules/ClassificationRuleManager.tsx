@@ -0,0 +1,342 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Edit, ListChecks, Loader2, Plus, Save, Trash, X } from "lucide-react";
+import { useClassificationRules } from "@/hooks/useClassificationRules";
+import { ENTITY_TYPES, toBinaryClassification } from "@/lib/classification/entityTaxonomy";
+import {
+  ClassificationRule,
+  ClassificationRuleInput,
+  ClassificationRuleMatchType,
+  RULE_MATCH_TYPE_LABELS,
+  validateClassificationRule
+} from "@/lib/classification/customRules";
+import ConfirmationDialog from "@/components/ConfirmationDialog";
+import ClassificationRuleTester from "./ClassificationRuleTester";
+
+// Radix Select items cannot have an empty value
+const NO_ENTITY_TYPE = 'none';
+
+const PATTERN_PLACEHOLDERS: Record<ClassificationRuleMatchType, string> = {
+  regex: "e.g. \\bDDS\\b|\\bDMD\\b",
+  token: "e.g. FAMILY DENTAL",
+  prefix: "e.g. CITY OF",
+  suffix: "e.g. PLLC",
+  word_count: "e.g. 2, 2-3 or 4+"
+};
+
+const EMPTY_RULE: ClassificationRuleInput = {
+  name: '',
+  match_type: 'token',
+  pattern: '',
+  classification: 'Business',
+  entity_type: null,
+  sic_code: null,
+  sic_description: null,
+  confidence: 90,
+  priority: 100
+};
+
+function toInput(rule: ClassificationRule): ClassificationRuleInput {
+  const { name, match_type, pattern, classification, entity_type, sic_code, sic_description, confidence, priority } = rule;
+  return { name, match_type, pattern, classification, entity_type, sic_code, sic_description, confidence, priority };
+}
+
+const ClassificationRuleManager = () => {
+  const { rules, loading, saving, addRule, updateRule, toggleRule, deleteRule } = useClassificationRules();
+  const [draft, setDraft] = useState<ClassificationRuleInput>(EMPTY_RULE);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<ClassificationRule | null>(null);
+
+  const validationError = draft.name.trim() || draft.pattern.trim() ? validateClassificationRule(draft) : null;
+  const isBusiness = draft.classification === 'Business';
+
+  const updateDraft = (changes: Partial<ClassificationRuleInput>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+  };
+
+  const resetForm = () => {
+    setDraft(EMPTY_RULE);
+    setEditingId(null);
+  };
+
+  const handleSubmit = async () => {
+    const saved = editingId ? await updateRule(editingId, draft) : await addRule(draft);
+    if (saved) {
+      resetForm();
+    }
+  };
+
+  const handleEdit = (rule: ClassificationRule) => {
+    setDraft(toInput(rule));
+    setEditingId(rule.id);
+  };
+
+  const handleDelete = async (rule: ClassificationRule) => {
+    await deleteRule(rule);
+    if (editingId === rule.id) {
+      resetForm();
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin" />
+        <span className="ml-2">Loading classification rules...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ListChecks className="h-5 w-5" />
+            Custom Classification Rules
+          </CardTitle>
+          <CardDescription>
+            Rules are checked before every built-in tier, right after reviewer overrides. When several rules
+            match, the one with the highest priority decides the result.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="rule-name">Rule Name</Label>
+              <Input
+                id="rule-name"
+                placeholder="e.g. Dental practices"
+                value={draft.name}
+                onChange={(e) => updateDraft({ name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Match Type</Label>
+              <Select
+                value={draft.match_type}
+                onValueChange={(value) => updateDraft({ match_type: value as ClassificationRuleMatchType })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(RULE_MATCH_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-pattern">Pattern</Label>
+              <Input
+                id="rule-pattern"
+                className="font-mono"
+                placeholder={PATTERN_PLACEHOLDERS[draft.match_type]}
+                value={draft.pattern}
+                onChange={(e) => updateDraft({ pattern: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Classification</Label>
+              <Select
+                value={draft.classification}
+                onValueChange={(value) => updateDraft({
+                  classification: value as 'Business' | 'Individual',
+                  entity_type: null,
+                  sic_code: value === 'Business' ? draft.sic_code : null,
+                  sic_description: value === 'Business' ? draft.sic_description : null
+                })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="Business">Business</SelectItem>
+                  <SelectItem value="Individual">Individual</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Entity Type (optional)</Label>
+              <Select
+                value={draft.entity_type || NO_ENTITY_TYPE}
+                onValueChange={(value) => updateDraft({ entity_type: value === NO_ENTITY_TYPE ? null : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_ENTITY_TYPE}>Detect from name</SelectItem>
+                  {ENTITY_TYPES.filter(type => toBinaryClassification(type) === draft.classification).map(type => (
+                    <SelectItem key={type} value={type}>{type}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rule-confidence">Confidence</Label>
+                <Input
+                  id="rule-confidence"
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={draft.confidence}
+                  onChange={(e) => updateDraft({ confidence: Number(e.target.value) })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-priority">Priority</Label>
+                <Input
+                  id="rule-priority"
+                  type="number"
+                  value={draft.priority}
+                  onChange={(e) => updateDraft({ priority: Number(e.target.value) })}
+                />
+              </div>
+            </div>
+            {isBusiness && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="rule-sic-code">SIC Code (optional)</Label>
+                  <Input
+                    id="rule-sic-code"
+                    placeholder="e.g. 8021"
+                    value={draft.sic_code || ''}
+                    onChange={(e) => updateDraft({ sic_code: e.target.value || null })}
+                  />
+                </div>
+                <div className="space-y-2 md:col-span-2">
+                  <Label htmlFor="rule-sic-description">SIC Description (optional)</Label>
+                  <Input
+                    id="rule-sic-description"
+                    placeholder="e.g. Offices and Clinics of Dentists"
+                    value={draft.sic_description || ''}
+                    onChange={(e) => updateDraft({ sic_description: e.target.value || null })}
+                  />
+                </div>
+              </>
+            )}
+          </div>
+
+          {validationError && (
+            <p className="text-sm text-destructive">{validationError}</p>
+          )}
+
+          <div className="flex gap-2">
+            <Button
+              onClick={handleSubmit}
+              disabled={saving || !draft.name.trim() || !draft.pattern.trim() || Boolean(validationError)}
+            >
+              {saving ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : editingId ? (
+                <Save className="h-4 w-4 mr-2" />
+              ) : (
+                <Plus className="h-4 w-4 mr-2" />
+              )}
+              {editingId ? 'Save Rule' : 'Add Rule'}
+            </Button>
+            {editingId && (
+              <Button variant="outline" onClick={resetForm} disabled={saving}>
+                <X className="h-4 w-4 mr-2" />
+                Cancel
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <ClassificationRuleTester rules={rules} />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Current Rules</CardTitle>
+          <CardDescription>
+            {rules.length} rules, {rules.filter(rule => rule.is_active).length} active. Disabled rules are kept
+            but never applied.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {rules.length === 0 ? (
+            <p className="text-muted-foreground text-center py-8">No custom rules yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Active</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Match</TableHead>
+                  <TableHead>Result</TableHead>
+                  <TableHead>Priority</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map(rule => (
+                  <TableRow key={rule.id} className={rule.is_active ? undefined : 'opacity-60'}>
+                    <TableCell>
+                      <Switch
+                        checked={rule.is_active}
+                        disabled={saving}
+                        onCheckedChange={() => toggleRule(rule)}
+                        aria-label={`Toggle rule ${rule.name}`}
+                      />
+                    </TableCell>
+                    <TableCell className="font-medium">{rule.name}</TableCell>
+                    <TableCell>
+                      <div className="text-xs text-muted-foreground">{RULE_MATCH_TYPE_LABELS[rule.match_type]}</div>
+                      <div className="font-mono text-sm">{rule.pattern}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={rule.classification === 'Business' ? 'default' : 'secondary'}>
+                        {rule.entity_type || rule.classification}
+                      </Badge>
+                      <span className="ml-2 text-sm">{rule.confidence}%</span>
+                      {rule.sic_code && (
+                        <div className="text-xs text-muted-foreground">
+                          SIC {rule.sic_code}{rule.sic_description ? ` ${rule.sic_description}` : ''}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>{rule.priority}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button size="sm" variant="outline" disabled={saving} onClick={() => handleEdit(rule)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button size="sm" variant="outline" disabled={saving} onClick={() => setPendingDelete(rule)}>
+                          <Trash className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <ConfirmationDialog
+        isOpen={pendingDelete !== null}
+        onOpenChange={(open) => !open && setPendingDelete(null)}
+        title="Delete Rule"
+        description={`Delete the rule "${pendingDelete?.name}"? Payees it matched will fall through to the built-in tiers.`}
+        confirmText="Delete"
+        variant="destructive"
+        onConfirm={() => pendingDelete && handleDelete(pendingDelete)}
+      />
+    </div>
+  );
+};
+
+export default ClassificationRuleManager;
@@ -0,0 +1,74 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { TestTube } from "lucide-react";
+import { ClassificationRule, findMatchingClassificationRules, RULE_MATCH_TYPE_LABELS } from "@/lib/classification/customRules";
+
+interface ClassificationRuleTesterProps {
+  rules: ClassificationRule[];
+}
+
+const ClassificationRuleTester = ({ rules }: ClassificationRuleTesterProps) => {
+  const [testPayeeName, setTestPayeeName] = useState("");
+
+  const matches = testPayeeName.trim() ? findMatchingClassificationRules(rules, testPayeeName) : [];
+  const [winner] = matches;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <TestTube className="h-5 w-5" />
+          Test Classification Rules
+        </CardTitle>
+        <CardDescription>
+          Test a payee name against the active rules to see which ones match and which one would decide the result.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <Label htmlFor="rule-test-payee">Test Payee Name</Label>
+          <Input
+            id="rule-test-payee"
+            placeholder="Enter payee name to test (e.g., 'Smith Family Dental')"
+            value={testPayeeName}
+            onChange={(e) => setTestPayeeName(e.target.value)}
+          />
+        </div>
+
+        {testPayeeName.trim() && (
+          <Alert className={winner ? "border-green-200 bg-green-50" : "border-gray-200 bg-gray-50"}>
+            <AlertDescription>
+              {winner ? (
+                <div className="space-y-2">
+                  <p>
+                    <strong>Result:</strong> {winner.entity_type || winner.classification} ({winner.confidence}%)
+                    {winner.sic_code && ` · SIC ${winner.sic_code}`} from rule "{winner.name}"
+                  </p>
+                  {matches.length > 1 && (
+                    <div>
+                      <strong>Also matched (lower priority):</strong>
+                      <ul className="list-disc ml-5">
+                        {matches.slice(1).map(rule => (
+                          <li key={rule.id}>
+                            {rule.name} — {RULE_MATCH_TYPE_LABELS[rule.match_type]} "{rule.pattern}", priority {rule.priority}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <p>No active rule matches. The built-in classification tiers would decide this payee.</p>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ClassificationRuleTester;
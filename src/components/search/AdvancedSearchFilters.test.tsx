@@ -4,6 +4,7 @@ import { updateFilterValue, type FilterCriteria } from './AdvancedSearchFilters'
 const baseFilters: FilterCriteria = {
   searchTerm: '',
   classification: 'all',
+  entityType: 'all',
   sicCode: '',
   confidenceRange: [0, 100],
   dateRange: { start: null, end: null },
@@ -28,6 +29,14 @@ describe('updateFilterValue', () => {
     updateFilterValue(baseFilters, 'classification', 456);
   });
 
+  it('updates entityType', () => {
+    const updated = updateFilterValue(baseFilters, 'entityType', 'Government');
+    expect(updated.entityType).toBe('Government');
+    expectTypeOf(updated.entityType).toBeString();
+    // @ts-expect-error value must be string
+    updateFilterValue(baseFilters, 'entityType', 7);
+  });
+
   it('updates sicCode', () => {
     const updated = updateFilterValue(baseFilters, 'sicCode', '7372');
     expect(updated.sicCode).toBe('7372');
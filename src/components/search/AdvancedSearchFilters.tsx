@@ -7,10 +7,12 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { cn } from '@/lib/utils';
+import { ENTITY_TYPES } from '@/lib/classification/entityTaxonomy';
 
 export interface FilterCriteria {
   searchTerm: string;
   classification: string;
+  entityType: string;
   sicCode: string;
   confidenceRange: [number, number];
   dateRange: {
@@ -60,6 +62,7 @@ const AdvancedSearchFilters = ({
     let count = 0;
     if (filters.searchTerm) count++;
     if (filters.classification && filters.classification !== 'all') count++;
+    if (filters.entityType && filters.entityType !== 'all') count++;
     if (filters.sicCode) count++;
     if (filters.confidenceRange[0] > 0 || filters.confidenceRange[1] < 100) count++;
     if (filters.dateRange.start || filters.dateRange.end) count++;
@@ -145,6 +148,21 @@ const AdvancedSearchFilters = ({
             </SelectContent>
           </Select>
 
+          <Select
+            value={filters.entityType}
+            onValueChange={(value) => updateFilter('entityType', value)}
+          >
+            <SelectTrigger className="w-44">
+              <SelectValue placeholder="Entity" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Entities</SelectItem>
+              {ENTITY_TYPES.map(entityType => (
+                <SelectItem key={entityType} value={entityType}>{entityType}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
           <Select
             value={filters.isDuplicate?.toString() || 'all'}
             onValueChange={(value) => updateFilter('isDuplicate', value === 'all' ? null : value === 'true')}
@@ -283,6 +301,16 @@ const AdvancedSearchFilters = ({
               </Badge>
             )}
             
+            {filters.entityType && filters.entityType !== 'all' && (
+              <Badge variant="outline" className="flex items-center gap-1">
+                Entity: {filters.entityType}
+                <X 
+                  className="h-3 w-3 cursor-pointer"
+                  onClick={() => updateFilter('entityType', 'all')}
+                />
+              </Badge>
+            )}
+            
             {filters.sicCode && (
               <Badge variant="outline" className="flex items-center gap-1">
                 SIC: {filters.sicCode}
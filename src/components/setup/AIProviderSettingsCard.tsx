@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Server } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  AIProviderSettings,
+  AIProviderType,
+  DEFAULT_PROVIDER_SETTINGS,
+  getActiveProviderSettings,
+  saveProviderSettings,
+  clearProviderSettings
+} from "@/lib/openai/providers";
+
+interface AIProviderSettingsCardProps {
+  onProviderSet?: () => void;
+}
+
+const PROVIDER_LABELS: Record<AIProviderType, string> = {
+  'openai': 'OpenAI',
+  'azure-openai': 'Azure OpenAI',
+  'openai-compatible': 'OpenAI-compatible (vLLM, LiteLLM)',
+  'ollama': 'Ollama'
+};
+
+const AIProviderSettingsCard = ({ onProviderSet }: AIProviderSettingsCardProps) => {
+  const [settings, setSettings] = useState<AIProviderSettings>(
+    () => getActiveProviderSettings() || DEFAULT_PROVIDER_SETTINGS['openai']
+  );
+  const [apiKey, setApiKey] = useState("");
+  const { toast } = useToast();
+
+  const update = (changes: Partial<AIProviderSettings>) => {
+    setSettings(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleTypeChange = (type: AIProviderType) => {
+    setSettings({ ...DEFAULT_PROVIDER_SETTINGS[type] });
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      if (settings.type === 'openai') {
+        clearProviderSettings();
+      } else {
+        saveProviderSettings({ ...settings, apiKey: apiKey.trim() || undefined });
+      }
+      setApiKey("");
+      toast({
+        title: "Provider Saved",
+        description: `Classification will use ${PROVIDER_LABELS[settings.type]}${settings.type !== 'openai' ? ` (${settings.model})` : ''}.`,
+      });
+      if (settings.type !== 'openai') {
+        onProviderSet?.();
+      }
+    } catch (error) {
+      toast({
+        title: "Provider Error",
+        description: error instanceof Error ? error.message : "Failed to save provider settings.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const isCustom = settings.type !== 'openai';
+
+  return (
+    <Card className="max-w-md mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Server className="h-5 w-5" />
+          AI Provider
+        </CardTitle>
+        <CardDescription>
+          Use OpenAI, or point classification at Azure OpenAI or a self-hosted model.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSave} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="providerType">Provider</Label>
+            <Select value={settings.type} onValueChange={(value) => handleTypeChange(value as AIProviderType)}>
+              <SelectTrigger id="providerType">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(PROVIDER_LABELS) as AIProviderType[]).map(type => (
+                  <SelectItem key={type} value={type}>{PROVIDER_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isCustom && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="providerBaseUrl">
+                  {settings.type === 'azure-openai' ? 'Resource Endpoint' : 'Base URL'}
+                </Label>
+                <Input
+                  id="providerBaseUrl"
+                  placeholder={settings.type === 'azure-openai' ? 'https://my-resource.openai.azure.com/' : 'http://localhost:8000/v1'}
+                  value={settings.baseURL || ''}
+                  onChange={(e) => update({ baseURL: e.target.value })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="providerModel">Model</Label>
+                <Input
+                  id="providerModel"
+                  value={settings.model}
+                  onChange={(e) => update({ model: e.target.value })}
+                />
+              </div>
+
+              {settings.type === 'azure-openai' && (
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="providerDeployment">Deployment</Label>
+                    <Input
+                      id="providerDeployment"
+                      placeholder="e.g. payee-classifier"
+                      value={settings.deployment || ''}
+                      onChange={(e) => update({ deployment: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="providerApiVersion">API Version</Label>
+                    <Input
+                      id="providerApiVersion"
+                      value={settings.apiVersion || ''}
+                      onChange={(e) => update({ apiVersion: e.target.value })}
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="providerApiKey">API Key (optional for self-hosted)</Label>
+                <Input
+                  id="providerApiKey"
+                  type="password"
+                  placeholder={settings.apiKeyToken ? 'Saved - leave blank to keep' : ''}
+                  value={apiKey}
+                  onChange={(e) => setApiKey(e.target.value)}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="providerAuthHeader">Custom Auth Header (optional)</Label>
+                <Input
+                  id="providerAuthHeader"
+                  placeholder="e.g. api-key"
+                  value={settings.authHeader || ''}
+                  onChange={(e) => update({ authHeader: e.target.value || undefined })}
+                />
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="providerSupportsBatch"
+                  checked={settings.supportsBatchAPI ?? false}
+                  onChange={(e) => update({ supportsBatchAPI: e.target.checked })}
+                  className="rounded border-gray-300"
+                />
+                <Label htmlFor="providerSupportsBatch" className="text-sm">
+                  Endpoint supports the Batch API
+                </Label>
+              </div>
+            </>
+          )}
+
+          <Button type="submit" className="w-full" variant={isCustom ? "default" : "outline"}>
+            {isCustom ? "Use This Provider" : "Use OpenAI"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AIProviderSettingsCard;
@@ -1,6 +1,7 @@
 
 import OpenAIKeySetup from "@/components/OpenAIKeySetup";
 import AppHeader from "@/components/layout/AppHeader";
+import AIProviderSettingsCard from "@/components/setup/AIProviderSettingsCard";
 
 interface ApiKeySetupPageProps {
   onKeySet: () => void;
@@ -15,8 +16,9 @@ const ApiKeySetupPage = ({ onKeySet }: ApiKeySetupPageProps) => {
       />
 
       <main className="container px-4 pb-8">
-        <div className="max-w-2xl mx-auto">
+        <div className="max-w-2xl mx-auto space-y-6">
           <OpenAIKeySetup onKeySet={onKeySet} />
+          <AIProviderSettingsCard onProviderSet={onKeySet} />
         </div>
       </main>
     </div>
@@ -2,6 +2,7 @@
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
 import { PayeeClassification } from "@/lib/types";
+import { formatBatchError } from "@/lib/openai/batchErrors";
 import ClassificationBadge from "../ClassificationBadge";
 
 interface DetailsModalProps {
@@ -33,6 +34,13 @@ const DetailsModal = ({ selectedResult, onClose }: DetailsModalProps) => {
                 <ClassificationBadge confidence={selectedResult.result.confidence} />
               </div>
               
+              {selectedResult.result.entityType && (
+                <div className="flex justify-between">
+                  <span className="font-medium">Entity Type:</span>
+                  <span>{selectedResult.result.entityType}</span>
+                </div>
+              )}
+              
               <div className="flex justify-between">
                 <span className="font-medium">Processing Tier:</span>
                 <span>{selectedResult.result.processingTier}</span>
@@ -54,6 +62,15 @@ const DetailsModal = ({ selectedResult, onClose }: DetailsModalProps) => {
                 </div>
               )}
               
+              {selectedResult.result.batchError && (
+                <div>
+                  <h4 className="font-medium mb-1">Batch Error:</h4>
+                  <div className="bg-red-50 p-2 rounded border border-red-200 text-sm text-red-800">
+                    {formatBatchError(selectedResult.result.batchError)}
+                  </div>
+                </div>
+              )}
+              
               <div>
                 <h4 className="font-medium mb-1">Reasoning:</h4>
                 <p className="text-sm">{selectedResult.result.reasoning}</p>
@@ -14,11 +14,13 @@ interface OptimizedVirtualizedTableProps {
 }
 
 // Simple enhanced columns without performance monitoring
-const getEnhancedColumns = (originalColumns: Array<{ key: string; label: string; isOriginal: boolean }>) => {
+const getEnhancedColumns = (originalColumns: Array<{ key: string; label: string; isOriginal: boolean }>, hasEnsemble: boolean) => {
   const classificationColumns = [
     { key: 'classification', label: 'Classification', isOriginal: false },
     { key: 'confidence', label: 'Confidence', isOriginal: false },
     { key: 'processingTier', label: 'Processing Tier', isOriginal: false },
+    // Only shown when ensemble mode produced disagreement scores
+    ...(hasEnsemble ? [{ key: 'disagreement', label: 'Disagreement', isOriginal: false }] : []),
     { key: 'details', label: 'Details', isOriginal: false }
   ];
   
@@ -34,7 +36,8 @@ const OptimizedVirtualizedTable = ({
   onViewDetails
 }: OptimizedVirtualizedTableProps) => {
   // Simple memoized columns
-  const enhancedColumns = useMemo(() => getEnhancedColumns(columns), [columns]);
+  const hasEnsemble = useMemo(() => results.some(result => result.result.ensemble), [results]);
+  const enhancedColumns = useMemo(() => getEnhancedColumns(columns, hasEnsemble), [columns, hasEnsemble]);
 
   // Early return for empty results
   if (results.length === 0) {
@@ -40,6 +40,18 @@ const TableCell = React.memo(({ result, column, onViewDetails }: TableCellProps)
         return <ClassificationBadge confidence={result.result.confidence} />;
       case 'processingTier':
         return result.result.processingTier || 'N/A';
+      case 'disagreement': {
+        const ensemble = result.result.ensemble;
+        if (!ensemble) return '-';
+        return (
+          <Badge
+            variant={ensemble.flagged ? 'destructive' : 'outline'}
+            title={ensemble.votes.map(vote => `${vote.voter}: ${vote.classification} ${vote.confidence}%`).join(', ')}
+          >
+            {ensemble.disagreementScore}%{ensemble.flagged ? ' - Review' : ''}
+          </Badge>
+        );
+      }
       case 'reasoning':
         return (
           <div className="max-w-xs truncate" title={result.result.reasoning}>
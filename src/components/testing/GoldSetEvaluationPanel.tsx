@@ -0,0 +1,233 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Target, Play } from 'lucide-react';
+import {
+  EvaluationClassifier,
+  EvaluationDiff,
+  EvaluationLabel,
+  EvaluationReport,
+  GoldSetEntry,
+  diffEvaluationReports,
+  loadPreviousEvaluation,
+  loadRecordedResults,
+  parseGoldSetCSV,
+  runEvaluation,
+  saveEvaluation
+} from '@/lib/testing/goldSetEvaluation';
+
+const CLASSIFIER_LABELS: Record<EvaluationClassifier, string> = {
+  'final': 'Full pipeline (classifyPayee)',
+  'offline': 'Offline heuristics',
+  'rule-based': 'Rule-based only',
+  'local-model': 'Active local n-gram model',
+  'recorded': 'Recorded AI outputs'
+};
+
+const LABELS: EvaluationLabel[] = ['Business', 'Individual', 'Unclassified'];
+
+const formatDelta = (delta: number) => `${delta > 0 ? '+' : ''}${delta}`;
+
+const GoldSetEvaluationPanel = () => {
+  const [goldSet, setGoldSet] = useState<GoldSetEntry[]>([]);
+  const [goldSetName, setGoldSetName] = useState('');
+  const [parseErrors, setParseErrors] = useState<string[]>([]);
+  const [classifier, setClassifier] = useState<EvaluationClassifier>('rule-based');
+  const [recordedBatchId, setRecordedBatchId] = useState('');
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [report, setReport] = useState<EvaluationReport | null>(null);
+  const [diff, setDiff] = useState<EvaluationDiff | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const { entries, errors } = parseGoldSetCSV(await file.text());
+    setGoldSet(entries);
+    setGoldSetName(file.name);
+    setParseErrors(errors);
+    setReport(null);
+    setDiff(null);
+  };
+
+  const handleRun = async () => {
+    setError(null);
+    setProgress({ completed: 0, total: goldSet.length });
+    try {
+      const recordedResults = classifier === 'recorded'
+        ? await loadRecordedResults(recordedBatchId.trim())
+        : undefined;
+      const current = await runEvaluation(goldSet, {
+        classifier,
+        goldSetName,
+        recordedResults,
+        onProgress: (completed, total) => setProgress({ completed, total })
+      });
+      const previous = loadPreviousEvaluation(goldSetName, classifier);
+      setDiff(previous ? diffEvaluationReports(previous, current) : null);
+      setReport(current);
+      saveEvaluation(current);
+    } catch (err) {
+      console.error('Gold set evaluation failed:', err);
+      setError(err instanceof Error ? err.message : 'Evaluation failed');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const canRun = goldSet.length > 0 && !progress && (classifier !== 'recorded' || recordedBatchId.trim() !== '');
+
+  return (
+    <Card className="w-full max-w-4xl mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Target className="h-5 w-5" />
+          Accuracy Evaluation
+        </CardTitle>
+        <CardDescription>
+          Score a labeled gold set (CSV with payee name, expected class and optional SIC code) against a classifier.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="goldSetFile">Gold set</Label>
+            <Input id="goldSetFile" type="file" accept=".csv" onChange={handleFile} />
+          </div>
+          <div className="space-y-2">
+            <Label>Classifier</Label>
+            <Select value={classifier} onValueChange={(value) => setClassifier(value as EvaluationClassifier)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(CLASSIFIER_LABELS) as EvaluationClassifier[]).map(type => (
+                  <SelectItem key={type} value={type}>{CLASSIFIER_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={handleRun} disabled={!canRun}>
+            <Play className="h-4 w-4 mr-2" />
+            Run {goldSet.length > 0 ? `(${goldSet.length} payees)` : ''}
+          </Button>
+        </div>
+
+        {classifier === 'recorded' && (
+          <div className="space-y-2">
+            <Label htmlFor="recordedBatchId">Batch ID with recorded outputs</Label>
+            <Input
+              id="recordedBatchId"
+              placeholder="batch_..."
+              value={recordedBatchId}
+              onChange={(e) => setRecordedBatchId(e.target.value)}
+            />
+          </div>
+        )}
+
+        {parseErrors.length > 0 && (
+          <Alert>
+            <AlertDescription>
+              {parseErrors.length} rows skipped: {parseErrors.slice(0, 3).join('; ')}
+              {parseErrors.length > 3 ? '…' : ''}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {progress && (
+          <Progress value={progress.total > 0 ? (progress.completed / progress.total) * 100 : 0} />
+        )}
+
+        {report && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+              <div>
+                <div className="text-2xl font-bold">{report.accuracy}%</div>
+                <div className="text-xs text-muted-foreground">Accuracy ({report.correct}/{report.total})</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{report.business.precision}% / {report.business.recall}%</div>
+                <div className="text-xs text-muted-foreground">Business precision / recall</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{report.sic.exactMatchRate}%</div>
+                <div className="text-xs text-muted-foreground">SIC exact ({report.sic.evaluated} labeled)</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{report.sic.majorGroupMatchRate}%</div>
+                <div className="text-xs text-muted-foreground">SIC major group</div>
+              </div>
+            </div>
+
+            {diff && (
+              <Alert>
+                <AlertDescription>
+                  Since {new Date(diff.previousRunAt).toLocaleString()}: accuracy {formatDelta(diff.accuracyDelta)} pts,
+                  SIC exact {formatDelta(diff.sicExactMatchDelta)} pts, major group {formatDelta(diff.sicMajorGroupMatchDelta)} pts.
+                  {' '}{diff.newlyCorrect.length} newly correct, {diff.newlyIncorrect.length} newly incorrect
+                  {diff.newlyIncorrect.length > 0 ? ` (${diff.newlyIncorrect.slice(0, 5).join(', ')}${diff.newlyIncorrect.length > 5 ? '…' : ''})` : ''}.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Expected \ Predicted</TableHead>
+                  {LABELS.map(label => <TableHead key={label}>{label}</TableHead>)}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(['Business', 'Individual'] as const).map(expected => (
+                  <TableRow key={expected}>
+                    <TableCell className="font-medium">{expected}</TableCell>
+                    {LABELS.map(label => (
+                      <TableCell key={label}>{report.confusionMatrix[expected][label]}</TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tier</TableHead>
+                  <TableHead>Payees</TableHead>
+                  <TableHead>Accuracy</TableHead>
+                  <TableHead>Business P / R</TableHead>
+                  <TableHead>Individual P / R</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {Object.entries(report.tiers).map(([tier, metrics]) => (
+                  <TableRow key={tier}>
+                    <TableCell className="font-medium">{tier}</TableCell>
+                    <TableCell>{metrics.count}</TableCell>
+                    <TableCell>{metrics.accuracy}%</TableCell>
+                    <TableCell>{metrics.business.precision}% / {metrics.business.recall}%</TableCell>
+                    <TableCell>{metrics.individual.precision}% / {metrics.individual.recall}%</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default GoldSetEvaluationPanel;
@@ -0,0 +1,189 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Brain, RefreshCw } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  LocalModelSettings,
+  MIN_TRAINING_SAMPLES,
+  NgramModelRecord,
+  activateNgramModel,
+  getLocalModelSettings,
+  loadNgramModelRecords,
+  saveLocalModelSettings,
+  trainAndSaveNgramModel
+} from '@/lib/database/ngramModelService';
+
+const LocalModelPanel = () => {
+  const [records, setRecords] = useState<NgramModelRecord[]>([]);
+  const [settings, setSettings] = useState<LocalModelSettings>(getLocalModelSettings);
+  const [trainedBy, setTrainedBy] = useState('');
+  const [isTraining, setIsTraining] = useState(false);
+  const { toast } = useToast();
+
+  const refresh = async () => {
+    setRecords(await loadNgramModelRecords());
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleTrain = async () => {
+    setIsTraining(true);
+    const result = await trainAndSaveNgramModel(trainedBy);
+    setIsTraining(false);
+
+    if (!result.success || !result.record) {
+      toast({
+        title: "Training Failed",
+        description: result.error || "Failed to train the local model.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const { record } = result;
+    toast({
+      title: `Model v${record.version} Active`,
+      description: record.confidence_threshold === null
+        ? `Trained on ${record.sample_count} payees, but the holdout set was too small to calibrate; AI is still used for every payee.`
+        : `Trained on ${record.sample_count} payees with ${record.holdout_accuracy}% holdout accuracy. Predictions at ${record.confidence_threshold}%+ skip AI.`,
+    });
+    await refresh();
+  };
+
+  const handleActivate = async (version: number) => {
+    const result = await activateNgramModel(version);
+    if (!result.success) {
+      toast({
+        title: "Activation Failed",
+        description: result.error || "Failed to activate the model.",
+        variant: "destructive",
+      });
+      return;
+    }
+    await refresh();
+  };
+
+  const handleSaveSettings = () => {
+    try {
+      setSettings(saveLocalModelSettings(settings));
+      toast({
+        title: "Local Model Settings Saved",
+        description: settings.enabled
+          ? `Confident local predictions (at least ${settings.minConfidence}%) skip AI.`
+          : "Every unresolved payee will be sent to AI.",
+      });
+    } catch (error) {
+      toast({
+        title: "Local Model Settings Error",
+        description: error instanceof Error ? error.message : "Failed to save settings.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-4xl mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Brain className="h-5 w-5" />
+          Local Classification Model
+        </CardTitle>
+        <CardDescription>
+          Character n-gram model trained on reviewed payees. Confident predictions skip OpenAI.
+          At least {MIN_TRAINING_SAMPLES} reviewed payees are needed to train.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="localModelEnabled"
+              checked={settings.enabled}
+              onCheckedChange={(checked) => setSettings(prev => ({ ...prev, enabled: checked }))}
+            />
+            <Label htmlFor="localModelEnabled">Use local model before AI</Label>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="localModelMinConfidence">Minimum confidence (%)</Label>
+            <Input
+              id="localModelMinConfidence"
+              type="number"
+              min={0}
+              max={100}
+              value={settings.minConfidence}
+              disabled={!settings.enabled}
+              onChange={(e) => setSettings(prev => ({ ...prev, minConfidence: Number(e.target.value) }))}
+            />
+          </div>
+          <Button variant="outline" size="sm" onClick={handleSaveSettings}>
+            Save Settings
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="localModelTrainedBy">Trained by</Label>
+            <Input
+              id="localModelTrainedBy"
+              placeholder="Your name"
+              value={trainedBy}
+              onChange={(e) => setTrainedBy(e.target.value)}
+            />
+          </div>
+          <Button onClick={handleTrain} disabled={isTraining}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isTraining ? 'animate-spin' : ''}`} />
+            {isTraining ? 'Training...' : 'Train New Version'}
+          </Button>
+        </div>
+
+        {records.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Version</TableHead>
+                <TableHead>Samples</TableHead>
+                <TableHead>Holdout accuracy</TableHead>
+                <TableHead>Skip-AI threshold</TableHead>
+                <TableHead>Trained</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {records.map(record => (
+                <TableRow key={record.id}>
+                  <TableCell className="font-medium">v{record.version}</TableCell>
+                  <TableCell>{record.sample_count}</TableCell>
+                  <TableCell>{record.holdout_accuracy !== null ? `${record.holdout_accuracy}%` : '—'}</TableCell>
+                  <TableCell>{record.confidence_threshold !== null ? `${record.confidence_threshold}%` : 'Not calibrated'}</TableCell>
+                  <TableCell>
+                    {new Date(record.created_at).toLocaleDateString()}
+                    {record.trained_by ? ` by ${record.trained_by}` : ''}
+                  </TableCell>
+                  <TableCell>
+                    {record.is_active ? (
+                      <Badge>Active</Badge>
+                    ) : (
+                      <Button variant="ghost" size="sm" onClick={() => handleActivate(record.version)}>
+                        Activate
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LocalModelPanel;
@@ -0,0 +1,110 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Calculator } from 'lucide-react';
+import { getActiveModel } from '@/lib/openai/providers';
+import { PromptTemplate } from '@/lib/openai/promptTemplates';
+import { resolvePromptTemplate } from '@/lib/database/promptTemplateService';
+import { getFewShotSettings } from '@/lib/database/fewShotExampleService';
+import { estimateBatchCostForModels, formatCost, formatMinutes } from '@/lib/openai/costEstimator';
+
+interface BatchCostEstimateProps {
+  payeeNames: string[];
+  promptTemplateId?: string;
+  packSize?: number;
+  model: string | undefined;
+  onModelChange: (model: string) => void;
+  disabled?: boolean;
+}
+
+const BatchCostEstimate = ({ payeeNames, promptTemplateId, packSize, model, onModelChange, disabled }: BatchCostEstimateProps) => {
+  const [template, setTemplate] = useState<PromptTemplate | null>(null);
+  const activeModel = getActiveModel();
+  const fewShotSettings = getFewShotSettings();
+  // Upper bound: fewer examples are used when few reviewed payees are available
+  const fewShotExampleCount = fewShotSettings.enabled ? fewShotSettings.exampleCount : 0;
+
+  useEffect(() => {
+    let cancelled = false;
+    resolvePromptTemplate('batch_classification', promptTemplateId).then(resolved => {
+      if (!cancelled) setTemplate(resolved);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [promptTemplateId]);
+
+  // Start from the active provider's model until the user picks one
+  useEffect(() => {
+    if (!model) {
+      onModelChange(activeModel);
+    }
+  }, [model, activeModel, onModelChange]);
+
+  const estimates = useMemo(
+    () => template ? estimateBatchCostForModels(payeeNames, template, activeModel, fewShotExampleCount, packSize) : [],
+    [payeeNames, template, activeModel, fewShotExampleCount, packSize]
+  );
+
+  if (payeeNames.length === 0 || estimates.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label className="flex items-center gap-2">
+        <Calculator className="h-4 w-4" />
+        Estimated cost for {payeeNames.length.toLocaleString()} unique payees
+      </Label>
+      <RadioGroup value={model} onValueChange={onModelChange} disabled={disabled}>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Model</TableHead>
+              <TableHead className="text-right">Input tokens</TableHead>
+              <TableHead className="text-right">Output tokens</TableHead>
+              <TableHead className="text-right">Batch cost</TableHead>
+              <TableHead className="text-right">Duration</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {estimates.map(estimate => (
+              <TableRow key={estimate.model}>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value={estimate.model} id={`model-${estimate.model}`} />
+                    <Label htmlFor={`model-${estimate.model}`} className="font-normal">
+                      {estimate.label}
+                      {estimate.model === activeModel && (
+                        <span className="ml-2 text-xs text-muted-foreground">(current provider)</span>
+                      )}
+                    </Label>
+                  </div>
+                </TableCell>
+                <TableCell className="text-right">{estimate.inputTokens.toLocaleString()}</TableCell>
+                <TableCell className="text-right">
+                  {estimate.outputTokens.toLocaleString()}
+                  <div className="text-xs text-muted-foreground">max {estimate.maxOutputTokens.toLocaleString()}</div>
+                </TableCell>
+                <TableCell className="text-right font-medium">
+                  {formatCost(estimate.estimatedCost)}
+                  {estimate.maxCost !== null && (
+                    <div className="text-xs text-muted-foreground">max {formatCost(estimate.maxCost)}</div>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">{formatMinutes(estimate.expectedMinutes)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </RadioGroup>
+      <p className="text-xs text-muted-foreground">
+        Estimates assume every payee is submitted. Payees resolved by overrides, cached results or the local
+        model are not sent, so the actual bill can only be lower. Batches are guaranteed to finish within 24 hours.
+      </p>
+    </div>
+  );
+};
+
+export default BatchCostEstimate;
@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { History } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  ClassificationCacheSettings,
+  getClassificationCacheSettings,
+  saveClassificationCacheSettings
+} from "@/lib/database/classificationCacheService";
+
+const ClassificationCacheSettingsCard = () => {
+  const [settings, setSettings] = useState<ClassificationCacheSettings>(getClassificationCacheSettings);
+  const { toast } = useToast();
+
+  const update = (changes: Partial<ClassificationCacheSettings>) => {
+    setSettings(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleSave = () => {
+    try {
+      setSettings(saveClassificationCacheSettings(settings));
+      toast({
+        title: "Cache Settings Saved",
+        description: settings.enabled
+          ? `Reusing results from the last ${settings.maxAgeDays} days at ${settings.minConfidence}%+ confidence.`
+          : "Every payee will be sent for classification.",
+      });
+    } catch (error) {
+      toast({
+        title: "Cache Settings Error",
+        description: error instanceof Error ? error.message : "Failed to save cache settings.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Classification Cache
+        </CardTitle>
+        <CardDescription>
+          Reuse recent high-confidence results for payees already classified in earlier batches.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center space-x-2">
+          <Switch
+            id="cacheEnabled"
+            checked={settings.enabled}
+            onCheckedChange={(checked) => update({ enabled: checked })}
+          />
+          <Label htmlFor="cacheEnabled">Skip payees with cached results</Label>
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="cacheMaxAgeDays">Freshness window (days)</Label>
+            <Input
+              id="cacheMaxAgeDays"
+              type="number"
+              min={1}
+              value={settings.maxAgeDays}
+              disabled={!settings.enabled}
+              onChange={(e) => update({ maxAgeDays: Number(e.target.value) })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="cacheMinConfidence">Minimum confidence (%)</Label>
+            <Input
+              id="cacheMinConfidence"
+              type="number"
+              min={0}
+              max={100}
+              value={settings.minConfidence}
+              disabled={!settings.enabled}
+              onChange={(e) => update({ minConfidence: Number(e.target.value) })}
+            />
+          </div>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleSave}>
+          Save Cache Settings
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ClassificationCacheSettingsCard;
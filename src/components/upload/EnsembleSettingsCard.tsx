@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Scale } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { EnsembleVoter } from "@/lib/types";
+import {
+  ENSEMBLE_VOTER_LABELS,
+  EnsembleSettings,
+  getEnsembleSettings,
+  saveEnsembleSettings
+} from "@/lib/classification/ensembleClassification";
+
+const EnsembleSettingsCard = () => {
+  const [settings, setSettings] = useState<EnsembleSettings>(getEnsembleSettings);
+  const { toast } = useToast();
+
+  const updateWeight = (voter: EnsembleVoter, weight: number) => {
+    setSettings(prev => ({ ...prev, weights: { ...prev.weights, [voter]: weight } }));
+  };
+
+  const handleSave = () => {
+    try {
+      setSettings(saveEnsembleSettings(settings));
+      toast({
+        title: "Ensemble Settings Saved",
+        description: settings.enabled
+          ? `AI results are re-weighed against every tier; ${settings.disagreementThreshold}%+ disagreement is flagged for review.`
+          : "Batch results use the AI classification directly.",
+      });
+    } catch (error) {
+      toast({
+        title: "Ensemble Settings Error",
+        description: error instanceof Error ? error.message : "Failed to save ensemble settings.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scale className="h-5 w-5" />
+          Ensemble Voting
+        </CardTitle>
+        <CardDescription>
+          Combine keyword, rule, NLP, offline, local model and AI opinions by weighted vote and flag rows where they disagree.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center space-x-2">
+          <Switch
+            id="ensembleEnabled"
+            checked={settings.enabled}
+            onCheckedChange={(checked) => setSettings(prev => ({ ...prev, enabled: checked }))}
+          />
+          <Label htmlFor="ensembleEnabled">Use ensemble voting for batch results</Label>
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+          {(Object.keys(ENSEMBLE_VOTER_LABELS) as EnsembleVoter[]).map(voter => (
+            <div key={voter} className="space-y-2">
+              <Label htmlFor={`ensembleWeight-${voter}`}>{ENSEMBLE_VOTER_LABELS[voter]} weight</Label>
+              <Input
+                id={`ensembleWeight-${voter}`}
+                type="number"
+                min={0}
+                step={0.25}
+                value={settings.weights[voter]}
+                onChange={(e) => updateWeight(voter, Number(e.target.value))}
+              />
+            </div>
+          ))}
+          <div className="space-y-2">
+            <Label htmlFor="ensembleDisagreementThreshold">Flag at disagreement (%)</Label>
+            <Input
+              id="ensembleDisagreementThreshold"
+              type="number"
+              min={0}
+              max={100}
+              value={settings.disagreementThreshold}
+              onChange={(e) => setSettings(prev => ({ ...prev, disagreementThreshold: Number(e.target.value) }))}
+            />
+          </div>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleSave}>
+          Save Ensemble Settings
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EnsembleSettingsCard;
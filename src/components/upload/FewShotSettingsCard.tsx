@@ -0,0 +1,78 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { GraduationCap } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  FewShotSettings,
+  getFewShotSettings,
+  saveFewShotSettings
+} from "@/lib/database/fewShotExampleService";
+import { MAX_FEW_SHOT_EXAMPLES } from "@/lib/openai/fewShotExamples";
+
+const FewShotSettingsCard = () => {
+  const [settings, setSettings] = useState<FewShotSettings>(getFewShotSettings);
+  const { toast } = useToast();
+
+  const handleSave = () => {
+    try {
+      setSettings(saveFewShotSettings(settings));
+      toast({
+        title: "Few-Shot Settings Saved",
+        description: settings.enabled
+          ? `Up to ${settings.exampleCount} reviewed examples are added to every AI request.`
+          : "AI requests use the prompt template alone.",
+      });
+    } catch (error) {
+      toast({
+        title: "Few-Shot Settings Error",
+        description: error instanceof Error ? error.message : "Failed to save few-shot settings.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GraduationCap className="h-5 w-5" />
+          Few-Shot Examples
+        </CardTitle>
+        <CardDescription>
+          Show the AI reviewed classifications that reviewers agree on, choosing those most similar to the
+          payees being classified. Each batch job records which examples it used.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center space-x-2">
+          <Switch
+            id="fewShotEnabled"
+            checked={settings.enabled}
+            onCheckedChange={(checked) => setSettings(prev => ({ ...prev, enabled: checked }))}
+          />
+          <Label htmlFor="fewShotEnabled">Add reviewed examples to AI prompts</Label>
+        </div>
+        <div className="space-y-2 max-w-xs">
+          <Label htmlFor="fewShotExampleCount">Examples per request (max {MAX_FEW_SHOT_EXAMPLES})</Label>
+          <Input
+            id="fewShotExampleCount"
+            type="number"
+            min={1}
+            max={MAX_FEW_SHOT_EXAMPLES}
+            value={settings.exampleCount}
+            onChange={(e) => setSettings(prev => ({ ...prev, exampleCount: Number(e.target.value) }))}
+          />
+        </div>
+        <Button variant="outline" size="sm" onClick={handleSave}>
+          Save Few-Shot Settings
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FewShotSettingsCard;
@@ -0,0 +1,32 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { DEFAULT_PACK_SIZE, MAX_PACK_SIZE, normalizePackSize } from "@/lib/openai/payeePacking";
+
+interface PackSizeInputProps {
+  value: number;
+  onChange: (packSize: number) => void;
+  disabled?: boolean;
+}
+
+const PackSizeInput = ({ value, onChange, disabled }: PackSizeInputProps) => {
+  return (
+    <div className="space-y-2 max-w-xs">
+      <Label htmlFor="packSize">Payees per request (max {MAX_PACK_SIZE})</Label>
+      <Input
+        id="packSize"
+        type="number"
+        min={DEFAULT_PACK_SIZE}
+        max={MAX_PACK_SIZE}
+        value={value}
+        onChange={(e) => onChange(normalizePackSize(Number(e.target.value)))}
+        disabled={disabled}
+      />
+      <p className="text-xs text-muted-foreground">
+        Packing several payees into each request sends the prompt once per pack instead of once per payee.
+        Payees left out of a packed answer are retried on their own.
+      </p>
+    </div>
+  );
+};
+
+export default PackSizeInput;
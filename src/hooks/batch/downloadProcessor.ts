@@ -1,5 +1,6 @@
 
-import { getBatchJobResults } from "@/lib/openai/trueBatchAPI";
+import { BatchFollowUpService } from "@/lib/services/batchFollowUpService";
+import { BatchReconciliationReport, formatReconciliationReport, isCleanReconciliation } from "@/lib/openai/batchReconciliation";
 import { processBatchResults } from "@/services/batchResultProcessor";
 import { saveClassificationResultsWithValidation } from "@/lib/database/enhancedClassificationService";
 import { productionLogger } from "@/lib/logging/productionLogger";
@@ -8,7 +9,7 @@ import { DownloadContext } from "./downloadTypes";
 export async function processDownloadResults(
   context: DownloadContext,
   onProgress: (processed: number, total: number, percentage: number) => void
-): Promise<{ finalClassifications: any[]; summary: any; error?: string }> {
+): Promise<{ finalClassifications: any[]; summary: any; error?: string; reconciliation?: BatchReconciliationReport | null }> {
   const { job, payeeData, uniquePayeeNames } = context;
   
   console.log(`[BATCH DOWNLOAD] Downloading results for ${uniquePayeeNames.length} unique payees from ${payeeData.originalFileData.length} original rows`);
@@ -16,9 +17,24 @@ export async function processDownloadResults(
   // Start with initial progress
   onProgress(0, uniquePayeeNames.length, 0);
   
-  // Download raw results from OpenAI
-  const rawResults = await getBatchJobResults(job, uniquePayeeNames);
+  // Download raw results from OpenAI, matched to payees by custom_id and merged with follow-up batches
+  const merged = context.mergedResults || await BatchFollowUpService.getMergedResults(job, uniquePayeeNames);
+  if (merged.pendingChildId) {
+    return {
+      finalClassifications: [],
+      summary: null,
+      error: `Failed requests are being retried in follow-up batch ${merged.pendingChildId}. Results will be ready when it completes.`
+    };
+  }
+  const { results: rawResults, reconciliation } = merged;
   console.log(`[BATCH DOWNLOAD] Downloaded ${rawResults.length} raw results from OpenAI`);
+  if (reconciliation && !isCleanReconciliation(reconciliation)) {
+    productionLogger.warn(
+      `[BATCH DOWNLOAD] Output does not match submitted requests: ${formatReconciliationReport(reconciliation)}`,
+      reconciliation,
+      'BATCH_DOWNLOAD'
+    );
+  }
   
   // Progress after download
   onProgress(0, uniquePayeeNames.length, 10);
@@ -28,7 +44,7 @@ export async function processDownloadResults(
     rawResults,
     uniquePayeeNames,
     payeeData,
-    job,
+    merged.rootJob,
     (processed, total, percentage) => {
       // Forward progress but adjust the percentage to account for download step
       const adjustedPercentage = 10 + percentage * 0.8; // 10% to 90%
@@ -48,7 +64,7 @@ export async function processDownloadResults(
   // Final progress
   onProgress(uniquePayeeNames.length, uniquePayeeNames.length, 90);
 
-  return { finalClassifications, summary };
+  return { finalClassifications, summary, reconciliation };
 }
 
 export async function saveProcessedResults(
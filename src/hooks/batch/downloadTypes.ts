@@ -2,6 +2,7 @@
 import { BatchJob } from "@/lib/openai/trueBatchAPI";
 import { PayeeRowData } from "@/lib/rowMapping";
 import { PayeeClassification, BatchProcessingResult } from "@/lib/types";
+import { MergedBatchResults } from "@/lib/services/batchFollowUpService";
 
 export interface UseBatchJobDownloadProps {
   payeeRowDataMap: Record<string, PayeeRowData>;
@@ -13,4 +14,6 @@ export interface DownloadContext {
   payeeData: PayeeRowData;
   uniquePayeeNames: string[];
   onJobComplete: (results: PayeeClassification[], summary: BatchProcessingResult, jobId: string) => void;
+  // Results already retrieved and merged with follow-up batches; downloaded when omitted
+  mergedResults?: MergedBatchResults;
 }
@@ -1,11 +1,16 @@
 import { useState, useMemo, useCallback } from 'react';
 import { PayeeClassification } from '@/lib/types';
 import { FilterCriteria } from '@/components/search/AdvancedSearchFilters';
+import { getNameComponentColumns, isNameComponentExportEnabled } from '@/lib/rowMapping/nameComponents';
+import { parseCompositePayee } from '@/lib/dataStandardization/compositeParser';
+import { determine1099Reportability } from '@/lib/classification/form1099Rules';
+import { formatBatchError } from '@/lib/openai/batchErrors';
 
 export const useAdvancedFiltering = (data: PayeeClassification[]) => {
   const [filters, setFilters] = useState<FilterCriteria>({
     searchTerm: '',
     classification: 'all',
+    entityType: 'all',
     sicCode: '',
     confidenceRange: [0, 100],
     dateRange: {
@@ -40,6 +45,14 @@ export const useAdvancedFiltering = (data: PayeeClassification[]) => {
         }
       }
 
+      // Entity type filter
+      if (filters.entityType && filters.entityType !== 'all') {
+        const entityType = item.result?.entityType || item.result?.classification;
+        if (entityType !== filters.entityType) {
+          return false;
+        }
+      }
+
       // SIC Code filter
       if (filters.sicCode) {
         if (!item.result?.sicCode?.includes(filters.sicCode)) {
@@ -75,9 +88,9 @@ export const useAdvancedFiltering = (data: PayeeClassification[]) => {
         return true;
       }
 
-      // Error filter
+      // Error filter: failed batch requests plus rows that never got a classification
       if (filters.hasErrors !== null) {
-        const hasErrors = !item.result?.classification || item.result.confidence < 0.5;
+        const hasErrors = Boolean(item.result?.batchError) || !item.result?.classification || item.result.confidence < 0.5;
         if (hasErrors !== filters.hasErrors) {
           return false;
         }
@@ -129,6 +142,7 @@ export const useAdvancedFiltering = (data: PayeeClassification[]) => {
     setFilters({
       searchTerm: '',
       classification: 'all',
+      entityType: 'all',
       sicCode: '',
       confidenceRange: [0, 100],
       dateRange: {
@@ -150,24 +164,53 @@ export const useAdvancedFiltering = (data: PayeeClassification[]) => {
       const headers = [
         'Payee Name',
         'Classification',
+        'Entity Type',
         'Confidence',
         'SIC Code',
         'SIC Description',
         'Is Duplicate',
         'Created At',
-        'Reasoning'
+        'Reasoning',
+        'Ensemble Disagreement',
+        'Flagged for Review',
+        '1099 Status',
+        '1099 Reason',
+        'Relationship',
+        'Primary Name',
+        'Secondary Name',
+        'Error'
       ];
+      const includeNameComponents = isNameComponentExportEnabled();
+      if (includeNameComponents) {
+        headers.push('Prefix', 'First', 'Middle', 'Last', 'Suffix', 'Additional Parties', 'Corporation Name', 'Legal Type');
+      }
 
-      const csvData = filteredResults.map(item => [
-        item.payeeName || '',
-        item.result?.classification || '',
-        item.result?.confidence ? (item.result.confidence * 100).toFixed(1) + '%' : '',
-        item.result?.sicCode || '',
-        item.result?.sicDescription || '',
-        'No', // Simplified for now
-        item.timestamp ? new Date(item.timestamp).toLocaleDateString() : '',
-        item.result?.reasoning || ''
-      ]);
+      const csvData = filteredResults.map(item => {
+        const composite = parseCompositePayee(item.payeeName);
+        const form1099 = determine1099Reportability(item.payeeName, item.result);
+        return [
+          item.payeeName || '',
+          item.result?.classification || '',
+          item.result?.entityType || item.result?.classification || '',
+          item.result?.confidence ? (item.result.confidence * 100).toFixed(1) + '%' : '',
+          item.result?.sicCode || '',
+          item.result?.sicDescription || '',
+          'No', // Simplified for now
+          item.timestamp ? new Date(item.timestamp).toLocaleDateString() : '',
+          item.result?.reasoning || '',
+          item.result?.ensemble ? `${item.result.ensemble.disagreementScore}%` : '',
+          item.result?.ensemble?.flagged ? 'Yes' : 'No',
+          form1099.status,
+          form1099.reason,
+          composite?.relationship || '',
+          composite?.primaryName || '',
+          composite?.secondaryName || '',
+          item.result?.batchError ? formatBatchError(item.result.batchError) : '',
+          ...(includeNameComponents
+            ? Object.values(getNameComponentColumns(item.payeeName || '', item.result?.classification || ''))
+            : [])
+        ];
+      });
 
       const csvContent = [headers, ...csvData]
         .map(row => row.map(cell => `"${cell}"`).join(','))
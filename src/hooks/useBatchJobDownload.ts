@@ -5,9 +5,11 @@ import { PayeeRowData } from '@/lib/rowMapping';
 import { PayeeClassification, BatchProcessingResult } from '@/lib/types';
 import { EnhancedFileGenerationService } from '@/lib/services/enhancedFileGenerationService';
 import { processDownloadResults, saveProcessedResults } from '@/hooks/batch/downloadProcessor';
+import { formatReconciliationReport, isCleanReconciliation } from '@/lib/openai/batchReconciliation';
 import { useToast } from '@/hooks/use-toast';
 import { useDownloadProgress } from '@/contexts/DownloadProgressContext';
 import { AutomaticResultProcessor } from '@/lib/services/automaticResultProcessor';
+import { BatchFollowUpService } from '@/lib/services/batchFollowUpService';
 
 interface UseBatchJobDownloadProps {
   payeeRowDataMap: Record<string, PayeeRowData>;
@@ -44,12 +46,15 @@ export const useBatchJobDownload = ({
       startDownload(downloadId, filename, totalPayees);
       console.log(`[BATCH DOWNLOAD] Download progress tracking started`);
       
+      // Results of a follow-up batch are saved under the original job it retried
+      const rootJobId = await BatchFollowUpService.resolveRootBatchId(job);
+
       // ENHANCED RECOVERY: Check if results are already processed for instant download
-      console.log(`[BATCH DOWNLOAD] Checking for pre-processed results for job ${job.id}`);
-      const hasPreProcessed = await AutomaticResultProcessor.hasPreProcessedResults(job.id);
+      console.log(`[BATCH DOWNLOAD] Checking for pre-processed results for job ${rootJobId}`);
+      const hasPreProcessed = await AutomaticResultProcessor.hasPreProcessedResults(rootJobId);
       
       if (hasPreProcessed) {
-        console.log(`[BATCH DOWNLOAD] Using pre-processed results for instant download of job ${job.id}`);
+        console.log(`[BATCH DOWNLOAD] Using pre-processed results for instant download of job ${rootJobId}`);
         
         // Add a small delay to ensure progress is visible for instant downloads
         await new Promise(resolve => setTimeout(resolve, 500));
@@ -65,7 +70,7 @@ export const useBatchJobDownload = ({
         await new Promise(resolve => setTimeout(resolve, 300));
         
         // Get pre-processed results
-        const preProcessedResults = await AutomaticResultProcessor.getPreProcessedResults(job.id);
+        const preProcessedResults = await AutomaticResultProcessor.getPreProcessedResults(rootJobId);
         
         if (preProcessedResults) {
           updateDownload(downloadId, { 
@@ -189,12 +194,14 @@ export const useBatchJobDownload = ({
         total: totalPayees 
       });
 
+      const merged = await BatchFollowUpService.getMergedResults(job, payeeData.uniquePayeeNames);
       const downloadResult = await processDownloadResults(
         {
-          job,
+          job: merged.rootJob,
           payeeData,
           uniquePayeeNames: payeeData.uniquePayeeNames,
-          onJobComplete
+          onJobComplete,
+          mergedResults: merged
         },
         (processed, total, percentage) => {
           console.log(`[BATCH DOWNLOAD] Progress: ${processed}/${total} (${percentage}%)`);
@@ -221,7 +228,16 @@ export const useBatchJobDownload = ({
         return;
       }
 
-      const { finalClassifications, summary } = downloadResult;
+      const { finalClassifications, summary, reconciliation } = downloadResult;
+
+      // Unmatched output is reported before anything is saved; affected payees are saved as failed
+      if (reconciliation && !isCleanReconciliation(reconciliation)) {
+        toast({
+          title: 'Batch Output Mismatch',
+          description: formatReconciliationReport(reconciliation),
+          variant: 'destructive'
+        });
+      }
 
       // Update progress for database save
       updateDownload(downloadId, {
@@ -232,7 +248,7 @@ export const useBatchJobDownload = ({
       });
 
       // Save results to database
-      const saveResult = await saveProcessedResults(finalClassifications, job.id);
+      const saveResult = await saveProcessedResults(finalClassifications, rootJobId);
       
       if (!saveResult.success) {
         console.error('[BATCH DOWNLOAD] Database save failed:', saveResult.error);
@@ -256,13 +272,13 @@ export const useBatchJobDownload = ({
       });
 
       // Enhanced automatic file generation for instant future downloads
-      console.log(`[BATCH DOWNLOAD] Triggering enhanced file generation for job ${job.id}`);
-      const fileGenResult = await EnhancedFileGenerationService.processCompletedJob(job);
+      console.log(`[BATCH DOWNLOAD] Triggering enhanced file generation for job ${rootJobId}`);
+      const fileGenResult = await EnhancedFileGenerationService.processCompletedJob(merged.rootJob);
       
       if (fileGenResult.success) {
-        console.log(`[BATCH DOWNLOAD] Files generated successfully for job ${job.id}`);
+        console.log(`[BATCH DOWNLOAD] Files generated successfully for job ${rootJobId}`);
       } else {
-        console.warn(`[BATCH DOWNLOAD] File generation failed for job ${job.id}:`, fileGenResult.error);
+        console.warn(`[BATCH DOWNLOAD] File generation failed for job ${rootJobId}:`, fileGenResult.error);
       }
 
       // Complete the download progress
@@ -48,7 +48,7 @@ export const useBatchJobManager = () => {
     const existingJob = jobs.find(j => j.id === job.id);
     
     // Check if job just completed and trigger ENHANCED result processing and file generation
-    if (job.status === 'completed' && existingJob?.status !== 'completed' && job.output_file_id) {
+    if (job.status === 'completed' && existingJob?.status !== 'completed' && (job.output_file_id || job.error_file_id)) {
       console.log(`[BATCH JOB MANAGER] Job ${job.id} just completed, triggering enhanced automatic processing...`);
       
       // Import and trigger automatic result processing AND file generation
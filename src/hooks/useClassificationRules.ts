@@ -0,0 +1,86 @@
+import { useState, useEffect, useCallback } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { ClassificationRule, ClassificationRuleInput } from "@/lib/classification/customRules";
+import {
+  addClassificationRule,
+  deleteClassificationRule,
+  loadClassificationRules,
+  setClassificationRuleActive,
+  updateClassificationRule
+} from "@/lib/database/classificationRuleService";
+import { REVIEWER_STORAGE_KEY } from "./useReviewQueue";
+
+export const useClassificationRules = () => {
+  const [rules, setRules] = useState<ClassificationRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setRules(await loadClassificationRules());
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const runMutation = async (
+    mutation: () => Promise<{ success: boolean; error?: string }>,
+    successTitle: string,
+    successDescription: string
+  ): Promise<boolean> => {
+    setSaving(true);
+    const { success, error } = await mutation();
+    setSaving(false);
+
+    if (!success) {
+      toast({
+        title: "Rule Not Saved",
+        description: error || "Failed to save the classification rule.",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    toast({ title: successTitle, description: successDescription });
+    await refresh();
+    return true;
+  };
+
+  const addRule = (rule: ClassificationRuleInput) => runMutation(
+    () => addClassificationRule(rule, localStorage.getItem(REVIEWER_STORAGE_KEY) || undefined),
+    "Rule Added",
+    `"${rule.name}" will be applied before the built-in classification tiers.`
+  );
+
+  const updateRule = (id: string, rule: ClassificationRuleInput) => runMutation(
+    () => updateClassificationRule(id, rule),
+    "Rule Updated",
+    `"${rule.name}" has been updated.`
+  );
+
+  const toggleRule = (rule: ClassificationRule) => runMutation(
+    () => setClassificationRuleActive(rule.id, !rule.is_active),
+    rule.is_active ? "Rule Disabled" : "Rule Enabled",
+    `"${rule.name}" is now ${rule.is_active ? 'inactive' : 'active'}.`
+  );
+
+  const deleteRule = (rule: ClassificationRule) => runMutation(
+    () => deleteClassificationRule(rule.id),
+    "Rule Deleted",
+    `"${rule.name}" has been removed.`
+  );
+
+  return {
+    rules,
+    loading,
+    saving,
+    refresh,
+    addRule,
+    updateRule,
+    toggleRule,
+    deleteRule
+  };
+};
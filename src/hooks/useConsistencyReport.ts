@@ -0,0 +1,74 @@
+import { useState, useEffect, useCallback } from "react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  ConsistencyAnswer,
+  ConsistencyGroup,
+  loadConsistencyReport,
+  resolveConsistencyGroup
+} from "@/lib/database/consistencyService";
+import { REVIEWER_STORAGE_KEY } from "./useReviewQueue";
+
+export const useConsistencyReport = () => {
+  const [groups, setGroups] = useState<ConsistencyGroup[]>([]);
+  const [reviewer, setReviewerState] = useState(() => localStorage.getItem(REVIEWER_STORAGE_KEY) || '');
+  const [loading, setLoading] = useState(true);
+  const [resolvingKey, setResolvingKey] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      setGroups(await loadConsistencyReport());
+    } catch (error) {
+      console.error('Error loading consistency report:', error);
+      toast({
+        title: "Consistency Report Failed",
+        description: error instanceof Error ? error.message : "Failed to load the consistency report.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const setReviewer = (name: string) => {
+    setReviewerState(name);
+    localStorage.setItem(REVIEWER_STORAGE_KEY, name);
+  };
+
+  const resolve = async (group: ConsistencyGroup, answer: ConsistencyAnswer): Promise<boolean> => {
+    setResolvingKey(group.key);
+    const { success, error } = await resolveConsistencyGroup(group, answer, reviewer);
+    setResolvingKey(null);
+
+    if (!success) {
+      toast({
+        title: "Conflict Not Resolved",
+        description: error || "Failed to apply the canonical answer.",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    toast({
+      title: "Conflict Resolved",
+      description: `"${group.payeeNames[0]}" is now ${answer.entityType} in ${group.batchIds.length} batches. Their files will be regenerated.`,
+    });
+    setGroups(prev => prev.filter(g => g.key !== group.key));
+    return true;
+  };
+
+  return {
+    groups,
+    reviewer,
+    setReviewer,
+    loading,
+    resolvingKey,
+    refresh,
+    resolve
+  };
+};
@@ -0,0 +1,74 @@
+import { useState, useEffect, useCallback } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { PromptPurpose, PromptTemplate, formatPromptVersion } from "@/lib/openai/promptTemplates";
+import {
+  getDefaultPromptTemplateId,
+  loadPromptTemplates,
+  PromptTemplateInput,
+  savePromptTemplateVersion,
+  setDefaultPromptTemplateId
+} from "@/lib/database/promptTemplateService";
+import { REVIEWER_STORAGE_KEY } from "./useReviewQueue";
+
+export const usePromptTemplates = (purpose: PromptPurpose) => {
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [defaultId, setDefaultIdState] = useState(() => getDefaultPromptTemplateId(purpose));
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setTemplates(await loadPromptTemplates(purpose));
+    setDefaultIdState(getDefaultPromptTemplateId(purpose));
+    setLoading(false);
+  }, [purpose]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const saveVersion = async (input: PromptTemplateInput): Promise<PromptTemplate | null> => {
+    setSaving(true);
+    const { success, error, template } = await savePromptTemplateVersion(
+      input,
+      localStorage.getItem(REVIEWER_STORAGE_KEY) || undefined
+    );
+    setSaving(false);
+
+    if (!success || !template) {
+      toast({
+        title: "Template Not Saved",
+        description: error || "Failed to save the prompt template.",
+        variant: "destructive",
+      });
+      return null;
+    }
+
+    toast({
+      title: "Template Version Saved",
+      description: `${formatPromptVersion(template)} is available for new jobs.`,
+    });
+    await refresh();
+    return template;
+  };
+
+  const setDefault = (template: PromptTemplate) => {
+    setDefaultPromptTemplateId(purpose, template.id);
+    setDefaultIdState(template.id);
+    toast({
+      title: "Default Template Changed",
+      description: `${formatPromptVersion(template)} is now used unless a job chooses another version.`,
+    });
+  };
+
+  return {
+    templates,
+    defaultId,
+    loading,
+    saving,
+    refresh,
+    saveVersion,
+    setDefault
+  };
+};
@@ -0,0 +1,72 @@
+import { useState, useEffect, useCallback } from "react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  ClassificationReview,
+  ReviewDecision,
+  ReviewStatus,
+  loadReviewQueue,
+  submitReviewDecision
+} from "@/lib/database/reviewQueueService";
+
+export const REVIEWER_STORAGE_KEY = 'review_queue_reviewer';
+
+export const useReviewQueue = () => {
+  const [reviews, setReviews] = useState<ClassificationReview[]>([]);
+  const [statusFilter, setStatusFilter] = useState<ReviewStatus | 'all'>('pending');
+  const [reviewer, setReviewerState] = useState(() => localStorage.getItem(REVIEWER_STORAGE_KEY) || '');
+  const [loading, setLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setReviews(await loadReviewQueue(statusFilter));
+    setLoading(false);
+  }, [statusFilter]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const setReviewer = (name: string) => {
+    setReviewerState(name);
+    localStorage.setItem(REVIEWER_STORAGE_KEY, name);
+  };
+
+  const submitDecision = async (
+    review: ClassificationReview,
+    decision: Omit<ReviewDecision, 'reviewer'>
+  ): Promise<boolean> => {
+    setSavingId(review.id);
+    const { success, error } = await submitReviewDecision(review, { ...decision, reviewer });
+    setSavingId(null);
+
+    if (!success) {
+      toast({
+        title: "Review Not Saved",
+        description: error || "Failed to save review decision.",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    toast({
+      title: decision.action === 'accept' ? "Classification Accepted" : "Classification Overridden",
+      description: `"${review.payee_name}" has been reviewed.`,
+    });
+    await refresh();
+    return true;
+  };
+
+  return {
+    reviews,
+    statusFilter,
+    setStatusFilter,
+    reviewer,
+    setReviewer,
+    loading,
+    savingId,
+    refresh,
+    submitDecision
+  };
+};
@@ -0,0 +1,54 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  getMonthlyBudget,
+  loadSpendLedger,
+  saveMonthlyBudget,
+  SpendLedgerEntry,
+  summarizeSpend
+} from "@/lib/database/spendLedgerService";
+
+export const useSpendLedger = () => {
+  const [entries, setEntries] = useState<SpendLedgerEntry[]>([]);
+  const [monthlyBudget, setMonthlyBudgetState] = useState<number | null>(() => getMonthlyBudget());
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      setEntries(await loadSpendLedger());
+    } catch (error) {
+      console.error('Error loading spend ledger:', error);
+      toast({
+        title: "Spend Ledger Failed",
+        description: error instanceof Error ? error.message : "Failed to load AI spend.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const setMonthlyBudget = (budget: number | null) => {
+    setMonthlyBudgetState(budget && budget > 0 ? budget : null);
+    saveMonthlyBudget(budget);
+  };
+
+  const summary = useMemo(() => summarizeSpend(entries), [entries]);
+  const currentMonthKey = new Date().toISOString().slice(0, 7);
+  const currentMonth = summary.byMonth.find(month => month.key === currentMonthKey);
+
+  return {
+    summary,
+    currentMonthSpend: currentMonth?.costUsd || 0,
+    monthlyBudget,
+    setMonthlyBudget,
+    loading,
+    refresh
+  };
+};
@@ -14,6 +14,105 @@ export type Database = {
   }
   public: {
     Tables: {
+      ai_spend_ledger: {
+        Row: {
+          batch_id: string
+          completion_tokens: number
+          cost_usd: number | null
+          created_at: string
+          id: string
+          incurred_at: string
+          job_name: string | null
+          model: string
+          payee_count: number
+          prompt_tokens: number
+          request_count: number
+          total_tokens: number
+          updated_at: string
+        }
+        Insert: {
+          batch_id: string
+          completion_tokens?: number
+          cost_usd?: number | null
+          created_at?: string
+          id?: string
+          incurred_at?: string
+          job_name?: string | null
+          model: string
+          payee_count?: number
+          prompt_tokens?: number
+          request_count?: number
+          total_tokens?: number
+          updated_at?: string
+        }
+        Update: {
+          batch_id?: string
+          completion_tokens?: number
+          cost_usd?: number | null
+          created_at?: string
+          id?: string
+          incurred_at?: string
+          job_name?: string | null
+          model?: string
+          payee_count?: number
+          prompt_tokens?: number
+          request_count?: number
+          total_tokens?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      batch_job_requests: {
+        Row: {
+          batch_job_id: string
+          created_at: string
+          custom_id: string
+          id: string
+          payee_names: string[]
+        }
+        Insert: {
+          batch_job_id: string
+          created_at?: string
+          custom_id: string
+          id?: string
+          payee_names: string[]
+        }
+        Update: {
+          batch_job_id?: string
+          created_at?: string
+          custom_id?: string
+          id?: string
+          payee_names?: string[]
+        }
+        Relationships: []
+      }
+      batch_job_retries: {
+        Row: {
+          attempt: number
+          child_batch_id: string
+          created_at: string
+          id: string
+          parent_batch_id: string
+          payee_names: string[]
+        }
+        Insert: {
+          attempt: number
+          child_batch_id: string
+          created_at?: string
+          id?: string
+          parent_batch_id: string
+          payee_names: string[]
+        }
+        Update: {
+          attempt?: number
+          child_batch_id?: string
+          created_at?: string
+          id?: string
+          parent_batch_id?: string
+          payee_names?: string[]
+        }
+        Relationships: []
+      }
       batch_jobs: {
         Row: {
           app_created_at: string
@@ -107,6 +206,191 @@ export type Database = {
         }
         Relationships: []
       }
+      batch_packed_retries: {
+        Row: {
+          batch_job_id: string
+          created_at: string
+          id: string
+          payee_name: string
+          result: Json
+        }
+        Insert: {
+          batch_job_id: string
+          created_at?: string
+          id?: string
+          payee_name: string
+          result: Json
+        }
+        Update: {
+          batch_job_id?: string
+          created_at?: string
+          id?: string
+          payee_name?: string
+          result?: Json
+        }
+        Relationships: []
+      }
+      batch_reconciliation_reports: {
+        Row: {
+          batch_job_id: string
+          duplicated_ids: string[]
+          expected_count: number
+          id: string
+          matched_count: number
+          missing_ids: string[]
+          reconciled_at: string
+          unknown_ids: string[]
+          used_stored_mapping: boolean
+        }
+        Insert: {
+          batch_job_id: string
+          duplicated_ids?: string[]
+          expected_count?: number
+          id?: string
+          matched_count?: number
+          missing_ids?: string[]
+          reconciled_at?: string
+          unknown_ids?: string[]
+          used_stored_mapping?: boolean
+        }
+        Update: {
+          batch_job_id?: string
+          duplicated_ids?: string[]
+          expected_count?: number
+          id?: string
+          matched_count?: number
+          missing_ids?: string[]
+          reconciled_at?: string
+          unknown_ids?: string[]
+          used_stored_mapping?: boolean
+        }
+        Relationships: []
+      }
+      classification_reviews: {
+        Row: {
+          batch_id: string | null
+          classification_id: string
+          created_at: string
+          id: string
+          original_classification: string
+          original_confidence: number
+          original_entity_type: string | null
+          original_sic_code: string | null
+          original_sic_description: string | null
+          payee_name: string
+          review_reason: string | null
+          reviewed_at: string | null
+          reviewed_classification: string | null
+          reviewed_entity_type: string | null
+          reviewed_sic_code: string | null
+          reviewed_sic_description: string | null
+          reviewer: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          batch_id?: string | null
+          classification_id: string
+          created_at?: string
+          id?: string
+          original_classification: string
+          original_confidence: number
+          original_entity_type?: string | null
+          original_sic_code?: string | null
+          original_sic_description?: string | null
+          payee_name: string
+          review_reason?: string | null
+          reviewed_at?: string | null
+          reviewed_classification?: string | null
+          reviewed_entity_type?: string | null
+          reviewed_sic_code?: string | null
+          reviewed_sic_description?: string | null
+          reviewer?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          batch_id?: string | null
+          classification_id?: string
+          created_at?: string
+          id?: string
+          original_classification?: string
+          original_confidence?: number
+          original_entity_type?: string | null
+          original_sic_code?: string | null
+          original_sic_description?: string | null
+          payee_name?: string
+          review_reason?: string | null
+          reviewed_at?: string | null
+          reviewed_classification?: string | null
+          reviewed_entity_type?: string | null
+          reviewed_sic_code?: string | null
+          reviewed_sic_description?: string | null
+          reviewer?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "classification_reviews_classification_id_fkey"
+            columns: ["classification_id"]
+            isOneToOne: true
+            referencedRelation: "payee_classifications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      classification_rules: {
+        Row: {
+          classification: string
+          confidence: number
+          created_at: string
+          created_by: string | null
+          entity_type: string | null
+          id: string
+          is_active: boolean
+          match_type: string
+          name: string
+          pattern: string
+          priority: number
+          sic_code: string | null
+          sic_description: string | null
+          updated_at: string
+        }
+        Insert: {
+          classification: string
+          confidence?: number
+          created_at?: string
+          created_by?: string | null
+          entity_type?: string | null
+          id?: string
+          is_active?: boolean
+          match_type: string
+          name: string
+          pattern: string
+          priority?: number
+          sic_code?: string | null
+          sic_description?: string | null
+          updated_at?: string
+        }
+        Update: {
+          classification?: string
+          confidence?: number
+          created_at?: string
+          created_by?: string | null
+          entity_type?: string | null
+          id?: string
+          is_active?: boolean
+          match_type?: string
+          name?: string
+          pattern?: string
+          priority?: number
+          sic_code?: string | null
+          sic_description?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
       exclusion_keywords: {
         Row: {
           category: string | null
@@ -173,25 +457,77 @@ export type Database = {
         }
         Relationships: []
       }
+      ngram_models: {
+        Row: {
+          confidence_threshold: number | null
+          created_at: string
+          holdout_accuracy: number | null
+          id: string
+          is_active: boolean
+          model: Json
+          sample_count: number
+          trained_by: string | null
+          updated_at: string
+          version: number
+        }
+        Insert: {
+          confidence_threshold?: number | null
+          created_at?: string
+          holdout_accuracy?: number | null
+          id?: string
+          is_active?: boolean
+          model: Json
+          sample_count: number
+          trained_by?: string | null
+          updated_at?: string
+          version: number
+        }
+        Update: {
+          confidence_threshold?: number | null
+          created_at?: string
+          holdout_accuracy?: number | null
+          id?: string
+          is_active?: boolean
+          model?: Json
+          sample_count?: number
+          trained_by?: string | null
+          updated_at?: string
+          version?: number
+        }
+        Relationships: []
+      }
       payee_classifications: {
         Row: {
+          ai_cost_usd: number | null
           ai_duplicate_reasoning: string | null
           batch_id: string | null
+          cache_hit: boolean
+          cached_from_batch_id: string | null
           classification: string
+          completion_tokens: number | null
           confidence: number
           created_at: string
           duplicate_confidence_score: number | null
           duplicate_detection_method: string | null
           duplicate_group_id: string | null
           duplicate_of_payee_id: string | null
+          ensemble_disagreement: number | null
+          ensemble_flagged: boolean
+          ensemble_votes: Json | null
+          entity_type: string | null
+          error_code: string | null
+          error_message: string | null
           id: string
           is_potential_duplicate: boolean | null
           keyword_exclusion: Json | null
           matching_rules: string[] | null
+          normalized_name: string | null
           original_data: Json | null
           payee_name: string
           processing_method: string | null
           processing_tier: string
+          prompt_tokens: number | null
+          prompt_version_id: string | null
           reasoning: string
           row_index: number | null
           sic_code: string | null
@@ -200,23 +536,36 @@ export type Database = {
           updated_at: string
         }
         Insert: {
+          ai_cost_usd?: number | null
           ai_duplicate_reasoning?: string | null
           batch_id?: string | null
+          cache_hit?: boolean
+          cached_from_batch_id?: string | null
           classification: string
+          completion_tokens?: number | null
           confidence: number
           created_at?: string
           duplicate_confidence_score?: number | null
           duplicate_detection_method?: string | null
           duplicate_group_id?: string | null
           duplicate_of_payee_id?: string | null
+          ensemble_disagreement?: number | null
+          ensemble_flagged?: boolean
+          ensemble_votes?: Json | null
+          entity_type?: string | null
+          error_code?: string | null
+          error_message?: string | null
           id?: string
           is_potential_duplicate?: boolean | null
           keyword_exclusion?: Json | null
           matching_rules?: string[] | null
+          normalized_name?: string | null
           original_data?: Json | null
           payee_name: string
           processing_method?: string | null
           processing_tier: string
+          prompt_tokens?: number | null
+          prompt_version_id?: string | null
           reasoning: string
           row_index?: number | null
           sic_code?: string | null
@@ -225,23 +574,36 @@ export type Database = {
           updated_at?: string
         }
         Update: {
+          ai_cost_usd?: number | null
           ai_duplicate_reasoning?: string | null
           batch_id?: string | null
+          cache_hit?: boolean
+          cached_from_batch_id?: string | null
           classification?: string
+          completion_tokens?: number | null
           confidence?: number
           created_at?: string
           duplicate_confidence_score?: number | null
           duplicate_detection_method?: string | null
           duplicate_group_id?: string | null
           duplicate_of_payee_id?: string | null
+          ensemble_disagreement?: number | null
+          ensemble_flagged?: boolean
+          ensemble_votes?: Json | null
+          entity_type?: string | null
+          error_code?: string | null
+          error_message?: string | null
           id?: string
           is_potential_duplicate?: boolean | null
           keyword_exclusion?: Json | null
           matching_rules?: string[] | null
+          normalized_name?: string | null
           original_data?: Json | null
           payee_name?: string
           processing_method?: string | null
           processing_tier?: string
+          prompt_tokens?: number | null
+          prompt_version_id?: string | null
           reasoning?: string
           row_index?: number | null
           sic_code?: string | null
@@ -251,6 +613,104 @@ export type Database = {
         }
         Relationships: []
       }
+      payee_overrides: {
+        Row: {
+          classification: string
+          created_at: string
+          created_by: string | null
+          entity_type: string | null
+          id: string
+          normalized_name: string
+          payee_name: string
+          reason: string | null
+          sic_code: string | null
+          sic_description: string | null
+          source_review_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          classification: string
+          created_at?: string
+          created_by?: string | null
+          entity_type?: string | null
+          id?: string
+          normalized_name: string
+          payee_name: string
+          reason?: string | null
+          sic_code?: string | null
+          sic_description?: string | null
+          source_review_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          classification?: string
+          created_at?: string
+          created_by?: string | null
+          entity_type?: string | null
+          id?: string
+          normalized_name?: string
+          payee_name?: string
+          reason?: string | null
+          sic_code?: string | null
+          sic_description?: string | null
+          source_review_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payee_overrides_source_review_id_fkey"
+            columns: ["source_review_id"]
+            isOneToOne: false
+            referencedRelation: "classification_reviews"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      prompt_templates: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          notes: string | null
+          purpose: string
+          system_prompt: string
+          template_key: string
+          updated_at: string
+          user_prompt: string
+          variables: Json
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          notes?: string | null
+          purpose: string
+          system_prompt: string
+          template_key: string
+          updated_at?: string
+          user_prompt: string
+          variables?: Json
+          version: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          notes?: string | null
+          purpose?: string
+          system_prompt?: string
+          template_key?: string
+          updated_at?: string
+          user_prompt?: string
+          variables?: Json
+          version?: number
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { classifyCompositePayee, combineCompositeResults } from './compositeClassification';
+
+describe('combineCompositeResults', () => {
+  it('makes a person doing business under a trade name a sole proprietor', () => {
+    const combined = combineCompositeResults(
+      { original: 'JOHN SMITH DBA SMITH PLUMBING', primaryName: 'JOHN SMITH', secondaryName: 'SMITH PLUMBING', relationship: 'DBA' },
+      { classification: 'Individual', entityType: 'Individual', confidence: 92, reasoning: 'Given name and surname', processingTier: 'Rule-Based' },
+      { classification: 'Business', entityType: 'Business', confidence: 90, reasoning: 'Trade keyword', processingTier: 'Rule-Based', sicCode: '1711', sicDescription: 'Plumbing' }
+    );
+    expect(combined).toMatchObject({
+      classification: 'Business',
+      entityType: 'Sole Proprietor',
+      confidence: 92,
+      sicCode: '1711',
+      sicDescription: 'Plumbing'
+    });
+    expect(combined.composite).toEqual({
+      relationship: 'DBA',
+      primary: { name: 'JOHN SMITH', classification: 'Individual', entityType: 'Individual', confidence: 92 },
+      secondary: { name: 'SMITH PLUMBING', classification: 'Business', entityType: 'Business', confidence: 90 }
+    });
+    expect(combined.reasoning).toBe(
+      'Composite payee (DBA): primary "JOHN SMITH" Individual 92%, secondary "SMITH PLUMBING" Business 90%. Given name and surname'
+    );
+  });
+
+  it('does not borrow a SIC code from a trade name that reads as a person', () => {
+    const combined = combineCompositeResults(
+      { original: 'JOHN SMITH DBA JOHNNY S', primaryName: 'JOHN SMITH', secondaryName: 'JOHNNY S', relationship: 'DBA' },
+      { classification: 'Individual', entityType: 'Individual', confidence: 88, reasoning: 'Person name', processingTier: 'AI-Powered' },
+      { classification: 'Individual', entityType: 'Individual', confidence: 60, reasoning: 'Nickname', processingTier: 'AI-Powered', sicCode: '5812' }
+    );
+    expect(combined).toMatchObject({ classification: 'Business', entityType: 'Sole Proprietor' });
+    expect(combined.sicCode).toBeUndefined();
+  });
+
+  it('keeps a business owner of a trade name as a business', () => {
+    const combined = combineCompositeResults(
+      { original: 'ACME HOLDINGS LLC DBA ACME HARDWARE', primaryName: 'ACME HOLDINGS LLC', secondaryName: 'ACME HARDWARE', relationship: 'DBA' },
+      { classification: 'Business', entityType: 'Business', confidence: 97, reasoning: 'LLC suffix', processingTier: 'Rule-Based', sicCode: '6719' },
+      { classification: 'Business', entityType: 'Business', confidence: 90, reasoning: 'Retail keyword', processingTier: 'Rule-Based', sicCode: '5251' }
+    );
+    expect(combined).toMatchObject({ classification: 'Business', entityType: 'Business', sicCode: '6719' });
+  });
+
+  it('keeps the primary entity as the payee of record for care-of lines', () => {
+    const combined = combineCompositeResults(
+      { original: 'ACME INC C/O JANE DOE', primaryName: 'ACME INC', secondaryName: 'JANE DOE', relationship: 'C/O' },
+      { classification: 'Business', entityType: 'Business', confidence: 95, reasoning: 'INC suffix', processingTier: 'Rule-Based', sicCode: '8742' },
+      { classification: 'Individual', entityType: 'Individual', confidence: 90, reasoning: 'Person name', processingTier: 'Rule-Based' }
+    );
+    expect(combined).toMatchObject({ classification: 'Business', entityType: 'Business', sicCode: '8742' });
+    expect(combined.reasoning).toContain('secondary "JANE DOE" Individual 90%');
+  });
+
+  it('reports no secondary part when the marker leads', () => {
+    const combined = combineCompositeResults(
+      { original: 'FBO MARY JONES', primaryName: 'MARY JONES', secondaryName: null, relationship: 'FBO' },
+      { classification: 'Individual', entityType: 'Individual', confidence: 93, reasoning: 'Person name', processingTier: 'Rule-Based' },
+      null
+    );
+    expect(combined).toMatchObject({ classification: 'Individual', entityType: 'Individual' });
+    expect(combined.composite?.secondary).toBeNull();
+    expect(combined.reasoning).toBe('Composite payee (FBO): primary "MARY JONES" Individual 93%. Person name');
+  });
+});
+
+describe('classifyCompositePayee', () => {
+  it('classifies each part once and skips a missing secondary', async () => {
+    const classified: string[] = [];
+    const combined = await classifyCompositePayee(
+      { original: 'FBO MARY JONES', primaryName: 'MARY JONES', secondaryName: null, relationship: 'FBO' },
+      async name => {
+        classified.push(name);
+        return { classification: 'Individual', entityType: 'Individual', confidence: 93, reasoning: 'Person name', processingTier: 'Rule-Based' };
+      }
+    );
+    expect(classified).toEqual(['MARY JONES']);
+    expect(combined.composite?.primary.name).toBe('MARY JONES');
+  });
+});
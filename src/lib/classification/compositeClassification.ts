@@ -0,0 +1,64 @@
+import { ClassificationResult, CompositePartClassification } from '../types';
+import { CompositePayeeParts } from '../dataStandardization/types';
+import { normalizeEntityType } from './entityTaxonomy';
+
+function toPart(name: string, result: ClassificationResult): CompositePartClassification {
+  return {
+    name,
+    classification: result.classification,
+    entityType: normalizeEntityType(result.entityType, result.classification),
+    confidence: result.confidence
+  };
+}
+
+function describePart(part: CompositePartClassification): string {
+  return `"${part.name}" ${part.entityType} ${part.confidence}%`;
+}
+
+/**
+ * Derive a composite payee's overall result from its separately classified parts.
+ * The primary entity is the payee of record; a person doing business under a trade
+ * name is a sole proprietor and takes the trade name's SIC code.
+ */
+export function combineCompositeResults(
+  parts: CompositePayeeParts,
+  primaryResult: ClassificationResult,
+  secondaryResult: ClassificationResult | null
+): ClassificationResult {
+  const primary = toPart(parts.primaryName, primaryResult);
+  const secondary = parts.secondaryName && secondaryResult ? toPart(parts.secondaryName, secondaryResult) : null;
+
+  const partSummary = `Composite payee (${parts.relationship}): primary ${describePart(primary)}` +
+    (secondary ? `, secondary ${describePart(secondary)}` : '');
+  const result: ClassificationResult = {
+    ...primaryResult,
+    entityType: primary.entityType,
+    reasoning: `${partSummary}. ${primaryResult.reasoning}`,
+    composite: { relationship: parts.relationship, primary, secondary }
+  };
+
+  if (parts.relationship === 'DBA' && primary.entityType === 'Individual') {
+    const tradeNameIsBusiness = secondary?.classification === 'Business';
+    return {
+      ...result,
+      classification: 'Business',
+      entityType: 'Sole Proprietor',
+      sicCode: tradeNameIsBusiness ? secondaryResult?.sicCode : undefined,
+      sicDescription: tradeNameIsBusiness ? secondaryResult?.sicDescription : undefined
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Classify the primary and secondary entities of a composite payee independently
+ */
+export async function classifyCompositePayee(
+  parts: CompositePayeeParts,
+  classifyPart: (name: string) => Promise<ClassificationResult>
+): Promise<ClassificationResult> {
+  const primaryResult = await classifyPart(parts.primaryName);
+  const secondaryResult = parts.secondaryName ? await classifyPart(parts.secondaryName) : null;
+  return combineCompositeResults(parts, primaryResult, secondaryResult);
+}
@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ClassificationRuleMatchType,
+  classificationRuleToResult,
+  findMatchingClassificationRules,
+  matchesClassificationRule,
+  parseWordCountPattern,
+  validateClassificationRule
+} from './customRules';
+
+describe('matchesClassificationRule', () => {
+  it('matches whole words and phrases, prefixes and suffixes', () => {
+    expect(matchesClassificationRule({ match_type: 'token', pattern: 'plumbing' }, 'Acme Plumbing, Inc.')).toBe(true);
+    expect(matchesClassificationRule({ match_type: 'token', pattern: 'PLUMB' }, 'Acme Plumbing')).toBe(false);
+    expect(matchesClassificationRule({ match_type: 'token', pattern: 'ACME PLUMBING' }, 'The Acme Plumbing Co')).toBe(true);
+    expect(matchesClassificationRule({ match_type: 'token', pattern: 'ACME CO' }, 'The Acme Plumbing Co')).toBe(false);
+    expect(matchesClassificationRule({ match_type: 'prefix', pattern: 'CITY OF' }, 'City of Austin')).toBe(true);
+    expect(matchesClassificationRule({ match_type: 'prefix', pattern: 'CITY OF' }, 'Kansas City of Missouri')).toBe(false);
+    expect(matchesClassificationRule({ match_type: 'suffix', pattern: 'INC' }, 'Acme, Inc.')).toBe(true);
+    expect(matchesClassificationRule({ match_type: 'suffix', pattern: 'INC' }, 'Inc Magazine')).toBe(false);
+    expect(matchesClassificationRule({ match_type: 'suffix', pattern: 'SMITH & SONS' }, 'Smith & Sons')).toBe(true);
+  });
+
+  it('matches regular expressions and word counts', () => {
+    expect(matchesClassificationRule({ match_type: 'regex', pattern: '^\\d{3,}\\b' }, '1234 Main Street LLC')).toBe(true);
+    expect(matchesClassificationRule({ match_type: 'regex', pattern: 'trust$' }, 'SMITH FAMILY TRUST')).toBe(true);
+    expect(matchesClassificationRule({ match_type: 'regex', pattern: '(' }, 'anything')).toBe(false);
+    expect(matchesClassificationRule({ match_type: 'word_count', pattern: '2-3' }, 'John Smith')).toBe(true);
+    expect(matchesClassificationRule({ match_type: 'word_count', pattern: '2' }, 'John Q. Smith')).toBe(false);
+    expect(matchesClassificationRule({ match_type: 'word_count', pattern: '4+' }, 'John Smith')).toBe(false);
+    expect(matchesClassificationRule({ match_type: 'word_count', pattern: 'two' }, 'John Smith')).toBe(false);
+  });
+
+  it('never matches empty names or patterns without words', () => {
+    expect(matchesClassificationRule({ match_type: 'token', pattern: 'ACME' }, '')).toBe(false);
+    expect(matchesClassificationRule({ match_type: 'token', pattern: '---' }, 'Acme')).toBe(false);
+    expect(matchesClassificationRule({ match_type: 'prefix', pattern: 'CITY OF AUSTIN TX' }, 'City of Austin')).toBe(false);
+  });
+});
+
+describe('parseWordCountPattern', () => {
+  it('reads exact counts, ranges and minimums', () => {
+    expect(parseWordCountPattern('2')).toEqual({ min: 2, max: 2 });
+    expect(parseWordCountPattern(' 2 - 3 ')).toEqual({ min: 2, max: 3 });
+    expect(parseWordCountPattern('4+')).toEqual({ min: 4, max: Infinity });
+    expect(parseWordCountPattern('3-2')).toBeNull();
+    expect(parseWordCountPattern('-1')).toBeNull();
+  });
+});
+
+describe('findMatchingClassificationRules', () => {
+  it('orders active matches by priority, then confidence, and skips inactive rules', () => {
+    const matches = findMatchingClassificationRules([
+      { id: 'low', name: 'Low', match_type: 'token', pattern: 'PLUMBING', classification: 'Business', entity_type: null,
+        sic_code: null, sic_description: null, confidence: 90, priority: 10, is_active: true, created_by: null, created_at: '', updated_at: '' },
+      { id: 'inactive', name: 'Inactive', match_type: 'token', pattern: 'PLUMBING', classification: 'Business', entity_type: null,
+        sic_code: null, sic_description: null, confidence: 90, priority: 500, is_active: false, created_by: null, created_at: '', updated_at: '' },
+      { id: 'high', name: 'High', match_type: 'suffix', pattern: 'PLUMBING', classification: 'Individual', entity_type: null,
+        sic_code: null, sic_description: null, confidence: 80, priority: 200, is_active: true, created_by: null, created_at: '', updated_at: '' },
+      { id: 'tie', name: 'Tie', match_type: 'prefix', pattern: 'SMITH', classification: 'Business', entity_type: null,
+        sic_code: null, sic_description: null, confidence: 95, priority: 200, is_active: true, created_by: null, created_at: '', updated_at: '' },
+      { id: 'other', name: 'Other', match_type: 'token', pattern: 'ROOFING', classification: 'Business', entity_type: null,
+        sic_code: null, sic_description: null, confidence: 99, priority: 900, is_active: true, created_by: null, created_at: '', updated_at: '' }
+    ], 'Smith Plumbing');
+    expect(matches.map(match => match.id)).toEqual(['tie', 'high', 'low']);
+  });
+});
+
+describe('classificationRuleToResult', () => {
+  it('reports the rule as the reason for the answer', () => {
+    expect(classificationRuleToResult({
+      id: 'plumbers',
+      name: 'Plumbers',
+      match_type: 'token',
+      pattern: 'PLUMBING',
+      classification: 'Business',
+      entity_type: 'Business',
+      sic_code: '1711',
+      sic_description: 'Plumbing, Heating and Air-Conditioning',
+      confidence: 92,
+      priority: 100,
+      is_active: true,
+      created_by: null,
+      created_at: '2026-10-19T00:00:00Z',
+      updated_at: '2026-10-19T00:00:00Z'
+    })).toEqual({
+      classification: 'Business',
+      entityType: 'Business',
+      confidence: 92,
+      reasoning: 'Matched custom rule "Plumbers" (Contains word or phrase: PLUMBING)',
+      processingTier: 'Rule-Based',
+      processingMethod: 'Custom rule: Plumbers',
+      matchingRules: ['Custom rule: Plumbers'],
+      sicCode: '1711',
+      sicDescription: 'Plumbing, Heating and Air-Conditioning'
+    });
+  });
+
+  it('drops SIC codes and unknown entity types from individual rules', () => {
+    const result = classificationRuleToResult({
+      id: 'two-words',
+      name: 'Two words',
+      match_type: 'word_count',
+      pattern: '2',
+      classification: 'Individual',
+      entity_type: 'Person',
+      sic_code: '1711',
+      sic_description: 'Plumbing',
+      confidence: 70,
+      priority: 0,
+      is_active: true,
+      created_by: null,
+      created_at: '2026-10-19T00:00:00Z',
+      updated_at: '2026-10-19T00:00:00Z'
+    });
+    expect(result.entityType).toBeUndefined();
+    expect(result.sicCode).toBeUndefined();
+    expect(result.sicDescription).toBeUndefined();
+  });
+});
+
+describe('validateClassificationRule', () => {
+  it('accepts a complete rule', () => {
+    expect(validateClassificationRule({ name: 'Plumbers', match_type: 'token', pattern: 'PLUMBING', classification: 'Business',
+      entity_type: null, sic_code: null, sic_description: null, confidence: 90, priority: 100 })).toBeNull();
+    expect(validateClassificationRule({ name: 'Sole plumbers', match_type: 'suffix', pattern: 'PLUMBING', classification: 'Business',
+      entity_type: 'Sole Proprietor', sic_code: '1711', sic_description: 'Plumbing', confidence: 85, priority: -5 })).toBeNull();
+  });
+
+  it('rejects rules that could never apply cleanly', () => {
+    expect(validateClassificationRule({ name: ' ', match_type: 'token', pattern: 'PLUMBING', classification: 'Business',
+      entity_type: null, sic_code: null, sic_description: null, confidence: 90, priority: 100 })).toBe('Rule name is required');
+    expect(validateClassificationRule({ name: 'Blank', match_type: 'token', pattern: '  ', classification: 'Business',
+      entity_type: null, sic_code: null, sic_description: null, confidence: 90, priority: 100 })).toBe('Pattern is required');
+    expect(validateClassificationRule({ name: 'Stars', match_type: 'prefix', pattern: '***', classification: 'Business',
+      entity_type: null, sic_code: null, sic_description: null, confidence: 90, priority: 100 })).toBe('Pattern must contain at least one letter or digit');
+    expect(validateClassificationRule({ name: 'Fuzzy', match_type: 'fuzzy' as ClassificationRuleMatchType, pattern: 'ACME', classification: 'Business',
+      entity_type: null, sic_code: null, sic_description: null, confidence: 90, priority: 100 })).toBe('Unknown match type "fuzzy"');
+    expect(validateClassificationRule({ name: 'Bracket', match_type: 'regex', pattern: '[', classification: 'Business',
+      entity_type: null, sic_code: null, sic_description: null, confidence: 90, priority: 100 })).toBe('Pattern is not a valid regular expression');
+    expect(validateClassificationRule({ name: 'Words', match_type: 'word_count', pattern: 'two', classification: 'Individual',
+      entity_type: null, sic_code: null, sic_description: null, confidence: 90, priority: 100 })).toMatch(/^Word count must be/);
+  });
+
+  it('rejects answers that contradict themselves', () => {
+    expect(validateClassificationRule({ name: 'Agencies', match_type: 'token', pattern: 'AGENCY', classification: 'Individual',
+      entity_type: 'Government', sic_code: null, sic_description: null, confidence: 90, priority: 100 }))
+      .toBe('Entity type Government does not match classification Individual');
+    expect(validateClassificationRule({ name: 'People', match_type: 'word_count', pattern: '2', classification: 'Individual',
+      entity_type: 'Person', sic_code: null, sic_description: null, confidence: 90, priority: 100 })).toBe('Unknown entity type "Person"');
+    expect(validateClassificationRule({ name: 'People', match_type: 'word_count', pattern: '2', classification: 'Individual',
+      entity_type: null, sic_code: '1711', sic_description: null, confidence: 90, priority: 100 })).toBe('Only Business rules can assign a SIC code');
+    expect(validateClassificationRule({ name: 'Plumbers', match_type: 'token', pattern: 'PLUMBING', classification: 'Business',
+      entity_type: null, sic_code: '17', sic_description: null, confidence: 90, priority: 100 })).toBe('SIC code must be 4 digits');
+    expect(validateClassificationRule({ name: 'Plumbers', match_type: 'token', pattern: 'PLUMBING', classification: 'Business',
+      entity_type: null, sic_code: null, sic_description: null, confidence: 101, priority: 100 })).toBe('Confidence must be between 0 and 100');
+    expect(validateClassificationRule({ name: 'Plumbers', match_type: 'token', pattern: 'PLUMBING', classification: 'Business',
+      entity_type: null, sic_code: null, sic_description: null, confidence: 90, priority: 1.5 })).toBe('Priority must be a whole number');
+  });
+});
@@ -0,0 +1,161 @@
+import { ClassificationResult, EntityType } from '../types';
+import { isEntityType, toBinaryClassification } from './entityTaxonomy';
+
+/**
+ * Analyst-authored classification rules, stored in Supabase and evaluated
+ * before every built-in tier
+ */
+
+export type ClassificationRuleMatchType = 'regex' | 'token' | 'prefix' | 'suffix' | 'word_count';
+
+export const RULE_MATCH_TYPE_LABELS: Record<ClassificationRuleMatchType, string> = {
+  regex: 'Regular expression',
+  token: 'Contains word or phrase',
+  prefix: 'Starts with',
+  suffix: 'Ends with',
+  word_count: 'Word count'
+};
+
+export interface ClassificationRule {
+  id: string;
+  name: string;
+  match_type: ClassificationRuleMatchType;
+  pattern: string;
+  classification: 'Business' | 'Individual';
+  entity_type: string | null;
+  sic_code: string | null;
+  sic_description: string | null;
+  confidence: number;
+  priority: number;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ClassificationRuleInput = Pick<
+  ClassificationRule,
+  'name' | 'match_type' | 'pattern' | 'classification' | 'entity_type' | 'sic_code' | 'sic_description' | 'confidence' | 'priority'
+>;
+
+const regexCache = new Map<string, RegExp | null>();
+
+function compilePattern(pattern: string): RegExp | null {
+  if (!regexCache.has(pattern)) {
+    try {
+      regexCache.set(pattern, new RegExp(pattern, 'i'));
+    } catch {
+      regexCache.set(pattern, null);
+    }
+  }
+  return regexCache.get(pattern) || null;
+}
+
+/**
+ * Upper-case words with punctuation removed, so "Acme, Inc." ends with "INC"
+ */
+function ruleWords(text: string): string[] {
+  return text.toUpperCase().replace(/[^A-Z0-9&' ]+/g, ' ').split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Parse a word count pattern: "2", "2-3" or "4+"
+ */
+export function parseWordCountPattern(pattern: string): { min: number; max: number } | null {
+  const trimmed = pattern.trim();
+  let match = /^(\d+)$/.exec(trimmed);
+  if (match) return { min: Number(match[1]), max: Number(match[1]) };
+  match = /^(\d+)\s*-\s*(\d+)$/.exec(trimmed);
+  if (match && Number(match[1]) <= Number(match[2])) return { min: Number(match[1]), max: Number(match[2]) };
+  match = /^(\d+)\s*\+$/.exec(trimmed);
+  if (match) return { min: Number(match[1]), max: Infinity };
+  return null;
+}
+
+/**
+ * Check a rule for mistakes before it is saved; returns an error message or null
+ */
+export function validateClassificationRule(rule: ClassificationRuleInput): string | null {
+  if (!rule.name.trim()) return 'Rule name is required';
+  if (!rule.pattern.trim()) return 'Pattern is required';
+  if (!(rule.match_type in RULE_MATCH_TYPE_LABELS)) return `Unknown match type "${rule.match_type}"`;
+  if (rule.match_type === 'regex' && !compilePattern(rule.pattern)) return 'Pattern is not a valid regular expression';
+  if (rule.match_type === 'word_count' && !parseWordCountPattern(rule.pattern)) {
+    return 'Word count must be a number, a range like "2-3" or a minimum like "4+"';
+  }
+  if (rule.match_type !== 'regex' && rule.match_type !== 'word_count' && ruleWords(rule.pattern).length === 0) {
+    return 'Pattern must contain at least one letter or digit';
+  }
+  if (rule.classification !== 'Business' && rule.classification !== 'Individual') {
+    return 'Classification must be Business or Individual';
+  }
+  if (rule.entity_type) {
+    if (!isEntityType(rule.entity_type)) return `Unknown entity type "${rule.entity_type}"`;
+    if (toBinaryClassification(rule.entity_type) !== rule.classification) {
+      return `Entity type ${rule.entity_type} does not match classification ${rule.classification}`;
+    }
+  }
+  if (rule.sic_code && rule.classification !== 'Business') return 'Only Business rules can assign a SIC code';
+  if (rule.sic_code && !/^\d{4}$/.test(rule.sic_code)) return 'SIC code must be 4 digits';
+  if (!Number.isFinite(rule.confidence) || rule.confidence < 0 || rule.confidence > 100) {
+    return 'Confidence must be between 0 and 100';
+  }
+  if (!Number.isInteger(rule.priority)) return 'Priority must be a whole number';
+  return null;
+}
+
+/**
+ * Whether a payee name satisfies a rule's pattern
+ */
+export function matchesClassificationRule(rule: Pick<ClassificationRule, 'match_type' | 'pattern'>, payeeName: string): boolean {
+  if (!payeeName || !rule.pattern) return false;
+
+  if (rule.match_type === 'regex') {
+    return compilePattern(rule.pattern)?.test(payeeName) ?? false;
+  }
+
+  const words = ruleWords(payeeName);
+  if (rule.match_type === 'word_count') {
+    const range = parseWordCountPattern(rule.pattern);
+    return range !== null && words.length >= range.min && words.length <= range.max;
+  }
+
+  const patternWords = ruleWords(rule.pattern);
+  if (patternWords.length === 0 || patternWords.length > words.length) return false;
+  const matchesAt = (start: number) => patternWords.every((word, offset) => words[start + offset] === word);
+
+  switch (rule.match_type) {
+    case 'prefix':
+      return matchesAt(0);
+    case 'suffix':
+      return matchesAt(words.length - patternWords.length);
+    case 'token':
+      return words.some((_, start) => start + patternWords.length <= words.length && matchesAt(start));
+    default:
+      return false;
+  }
+}
+
+/**
+ * Active rules that match a payee, highest priority first (confidence breaks ties)
+ */
+export function findMatchingClassificationRules(rules: ClassificationRule[], payeeName: string): ClassificationRule[] {
+  return rules
+    .filter(rule => rule.is_active && matchesClassificationRule(rule, payeeName))
+    .sort((a, b) => b.priority - a.priority || b.confidence - a.confidence);
+}
+
+export function classificationRuleToResult(rule: ClassificationRule): ClassificationResult {
+  const entityType: EntityType | undefined = rule.entity_type && isEntityType(rule.entity_type) ? rule.entity_type : undefined;
+  return {
+    classification: rule.classification,
+    entityType,
+    confidence: Number(rule.confidence),
+    reasoning: `Matched custom rule "${rule.name}" (${RULE_MATCH_TYPE_LABELS[rule.match_type]}: ${rule.pattern})`,
+    processingTier: 'Rule-Based',
+    processingMethod: `Custom rule: ${rule.name}`,
+    matchingRules: [`Custom rule: ${rule.name}`],
+    sicCode: rule.classification === 'Business' ? rule.sic_code || undefined : undefined,
+    sicDescription: rule.classification === 'Business' ? rule.sic_description || undefined : undefined
+  };
+}
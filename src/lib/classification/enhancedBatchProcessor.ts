@@ -127,7 +127,7 @@ export async function enhancedProcessBatch(
                 classification: batchResult.classification,
                 confidence: batchResult.confidence,
                 reasoning: batchResult.reasoning,
-                processingTier: batchResult.status === 'success' ? 'AI-Powered' : 'Failed'
+                processingTier: batchResult.status === 'success' ? batchResult.processingTier || 'AI-Powered' : 'Failed'
               };
               
               if (batchResult.status === 'success') {
@@ -1,6 +1,7 @@
 
 import { 
   getComprehensiveExclusionKeywords, 
+  getExclusionKeywordCategories,
   validateExclusionKeywords 
 } from './keywordExclusion';
 import { advancedNormalization } from './stringMatching';
@@ -90,6 +91,10 @@ export async function checkEnhancedKeywordExclusion(
     normalizedKeywords
   );
 
+  if (result.isExcluded) {
+    result.matchedCategories = getExclusionKeywordCategories(matchedKeywords);
+  }
+
   // Log debugging information
   logATTDebugging(payeeName, result);
   logExclusionResult(payeeName, result);
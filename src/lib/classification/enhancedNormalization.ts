@@ -1,13 +1,15 @@
 import { advancedNormalization } from './stringMatching';
+import { toNaturalNameOrder } from './nameParser';
 
 /**
  * Enhanced normalization specifically for duplicate detection
- * Handles business suffixes and common variations better
+ * Handles business suffixes and common variations better, and puts person
+ * names in natural order so "SMITH, JOHN" matches "John Smith"
  */
 export function normalizeForDuplicateDetection(text: string): string {
   if (!text || typeof text !== 'string') return '';
   
-  let normalized = advancedNormalization(text);
+  let normalized = advancedNormalization(toNaturalNameOrder(text));
   
   // Enhanced normalization for better duplicate detection
   normalized = normalized
@@ -1,4 +1,5 @@
 import { LEGAL_SUFFIXES, BUSINESS_KEYWORDS, PROFESSIONAL_TITLES } from './config';
+import type { EntityType } from '../types';
 
 /**
  * Extended list of global legal suffixes for ultra-fast business detection
@@ -262,6 +263,58 @@ export function detectIndividualByExtendedRules(payeeName: string): { isMatch: b
   return { isMatch: matchingRules.length > 0, rules: matchingRules };
 }
 
+/**
+ * Entity taxonomy patterns, evaluated in order - the first matching type wins.
+ * Financial institutions and trusts are checked before nonprofits so that
+ * "XYZ TRUST COMPANY" or "FIRST BANK FOUNDATION" land in the right bucket.
+ */
+export const ENTITY_TYPE_PATTERNS: Array<{ entityType: EntityType; pattern: RegExp; rule: string; exclude?: RegExp }> = [
+  // Government
+  { entityType: 'Government', pattern: /^(CITY|COUNTY|STATE|TOWN|TOWNSHIP|VILLAGE|BOROUGH|COMMONWEALTH|PARISH) OF\b/, rule: 'Government jurisdiction prefix' },
+  { entityType: 'Government', pattern: /\b(DEPARTMENT|DEPT|BUREAU|MINISTRY) OF\b/, rule: 'Government department' },
+  { entityType: 'Government', pattern: /\b(UNITED STATES|U\.?S\.? TREASURY|INTERNAL REVENUE SERVICE|IRS|SOCIAL SECURITY ADMINISTRATION)\b/, rule: 'Federal agency' },
+  { entityType: 'Government', pattern: /\b(SCHOOL DISTRICT|WATER DISTRICT|FIRE DISTRICT|UTILITY DISTRICT|TRANSIT AUTHORITY|HOUSING AUTHORITY|PORT AUTHORITY)\b/, rule: 'Special district or authority' },
+  { entityType: 'Government', pattern: /\b(TAX COLLECTOR|TREASURER|CLERK OF (THE )?COURT|SHERIFF|DMV|FRANCHISE TAX BOARD)\b/, rule: 'Government tax or court office' },
+
+  // Financial institutions
+  { entityType: 'Financial Institution', pattern: /\b(FEDERAL CREDIT UNION|CREDIT UNION|FCU)\b/, rule: 'Credit union' },
+  { entityType: 'Financial Institution', pattern: /\b(BANK|BANCORP|BANCSHARES|SAVINGS BANK|SAVINGS AND LOAN|S&L|TRUST COMPANY|TRUST CO)\b/, rule: 'Bank or trust company' },
+  // Undotted NA is also a surname (KIM NA), so it only counts after a bank name
+  { entityType: 'Financial Institution', pattern: /\sN\.A\.?$|BANK\w*,?\s+NA$/, rule: 'National association (N.A.) suffix' },
+
+  // Trusts and estates
+  { entityType: 'Trust/Estate', pattern: /^ESTATE OF\b|\bESTATE OF\b/, rule: 'Estate of decedent' },
+  { entityType: 'Trust/Estate', pattern: /\b(LIVING|FAMILY|REVOCABLE|IRREVOCABLE|CHARITABLE REMAINDER|TESTAMENTARY) TRUST\b/, rule: 'Named trust' },
+  { entityType: 'Trust/Estate', pattern: /\b(TRUSTEE|TTEE|TR|TRUST)\s*$|\bTRUST (DTD|DATED|U\/A|UA)\b/, rule: 'Trust or trustee designation' },
+
+  // Nonprofits
+  { entityType: 'Nonprofit', pattern: /\b(NON-?PROFIT|NOT[- ]FOR[- ]PROFIT|501\(?C\)?\(?3\)?)\b/, rule: 'Nonprofit designation' },
+  { entityType: 'Nonprofit', pattern: /\b(FOUNDATION|CHARITY|CHARITIES|CHARITABLE|MINISTRIES)\b/, rule: 'Charitable organization', exclude: /\b(LLC|L\.L\.C\.)\b/ },
+  { entityType: 'Nonprofit', pattern: /\b(CHURCH OF|(BAPTIST|METHODIST|LUTHERAN|PRESBYTERIAN|EPISCOPAL|CATHOLIC|BIBLE|COMMUNITY) CHURCH|SYNAGOGUE|MOSQUE)\b/, rule: 'Religious organization' },
+  { entityType: 'Nonprofit', pattern: /\b(UNITED WAY|RED CROSS|SALVATION ARMY|HABITAT FOR HUMANITY|GOODWILL INDUSTRIES|YMCA|YWCA|BOYS (AND|&) GIRLS CLUBS?)\b/, rule: 'Well-known nonprofit' },
+
+  // Sole proprietors - an individual operating under a trade name
+  { entityType: 'Sole Proprietor', pattern: /\b(DBA|D\/B\/A|D B A|DOING BUSINESS AS|T\/A|TRADING AS)\b/, rule: 'Doing-business-as designation' },
+  { entityType: 'Sole Proprietor', pattern: /\b(SOLE PROP|SOLE PROPRIETOR|SOLE PROPRIETORSHIP)\b/, rule: 'Sole proprietor designation' }
+];
+
+/**
+ * Detect specialized entity types (government, nonprofit, financial institution,
+ * trust/estate, sole proprietor) from the payee name.
+ * Returns null when the name only supports the generic Business/Individual split.
+ */
+export function detectEntityTypeByRules(payeeName: string): { entityType: EntityType | null; rules: string[] } {
+  const name = normalizeText(payeeName);
+
+  for (const { entityType, pattern, rule, exclude } of ENTITY_TYPE_PATTERNS) {
+    if (pattern.test(name) && !(exclude && exclude.test(name))) {
+      return { entityType, rules: [`${entityType}: ${rule}`] };
+    }
+  }
+
+  return { entityType: null, rules: [] };
+}
+
 /**
  * Calculate text similarity using Jaro-Winkler distance
  * Useful for fuzzy name matching
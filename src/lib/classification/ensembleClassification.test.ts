@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { combineEnsembleVotes } from './ensembleClassification';
+import { EnsembleVote } from '../types';
+
+const vote = (voter: EnsembleVote['voter'], classification: EnsembleVote['classification'], confidence: number, weight = 1): EnsembleVote => ({
+  voter,
+  classification,
+  confidence,
+  weight
+});
+
+describe('combineEnsembleVotes', () => {
+  it('keeps confidence and reports no disagreement when every tier agrees', () => {
+    const result = combineEnsembleVotes([
+      vote('rule', 'Business', 90),
+      vote('nlp', 'Business', 90),
+      vote('ai', 'Business', 90, 2)
+    ]);
+    expect(result).toMatchObject({ classification: 'Business', confidence: 90, processingTier: 'AI-Powered' });
+    expect(result.ensemble).toMatchObject({ disagreementScore: 0, flagged: false });
+  });
+
+  it('lets weights decide a split vote and flags the disagreement', () => {
+    const result = combineEnsembleVotes([
+      vote('rule', 'Business', 80),
+      vote('offline', 'Business', 70, 0.5),
+      vote('ai', 'Individual', 90, 2)
+    ], 40);
+    expect(result.classification).toBe('Individual');
+    expect(result.ensemble!.disagreementScore).toBeGreaterThanOrEqual(40);
+    expect(result.ensemble!.flagged).toBe(true);
+    expect(result.confidence).toBeLessThan(90);
+  });
+});
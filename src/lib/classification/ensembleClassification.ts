@@ -0,0 +1,259 @@
+import { ClassificationConfig, ClassificationResult, EnsembleResult, EnsembleVote, EnsembleVoter, KeywordExclusionResult } from '../types';
+import { checkEnhancedKeywordExclusion as checkKeywordExclusion } from './enhancedExclusionLogic';
+import { applyRuleBasedClassification } from './ruleBasedClassification';
+import { applyNLPClassification } from './nlpClassification';
+import { performOfflineClassification } from './offlineClassification';
+import { detectBusinessByExtendedRules, detectIndividualByExtendedRules } from './enhancedRules';
+import { predictNgram } from './ngramModel';
+import { loadNgramModel } from '../database/ngramModelService';
+import { findPayeeOverride, overrideToClassificationResult } from '../database/payeeOverrideService';
+import { consensusClassification } from '../openai/enhancedClassification';
+import { logger } from '../logging';
+
+/**
+ * Ensemble mode: every tier votes and the weighted votes are combined
+ */
+
+export interface EnsembleSettings {
+  // Applies to batch results; single classification has its own toggle
+  enabled: boolean;
+  weights: Record<EnsembleVoter, number>;
+  // Disagreement score at or above which a row is flagged for review
+  disagreementThreshold: number;
+}
+
+export const DEFAULT_ENSEMBLE_SETTINGS: EnsembleSettings = {
+  enabled: false,
+  weights: {
+    keyword: 1.5,
+    rule: 1,
+    nlp: 0.75,
+    offline: 0.5,
+    localModel: 1,
+    ai: 2
+  },
+  disagreementThreshold: 40
+};
+
+export const ENSEMBLE_VOTER_LABELS: Record<EnsembleVoter, string> = {
+  keyword: 'Keyword exclusion',
+  rule: 'Rule-based',
+  nlp: 'NLP',
+  offline: 'Offline heuristics',
+  localModel: 'Local model',
+  ai: 'AI'
+};
+
+const ENSEMBLE_SETTINGS_KEY = 'ensemble_settings';
+
+const TIER_BY_VOTER: Record<EnsembleVoter, ClassificationResult['processingTier']> = {
+  keyword: 'Excluded',
+  rule: 'Rule-Based',
+  nlp: 'NLP-Based',
+  offline: 'Rule-Based',
+  localModel: 'NLP-Based',
+  ai: 'AI-Powered'
+};
+
+/**
+ * Load ensemble settings from browser storage
+ */
+export function getEnsembleSettings(): EnsembleSettings {
+  try {
+    const raw = localStorage.getItem(ENSEMBLE_SETTINGS_KEY);
+    if (!raw) return DEFAULT_ENSEMBLE_SETTINGS;
+    const stored = JSON.parse(raw);
+    return {
+      ...DEFAULT_ENSEMBLE_SETTINGS,
+      ...stored,
+      weights: { ...DEFAULT_ENSEMBLE_SETTINGS.weights, ...stored.weights }
+    };
+  } catch (error) {
+    console.error('[ENSEMBLE] Failed to read settings:', error);
+    return DEFAULT_ENSEMBLE_SETTINGS;
+  }
+}
+
+/**
+ * Persist ensemble settings
+ */
+export function saveEnsembleSettings(settings: Partial<EnsembleSettings>): EnsembleSettings {
+  const current = getEnsembleSettings();
+  const merged = {
+    ...current,
+    ...settings,
+    weights: { ...current.weights, ...settings.weights }
+  };
+  if (Object.values(merged.weights).some(weight => weight < 0 || Number.isNaN(weight))) {
+    throw new Error('Ensemble weights cannot be negative');
+  }
+  if (Object.values(merged.weights).every(weight => weight === 0)) {
+    throw new Error('At least one ensemble weight must be above zero');
+  }
+  if (merged.disagreementThreshold < 0 || merged.disagreementThreshold > 100) {
+    throw new Error('The disagreement threshold must be between 0 and 100');
+  }
+  localStorage.setItem(ENSEMBLE_SETTINGS_KEY, JSON.stringify(merged));
+  return merged;
+}
+
+function toVote(voter: EnsembleVoter, result: ClassificationResult, weights: EnsembleSettings['weights']): EnsembleVote {
+  return {
+    voter,
+    classification: result.classification,
+    entityType: result.entityType,
+    confidence: result.confidence,
+    weight: weights[voter]
+  };
+}
+
+/**
+ * Votes from every tier that runs without AI. Keyword exclusion only votes when
+ * it matches, and tiers with nothing to say abstain.
+ */
+export async function collectLocalVotes(
+  payeeName: string,
+  settings: EnsembleSettings = getEnsembleSettings(),
+  keywordExclusion?: KeywordExclusionResult
+): Promise<EnsembleVote[]> {
+  const { weights } = settings;
+  const votes: EnsembleVote[] = [];
+
+  const exclusion = keywordExclusion || await checkKeywordExclusion(payeeName);
+  if (exclusion.isExcluded) {
+    votes.push({ voter: 'keyword', classification: 'Business', confidence: exclusion.confidence, weight: weights.keyword });
+  }
+
+  const ruleResult = applyRuleBasedClassification(payeeName);
+  if (ruleResult) votes.push(toVote('rule', ruleResult, weights));
+
+  const nlpResult = applyNLPClassification(payeeName);
+  if (nlpResult) votes.push(toVote('nlp', nlpResult, weights));
+
+  votes.push(toVote('offline', performOfflineClassification(
+    payeeName,
+    detectBusinessByExtendedRules(payeeName).rules,
+    detectIndividualByExtendedRules(payeeName).rules
+  ), weights));
+
+  const localModel = await loadNgramModel();
+  const prediction = localModel ? predictNgram(localModel.model, payeeName) : null;
+  if (prediction) {
+    votes.push({
+      voter: 'localModel',
+      classification: prediction.classification,
+      entityType: prediction.entityType,
+      confidence: prediction.confidence,
+      weight: weights.localModel
+    });
+  }
+
+  return votes.filter(vote => vote.weight > 0);
+}
+
+/**
+ * Combine votes by confidence-weighted score. Confidence is the weighted share of
+ * support for the winner, so unanimous votes keep their confidence and split votes lose it.
+ */
+export function combineEnsembleVotes(
+  votes: EnsembleVote[],
+  disagreementThreshold: number = DEFAULT_ENSEMBLE_SETTINGS.disagreementThreshold
+): Omit<ClassificationResult, 'keywordExclusion'> {
+  const scores = { Business: 0, Individual: 0 };
+  let totalWeight = 0;
+  for (const vote of votes) {
+    scores[vote.classification] += vote.weight * vote.confidence / 100;
+    totalWeight += vote.weight;
+  }
+
+  const totalScore = scores.Business + scores.Individual;
+  const classification = scores.Business >= scores.Individual ? 'Business' : 'Individual';
+  const minority = Math.min(scores.Business, scores.Individual);
+  const disagreementScore = totalScore > 0 ? Math.round((minority / totalScore) * 200) : 0;
+  const confidence = totalWeight > 0 ? Math.min(99, Math.round((scores[classification] / totalWeight) * 100)) : 0;
+
+  // The strongest supporting vote names the tier and supplies the entity type
+  const supporting = votes
+    .filter(vote => vote.classification === classification)
+    .sort((a, b) => b.weight * b.confidence - a.weight * a.confidence);
+  const lead = supporting[0];
+  const entityType = supporting.find(vote => vote.entityType)?.entityType;
+
+  const ensemble: EnsembleResult = {
+    votes,
+    disagreementScore,
+    flagged: disagreementScore >= disagreementThreshold
+  };
+
+  return {
+    classification,
+    entityType,
+    confidence,
+    reasoning: `Ensemble vote ${classification} (Business ${scores.Business.toFixed(2)} vs Individual ${scores.Individual.toFixed(2)}, disagreement ${disagreementScore}%): ` +
+      votes.map(vote => `${ENSEMBLE_VOTER_LABELS[vote.voter]} ${vote.classification} ${vote.confidence}%`).join('; '),
+    processingTier: lead ? TIER_BY_VOTER[lead.voter] : 'Rule-Based',
+    processingMethod: 'Ensemble vote',
+    ensemble
+  };
+}
+
+/**
+ * Re-weigh an AI result that was produced elsewhere (e.g. by the Batch API)
+ * against every local tier
+ */
+export async function combineWithAIVote(
+  payeeName: string,
+  aiResult: Pick<ClassificationResult, 'classification' | 'entityType' | 'confidence'>,
+  settings: EnsembleSettings = getEnsembleSettings(),
+  keywordExclusion?: KeywordExclusionResult
+): Promise<Omit<ClassificationResult, 'keywordExclusion'>> {
+  const votes = await collectLocalVotes(payeeName, settings, keywordExclusion);
+  if (settings.weights.ai > 0) {
+    votes.push({
+      voter: 'ai',
+      classification: aiResult.classification,
+      entityType: aiResult.entityType,
+      confidence: aiResult.confidence,
+      weight: settings.weights.ai
+    });
+  }
+  return combineEnsembleVotes(votes, settings.disagreementThreshold);
+}
+
+/**
+ * Classify by running every tier, including AI unless offline, and combining their votes.
+ * Reviewer overrides still win outright.
+ */
+export async function classifyPayeeEnsemble(
+  payeeName: string,
+  config: ClassificationConfig,
+  settings: EnsembleSettings = getEnsembleSettings()
+): Promise<ClassificationResult> {
+  const override = await findPayeeOverride(payeeName);
+  if (override) {
+    return overrideToClassificationResult(override);
+  }
+
+  const keywordExclusion = await checkKeywordExclusion(payeeName);
+  const votes = await collectLocalVotes(payeeName, settings, keywordExclusion);
+
+  if (!config.offlineMode && settings.weights.ai > 0) {
+    try {
+      const aiResult = await consensusClassification(payeeName);
+      votes.push({
+        voter: 'ai',
+        classification: aiResult.classification,
+        entityType: aiResult.entityType,
+        confidence: aiResult.confidence,
+        weight: settings.weights.ai
+      });
+    } catch (error) {
+      logger.warn(`AI vote failed for "${payeeName}"`, error, 'CLASSIFICATION');
+    }
+  }
+
+  return {
+    ...combineEnsembleVotes(votes, settings.disagreementThreshold),
+    keywordExclusion
+  };
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { detectEntityTypeByRules } from './enhancedRules';
+import { normalizeEntityType, parseEntityType, toBinaryClassification, withEntityType } from './entityTaxonomy';
+
+describe('normalizeEntityType', () => {
+  it('reads entity types and their aliases in any case', () => {
+    expect(normalizeEntityType('Sole Proprietor')).toBe('Sole Proprietor');
+    expect(normalizeEntityType(' BANK ')).toBe('Financial Institution');
+    expect(normalizeEntityType('not-for-profit')).toBe('Nonprofit');
+    expect(normalizeEntityType('trust/estate', 'Individual')).toBe('Trust/Estate');
+  });
+
+  it('falls back to the binary classification for unknown types', () => {
+    expect(normalizeEntityType('LLC', 'Business')).toBe('Business');
+    expect(normalizeEntityType('Sole Trader', 'Individual')).toBe('Individual');
+    expect(normalizeEntityType(null, 'Government')).toBe('Government');
+  });
+
+  it('never turns an unreadable value into a person', () => {
+    expect(normalizeEntityType('Partnership')).toBe('Business');
+    expect(normalizeEntityType('', 'unknown')).toBe('Business');
+    expect(normalizeEntityType(undefined)).toBe('Business');
+  });
+});
+
+describe('parseEntityType', () => {
+  it('returns null for anything that names no entity type', () => {
+    expect(parseEntityType('person')).toBe('Individual');
+    expect(parseEntityType('Partnership')).toBeNull();
+    expect(parseEntityType('')).toBeNull();
+  });
+});
+
+describe('toBinaryClassification', () => {
+  it('only treats natural persons as Individual', () => {
+    expect(toBinaryClassification('Individual')).toBe('Individual');
+    expect(toBinaryClassification('Sole Proprietor')).toBe('Business');
+    expect(toBinaryClassification('Trust/Estate')).toBe('Business');
+  });
+});
+
+describe('detectEntityTypeByRules', () => {
+  it('reads the N.A. suffix of national banks', () => {
+    expect(detectEntityTypeByRules('JPMORGAN CHASE BANK, N.A.').entityType).toBe('Financial Institution');
+    expect(detectEntityTypeByRules('Citibank NA').entityType).toBe('Financial Institution');
+    expect(detectEntityTypeByRules('WELLS FARGO N.A.').entityType).toBe('Financial Institution');
+  });
+
+  it('does not read the surname NA as a bank', () => {
+    expect(detectEntityTypeByRules('KIM NA').entityType).toBeNull();
+    expect(detectEntityTypeByRules('Jenny Na').entityType).toBeNull();
+  });
+});
+
+describe('withEntityType', () => {
+  it('keeps the binary classification consistent with the entity type', () => {
+    expect(withEntityType(
+      { classification: 'Individual', entityType: 'Sole Proprietor', confidence: 90, reasoning: 'AI', processingTier: 'AI-Powered' },
+      'JOHN SMITH DBA SMITH PLUMBING'
+    ).classification).toBe('Business');
+  });
+
+  it('refines a generic result from the name', () => {
+    const result = withEntityType(
+      { classification: 'Business', confidence: 90, reasoning: 'Suffix', processingTier: 'Rule-Based', matchingRules: ['Suffix'] },
+      'CITY OF AUSTIN'
+    );
+    expect(result.entityType).toBe('Government');
+    expect(result.matchingRules).toEqual(['Suffix', 'Government: Government jurisdiction prefix']);
+  });
+
+  it('uses the classification when the name says nothing more', () => {
+    expect(withEntityType(
+      { classification: 'Individual', confidence: 90, reasoning: 'Name', processingTier: 'Rule-Based' },
+      'KIM NA'
+    ).entityType).toBe('Individual');
+  });
+});
@@ -0,0 +1,110 @@
+import { ClassificationResult, EntityType } from '../types';
+import { detectEntityTypeByRules } from './enhancedRules';
+
+/**
+ * All supported entity types, in display order
+ */
+export const ENTITY_TYPES: EntityType[] = [
+  'Individual',
+  'Sole Proprietor',
+  'Business',
+  'Financial Institution',
+  'Nonprofit',
+  'Government',
+  'Trust/Estate'
+];
+
+/**
+ * Aliases accepted from AI responses, database rows and user input
+ */
+const ENTITY_TYPE_ALIASES: Record<string, EntityType> = {
+  'individual': 'Individual',
+  'personal': 'Individual',
+  'person': 'Individual',
+  'business': 'Business',
+  'corporation': 'Business',
+  'company': 'Business',
+  'government': 'Government',
+  'governmental': 'Government',
+  'government entity': 'Government',
+  'nonprofit': 'Nonprofit',
+  'non-profit': 'Nonprofit',
+  'not-for-profit': 'Nonprofit',
+  'charity': 'Nonprofit',
+  'financial institution': 'Financial Institution',
+  'financial': 'Financial Institution',
+  'bank': 'Financial Institution',
+  'trust/estate': 'Trust/Estate',
+  'trust': 'Trust/Estate',
+  'estate': 'Trust/Estate',
+  'sole proprietor': 'Sole Proprietor',
+  'sole proprietorship': 'Sole Proprietor',
+  'sole prop': 'Sole Proprietor'
+};
+
+/**
+ * Map an entity type onto the legacy binary classification.
+ * Only natural persons are Individual; sole proprietors operate under a trade
+ * name and are treated as businesses (they receive SIC codes).
+ */
+export function toBinaryClassification(entityType: EntityType): 'Business' | 'Individual' {
+  return entityType === 'Individual' ? 'Individual' : 'Business';
+}
+
+/**
+ * The entity type a free-form string names, or null when it names none
+ */
+export function parseEntityType(value: string | null | undefined): EntityType | null {
+  return ENTITY_TYPE_ALIASES[(value || '').trim().toLowerCase()] || null;
+}
+
+/**
+ * Normalize a free-form entity type string, falling back to the binary classification.
+ * When neither is recognized the result is Business, so an unreadable value never
+ * turns a payee into a person.
+ */
+export function normalizeEntityType(
+  value: string | null | undefined,
+  fallbackClassification?: string | null
+): EntityType {
+  const entityType = parseEntityType(value);
+  if (entityType) {
+    return entityType;
+  }
+
+  const fallback = parseEntityType(fallbackClassification);
+  if (value && value.trim() !== '') {
+    console.warn(`[ENTITY TAXONOMY] Unknown entity type "${value}", using ${fallback || 'Business'}`);
+  }
+  return fallback || 'Business';
+}
+
+/**
+ * Check whether a string is one of the supported entity types
+ */
+export function isEntityType(value: unknown): value is EntityType {
+  return typeof value === 'string' && (ENTITY_TYPES as string[]).includes(value);
+}
+
+/**
+ * Resolve the entity type for a classification result and keep the binary
+ * classification consistent with it. An explicit entityType (e.g. from AI) wins;
+ * otherwise the name-based entity rules refine a generic result.
+ */
+export function withEntityType(result: ClassificationResult, payeeName: string): ClassificationResult {
+  if (result.entityType) {
+    return { ...result, classification: toBinaryClassification(result.entityType) };
+  }
+
+  const detected = detectEntityTypeByRules(payeeName);
+  if (detected.entityType) {
+    return {
+      ...result,
+      entityType: detected.entityType,
+      classification: toBinaryClassification(detected.entityType),
+      matchingRules: [...(result.matchingRules || []), ...detected.rules]
+    };
+  }
+
+  return { ...result, entityType: result.classification };
+}
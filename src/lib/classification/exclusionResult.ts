@@ -4,6 +4,7 @@ import { type SimilarityScores } from './stringMatching';
 export interface KeywordExclusionResult {
   isExcluded: boolean;
   matchedKeywords: string[];
+  matchedCategories?: string[];
   confidence: number;
   reasoning: string;
   similarityScores?: SimilarityScores;
@@ -6,9 +6,18 @@ import { applyRuleBasedClassification } from './ruleBasedClassification';
 import { applyNLPClassification } from './nlpClassification';
 import { consensusClassification } from '../openai/enhancedClassification';
 import { detectBusinessByExtendedRules, detectIndividualByExtendedRules } from './enhancedRules';
+import { withEntityType } from './entityTaxonomy';
+import { findPayeeOverride, overrideToClassificationResult } from '../database/payeeOverrideService';
+import { classifyWithCustomRules } from '../database/classificationRuleService';
+import { classifyWithNgramModel, loadNgramModel } from '../database/ngramModelService';
+import { classifyPayeeEnsemble } from './ensembleClassification';
+import { classifyCompositePayee } from './compositeClassification';
+import { detectJointPayee } from './nameProcessing';
+import { parseCompositePayee } from '../dataStandardization/compositeParser';
+import { detectPromptInjection, toSuspiciousInputResult } from '../openai/promptSafety';
 import { logger } from '../logging';
 
-const CONFIDENCE_THRESHOLDS = {
+export const CONFIDENCE_THRESHOLDS = {
   HIGH_CONFIDENCE: 95,
   MEDIUM_CONFIDENCE: 85,
   REVIEW_REQUIRED: 75,
@@ -17,12 +26,51 @@ const CONFIDENCE_THRESHOLDS = {
 };
 
 /**
- * Final enhanced classification that properly catches obvious business cases
+ * Final enhanced classification that properly catches obvious business cases.
+ * Reviewer overrides win, then user-authored classification rules, before any built-in tier.
+ * In ensemble mode every tier votes instead of stopping at the first confident one.
+ * Names that look like prompt injection are never sent to the AI and come back in the
+ * Suspicious Input tier. Composite payees (DBA, C/O, ATTN, FBO) have each entity
+ * classified on its own. Every result carries an entityType from the full taxonomy.
  */
 export async function classifyPayee(
   payeeName: string,
   config: ClassificationConfig = DEFAULT_CLASSIFICATION_CONFIG,
   retryCount: number = 0
+): Promise<ClassificationResult> {
+  const override = payeeName?.trim() ? await findPayeeOverride(payeeName) : null;
+  if (payeeName?.trim() && !override) {
+    const customRuleResult = await classifyWithCustomRules(payeeName);
+    if (customRuleResult) {
+      logger.debug(`Applying custom rule to "${payeeName}"`, { method: customRuleResult.processingMethod }, 'CLASSIFICATION');
+      return withEntityType(customRuleResult, payeeName);
+    }
+
+    const injection = detectPromptInjection(payeeName);
+    if (injection.suspicious) {
+      logger.warn(`Not sending "${payeeName}" to AI: ${injection.reasons.join('; ')}`, null, 'CLASSIFICATION');
+      const offlineConfig = { ...config, offlineMode: true };
+      const offlineResult = config.ensembleMode
+        ? await classifyPayeeEnsemble(payeeName, offlineConfig)
+        : await classifyPayeeByTier(payeeName, offlineConfig);
+      return withEntityType(toSuspiciousInputResult(offlineResult, injection), payeeName);
+    }
+
+    const composite = parseCompositePayee(payeeName);
+    if (composite) {
+      return classifyCompositePayee(composite, part => classifyPayee(part, config, retryCount));
+    }
+  }
+
+  const result = config.ensembleMode && payeeName?.trim()
+    ? await classifyPayeeEnsemble(payeeName, config)
+    : await classifyPayeeByTier(payeeName, config);
+  return withEntityType(result, payeeName || '');
+}
+
+async function classifyPayeeByTier(
+  payeeName: string,
+  config: ClassificationConfig
 ): Promise<ClassificationResult> {
   if (!payeeName || payeeName.trim() === '') {
     return {
@@ -37,6 +85,13 @@ export async function classifyPayee(
   try {
     logger.debug(`Classifying "${payeeName}" with enhanced business detection`, { payeeName }, 'CLASSIFICATION');
 
+    // Stage 0: Reviewer overrides always win and skip every other tier
+    const override = await findPayeeOverride(payeeName);
+    if (override) {
+      logger.debug(`Applying stored override for "${payeeName}"`, { override }, 'CLASSIFICATION');
+      return overrideToClassificationResult(override);
+    }
+
     // Stage 1: Keyword exclusion check
     const keywordExclusion = await checkKeywordExclusion(payeeName);
     if (keywordExclusion.isExcluded) {
@@ -50,7 +105,22 @@ export async function classifyPayee(
       };
     }
 
-    // Stage 2: Rule-based detection
+    // Stage 2: Rule-based detection, starting with joint payees of several people
+    // so their ampersand is not read as a business marker
+    const joint = detectJointPayee(payeeName);
+    if (joint.isJoint) {
+      return {
+        classification: 'Individual',
+        entityType: 'Individual',
+        confidence: CONFIDENCE_THRESHOLDS.MEDIUM_CONFIDENCE,
+        reasoning: `Joint payee of ${joint.partyCount} individuals: ${joint.parties.join('; ')}`,
+        processingTier: 'Rule-Based',
+        matchingRules: [`Joint payee (${joint.partyCount} parties)`],
+        keywordExclusion,
+        processingMethod: 'Joint payee detection'
+      };
+    }
+
     const ruleBasedResult = applyRuleBasedClassification(payeeName);
     if (ruleBasedResult && ruleBasedResult.confidence >= CONFIDENCE_THRESHOLDS.REVIEW_REQUIRED) {
       logger.debug(`Rule-based classification successful for "${payeeName}": ${ruleBasedResult.classification} (${ruleBasedResult.confidence}%)`, 
@@ -107,7 +177,19 @@ export async function classifyPayee(
       };
     }
 
-    // Stage 5: AI classification as final resort
+    // Stage 5: Local n-gram model trained on reviewed payees
+    const localModel = await loadNgramModel();
+    const localResult = localModel ? classifyWithNgramModel(localModel, payeeName) : null;
+    if (localResult) {
+      logger.debug(`Local model classification for "${payeeName}": ${localResult.entityType} (${localResult.confidence}%)`,
+        { result: localResult }, 'CLASSIFICATION');
+      return {
+        ...localResult,
+        keywordExclusion
+      };
+    }
+
+    // Stage 6: AI classification as final resort
     if (!config.offlineMode) {
       try {
         logger.debug(`Using AI classification for "${payeeName}"`, null, 'CLASSIFICATION');
@@ -115,12 +197,14 @@ export async function classifyPayee(
         
         return {
           classification: aiResult.classification,
+          entityType: aiResult.entityType,
           confidence: Math.max(aiResult.confidence, CONFIDENCE_THRESHOLDS.REVIEW_REQUIRED),
           reasoning: `AI classification: ${aiResult.reasoning}`,
           processingTier: 'AI-Powered',
           matchingRules: aiResult.matchingRules,
           keywordExclusion,
-          processingMethod: 'AI consensus classification'
+          processingMethod: 'AI consensus classification',
+          promptVersionId: aiResult.promptVersionId
         };
         
       } catch (error) {
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { determine1099Reportability } from './form1099Rules';
+
+describe('determine1099Reportability', () => {
+  it('flags individuals and sole proprietors as likely reportable', () => {
+    expect(determine1099Reportability('JOHN SMITH', {
+      classification: 'Individual', entityType: 'Individual', confidence: 95, processingTier: 'AI-Powered'
+    })).toEqual({ status: 'Likely Reportable', reason: 'Individual payee' });
+    expect(determine1099Reportability('JOHN SMITH DBA SMITH PLUMBING', {
+      classification: 'Business', entityType: 'Sole Proprietor', confidence: 95, processingTier: 'AI-Powered'
+    })).toEqual({ status: 'Likely Reportable', reason: 'Sole proprietor' });
+    // Without an entity type the binary classification decides
+    expect(determine1099Reportability('JANE DOE', { classification: 'Individual', confidence: 90, processingTier: 'Rule-Based' }).status)
+      .toBe('Likely Reportable');
+  });
+
+  it('separates corporations, LLCs and partnerships by legal suffix', () => {
+    const business = { classification: 'Business' as const, confidence: 95, processingTier: 'AI-Powered' as const };
+    expect(determine1099Reportability('ACME INC', business)).toEqual({ status: 'Exempt', reason: 'Corporation (INC/CORP suffix)' });
+    expect(determine1099Reportability('Acme Corp.', business).status).toBe('Exempt');
+    expect(determine1099Reportability('ACME LLC', business).status).toBe('Review');
+    expect(determine1099Reportability('Acme Widgets, L.L.C.', business).status).toBe('Review');
+    expect(determine1099Reportability('SMITH & JONES LLP', business)).toEqual({ status: 'Likely Reportable', reason: 'Partnership' });
+    expect(determine1099Reportability('ACME INSURANCE AGENCY LLC', business).status).toBe('Review');
+    expect(determine1099Reportability('ACME', business)).toEqual({
+      status: 'Review',
+      reason: 'Business without a legal suffix; confirm its tax classification with a W-9'
+    });
+  });
+
+  it('keeps medical and legal services reportable even for corporations', () => {
+    expect(determine1099Reportability('SMITH LAW FIRM PC INC', {
+      classification: 'Business', confidence: 95, processingTier: 'AI-Powered'
+    })).toEqual({ status: 'Likely Reportable', reason: 'Medical or legal services are reportable even to corporations' });
+    expect(determine1099Reportability('NORTHSIDE PARTNERS INC', {
+      classification: 'Business',
+      confidence: 95,
+      processingTier: 'Rule-Based',
+      keywordExclusion: { isExcluded: true, matchedKeywords: ['NORTHSIDE'], matchedCategories: ['healthcare'], confidence: 100, reasoning: '' }
+    }).status).toBe('Likely Reportable');
+  });
+
+  it('exempts government, tax-exempt and financial payees', () => {
+    expect(determine1099Reportability('CITY OF AUSTIN', { classification: 'Business', confidence: 95, processingTier: 'AI-Powered' }))
+      .toEqual({ status: 'Exempt', reason: 'Government entity' });
+    expect(determine1099Reportability('TRAVIS CAD', {
+      classification: 'Business', entityType: 'Government', confidence: 60, processingTier: 'AI-Powered'
+    }).status).toBe('Exempt');
+    expect(determine1099Reportability('UNITED WAY', {
+      classification: 'Business', entityType: 'Nonprofit', confidence: 95, processingTier: 'AI-Powered'
+    })).toEqual({ status: 'Exempt', reason: 'Tax-exempt organization' });
+    expect(determine1099Reportability('FIRST NATIONAL BANK', {
+      classification: 'Business', entityType: 'Financial Institution', confidence: 95, processingTier: 'AI-Powered'
+    }).status).toBe('Exempt');
+    expect(determine1099Reportability('VERIZON', {
+      classification: 'Business',
+      confidence: 95,
+      processingTier: 'Excluded',
+      keywordExclusion: { isExcluded: true, matchedKeywords: ['VERIZON'], matchedCategories: ['utilities'], confidence: 100, reasoning: '' }
+    })).toEqual({ status: 'Exempt', reason: 'Known corporate payee (utilities exclusion keyword)' });
+  });
+
+  it('does not read government words in suffixed or personal names as government', () => {
+    expect(determine1099Reportability('NATIONAL PLUMBING LLC', { classification: 'Business', confidence: 95, processingTier: 'AI-Powered' }).status)
+      .toBe('Review');
+    expect(determine1099Reportability('ROYAL JONES', {
+      classification: 'Individual', entityType: 'Individual', confidence: 95, processingTier: 'AI-Powered'
+    }).status).toBe('Likely Reportable');
+  });
+
+  it('exempts government names only on a leading city, county, state or department phrase', () => {
+    const business = { classification: 'Business' as const, entityType: 'Business' as const, confidence: 90, processingTier: 'Rule-Based' as const };
+    expect(determine1099Reportability('COUNTY OF TRAVIS', business).status).toBe('Exempt');
+    expect(determine1099Reportability('The State of Texas', business).status).toBe('Exempt');
+    expect(determine1099Reportability('DEPARTMENT OF REVENUE', business).status).toBe('Exempt');
+    for (const name of ['ROYAL PLUMBING', 'US FOODS', 'DISTRICT TACO', 'SMITH INSURANCE AGENCY', 'FEDERAL EXPRESS']) {
+      expect(determine1099Reportability(name, business)).toEqual({
+        status: 'Review',
+        reason: 'Name suggests a government entity; confirm with a W-9'
+      });
+    }
+    expect(determine1099Reportability('FEDERAL EXPRESS', {
+      ...business,
+      keywordExclusion: { isExcluded: true, matchedKeywords: ['FEDERAL EXPRESS'], matchedCategories: ['shipping'], confidence: 100, reasoning: '' }
+    }).status).toBe('Review');
+  });
+
+  it('sends failed, missing and low-confidence results to review', () => {
+    expect(determine1099Reportability('ACME INC', undefined)).toEqual({ status: 'Review', reason: 'Classification failed' });
+    expect(determine1099Reportability('ACME INC', { classification: 'Business', confidence: 0, processingTier: 'Failed' }).status)
+      .toBe('Review');
+    expect(determine1099Reportability('ACME INC', { classification: 'Business', confidence: 60, processingTier: 'AI-Powered' }))
+      .toEqual({ status: 'Review', reason: 'Low classification confidence (60%)' });
+    expect(determine1099Reportability('SMITH FAMILY TRUST', {
+      classification: 'Business', entityType: 'Trust/Estate', confidence: 95, processingTier: 'AI-Powered'
+    }).status).toBe('Review');
+  });
+});
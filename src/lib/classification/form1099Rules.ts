@@ -0,0 +1,89 @@
+import { ClassificationResult, Form1099Determination, Form1099Status } from '../types';
+import { GOVERNMENT_PATTERNS } from './config';
+import { CONFIDENCE_THRESHOLDS } from './finalClassification';
+
+export const FORM_1099_STATUSES: Form1099Status[] = ['Likely Reportable', 'Exempt', 'Review'];
+
+const CORPORATION_SUFFIX = /\b(INC|INCORPORATED|CORP|CORPORATION)\b\.?/i;
+const LLC_SUFFIX = /\b(LLC|L\.L\.C|PLLC)\b\.?/i;
+const PARTNERSHIP_SUFFIX = /\b(LLP|LP|LLLP|PARTNERSHIP)\b\.?/i;
+
+// Medical and legal payments are reportable even when the payee is a corporation
+const MEDICAL_OR_LEGAL = /\b(ATTORNEYS?|LAW\s+(FIRM|OFFICES?|GROUP)|LEGAL|ESQ|MD|DDS|DMD|MEDICAL|PHYSICIANS?|CLINIC|DENTAL|CHIROPRACTIC)\b/i;
+const MEDICAL_OR_LEGAL_CATEGORIES = new Set(['healthcare']);
+
+// Only these phrases, leading the name, are strong enough to exempt on their own
+const STRONG_GOVERNMENT_PHRASES = ['CITY OF', 'COUNTY OF', 'STATE OF', 'DEPARTMENT OF'];
+const STRONG_GOVERNMENT_PATTERN = new RegExp(`^(THE\\s+)?(${STRONG_GOVERNMENT_PHRASES.join('|').replace(/ /g, '\\s+')})\\s`, 'i');
+
+// The rest also name businesses ("ROYAL PLUMBING", "US FOODS", "DISTRICT TACO"), so they only prompt a review
+const WEAK_GOVERNMENT_PATTERN = new RegExp(
+  `(^|[^A-Z])(${GOVERNMENT_PATTERNS
+    .filter(pattern => !STRONG_GOVERNMENT_PHRASES.includes(pattern))
+    .map(pattern => pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('|')})(?=$|[^A-Z])`,
+  'i'
+);
+
+const determination = (status: Form1099Status, reason: string): Form1099Determination => ({ status, reason });
+
+/**
+ * Derive a 1099 reportability flag from a payee's classification, legal suffix,
+ * government name patterns and the categories of any matched exclusion keywords.
+ * This is a screening aid, not tax advice: anything uncertain is sent to review.
+ */
+export function determine1099Reportability(
+  payeeName: string,
+  result: Pick<ClassificationResult, 'classification' | 'entityType' | 'confidence' | 'processingTier' | 'keywordExclusion'> | undefined
+): Form1099Determination {
+  if (!result || result.processingTier === 'Failed') {
+    return determination('Review', 'Classification failed');
+  }
+
+  const name = payeeName || '';
+  const entityType = result.entityType || result.classification;
+  const isPerson = entityType === 'Individual' || entityType === 'Sole Proprietor';
+  const categories = result.keywordExclusion?.isExcluded ? result.keywordExclusion.matchedCategories || [] : [];
+
+  // Name patterns alone are weak ("ACME INSURANCE AGENCY LLC"), so they only count without a legal suffix
+  const hasLegalSuffix = [CORPORATION_SUFFIX, LLC_SUFFIX, PARTNERSHIP_SUFFIX].some(suffix => suffix.test(name));
+  const checkGovernmentName = !isPerson && !hasLegalSuffix;
+
+  if (entityType === 'Government' || categories.includes('government') || (checkGovernmentName && STRONG_GOVERNMENT_PATTERN.test(name))) {
+    return determination('Exempt', 'Government entity');
+  }
+  if (entityType === 'Nonprofit' || categories.includes('nonprofit')) {
+    return determination('Exempt', 'Tax-exempt organization');
+  }
+  if (result.confidence < CONFIDENCE_THRESHOLDS.REVIEW_REQUIRED) {
+    return determination('Review', `Low classification confidence (${result.confidence}%)`);
+  }
+  if (MEDICAL_OR_LEGAL.test(name) || categories.some(category => MEDICAL_OR_LEGAL_CATEGORIES.has(category))) {
+    return determination('Likely Reportable', 'Medical or legal services are reportable even to corporations');
+  }
+  if (isPerson) {
+    return determination('Likely Reportable', entityType === 'Sole Proprietor' ? 'Sole proprietor' : 'Individual payee');
+  }
+  if (entityType === 'Trust/Estate') {
+    return determination('Review', 'Trust or estate; reportability depends on its tax status');
+  }
+  if (entityType === 'Financial Institution') {
+    return determination('Exempt', 'Financial institution');
+  }
+  if (CORPORATION_SUFFIX.test(name)) {
+    return determination('Exempt', 'Corporation (INC/CORP suffix)');
+  }
+  if (LLC_SUFFIX.test(name)) {
+    return determination('Review', 'LLC; reportable unless taxed as a corporation, confirm with a W-9');
+  }
+  if (PARTNERSHIP_SUFFIX.test(name)) {
+    return determination('Likely Reportable', 'Partnership');
+  }
+  if (checkGovernmentName && WEAK_GOVERNMENT_PATTERN.test(name)) {
+    return determination('Review', 'Name suggests a government entity; confirm with a W-9');
+  }
+  if (categories.length > 0) {
+    return determination('Exempt', `Known corporate payee (${categories.join(', ')} exclusion keyword)`);
+  }
+  return determination('Review', 'Business without a legal suffix; confirm its tax classification with a W-9');
+}
@@ -10,6 +10,7 @@ export interface ExclusionResult {
 
 // Cache for all keywords to avoid repeated database calls
 let allKeywordsCache: string[] = [];
+let keywordCategoryCache = new Map<string, string>();
 let cacheTimestamp = 0;
 const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 
@@ -28,6 +29,7 @@ async function loadAllKeywords(): Promise<string[]> {
     const keywordData = await loadAllExclusionKeywords();
     const keywords = keywordData.map(k => k.keyword);
     allKeywordsCache = keywords;
+    keywordCategoryCache = new Map(keywordData.map(k => [k.keyword, k.category]));
     cacheTimestamp = now;
     return keywords;
   } catch (error) {
@@ -41,9 +43,20 @@ async function loadAllKeywords(): Promise<string[]> {
  */
 export function clearCustomKeywordsCache(): void {
   allKeywordsCache = [];
+  keywordCategoryCache = new Map();
   cacheTimestamp = 0;
 }
 
+/**
+ * Categories of matched keywords, from the keywords last loaded from the database
+ */
+export function getExclusionKeywordCategories(keywords: string[]): string[] {
+  const categories = keywords
+    .map(keyword => keywordCategoryCache.get(keyword))
+    .filter((category): category is string => Boolean(category));
+  return Array.from(new Set(categories));
+}
+
 /**
  * Get all exclusion keywords from database
  */
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { parseName, tagName, toNaturalNameOrder } from './nameParser';
+import { isSameEntity, normalizeForDuplicateDetection } from './enhancedNormalization';
+import { applyNLPClassification } from './nlpClassification';
+
+describe('parseName', () => {
+  it('tags person name components', () => {
+    expect(parseName('Dr. Jane Q. Public, MD')).toEqual([
+      { PrefixOther: 'Dr.', GivenName: 'Jane', MiddleInitial: 'Q.', Surname: 'Public', SuffixOther: 'MD' },
+      'person'
+    ]);
+    expect(parseName('SMITH, JOHN A JR')).toEqual([
+      { GivenName: 'JOHN', MiddleInitial: 'A', Surname: 'SMITH', SuffixGenerational: 'JR' },
+      'person'
+    ]);
+    expect(parseName('Ludwig van Beethoven')[0]).toMatchObject({ GivenName: 'Ludwig', Surname: 'van Beethoven' });
+    expect(parseName('Mary Ann van der Berg')).toEqual([
+      { GivenName: 'Mary', MiddleName: 'Ann', Surname: 'van der Berg' },
+      'person'
+    ]);
+  });
+
+  it('tags corporation components', () => {
+    expect(parseName('Bank of America, N.A.')).toEqual([
+      { CorporationName: 'Bank of America', CorporationLegalType: 'N.A.', OrganizationNameType: 'Bank' },
+      'corporation'
+    ]);
+    expect(parseName('Acme Widgets LLC')[1]).toBe('corporation');
+    expect(parseName('The Home Depot')[1]).toBe('corporation');
+  });
+
+  it('recognizes households', () => {
+    expect(parseName('John and Jane Smith')).toEqual([
+      { GivenName: 'John', Surname: 'Smith', SecondGivenName: 'Jane' },
+      'household'
+    ]);
+    expect(parseName('Mr and Mrs John Smith')[0]).toMatchObject({ PrefixMarital: 'Mr', SecondPrefixMarital: 'Mrs', Surname: 'Smith' });
+  });
+
+  it('leaves single bare words untyped', () => {
+    expect(tagName('Madonna').nameType).toBe('unknown');
+  });
+});
+
+describe('applyNLPClassification', () => {
+  it('classifies from parsed components', () => {
+    expect(applyNLPClassification('Smith, John A')).toMatchObject({ classification: 'Individual', processingTier: 'NLP-Based' });
+    expect(applyNLPClassification('Acme Widgets LLC')).toMatchObject({ classification: 'Business', processingTier: 'NLP-Based' });
+  });
+});
+
+describe('toNaturalNameOrder', () => {
+  it('reorders people and leaves everything else alone', () => {
+    expect(toNaturalNameOrder('SMITH, JOHN A JR')).toBe('JOHN A SMITH JR');
+    expect(toNaturalNameOrder('Dr. John Smith')).toBe('John Smith');
+    expect(toNaturalNameOrder('Bank of America, N.A.')).toBe('Bank of America, N.A.');
+    expect(toNaturalNameOrder('John and Jane Smith')).toBe('John and Jane Smith');
+    expect(toNaturalNameOrder('Madonna')).toBe('Madonna');
+  });
+
+  it('lets duplicate detection match surname-first listings', () => {
+    expect(normalizeForDuplicateDetection('SMITH, JOHN')).toBe('JOHN SMITH');
+    expect(isSameEntity('Smith, John', 'Dr. John Smith')).toBe(true);
+    expect(normalizeForDuplicateDetection('Acme Widgets Incorporated')).toBe('ACME WIDGETS INC');
+  });
+});
@@ -0,0 +1,365 @@
+import { ParsedPerson, ParsedCorporation } from '../types';
+import { BUSINESS_KEYWORDS } from './config';
+
+/**
+ * Native name tagger producing probablepeople-style labels.
+ * Tokens are tagged with dictionaries and position rules, then the whole name is
+ * typed as a person, a household (two people sharing a surname) or a corporation.
+ */
+
+export type NameType = 'person' | 'household' | 'corporation' | 'unknown';
+
+export type ParsedName = ParsedPerson | ParsedCorporation;
+
+export interface TaggedToken {
+  token: string;
+  label: string;
+}
+
+const PREFIX_MARITAL = new Set(['MR', 'MRS', 'MS', 'MISS', 'MX', 'MESSRS', 'MMES']);
+
+const PREFIX_OTHER = new Set([
+  'DR', 'DOCTOR', 'PROF', 'PROFESSOR', 'REV', 'REVEREND', 'FR', 'FATHER', 'PASTOR', 'RABBI',
+  'HON', 'HONORABLE', 'SIR', 'DAME', 'CAPT', 'CPT', 'COL', 'GEN', 'MAJ', 'LT', 'SGT', 'ADM', 'CMDR'
+]);
+
+const SUFFIX_GENERATIONAL = new Set(['JR', 'SR', 'II', 'III', 'IV', 'V', 'VI', '2ND', '3RD', '4TH']);
+
+const SUFFIX_OTHER = new Set([
+  'MD', 'DO', 'DDS', 'DMD', 'DVM', 'DC', 'PHD', 'EDD', 'JD', 'ESQ', 'CPA', 'RN', 'LPN', 'NP',
+  'PA-C', 'LCSW', 'MBA', 'PE', 'RET', 'USN', 'USMC', 'USAF'
+]);
+
+const CORPORATION_LEGAL_TYPES = new Set([
+  'LLC', 'LLP', 'LP', 'LTD', 'INC', 'CORP', 'CO', 'PC', 'PLLC', 'PLC', 'PA', 'NA', 'FSB', 'GMBH',
+  'SA', 'AG', 'BV', 'NV', 'PTY', 'SRL', 'CORPORATION', 'INCORPORATED', 'LIMITED', 'COMPANY'
+]);
+
+const ORGANIZATION_NAME_TYPES = new Set([
+  'ASSOCIATION', 'ASSOCIATES', 'AUTHORITY', 'BANK', 'BOARD', 'BUREAU', 'CENTER', 'CENTRE', 'CHURCH',
+  'CLINIC', 'CLUB', 'COLLEGE', 'COMMISSION', 'COMMITTEE', 'COOPERATIVE', 'COUNCIL', 'COUNTY',
+  'CREDIT', 'DEPARTMENT', 'DEPT', 'DISTRICT', 'ESTATE', 'FOUNDATION', 'FUND', 'GROUP', 'HOSPITAL',
+  'INSTITUTE', 'INSURANCE', 'LABORATORIES', 'MINISTRY', 'PARTNERS', 'PARTNERSHIP', 'SCHOOL', 'SOCIETY',
+  'TRUST', 'UNION', 'UNIVERSITY', 'AGENCY', 'OFFICE', 'CITY', 'STATE', 'TOWN', 'VILLAGE', 'TOWNSHIP'
+]);
+
+// Lowercase particles that belong to the surname ("Ludwig van Beethoven")
+const SURNAME_PARTICLES = new Set(['VAN', 'VON', 'DE', 'DEL', 'DELLA', 'DER', 'DI', 'DA', 'DOS', 'DU', 'LA', 'LE', 'ST', 'BIN', 'AL', 'MAC']);
+
+const CONJUNCTIONS = new Set(['&', 'AND', '+']);
+
+const BUSINESS_WORDS = new Set(BUSINESS_KEYWORDS);
+
+function clean(token: string): string {
+  return token.toUpperCase().replace(/\./g, '').replace(/,$/, '');
+}
+
+function isNameWord(token: string): boolean {
+  return /^[A-Za-z][A-Za-z'-]*\.?$/.test(token);
+}
+
+function isInitial(token: string): boolean {
+  return /^[A-Za-z]\.?$/.test(token);
+}
+
+function isOrganizationWord(word: string): boolean {
+  return CORPORATION_LEGAL_TYPES.has(word) || ORGANIZATION_NAME_TYPES.has(word) || BUSINESS_WORDS.has(word);
+}
+
+/**
+ * Check whether a token is a marital or other name prefix ("MR", "DR")
+ */
+export function isNamePrefix(token: string): boolean {
+  const word = clean(token);
+  return PREFIX_MARITAL.has(word) || PREFIX_OTHER.has(word);
+}
+
+/**
+ * Split a name into tokens, keeping commas and "&" as separate tokens
+ */
+export function tokenizeName(name: string): string[] {
+  return name
+    .replace(/,/g, ' , ')
+    .replace(/&/g, ' & ')
+    .split(/\s+/)
+    .filter(token => token.length > 0);
+}
+
+function parseCorporation(tokens: string[]): { parsed: ParsedCorporation; tags: TaggedToken[] } {
+  const words = tokens.filter(token => token !== ',');
+  const tags: TaggedToken[] = [];
+  const nameParts: string[] = [];
+  const legalParts: string[] = [];
+  let organizationType: string | undefined;
+
+  words.forEach((token, index) => {
+    const word = clean(token);
+    // Legal types only count at the end of the name ("CO" in "CO OP SUPPLY" is not one)
+    const trailing = words.slice(index).every(rest => CORPORATION_LEGAL_TYPES.has(clean(rest)));
+    if (trailing && CORPORATION_LEGAL_TYPES.has(word)) {
+      legalParts.push(token.replace(/,$/, ''));
+      tags.push({ token, label: 'CorporationLegalType' });
+      return;
+    }
+    if (!organizationType && ORGANIZATION_NAME_TYPES.has(word)) {
+      organizationType = token;
+      tags.push({ token, label: 'OrganizationNameType' });
+    } else {
+      tags.push({ token, label: 'CorporationName' });
+    }
+    nameParts.push(token);
+  });
+
+  const parsed: ParsedCorporation = {};
+  if (nameParts.length > 0) parsed.CorporationName = nameParts.join(' ');
+  if (legalParts.length > 0) parsed.CorporationLegalType = legalParts.join(' ');
+  if (organizationType) parsed.OrganizationNameType = organizationType;
+  return { parsed, tags };
+}
+
+/**
+ * Tag a single person's name. Returns null when the tokens do not look like one person.
+ */
+function parsePerson(tokens: string[]): { parsed: ParsedPerson; tags: TaggedToken[] } | null {
+  const tags: TaggedToken[] = [];
+  const parsed: ParsedPerson = {};
+  let words = [...tokens];
+
+  // Leading prefixes
+  while (words.length > 0) {
+    const word = clean(words[0]);
+    if (PREFIX_MARITAL.has(word) && !parsed.PrefixMarital) {
+      parsed.PrefixMarital = words[0];
+      tags.push({ token: words[0], label: 'PrefixMarital' });
+    } else if (PREFIX_OTHER.has(word) && !parsed.PrefixOther) {
+      parsed.PrefixOther = words[0];
+      tags.push({ token: words[0], label: 'PrefixOther' });
+    } else {
+      break;
+    }
+    words = words.slice(1);
+  }
+
+  // Trailing suffixes, including those after a comma ("SMITH JOHN, JR")
+  const trailing: TaggedToken[] = [];
+  while (words.length > 0) {
+    const last = words[words.length - 1];
+    const word = clean(last);
+    if (last === ',') {
+      words = words.slice(0, -1);
+      continue;
+    }
+    // A lone "V" after a single given name is an initial, not a generation
+    if (SUFFIX_GENERATIONAL.has(word) && !parsed.SuffixGenerational && !(word === 'V' && words.length <= 2)) {
+      parsed.SuffixGenerational = last.replace(/,$/, '');
+      trailing.unshift({ token: last, label: 'SuffixGenerational' });
+    } else if (SUFFIX_OTHER.has(word) && !parsed.SuffixOther) {
+      parsed.SuffixOther = last.replace(/,$/, '');
+      trailing.unshift({ token: last, label: 'SuffixOther' });
+    } else {
+      break;
+    }
+    words = words.slice(0, -1);
+  }
+
+  // "Surname, Given Middle" ordering
+  const commaIndex = words.indexOf(',');
+  let surnameWords: string[];
+  let givenWords: string[];
+  if (commaIndex !== -1) {
+    surnameWords = words.slice(0, commaIndex);
+    givenWords = words.slice(commaIndex + 1).filter(token => token !== ',');
+  } else {
+    // Surname particles attach to the following word
+    let surnameStart = words.length - 1;
+    while (surnameStart > 1 && SURNAME_PARTICLES.has(clean(words[surnameStart - 1]))) {
+      surnameStart--;
+    }
+    surnameWords = words.slice(surnameStart);
+    givenWords = words.slice(0, surnameStart);
+  }
+
+  const nameWords = [...surnameWords, ...givenWords];
+  // Particles don't count toward the word limit, so "MARY ANN VAN DER BERG" stays a person
+  const coreWordCount = nameWords.filter(token => !SURNAME_PARTICLES.has(clean(token))).length;
+  if (
+    surnameWords.length === 0 ||
+    givenWords.length === 0 ||
+    coreWordCount > 4 ||
+    !nameWords.every(token => isNameWord(token) && !CONJUNCTIONS.has(clean(token)))
+  ) {
+    return null;
+  }
+
+  const [given, ...middle] = givenWords;
+  const givenTags: TaggedToken[] = [];
+  if (isInitial(given)) {
+    parsed.FirstInitial = given;
+    givenTags.push({ token: given, label: 'FirstInitial' });
+  } else {
+    parsed.GivenName = given;
+    givenTags.push({ token: given, label: 'GivenName' });
+  }
+  if (middle.length > 0) {
+    const middleText = middle.join(' ');
+    if (middle.every(isInitial)) {
+      parsed.MiddleInitial = middleText;
+      middle.forEach(token => givenTags.push({ token, label: 'MiddleInitial' }));
+    } else {
+      parsed.MiddleName = middleText;
+      middle.forEach(token => givenTags.push({ token, label: 'MiddleName' }));
+    }
+  }
+
+  const surnameText = surnameWords.join(' ');
+  if (surnameWords.length === 1 && isInitial(surnameWords[0])) {
+    parsed.LastInitial = surnameText;
+  } else {
+    parsed.Surname = surnameText;
+  }
+  const surnameTags = surnameWords.map(token => ({
+    token,
+    label: parsed.LastInitial ? 'LastInitial' : 'Surname'
+  }));
+
+  if (commaIndex !== -1) {
+    tags.push(...surnameTags, { token: ',', label: 'CommaSeparator' }, ...givenTags);
+  } else {
+    tags.push(...givenTags, ...surnameTags);
+  }
+  tags.push(...trailing);
+  return { parsed, tags };
+}
+
+/**
+ * Parse "JOHN AND JANE SMITH" / "JOHN SMITH & JANE DOE" style household names
+ */
+function parseHousehold(tokens: string[]): { parsed: ParsedPerson; tags: TaggedToken[] } | null {
+  const conjunctionIndex = tokens.findIndex(token => CONJUNCTIONS.has(clean(token)));
+  if (conjunctionIndex <= 0 || conjunctionIndex === tokens.length - 1) {
+    return null;
+  }
+
+  const left = tokens.slice(0, conjunctionIndex);
+  const right = parsePerson(tokens.slice(conjunctionIndex + 1));
+  if (!right) {
+    return null;
+  }
+
+  // "MR AND MRS JOHN SMITH": one named person with both prefixes
+  if (left.length === 1 && PREFIX_MARITAL.has(clean(left[0]))) {
+    const parsed: ParsedPerson = { ...right.parsed, PrefixMarital: left[0] };
+    if (right.parsed.PrefixMarital) parsed.SecondPrefixMarital = right.parsed.PrefixMarital;
+    return {
+      parsed,
+      tags: [
+        { token: left[0], label: 'PrefixMarital' },
+        { token: tokens[conjunctionIndex], label: 'And' },
+        ...right.tags.map(tag => tag.label === 'PrefixMarital' ? { ...tag, label: 'SecondPrefixMarital' } : tag)
+      ]
+    };
+  }
+
+  // "JOHN AND JANE SMITH": the first person shares the second person's surname
+  const leftPerson = parsePerson(left) || (left.length === 1 && isNameWord(left[0]) && !isInitial(left[0])
+    ? { parsed: { GivenName: left[0] } as ParsedPerson, tags: [{ token: left[0], label: 'GivenName' }] }
+    : null);
+  if (!leftPerson) {
+    return null;
+  }
+
+  const parsed: ParsedPerson = { ...leftPerson.parsed };
+  if (!parsed.Surname) {
+    parsed.Surname = right.parsed.Surname;
+  }
+  parsed.SecondGivenName = right.parsed.GivenName || right.parsed.FirstInitial;
+  if (right.parsed.Surname !== parsed.Surname) parsed.SecondSurname = right.parsed.Surname;
+  if (right.parsed.PrefixMarital) parsed.SecondPrefixMarital = right.parsed.PrefixMarital;
+
+  const rightTags = right.tags.map(tag => ({
+    token: tag.token,
+    label: tag.label === 'GivenName' || tag.label === 'FirstInitial' ? 'SecondGivenName'
+      : tag.label === 'Surname' ? (parsed.SecondSurname ? 'SecondSurname' : 'Surname')
+      : tag.label === 'PrefixMarital' ? 'SecondPrefixMarital'
+      : tag.label
+  }));
+  return {
+    parsed,
+    tags: [...leftPerson.tags, { token: tokens[conjunctionIndex], label: 'And' }, ...rightTags]
+  };
+}
+
+/**
+ * Tag every token of a name and decide its type
+ */
+export function tagName(name: string): { tags: TaggedToken[]; parsed: ParsedName; nameType: NameType } {
+  const tokens = tokenizeName((name || '').trim());
+  if (tokens.length === 0) {
+    return { tags: [], parsed: {}, nameType: 'unknown' };
+  }
+
+  const words = tokens.filter(token => token !== ',' && !CONJUNCTIONS.has(clean(token)));
+  const looksCorporate = words.some(token => isOrganizationWord(clean(token)))
+    || /\d/.test(name)
+    || clean(tokens[0]) === 'THE'
+    || words.length > 6;
+
+  if (!looksCorporate) {
+    const person = parsePerson(tokens);
+    if (person) {
+      return { ...person, nameType: 'person' };
+    }
+    const household = parseHousehold(tokens);
+    if (household) {
+      return { ...household, nameType: 'household' };
+    }
+  }
+
+  // Names of one bare word cannot be typed without other evidence
+  if (!looksCorporate && words.length < 2) {
+    return { tags: tokens.map(token => ({ token, label: 'Unknown' })), parsed: {}, nameType: 'unknown' };
+  }
+
+  const corporation = parseCorporation(tokens);
+  return { ...corporation, nameType: 'corporation' };
+}
+
+/**
+ * Parse a name into labeled components, in the same shape as probablepeople's tag()
+ */
+export function parseName(name: string): [ParsedName, NameType] {
+  const { parsed, nameType } = tagName(name);
+  return [parsed, nameType];
+}
+
+/**
+ * Parse a name already known to be a person (or household), or null when it does not fit
+ */
+export function parsePersonName(name: string): ParsedPerson | null {
+  const tokens = tokenizeName((name || '').trim());
+  return (parsePerson(tokens) || parseHousehold(tokens))?.parsed || null;
+}
+
+/**
+ * Parse a name already known to be an organization
+ */
+export function parseCorporationName(name: string): ParsedCorporation {
+  return parseCorporation(tokenizeName((name || '').trim())).parsed;
+}
+
+/**
+ * Put a person's name in "GIVEN MIDDLE SURNAME SUFFIX" order so that "SMITH, JOHN"
+ * and "Dr. John Smith" compare equal; other names are returned unchanged
+ */
+export function toNaturalNameOrder(name: string): string {
+  const [parsed, nameType] = parseName(name);
+  if (nameType !== 'person') return name;
+
+  const person = parsed as ParsedPerson;
+  return [
+    person.GivenName || person.FirstInitial,
+    person.MiddleName || person.MiddleInitial,
+    person.Surname || person.LastInitial,
+    person.SuffixGenerational
+  ].filter(Boolean).join(' ');
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { detectBusinessByExtendedRules } from './enhancedRules';
+import { detectJointPayee } from './nameProcessing';
+import { performOfflineClassification } from './offlineClassification';
+
+describe('detectJointPayee', () => {
+  it('splits people sharing a surname', () => {
+    expect(detectJointPayee('JOHN & MARY SMITH')).toEqual({
+      isJoint: true,
+      partyCount: 2,
+      parties: ['JOHN SMITH', 'MARY SMITH']
+    });
+    expect(detectJointPayee('Mr and Mrs John Smith').parties).toEqual(['Mr John Smith', 'Mrs John Smith']);
+  });
+
+  it('splits fully named parties joined by OR', () => {
+    expect(detectJointPayee('SMITH JOHN OR SMITH JANE')).toEqual({
+      isJoint: true,
+      partyCount: 2,
+      parties: ['SMITH JOHN', 'SMITH JANE']
+    });
+    expect(detectJointPayee('JOHN SMITH AND/OR JANE DOE').parties).toEqual(['JOHN SMITH', 'JANE DOE']);
+  });
+
+  it('keeps businesses with conjunctions as a single party', () => {
+    for (const name of ['J SMITH AND ASSOCIATES', 'SMITH & WESSON', 'AT&T', 'ERNST & YOUNG LLP', 'A & B SMITH', 'JOHN & MARY SMITH DENTAL']) {
+      expect(detectJointPayee(name)).toMatchObject({ isJoint: false, partyCount: 1 });
+    }
+    expect(detectJointPayee('JOHN SMITH')).toEqual({ isJoint: false, partyCount: 1, parties: ['JOHN SMITH'] });
+  });
+
+  it('keeps businesses whose parts parse as people as a single party', () => {
+    for (const name of ['PB&J CAFE', 'ROMEO AND JULIET SALON', 'BEN & JERRYS ICE CREAM', 'ROCK AND ROLL HALL']) {
+      expect(detectJointPayee(name)).toMatchObject({ isJoint: false, partyCount: 1 });
+    }
+  });
+});
+
+describe('performOfflineClassification', () => {
+  it('does not score a joint payee ampersand as a business marker', () => {
+    expect(performOfflineClassification('JOHN & MARY SMITH', [], [])).toMatchObject({
+      classification: 'Individual',
+      processingMethod: 'Joint payee detection'
+    });
+  });
+
+  it('scores businesses whose parts parse as people on their business markers', () => {
+    for (const name of ['PB&J CAFE', 'BEN & JERRYS ICE CREAM']) {
+      expect(performOfflineClassification(name, detectBusinessByExtendedRules(name).rules, [])).toMatchObject({
+        classification: 'Business',
+        processingMethod: 'Offline heuristic analysis'
+      });
+    }
+  });
+});
@@ -1,16 +1,68 @@
-import { jaroWinklerSimilarity } from './enhancedRules';
-import { NAME_SIMILARITY_THRESHOLD } from './config';
+import { EXTENDED_BUSINESS_KEYWORDS, jaroWinklerSimilarity } from './enhancedRules';
+import { INDUSTRY_IDENTIFIERS, LEGAL_SUFFIXES, NAME_SIMILARITY_THRESHOLD } from './config';
+import { isNamePrefix, parseName, toNaturalNameOrder } from './nameParser';
+import { JointPayeeDetection, ParsedPerson } from '../types';
 
 // Keep track of similar names for faster lookups
 const similarNameCache = new Map<string, string>();
 
+// "AND/OR" comes first so it is not split as "AND"
+const JOINT_SEPARATOR = /\s+(?:AND\/OR|AND|OR)\s+|\s*[&+]\s*/i;
+
+// Any of these words makes a conjunction part of a business name ("ROMEO AND JULIET SALON"),
+// since a business word in surname position still parses as a person
+const BUSINESS_WORDS = new Set([
+  ...Object.values(INDUSTRY_IDENTIFIERS).flat(),
+  ...EXTENDED_BUSINESS_KEYWORDS,
+  ...LEGAL_SUFFIXES,
+  'CAFE', 'SALON', 'BARBER', 'PARLOR', 'KITCHEN', 'DELI', 'CREAM', 'CREAMERY', 'HALL', 'ARENA', 'STADIUM'
+]);
+
+/**
+ * Detect payees naming several people, such as "JOHN & MARY SMITH" or "SMITH JOHN OR SMITH JANE".
+ * A lone given name or title shares the name of the last party; any organization or industry
+ * word in any segment ("J SMITH AND ASSOCIATES", "BEN & JERRYS ICE CREAM") makes the whole
+ * string a single business party.
+ */
+export function detectJointPayee(name: string): JointPayeeDetection {
+  const trimmed = (name || '').trim().replace(/\s+/g, ' ');
+  const single: JointPayeeDetection = { isJoint: false, partyCount: trimmed ? 1 : 0, parties: trimmed ? [trimmed] : [] };
+
+  const segments = trimmed.split(JOINT_SEPARATOR).map(segment => segment.trim());
+  if (segments.length < 2 || segments.some(segment => !segment)) return single;
+  if (trimmed.toUpperCase().split(/[\s&+]+/).some(word => BUSINESS_WORDS.has(word))) return single;
+
+  const last = segments[segments.length - 1];
+  const [lastParsed, lastType] = parseName(last);
+  if (lastType !== 'person') return single;
+  const lastPerson = lastParsed as ParsedPerson;
+
+  const parties: string[] = [];
+  for (const segment of segments.slice(0, -1)) {
+    const [, segmentType] = parseName(segment);
+    if (segmentType === 'person') {
+      parties.push(segment);
+      continue;
+    }
+    // Only a lone given name or title can borrow from the last party; initials are too ambiguous
+    if (segmentType !== 'unknown' || !/^[A-Za-z][A-Za-z'-]+\.?$/.test(segment)) return single;
+    const shared = isNamePrefix(segment)
+      ? [lastPerson.GivenName || lastPerson.FirstInitial, lastPerson.MiddleName || lastPerson.MiddleInitial]
+      : [];
+    parties.push([segment, ...shared, lastPerson.Surname || lastPerson.LastInitial].filter(Boolean).join(' '));
+  }
+  parties.push(last);
+
+  return { isJoint: true, partyCount: parties.length, parties };
+}
+
 /**
  * Advanced name normalization with extensive cleanup
  */
 export function normalizePayeeName(name: string): string {
   if (!name) return '';
   
-  let normalized = name
+  let normalized = toNaturalNameOrder(name)
     // Convert to uppercase for consistent comparison
     .toUpperCase()
     // Normalize UTF-8 characters
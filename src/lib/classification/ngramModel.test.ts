@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { TrainingSample, extractFeatures, predictNgram, trainNgramModel } from './ngramModel';
+
+const FIRST_NAMES = ['John', 'Mary', 'Robert', 'Linda', 'James', 'Patricia', 'Michael', 'Susan', 'David', 'Karen'];
+const LAST_NAMES = ['Smith', 'Johnson', 'Williams', 'Brown', 'Jones', 'Garcia', 'Miller', 'Davis', 'Wilson', 'Moore'];
+const BUSINESS_WORDS = ['Acme', 'Summit', 'Pioneer', 'Harbor', 'Granite', 'Cedar', 'Atlas', 'Beacon', 'Vertex', 'Keystone'];
+const BUSINESS_SUFFIXES = ['LLC', 'Inc', 'Corp', 'Services LLC', 'Holdings Inc', 'Supply Co', 'Group LLC', 'Partners LP'];
+
+function buildSamples(): TrainingSample[] {
+  const samples: TrainingSample[] = [];
+  FIRST_NAMES.forEach(first => LAST_NAMES.forEach(last => {
+    samples.push({ name: `${first} ${last}`, label: 'Individual' });
+  }));
+  BUSINESS_WORDS.forEach(word => BUSINESS_SUFFIXES.forEach(suffix => {
+    samples.push({ name: `${word} ${suffix}`, label: 'Business' });
+  }));
+  return samples;
+}
+
+describe('extractFeatures', () => {
+  it('emits bounded character n-grams and whole words', () => {
+    const features = extractFeatures('Acme, LLC', [2, 2]);
+    expect(features).toContain(' A');
+    expect(features).toContain('C ');
+    expect(features).toContain('w:LLC');
+    expect(extractFeatures('  ,. ')).toEqual([]);
+  });
+});
+
+describe('trainNgramModel', () => {
+  const model = trainNgramModel(buildSamples());
+
+  it('learns businesses and individuals from labeled names', () => {
+    expect(predictNgram(model, 'Evergreen Services LLC')).toMatchObject({ entityType: 'Business', classification: 'Business' });
+    expect(predictNgram(model, 'Susan Garcia')).toMatchObject({ entityType: 'Individual', classification: 'Individual' });
+    expect(model.holdoutAccuracy).toBeGreaterThan(90);
+  });
+
+  it('survives a JSON round trip', () => {
+    const restored = JSON.parse(JSON.stringify(model));
+    expect(predictNgram(restored, 'Atlas Supply Co')).toEqual(predictNgram(model, 'Atlas Supply Co'));
+  });
+
+  it('returns null when no feature is known', () => {
+    expect(predictNgram(model, '###')).toBeNull();
+  });
+
+  it('leaves tiny training sets uncalibrated so they never skip AI', () => {
+    const tiny = trainNgramModel(buildSamples().slice(0, 10));
+    expect(tiny.confidenceThreshold).toBeNull();
+  });
+});
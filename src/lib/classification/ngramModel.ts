@@ -0,0 +1,216 @@
+import { EntityType } from '../types';
+import { toBinaryClassification } from './entityTaxonomy';
+
+/**
+ * Character n-gram naive Bayes model over entity types.
+ * Models are plain JSON so they can be stored and versioned in the database.
+ */
+
+export interface NgramModel {
+  format: 1;
+  ngramRange: [number, number];
+  labels: EntityType[];
+  docCounts: Partial<Record<EntityType, number>>;
+  featureCounts: Partial<Record<EntityType, Record<string, number>>>;
+  totalFeatureCounts: Partial<Record<EntityType, number>>;
+  vocabularySize: number;
+  sampleCount: number;
+  // Confidence at or above which holdout predictions met the target precision
+  confidenceThreshold: number | null;
+  holdoutAccuracy: number | null;
+  holdoutSize: number;
+}
+
+export interface TrainingSample {
+  name: string;
+  label: EntityType;
+}
+
+export interface NgramPrediction {
+  entityType: EntityType;
+  classification: 'Business' | 'Individual';
+  confidence: number;
+  probabilities: Partial<Record<EntityType, number>>;
+  knownFeatures: number;
+}
+
+export interface TrainOptions {
+  ngramRange?: [number, number];
+  // Share of samples held out to measure accuracy and calibrate the threshold
+  holdoutRatio?: number;
+  // Holdout precision required before predictions may skip AI
+  targetPrecision?: number;
+}
+
+// Below this many held-out predictions the threshold is not trusted
+const MIN_CALIBRATION_SAMPLES = 20;
+
+// Mean per-feature log likelihoods are sharpened so posteriors spread over 50-100%
+const SHARPNESS = 6;
+
+const SMOOTHING = 1;
+
+/**
+ * Extract character n-grams (with word boundaries) and whole-word features
+ */
+export function extractFeatures(name: string, ngramRange: [number, number] = [2, 4]): string[] {
+  const normalized = name.toUpperCase().replace(/[^A-Z0-9&]+/g, ' ').trim();
+  if (!normalized) return [];
+
+  const features: string[] = [];
+  const padded = ` ${normalized} `;
+  for (let n = ngramRange[0]; n <= ngramRange[1]; n++) {
+    for (let i = 0; i + n <= padded.length; i++) {
+      features.push(padded.slice(i, i + n));
+    }
+  }
+  for (const word of normalized.split(' ')) {
+    features.push(`w:${word}`);
+  }
+  return features;
+}
+
+// Deterministic split so retraining on the same rows gives the same holdout
+function isHoldout(name: string, ratio: number): boolean {
+  let hash = 0;
+  for (let i = 0; i < name.length; i++) {
+    hash = (hash * 31 + name.charCodeAt(i)) >>> 0;
+  }
+  return (hash % 1000) / 1000 < ratio;
+}
+
+function fit(samples: TrainingSample[], ngramRange: [number, number]): NgramModel {
+  const model: NgramModel = {
+    format: 1,
+    ngramRange,
+    labels: [],
+    docCounts: {},
+    featureCounts: {},
+    totalFeatureCounts: {},
+    vocabularySize: 0,
+    sampleCount: samples.length,
+    confidenceThreshold: null,
+    holdoutAccuracy: null,
+    holdoutSize: 0
+  };
+  const vocabulary = new Set<string>();
+
+  for (const { name, label } of samples) {
+    if (!model.labels.includes(label)) {
+      model.labels.push(label);
+      model.featureCounts[label] = {};
+      model.docCounts[label] = 0;
+      model.totalFeatureCounts[label] = 0;
+    }
+    model.docCounts[label]! += 1;
+    const counts = model.featureCounts[label]!;
+    for (const feature of extractFeatures(name, ngramRange)) {
+      counts[feature] = (counts[feature] || 0) + 1;
+      model.totalFeatureCounts[label]! += 1;
+      vocabulary.add(feature);
+    }
+  }
+
+  model.vocabularySize = vocabulary.size;
+  return model;
+}
+
+/**
+ * Predict the entity type of a name, or null when the model knows none of its features
+ */
+export function predictNgram(model: NgramModel, name: string): NgramPrediction | null {
+  const features = extractFeatures(name, model.ngramRange);
+  const knownFeatures = features.filter(feature =>
+    model.labels.some(label => model.featureCounts[label]![feature])
+  ).length;
+  if (knownFeatures === 0 || model.labels.length === 0) {
+    return null;
+  }
+
+  const scores = model.labels.map(label => {
+    const counts = model.featureCounts[label]!;
+    const denominator = model.totalFeatureCounts[label]! + SMOOTHING * model.vocabularySize;
+    let logLikelihood = 0;
+    for (const feature of features) {
+      logLikelihood += Math.log(((counts[feature] || 0) + SMOOTHING) / denominator);
+    }
+    const prior = Math.log(model.docCounts[label]! / model.sampleCount);
+    return prior + SHARPNESS * (logLikelihood / features.length);
+  });
+
+  const max = Math.max(...scores);
+  const exps = scores.map(score => Math.exp(score - max));
+  const total = exps.reduce((sum, value) => sum + value, 0);
+  const probabilities: Partial<Record<EntityType, number>> = {};
+  model.labels.forEach((label, i) => {
+    probabilities[label] = exps[i] / total;
+  });
+
+  const best = scores.indexOf(max);
+  const entityType = model.labels[best];
+  return {
+    entityType,
+    classification: toBinaryClassification(entityType),
+    confidence: Math.min(99, Math.round((exps[best] / total) * 100)),
+    probabilities,
+    knownFeatures
+  };
+}
+
+/**
+ * Lowest confidence at which every prediction at or above it reaches the target precision
+ */
+function calibrateThreshold(
+  predictions: Array<{ confidence: number; correct: boolean }>,
+  targetPrecision: number
+): number | null {
+  if (predictions.length < MIN_CALIBRATION_SAMPLES) return null;
+
+  const sorted = [...predictions].sort((a, b) => b.confidence - a.confidence);
+  let correct = 0;
+  let threshold: number | null = null;
+  sorted.forEach((prediction, i) => {
+    if (prediction.correct) correct++;
+    const precision = correct / (i + 1);
+    const nextDiffers = i === sorted.length - 1 || sorted[i + 1].confidence !== prediction.confidence;
+    if (nextDiffers && i + 1 >= MIN_CALIBRATION_SAMPLES && precision >= targetPrecision) {
+      threshold = prediction.confidence;
+    }
+  });
+  return threshold;
+}
+
+/**
+ * Train a model, measuring accuracy and calibrating the skip-AI threshold on a holdout split.
+ * The returned model is refit on every sample.
+ */
+export function trainNgramModel(samples: TrainingSample[], options: TrainOptions = {}): NgramModel {
+  const ngramRange = options.ngramRange || [2, 4];
+  const holdoutRatio = options.holdoutRatio ?? 0.2;
+  const targetPrecision = options.targetPrecision ?? 0.97;
+
+  const holdout = samples.filter(sample => isHoldout(sample.name, holdoutRatio));
+  const training = samples.filter(sample => !isHoldout(sample.name, holdoutRatio));
+
+  let holdoutAccuracy: number | null = null;
+  let confidenceThreshold: number | null = null;
+  if (holdout.length > 0 && training.length > 0) {
+    const validationModel = fit(training, ngramRange);
+    const predictions = holdout.map(sample => {
+      const prediction = predictNgram(validationModel, sample.name);
+      return {
+        confidence: prediction?.confidence || 0,
+        correct: prediction?.entityType === sample.label
+      };
+    });
+    holdoutAccuracy = Math.round((predictions.filter(p => p.correct).length / predictions.length) * 1000) / 10;
+    confidenceThreshold = calibrateThreshold(predictions, targetPrecision);
+  }
+
+  return {
+    ...fit(samples, ngramRange),
+    confidenceThreshold,
+    holdoutAccuracy,
+    holdoutSize: holdout.length
+  };
+}
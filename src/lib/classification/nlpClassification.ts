@@ -1,20 +1,29 @@
 
 import { ClassificationResult } from '../types';
 import { BUSINESS_KEYWORDS, LEGAL_SUFFIXES } from './config';
-import { probablepeople } from './probablepeople';
+import { parseName } from './nameParser';
 
 /**
- * NLP-based classification using probablepeople for entity recognition
+ * NLP-based classification using the native name parser for entity recognition
  */
 export function applyNLPClassification(payeeName: string): ClassificationResult | null {
   const matchingPatterns: string[] = [];
   
   try {
-    // Try to get detailed parsing from probablepeople
-    const [parsed, nameType] = probablepeople.parse(payeeName);
+    // Tag the name into person or corporation components
+    const [parsed, nameType] = parseName(payeeName);
     
     // If we get a confident result but it wasn't strong enough for rule-based tier
-    if (nameType === 'person') {
+    if (nameType === 'household') {
+      matchingPatterns.push("Household of two people detected");
+      return {
+        classification: 'Individual',
+        confidence: 75,
+        reasoning: "Name lists two people joined by a conjunction",
+        processingTier: 'NLP-Based',
+        matchingRules: matchingPatterns
+      };
+    } else if (nameType === 'person') {
       // Extract components that indicate a person
       const hasFirstName = parsed.GivenName || parsed.FirstInitial;
       const hasLastName = parsed.Surname || parsed.LastInitial;
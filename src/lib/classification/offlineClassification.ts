@@ -1,14 +1,27 @@
 
 import { ClassificationResult } from '../types';
+import { detectJointPayee } from './nameProcessing';
 
 /**
- * Offline classification using advanced heuristics
+ * Offline classification using advanced heuristics.
+ * Joint payees of several people are individuals despite their ampersand.
  */
 export function performOfflineClassification(
   payeeName: string, 
   businessIndicators: string[], 
   individualIndicators: string[]
 ): ClassificationResult {
+  const joint = detectJointPayee(payeeName);
+  if (joint.isJoint) {
+    return {
+      classification: 'Individual',
+      confidence: 85,
+      reasoning: `Joint payee of ${joint.partyCount} individuals: ${joint.parties.join('; ')}`,
+      processingTier: 'Rule-Based',
+      processingMethod: 'Joint payee detection'
+    };
+  }
+
   const words = payeeName.split(/\s+/);
   const hasNumbers = /\d/.test(payeeName);
   const hasSpecialChars = /[&@#$%]/.test(payeeName);
@@ -1,7 +1,7 @@
 
 import { ClassificationResult } from '../types';
 import { LEGAL_SUFFIXES, BUSINESS_KEYWORDS, INDUSTRY_IDENTIFIERS, GOVERNMENT_PATTERNS, PROFESSIONAL_TITLES } from './config';
-import { probablepeople } from './probablepeople';
+import { parseName } from './nameParser';
 
 /**
  * FIXED: Rule-based classification with enhanced business detection
@@ -65,20 +65,12 @@ export function applyRuleBasedClassification(payeeName: string): ClassificationR
     confidence = Math.max(confidence, 90);
   }
 
-  // Use probablepeople for additional validation
-  try {
-    const [parsed, nameType] = probablepeople.parse(payeeName);
-    
-    if (nameType === 'corporation') {
-      matchingRules.push("Identified as corporation by name structure analysis");
-      isBusinessIndicator = true;
-      confidence = Math.max(confidence, 85);
-    } else if (nameType === 'person' && !isBusinessIndicator) {
-      matchingRules.push("Identified as person by name structure analysis");
-      isIndividualIndicator = true;
-    }
-  } catch (error) {
-    // Continue with other rules
+  // Use the name parser for additional validation
+  const [, nameType] = parseName(payeeName);
+  if (nameType === 'corporation') {
+    matchingRules.push("Identified as corporation by name structure analysis");
+    isBusinessIndicator = true;
+    confidence = Math.max(confidence, 85);
   }
 
   // Check for legal suffixes
@@ -155,6 +147,12 @@ export function applyRuleBasedClassification(payeeName: string): ClassificationR
     confidence = Math.max(confidence, 85);
   }
 
+  // Person structure only counts once no business term has matched
+  if ((nameType === 'person' || nameType === 'household') && !isBusinessIndicator && !isIndividualIndicator) {
+    matchingRules.push("Identified as person by name structure analysis");
+    isIndividualIndicator = true;
+  }
+
   // If no clear business indicators and looks like a simple personal name
   if (!isBusinessIndicator && !isIndividualIndicator) {
     const namePattern = /^[A-Za-z]+\s+[A-Za-z]+$/;
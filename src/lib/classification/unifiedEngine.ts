@@ -1,9 +1,10 @@
 
-import { ClassificationResult, ClassificationConfig, PayeeClassification } from '@/lib/types/unified';
+import { ClassificationResult, ClassificationConfig, PayeeClassification, AIProviderSettings } from '@/lib/types/unified';
 import { logger } from '@/lib/logging/logger';
 import { enhancedClassifyPayeeWithAI } from '@/lib/openai/enhancedClassification';
 import { checkKeywordExclusion } from './enhancedKeywordExclusion';
 import { jaroWinklerSimilarity } from './stringMatching';
+import { normalizeEntityType } from './entityTaxonomy';
 
 /**
  * Unified Classification Engine
@@ -30,8 +31,22 @@ export class UnifiedClassificationEngine {
     if (normalized === 'business' || normalized === 'corporation') {
       return 'Business';
     }
-    // Default to Personal for safety
-    return 'Personal';
+    // Government, nonprofit, trust and other non-person entities are businesses
+    return normalizeEntityType(classification) === 'Individual' ? 'Personal' : 'Business';
+  }
+
+  /**
+   * Provider settings derived from config; undefined means use the app-wide active provider
+   */
+  private getProviderSettings(): AIProviderSettings | undefined {
+    if (this.config.aiProvider === 'openai' && !this.config.providerSettings) {
+      return undefined;
+    }
+    return {
+      ...this.config.providerSettings,
+      type: this.config.aiProvider,
+      model: this.config.model
+    };
   }
 
   /**
@@ -60,7 +75,7 @@ export class UnifiedClassificationEngine {
       logger.time(`classify-${payeeName}`, this.context);
       
       // AI-powered classification
-      const aiResult = await enhancedClassifyPayeeWithAI(payeeName);
+      const aiResult = await enhancedClassifyPayeeWithAI(payeeName, this.config.timeout, this.getProviderSettings());
       
       // Apply keyword exclusion if enabled
       let keywordExclusion;
@@ -73,7 +88,8 @@ export class UnifiedClassificationEngine {
         : undefined;
 
       const result: ClassificationResult = {
-        classification: this.normalizeClassification(aiResult.classification),
+        classification: this.normalizeClassification(aiResult.entityType || aiResult.classification),
+        entityType: normalizeEntityType(aiResult.entityType, aiResult.classification),
         confidence: aiResult.confidence,
         reasoning: aiResult.reasoning,
         processingTier: 'AI-Enhanced',
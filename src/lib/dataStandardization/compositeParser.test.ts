@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { parseCompositePayee } from './compositeParser';
+
+describe('parseCompositePayee', () => {
+  it('splits the owner from the trade name', () => {
+    expect(parseCompositePayee('JOHN SMITH DBA SMITH PLUMBING')).toEqual({
+      original: 'JOHN SMITH DBA SMITH PLUMBING',
+      primaryName: 'JOHN SMITH',
+      secondaryName: 'SMITH PLUMBING',
+      relationship: 'DBA'
+    });
+    expect(parseCompositePayee('Jane Roe d/b/a Roe Design')).toMatchObject({
+      primaryName: 'Jane Roe',
+      secondaryName: 'Roe Design',
+      relationship: 'DBA'
+    });
+    expect(parseCompositePayee('SMITH & CO D.B.A. SMITH TOOLS')).toMatchObject({
+      primaryName: 'SMITH & CO',
+      secondaryName: 'SMITH TOOLS',
+      relationship: 'DBA'
+    });
+    expect(parseCompositePayee('MARY JONES T/A JONES BAKERY')).toMatchObject({
+      primaryName: 'MARY JONES',
+      secondaryName: 'JONES BAKERY',
+      relationship: 'DBA'
+    });
+  });
+
+  it('recognizes care-of and attention lines', () => {
+    expect(parseCompositePayee('ACME INC C/O JANE DOE')).toMatchObject({
+      primaryName: 'ACME INC',
+      secondaryName: 'JANE DOE',
+      relationship: 'C/O'
+    });
+    expect(parseCompositePayee('Acme Inc, Attn: Accounts Payable')).toMatchObject({
+      primaryName: 'Acme Inc',
+      secondaryName: 'Accounts Payable',
+      relationship: 'ATTN'
+    });
+    expect(parseCompositePayee('Estate of R. Lee (In Care Of Lee Law Group)')).toMatchObject({
+      primaryName: 'Estate of R. Lee',
+      secondaryName: 'Lee Law Group',
+      relationship: 'C/O'
+    });
+  });
+
+  it('treats the beneficiary as primary when the marker leads', () => {
+    expect(parseCompositePayee('FBO MARY JONES')).toEqual({
+      original: 'FBO MARY JONES',
+      primaryName: 'MARY JONES',
+      secondaryName: null,
+      relationship: 'FBO'
+    });
+    expect(parseCompositePayee('SCHWAB TRUST FBO MARY JONES IRA')).toMatchObject({
+      primaryName: 'SCHWAB TRUST',
+      secondaryName: 'MARY JONES IRA',
+      relationship: 'FBO'
+    });
+  });
+
+  it('splits only at the first marker', () => {
+    expect(parseCompositePayee('JOHN SMITH DBA SMITH PLUMBING C/O ANN SMITH')).toMatchObject({
+      primaryName: 'JOHN SMITH',
+      secondaryName: 'SMITH PLUMBING C/O ANN SMITH',
+      relationship: 'DBA'
+    });
+  });
+
+  it('does not split when a side names no entity', () => {
+    expect(parseCompositePayee('SMITH T/A')).toBeNull();
+    expect(parseCompositePayee('ACME INC C/O')).toBeNull();
+    expect(parseCompositePayee('CO DBA')).toBeNull();
+    expect(parseCompositePayee('CO DBA ACME PLUMBING')).toBeNull();
+    expect(parseCompositePayee('JOHN SMITH DBA LLC')).toBeNull();
+    expect(parseCompositePayee('FBO')).toBeNull();
+  });
+
+  it('accepts spelled-out care-of and attention only after a delimiter', () => {
+    expect(parseCompositePayee('Acme Inc, Care Of Jane Doe')).toMatchObject({
+      primaryName: 'Acme Inc',
+      secondaryName: 'Jane Doe',
+      relationship: 'C/O'
+    });
+    expect(parseCompositePayee('ACME INC (ATTENTION ACCOUNTS PAYABLE)')).toMatchObject({
+      primaryName: 'ACME INC',
+      secondaryName: 'ACCOUNTS PAYABLE',
+      relationship: 'ATTN'
+    });
+    expect(parseCompositePayee('IN CARE OF JANE DOE')).toMatchObject({
+      primaryName: 'JANE DOE',
+      relationship: 'C/O'
+    });
+  });
+
+  it('leaves business names containing care-of or attention whole', () => {
+    expect(parseCompositePayee('SENIOR CARE OF TEXAS LLC')).toBeNull();
+    expect(parseCompositePayee('CHILD CARE OF AMERICA')).toBeNull();
+    expect(parseCompositePayee('ATTENTION TO DETAIL CLEANING')).toBeNull();
+    expect(parseCompositePayee('PRIORITY ATTENTION HOME HEALTH')).toBeNull();
+    expect(parseCompositePayee('SENIOR CARE OF TEXAS LLC C/O JANE DOE')).toMatchObject({
+      primaryName: 'SENIOR CARE OF TEXAS LLC',
+      secondaryName: 'JANE DOE',
+      relationship: 'C/O'
+    });
+  });
+
+  it('ignores markers embedded in other words', () => {
+    expect(parseCompositePayee('COSTCO WHOLESALE')).toBeNull();
+    expect(parseCompositePayee('DBAS CONSULTING')).toBeNull();
+    expect(parseCompositePayee('TATA CONSULTANCY')).toBeNull();
+    expect(parseCompositePayee('')).toBeNull();
+    expect(parseCompositePayee(null)).toBeNull();
+  });
+});
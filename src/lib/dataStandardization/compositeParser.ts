@@ -0,0 +1,69 @@
+import { CompositeRelationship } from '../types';
+import { CompositePayeeParts } from './types';
+
+/**
+ * Spellings of each relationship marker, longer forms before their abbreviations. The
+ * spelled-out forms in `delimitedPattern` also occur inside business names ("SENIOR CARE OF
+ * TEXAS", "ATTENTION TO DETAIL CLEANING"), so they only count after a comma, semicolon or
+ * opening parenthesis.
+ */
+const RELATIONSHIP_MARKERS: Array<{ relationship: CompositeRelationship; pattern: string; delimitedPattern?: string }> = [
+  { relationship: 'DBA', pattern: 'DOING\\s+BUSINESS\\s+AS|TRADING\\s+AS|D\\s*/\\s*B\\s*/\\s*A|D\\.B\\.A\\.?|DBA|T\\s*/\\s*A' },
+  { relationship: 'C/O', pattern: 'IN\\s+CARE\\s+OF|C\\s*/\\s*O', delimitedPattern: 'CARE\\s+OF' },
+  { relationship: 'ATTN', pattern: 'ATTN\\.?', delimitedPattern: 'ATTENTION' },
+  { relationship: 'FBO', pattern: 'FOR\\s+THE\\s+BENEFIT\\s+OF|FOR\\s+BENEFIT\\s+OF|F\\s*/\\s*B\\s*/\\s*O|FBO' }
+];
+
+const MARKER_END = '(?=[\\s:,;)]|$)';
+const DELIMITED_PATTERNS = RELATIONSHIP_MARKERS.flatMap(marker => marker.delimitedPattern ? [marker.delimitedPattern] : []);
+// Groups 1-2 hold the prefix and marker of an unambiguous spelling, groups 3-4 of a delimited one
+const MARKER_REGEX = new RegExp(
+  `(^|[\\s,;(])(${RELATIONSHIP_MARKERS.map(marker => marker.pattern).join('|')})${MARKER_END}` +
+  `|([,;(]\\s*)(${DELIMITED_PATTERNS.join('|')})${MARKER_END}`,
+  'i'
+);
+
+// Legal forms that name no entity on their own, as in the stray "CO" of "CO DBA"
+const LEGAL_FORMS = new Set(['CO', 'COMPANY', 'CORP', 'INC', 'LLC', 'LLP', 'LP', 'LTD', 'PC', 'PLLC']);
+
+function cleanPart(part: string): string {
+  return part.replace(/^[\s,;:()-]+|[\s,;:()-]+$/g, '').replace(/\s+/g, ' ');
+}
+
+function namesEntity(part: string): boolean {
+  return part.split(/[\s.&]+/).some(word => word && !LEGAL_FORMS.has(word.toUpperCase()));
+}
+
+function relationshipFor(marker: string): CompositeRelationship {
+  return RELATIONSHIP_MARKERS.find(({ pattern, delimitedPattern }) =>
+    new RegExp(`^(${[pattern, delimitedPattern].filter(Boolean).join('|')})$`, 'i').test(marker)
+  )!.relationship;
+}
+
+/**
+ * Split a raw payee such as "JOHN SMITH DBA SMITH PLUMBING", "ACME INC C/O JANE DOE" or
+ * "FBO MARY JONES" at its first relationship marker. The entity before the marker is the
+ * primary payee; when the marker leads the string the entity after it is primary instead.
+ * Returns null when the string has no marker, when nothing follows the marker ("SMITH T/A"),
+ * or when the text before it is only a legal form ("CO DBA").
+ */
+export function parseCompositePayee(rawName: string | null | undefined): CompositePayeeParts | null {
+  if (!rawName || typeof rawName !== 'string') return null;
+
+  const match = MARKER_REGEX.exec(rawName);
+  if (!match) return null;
+
+  const prefix = match[1] ?? match[3];
+  const marker = match[2] ?? match[4];
+  const markerStart = match.index + prefix.length;
+  const before = cleanPart(rawName.slice(0, markerStart));
+  const after = cleanPart(rawName.slice(markerStart + marker.length));
+  const relationship = relationshipFor(marker.trim());
+
+  if (!after || !namesEntity(after)) return null;
+  if (!before) {
+    return { original: rawName, primaryName: after, secondaryName: null, relationship };
+  }
+  if (!namesEntity(before)) return null;
+  return { original: rawName, primaryName: before, secondaryName: after, relationship };
+}
@@ -9,5 +9,6 @@ export * from './types';
 
 // Export main functions
 export { standardizePayeeName } from './nameStandardizer';
+export { parseCompositePayee } from './compositeParser';
 export { batchStandardizeNames, batchStandardizeNamesAsync } from './batchProcessor';
 export { getStandardizationStats } from './statsCalculator';
@@ -3,6 +3,8 @@
  * Types for data standardization operations
  */
 
+import { CompositeRelationship } from '../types';
+
 export interface DataStandardizationResult {
   original: string;
   normalized: string;
@@ -15,3 +17,13 @@ export interface StandardizationStats {
   averageStepsPerName: number;
   mostCommonSteps: Array<{ step: string; count: number }>;
 }
+
+/**
+ * A raw payee string split into its primary and secondary entities
+ */
+export interface CompositePayeeParts {
+  original: string;
+  primaryName: string;
+  secondaryName: string | null;
+  relationship: CompositeRelationship;
+}
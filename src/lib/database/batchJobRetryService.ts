@@ -0,0 +1,99 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/** A follow-up batch submitted for the retryable failed requests of an original job */
+export interface BatchJobRetry {
+  parentBatchId: string;
+  childBatchId: string;
+  attempt: number;
+  payeeNames: string[];
+  createdAt?: string;
+}
+
+function toBatchJobRetry(row: {
+  parent_batch_id: string;
+  child_batch_id: string;
+  attempt: number;
+  payee_names: string[];
+  created_at: string;
+}): BatchJobRetry {
+  return {
+    parentBatchId: row.parent_batch_id,
+    childBatchId: row.child_batch_id,
+    attempt: row.attempt,
+    payeeNames: row.payee_names,
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * Record a follow-up batch; fails when the attempt was already recorded for the job
+ */
+export async function saveBatchJobRetry(retry: BatchJobRetry): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase
+      .from('batch_job_retries')
+      .insert({
+        parent_batch_id: retry.parentBatchId,
+        child_batch_id: retry.childBatchId,
+        attempt: retry.attempt,
+        payee_names: retry.payeeNames
+      });
+
+    if (error) {
+      console.error('[BATCH RETRIES] Error saving follow-up batch:', error);
+      return { success: false, error: error.message };
+    }
+
+    console.log(`[BATCH RETRIES] Recorded follow-up batch ${retry.childBatchId} (attempt ${retry.attempt}) for ${retry.parentBatchId}`);
+    return { success: true };
+  } catch (error) {
+    console.error('[BATCH RETRIES] Exception saving follow-up batch:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Follow-up batches of an original job, oldest attempt first
+ */
+export async function loadBatchJobRetries(parentBatchId: string): Promise<BatchJobRetry[]> {
+  try {
+    const { data, error } = await supabase
+      .from('batch_job_retries')
+      .select('*')
+      .eq('parent_batch_id', parentBatchId)
+      .order('attempt');
+
+    if (error) {
+      console.error('[BATCH RETRIES] Error loading follow-up batches:', error);
+      return [];
+    }
+
+    return (data || []).map(toBatchJobRetry);
+  } catch (error) {
+    console.error('[BATCH RETRIES] Exception loading follow-up batches:', error);
+    return [];
+  }
+}
+
+/**
+ * The follow-up record of a batch, or null when the batch is an original job
+ */
+export async function findBatchJobRetry(childBatchId: string): Promise<BatchJobRetry | null> {
+  try {
+    const { data, error } = await supabase
+      .from('batch_job_retries')
+      .select('*')
+      .eq('child_batch_id', childBatchId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[BATCH RETRIES] Error loading follow-up batch:', error);
+      return null;
+    }
+
+    return data ? toBatchJobRetry(data) : null;
+  } catch (error) {
+    console.error('[BATCH RETRIES] Exception loading follow-up batch:', error);
+    return null;
+  }
+}
@@ -48,7 +48,8 @@ export class BatchJobUpdater {
         productionLogger.info(`Successfully updated batch job ${batchJob.id} status to ${batchJob.status}`, null, 'BATCH_JOB_UPDATER');
         
         // Enhanced automatic processing when job completes
-        if (batchJob.status === 'completed' && batchJob.request_counts.completed > 0) {
+        // Jobs with only failed requests are processed too, so their retryable failures get a follow-up batch
+        if (batchJob.status === 'completed' && (batchJob.request_counts.completed > 0 || batchJob.request_counts.failed > 0)) {
           productionLogger.info(`Job ${batchJob.id} completed, triggering automatic result processing and file generation`, null, 'BATCH_JOB_UPDATER');
           
           // Process and store results automatically for instant downloads with retry logic
@@ -0,0 +1,69 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import { TrueBatchClassificationResult } from "@/lib/openai/trueBatchAPI";
+
+const LOAD_PAGE_SIZE = 1000;
+
+/**
+ * Store the retry results of payees a packed response left out; a payee that already
+ * has a stored result keeps it
+ */
+export async function savePackedRetryResults(
+  batchJobId: string,
+  results: TrueBatchClassificationResult[]
+): Promise<{ success: boolean; error?: string }> {
+  if (results.length === 0) {
+    return { success: true };
+  }
+
+  try {
+    const { error } = await supabase
+      .from('batch_packed_retries')
+      .upsert(results.map(result => ({
+        batch_job_id: batchJobId,
+        payee_name: result.payeeName,
+        result: result as unknown as Json
+      })), { onConflict: 'batch_job_id,payee_name', ignoreDuplicates: true });
+
+    if (error) {
+      console.error('[PACKED RETRIES] Error saving retry results:', error);
+      return { success: false, error: error.message };
+    }
+
+    console.log(`[PACKED RETRIES] Saved ${results.length} retry results for batch ${batchJobId}`);
+    return { success: true };
+  } catch (error) {
+    console.error('[PACKED RETRIES] Exception saving retry results:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Stored retry results of a batch job by payee name
+ */
+export async function loadPackedRetryResults(batchJobId: string): Promise<Map<string, TrueBatchClassificationResult>> {
+  const results = new Map<string, TrueBatchClassificationResult>();
+  try {
+    for (let from = 0; ; from += LOAD_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('batch_packed_retries')
+        .select('payee_name, result')
+        .eq('batch_job_id', batchJobId)
+        .order('payee_name')
+        .range(from, from + LOAD_PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('[PACKED RETRIES] Error loading retry results:', error);
+        return results;
+      }
+
+      (data || []).forEach(row => results.set(row.payee_name, row.result as unknown as TrueBatchClassificationResult));
+      if (!data || data.length < LOAD_PAGE_SIZE) {
+        return results;
+      }
+    }
+  } catch (error) {
+    console.error('[PACKED RETRIES] Exception loading retry results:', error);
+    return results;
+  }
+}
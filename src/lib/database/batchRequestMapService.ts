@@ -0,0 +1,129 @@
+import { supabase } from "@/integrations/supabase/client";
+import { BatchReconciliationReport, BatchRequestMapping } from "@/lib/openai/batchReconciliation";
+
+const INSERT_CHUNK_SIZE = 500;
+const LOAD_PAGE_SIZE = 1000;
+
+/**
+ * Store the custom_id to payee mapping of every request submitted in a batch job
+ */
+export async function saveBatchRequestMap(
+  batchJobId: string,
+  mappings: BatchRequestMapping[]
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    for (let start = 0; start < mappings.length; start += INSERT_CHUNK_SIZE) {
+      const rows = mappings.slice(start, start + INSERT_CHUNK_SIZE).map(mapping => ({
+        batch_job_id: batchJobId,
+        custom_id: mapping.customId,
+        payee_names: mapping.payeeNames
+      }));
+      const { error } = await supabase
+        .from('batch_job_requests')
+        .upsert(rows, { onConflict: 'batch_job_id,custom_id' });
+
+      if (error) {
+        console.error('[BATCH REQUEST MAP] Error saving request mapping:', error);
+        return { success: false, error: error.message };
+      }
+    }
+
+    console.log(`[BATCH REQUEST MAP] Saved ${mappings.length} request mappings for batch ${batchJobId}`);
+    return { success: true };
+  } catch (error) {
+    console.error('[BATCH REQUEST MAP] Exception saving request mapping:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * The stored request mapping of a batch job; empty for jobs created before mappings were stored
+ */
+export async function loadBatchRequestMap(batchJobId: string): Promise<BatchRequestMapping[]> {
+  const mappings: BatchRequestMapping[] = [];
+  try {
+    for (let from = 0; ; from += LOAD_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('batch_job_requests')
+        .select('custom_id, payee_names')
+        .eq('batch_job_id', batchJobId)
+        .order('custom_id')
+        .range(from, from + LOAD_PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('[BATCH REQUEST MAP] Error loading request mapping:', error);
+        return [];
+      }
+
+      mappings.push(...(data || []).map(row => ({ customId: row.custom_id, payeeNames: row.payee_names })));
+      if (!data || data.length < LOAD_PAGE_SIZE) {
+        return mappings;
+      }
+    }
+  } catch (error) {
+    console.error('[BATCH REQUEST MAP] Exception loading request mapping:', error);
+    return [];
+  }
+}
+
+/**
+ * Keep the latest reconciliation report of a batch job
+ */
+export async function saveReconciliationReport(
+  batchJobId: string,
+  report: BatchReconciliationReport
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase
+      .from('batch_reconciliation_reports')
+      .upsert({
+        batch_job_id: batchJobId,
+        expected_count: report.expectedCount,
+        matched_count: report.matchedCount,
+        missing_ids: report.missingIds,
+        duplicated_ids: report.duplicatedIds,
+        unknown_ids: report.unknownIds,
+        used_stored_mapping: report.usedStoredMapping,
+        reconciled_at: new Date().toISOString()
+      }, { onConflict: 'batch_job_id' });
+
+    if (error) {
+      console.error('[BATCH REQUEST MAP] Error saving reconciliation report:', error);
+      return { success: false, error: error.message };
+    }
+    return { success: true };
+  } catch (error) {
+    console.error('[BATCH REQUEST MAP] Exception saving reconciliation report:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+export async function loadReconciliationReport(batchJobId: string): Promise<BatchReconciliationReport | null> {
+  try {
+    const { data, error } = await supabase
+      .from('batch_reconciliation_reports')
+      .select('*')
+      .eq('batch_job_id', batchJobId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[BATCH REQUEST MAP] Error loading reconciliation report:', error);
+      return null;
+    }
+    if (!data) {
+      return null;
+    }
+
+    return {
+      expectedCount: data.expected_count,
+      matchedCount: data.matched_count,
+      missingIds: data.missing_ids,
+      duplicatedIds: data.duplicated_ids,
+      unknownIds: data.unknown_ids,
+      usedStoredMapping: data.used_stored_mapping
+    };
+  } catch (error) {
+    console.error('[BATCH REQUEST MAP] Exception loading reconciliation report:', error);
+    return null;
+  }
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: { from: vi.fn() } }));
+
+import { supabase } from '@/integrations/supabase/client';
+import {
+  findCachedClassifications,
+  getCacheKey,
+  getJobCacheSettings,
+  saveClassificationCacheSettings
+} from './classificationCacheService';
+
+type Call = [method: string, args: unknown[]];
+
+// A chainable stand-in for one supabase query that records every call and resolves to the given rows
+function stubQuery(calls: Call[], data: unknown[]) {
+  const query: Record<string, unknown> = {};
+  for (const method of ['select', 'in', 'eq', 'neq', 'gte', 'lte', 'order', 'range']) {
+    query[method] = (...args: unknown[]) => {
+      calls.push([method, args]);
+      return query;
+    };
+  }
+  query.then = (resolve: (value: unknown) => unknown) => resolve({ data, error: null });
+  return query;
+}
+
+beforeEach(() => {
+  localStorage.clear();
+  vi.mocked(supabase.from).mockReset();
+});
+
+describe('getJobCacheSettings', () => {
+  it('forces on the settings a job was submitted with', () => {
+    saveClassificationCacheSettings({ enabled: false, minConfidence: 99, maxAgeDays: 7 });
+    expect(getJobCacheSettings({ cache_min_confidence: 90, cache_max_age_days: 90 }))
+      .toEqual({ enabled: true, minConfidence: 90, maxAgeDays: 90 });
+    expect(getJobCacheSettings({ cache_min_confidence: 0, cache_max_age_days: 30 }))
+      .toEqual({ enabled: true, minConfidence: 0, maxAgeDays: 30 });
+  });
+
+  it('uses the current settings for jobs that recorded none', () => {
+    saveClassificationCacheSettings({ enabled: false, minConfidence: 99, maxAgeDays: 7 });
+    expect(getJobCacheSettings(undefined)).toEqual({ enabled: false, minConfidence: 99, maxAgeDays: 7 });
+    expect(getJobCacheSettings({})).toEqual({ enabled: false, minConfidence: 99, maxAgeDays: 7 });
+  });
+});
+
+describe('findCachedClassifications', () => {
+  it('reads every page of history and keeps the newest hit per payee', async () => {
+    const calls: Call[] = [];
+    const pages = [
+      Array.from({ length: 1000 }, (_, i) => ({
+        id: `old-${i}`, batch_id: 'batch_old', payee_name: 'Filler', normalized_name: getCacheKey('Filler'), classification: 'Business',
+        entity_type: null, confidence: 95, reasoning: 'Old', processing_tier: 'AI-Powered', processing_method: null,
+        sic_code: null, sic_description: null, created_at: '2026-10-01T00:00:00Z'
+      })),
+      [{
+        id: 'acme', batch_id: 'batch_a', payee_name: 'ACME PLUMBING', normalized_name: getCacheKey('Acme Plumbing'), classification: 'Business',
+        entity_type: 'Business', confidence: 97, reasoning: 'Trade keyword', processing_tier: 'AI-Powered', processing_method: null,
+        sic_code: '1711', sic_description: 'Plumbing', created_at: '2026-09-01T00:00:00Z'
+      }]
+    ];
+    vi.mocked(supabase.from).mockImplementation((() => stubQuery(calls, pages.shift() || [])) as unknown as typeof supabase.from);
+
+    const hits = await findCachedClassifications(
+      ['Acme Plumbing', 'Filler'],
+      new Date('2026-10-19T00:00:00Z'),
+      { enabled: true, minConfidence: 90, maxAgeDays: 90 }
+    );
+
+    expect(calls.filter(([method]) => method === 'range').map(([, args]) => args)).toEqual([[0, 999], [1000, 1999]]);
+    expect(calls).toContainEqual(['gte', ['confidence', 90]]);
+    expect(calls).toContainEqual(['lte', ['created_at', '2026-10-19T00:00:00.000Z']]);
+    expect(hits.get('Filler')?.id).toBe('old-0');
+    expect(hits.get('Acme Plumbing')).toEqual({
+      id: 'acme',
+      batchId: 'batch_a',
+      payeeName: 'ACME PLUMBING',
+      createdAt: '2026-09-01T00:00:00Z',
+      result: {
+        classification: 'Business',
+        entityType: 'Business',
+        confidence: 97,
+        reasoning: 'Trade keyword',
+        processingTier: 'AI-Powered',
+        processingMethod: 'Cached from batch batch_a',
+        sicCode: '1711',
+        sicDescription: 'Plumbing',
+        cacheHit: true,
+        cachedFromBatchId: 'batch_a'
+      }
+    });
+  });
+
+  it('looks nothing up when the cache is off', async () => {
+    const hits = await findCachedClassifications(['Acme Plumbing'], new Date(), { enabled: false, minConfidence: 90, maxAgeDays: 90 });
+    expect(hits.size).toBe(0);
+    expect(supabase.from).not.toHaveBeenCalled();
+  });
+});
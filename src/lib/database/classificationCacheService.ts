@@ -0,0 +1,168 @@
+import { supabase } from "@/integrations/supabase/client";
+import { ClassificationResult } from "@/lib/types";
+import { standardizePayeeName } from "@/lib/dataStandardization";
+import { normalizeEntityType, toBinaryClassification } from "@/lib/classification/entityTaxonomy";
+
+export interface ClassificationCacheSettings {
+  enabled: boolean;
+  maxAgeDays: number;
+  minConfidence: number;
+}
+
+export interface CachedClassification {
+  id: string;
+  batchId: string | null;
+  payeeName: string;
+  createdAt: string;
+  result: ClassificationResult;
+}
+
+export const DEFAULT_CLASSIFICATION_CACHE_SETTINGS: ClassificationCacheSettings = {
+  enabled: true,
+  maxAgeDays: 90,
+  minConfidence: 90
+};
+
+const CACHE_SETTINGS_KEY = 'classification_cache_settings';
+
+// Keeps the PostgREST `in` filter well under URL length limits
+const LOOKUP_CHUNK_SIZE = 200;
+// PostgREST caps each response, so each chunk's history is read a page at a time
+const PAGE_SIZE = 1000;
+
+/**
+ * Key used to match payees against historical classifications
+ */
+export function getCacheKey(payeeName: string): string {
+  return standardizePayeeName(payeeName).normalized;
+}
+
+/**
+ * Load cache settings from browser storage
+ */
+export function getClassificationCacheSettings(): ClassificationCacheSettings {
+  try {
+    const raw = localStorage.getItem(CACHE_SETTINGS_KEY);
+    if (!raw) return DEFAULT_CLASSIFICATION_CACHE_SETTINGS;
+    return { ...DEFAULT_CLASSIFICATION_CACHE_SETTINGS, ...JSON.parse(raw) };
+  } catch (error) {
+    console.error('[CLASSIFICATION CACHE] Failed to read cache settings:', error);
+    return DEFAULT_CLASSIFICATION_CACHE_SETTINGS;
+  }
+}
+
+/**
+ * Persist cache settings
+ */
+export function saveClassificationCacheSettings(settings: Partial<ClassificationCacheSettings>): ClassificationCacheSettings {
+  const merged = { ...getClassificationCacheSettings(), ...settings };
+  if (merged.maxAgeDays <= 0) {
+    throw new Error('The cache freshness window must be at least one day');
+  }
+  if (merged.minConfidence < 0 || merged.minConfidence > 100) {
+    throw new Error('The cache confidence floor must be between 0 and 100');
+  }
+  localStorage.setItem(CACHE_SETTINGS_KEY, JSON.stringify(merged));
+  return merged;
+}
+
+/**
+ * Cache settings to replay when processing a job's results. A job that skipped payees
+ * for cached classifications recorded the settings it used, and those are forced on so a
+ * later settings change cannot turn the payees it never submitted into failures. Jobs
+ * without recorded settings use the current ones.
+ */
+export function getJobCacheSettings(
+  metadata?: { cache_min_confidence?: number; cache_max_age_days?: number }
+): ClassificationCacheSettings {
+  if (metadata?.cache_min_confidence === undefined || !metadata.cache_max_age_days) {
+    return getClassificationCacheSettings();
+  }
+  return { enabled: true, minConfidence: metadata.cache_min_confidence, maxAgeDays: metadata.cache_max_age_days };
+}
+
+/**
+ * Find fresh, high-confidence historical classifications for the given payees.
+ * `asOf` pins the freshness window so a job resolves the same hits at submission
+ * and when its results are processed later.
+ */
+export async function findCachedClassifications(
+  payeeNames: string[],
+  asOf: Date = new Date(),
+  settings: ClassificationCacheSettings = getClassificationCacheSettings()
+): Promise<Map<string, CachedClassification>> {
+  const hits = new Map<string, CachedClassification>();
+  if (!settings.enabled || payeeNames.length === 0) {
+    return hits;
+  }
+
+  const namesByKey = new Map<string, string[]>();
+  for (const name of payeeNames) {
+    const key = getCacheKey(name);
+    if (key === 'UNKNOWN') continue;
+    namesByKey.set(key, [...(namesByKey.get(key) || []), name]);
+  }
+
+  const keys = Array.from(namesByKey.keys());
+  const oldest = new Date(asOf.getTime() - settings.maxAgeDays * 24 * 60 * 60 * 1000);
+
+  try {
+    for (let i = 0; i < keys.length; i += LOOKUP_CHUNK_SIZE) {
+      const chunk = keys.slice(i, i + LOOKUP_CHUNK_SIZE);
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from('payee_classifications')
+          .select('id, batch_id, payee_name, normalized_name, classification, entity_type, confidence, reasoning, processing_tier, processing_method, sic_code, sic_description, created_at')
+          .in('normalized_name', chunk)
+          .eq('cache_hit', false)
+          .neq('processing_tier', 'Failed')
+          .gte('confidence', settings.minConfidence)
+          .gte('created_at', oldest.toISOString())
+          .lte('created_at', asOf.toISOString())
+          .order('created_at', { ascending: false })
+          .order('id')
+          .range(from, from + PAGE_SIZE - 1);
+
+        if (error) {
+          console.error('[CLASSIFICATION CACHE] Lookup failed:', error);
+          return hits;
+        }
+
+        for (const row of data || []) {
+          // Rows are newest first, so the first match per payee wins
+          for (const name of namesByKey.get(row.normalized_name!) || []) {
+            if (hits.has(name)) continue;
+            const entityType = normalizeEntityType(row.entity_type, row.classification);
+            hits.set(name, {
+              id: row.id,
+              batchId: row.batch_id,
+              payeeName: row.payee_name,
+              createdAt: row.created_at,
+              result: {
+                classification: toBinaryClassification(entityType),
+                entityType,
+                confidence: row.confidence,
+                reasoning: row.reasoning,
+                processingTier: row.processing_tier as ClassificationResult['processingTier'],
+                processingMethod: `Cached from ${row.batch_id ? `batch ${row.batch_id}` : 'earlier classification'}`,
+                sicCode: row.sic_code || undefined,
+                sicDescription: row.sic_description || undefined,
+                cacheHit: true,
+                cachedFromBatchId: row.batch_id || undefined
+              }
+            });
+          }
+        }
+        if (!data || data.length < PAGE_SIZE) break;
+      }
+    }
+  } catch (error) {
+    console.error('[CLASSIFICATION CACHE] Lookup failed:', error);
+    return hits;
+  }
+
+  if (hits.size > 0) {
+    console.log(`[CLASSIFICATION CACHE] ${hits.size}/${payeeNames.length} payees found in cache`);
+  }
+  return hits;
+}
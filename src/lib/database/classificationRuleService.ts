@@ -0,0 +1,189 @@
+import { supabase } from "@/integrations/supabase/client";
+import { ClassificationResult } from "@/lib/types";
+import {
+  ClassificationRule,
+  ClassificationRuleInput,
+  classificationRuleToResult,
+  findMatchingClassificationRules,
+  validateClassificationRule
+} from "@/lib/classification/customRules";
+
+// Rules change rarely, so a short-lived in-memory copy avoids a query per payee
+const CACHE_TTL_MS = 60 * 1000;
+let ruleCache: { loadedAt: number; rules: ClassificationRule[] } | null = null;
+
+export function clearClassificationRuleCache(): void {
+  ruleCache = null;
+}
+
+/**
+ * Load every classification rule, highest priority first
+ */
+export async function loadClassificationRules(): Promise<ClassificationRule[]> {
+  try {
+    const { data, error } = await supabase
+      .from('classification_rules')
+      .select('*')
+      .order('priority', { ascending: false })
+      .order('name');
+
+    if (error) {
+      console.error('Error loading classification rules:', error);
+      return [];
+    }
+
+    return (data || []) as ClassificationRule[];
+  } catch (error) {
+    console.error('Error loading classification rules:', error);
+    return [];
+  }
+}
+
+/**
+ * Active rules used during classification, cached briefly
+ */
+export async function getActiveClassificationRules(): Promise<ClassificationRule[]> {
+  if (ruleCache && Date.now() - ruleCache.loadedAt < CACHE_TTL_MS) {
+    return ruleCache.rules;
+  }
+
+  const rules = (await loadClassificationRules()).filter(rule => rule.is_active);
+  ruleCache = { loadedAt: Date.now(), rules };
+  return rules;
+}
+
+/**
+ * Classify a payee with the highest-priority matching custom rule, or null when none match
+ */
+export async function classifyWithCustomRules(payeeName: string): Promise<ClassificationResult | null> {
+  const rules = await getActiveClassificationRules();
+  if (rules.length === 0) {
+    return null;
+  }
+  const [rule] = findMatchingClassificationRules(rules, payeeName);
+  return rule ? classificationRuleToResult(rule) : null;
+}
+
+function toRow(rule: ClassificationRuleInput) {
+  return {
+    name: rule.name.trim(),
+    match_type: rule.match_type,
+    pattern: rule.pattern.trim(),
+    classification: rule.classification,
+    entity_type: rule.entity_type || null,
+    sic_code: rule.classification === 'Business' ? rule.sic_code?.trim() || null : null,
+    sic_description: rule.classification === 'Business' ? rule.sic_description?.trim() || null : null,
+    confidence: rule.confidence,
+    priority: rule.priority
+  };
+}
+
+/**
+ * Add a new classification rule
+ */
+export async function addClassificationRule(
+  rule: ClassificationRuleInput,
+  createdBy?: string
+): Promise<{ success: boolean; error?: string }> {
+  const validationError = validateClassificationRule(rule);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+
+  try {
+    const { error } = await supabase
+      .from('classification_rules')
+      .insert([{ ...toRow(rule), created_by: createdBy?.trim() || null }]);
+
+    if (error) {
+      console.error('Error adding classification rule:', error);
+      return { success: false, error: error.message };
+    }
+
+    clearClassificationRuleCache();
+    return { success: true };
+  } catch (error) {
+    console.error('Error adding classification rule:', error);
+    return { success: false, error: 'Failed to add rule' };
+  }
+}
+
+/**
+ * Update an existing classification rule
+ */
+export async function updateClassificationRule(
+  id: string,
+  rule: ClassificationRuleInput
+): Promise<{ success: boolean; error?: string }> {
+  const validationError = validateClassificationRule(rule);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+
+  try {
+    const { error } = await supabase
+      .from('classification_rules')
+      .update(toRow(rule))
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error updating classification rule:', error);
+      return { success: false, error: error.message };
+    }
+
+    clearClassificationRuleCache();
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating classification rule:', error);
+    return { success: false, error: 'Failed to update rule' };
+  }
+}
+
+/**
+ * Enable or disable a rule without deleting it
+ */
+export async function setClassificationRuleActive(
+  id: string,
+  isActive: boolean
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase
+      .from('classification_rules')
+      .update({ is_active: isActive })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error toggling classification rule:', error);
+      return { success: false, error: error.message };
+    }
+
+    clearClassificationRuleCache();
+    return { success: true };
+  } catch (error) {
+    console.error('Error toggling classification rule:', error);
+    return { success: false, error: 'Failed to update rule' };
+  }
+}
+
+/**
+ * Delete a classification rule
+ */
+export async function deleteClassificationRule(id: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase
+      .from('classification_rules')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting classification rule:', error);
+      return { success: false, error: error.message };
+    }
+
+    clearClassificationRuleCache();
+    return { success: true };
+  } catch (error) {
+    console.error('Error deleting classification rule:', error);
+    return { success: false, error: 'Failed to delete rule' };
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { buildConsistencyGroups, ConsistencyRow } from './consistencyService';
+
+let nextId = 0;
+const row = (overrides: Partial<ConsistencyRow>): ConsistencyRow => ({
+  id: `row-${nextId++}`,
+  batch_id: 'batch-a',
+  payee_name: 'ACME PLUMBING LLC',
+  normalized_name: 'ACME PLUMBING',
+  duplicate_group_id: null,
+  classification: 'Business',
+  entity_type: 'Business',
+  confidence: 90,
+  sic_code: '1711',
+  sic_description: 'Plumbing',
+  created_at: '2026-10-19T00:00:00Z',
+  ...overrides
+});
+
+describe('buildConsistencyGroups', () => {
+  it('reports payees answered differently in different batches', () => {
+    const groups = buildConsistencyGroups([
+      row({ batch_id: 'batch-a' }),
+      row({ batch_id: 'batch-b', sic_code: '5074', sic_description: 'Plumbing supplies' }),
+      row({ batch_id: 'batch-c', classification: 'Individual', entity_type: 'Individual', sic_code: null })
+    ]);
+    expect(groups).toHaveLength(1);
+    expect(groups[0].batchIds).toEqual(['batch-a', 'batch-b', 'batch-c']);
+    expect(groups[0].conflicts).toEqual(['classification', 'sic']);
+    expect(groups[0].answers).toHaveLength(3);
+  });
+
+  it('ignores conflicts confined to a single batch and agreement across batches', () => {
+    const groups = buildConsistencyGroups([
+      row({ batch_id: 'batch-a' }),
+      row({ batch_id: 'batch-a', sic_code: '5074' }),
+      row({ batch_id: 'batch-b', normalized_name: 'JANE DOE', payee_name: 'Jane Doe' }),
+      row({ batch_id: 'batch-c', normalized_name: 'JANE DOE', payee_name: 'Jane Doe' })
+    ]);
+    expect(groups).toEqual([]);
+  });
+
+  it('links name variants through their duplicate group but not through unique ids', () => {
+    const groups = buildConsistencyGroups([
+      row({ batch_id: 'batch-a', duplicate_group_id: 'payee_1' }),
+      row({ batch_id: 'batch-a', duplicate_group_id: 'payee_1', payee_name: 'Acme Plumbing Co', normalized_name: 'ACME PLUMBING CO' }),
+      row({ batch_id: 'batch-b', payee_name: 'Acme Plumbing Co', normalized_name: 'ACME PLUMBING CO', sic_code: '5074' }),
+      row({ batch_id: 'batch-a', duplicate_group_id: 'unique_payee_2', payee_name: 'Bob Smith', normalized_name: 'BOB SMITH' }),
+      row({ batch_id: 'batch-b', duplicate_group_id: 'unique_payee_2', payee_name: 'Zed Corp', normalized_name: 'ZED', sic_code: '9999' })
+    ]);
+    expect(groups).toHaveLength(1);
+    expect(groups[0].payeeNames).toEqual(['ACME PLUMBING LLC', 'Acme Plumbing Co']);
+    expect(groups[0].conflicts).toEqual(['sic']);
+  });
+});
@@ -0,0 +1,264 @@
+import { supabase } from "@/integrations/supabase/client";
+import { EntityType } from "@/lib/types";
+import { normalizeEntityType, toBinaryClassification } from "@/lib/classification/entityTaxonomy";
+import { getCacheKey } from "./classificationCacheService";
+import { savePayeeOverride } from "./payeeOverrideService";
+
+export interface ConsistencyRow {
+  id: string;
+  batch_id: string | null;
+  payee_name: string;
+  normalized_name: string | null;
+  duplicate_group_id: string | null;
+  classification: string;
+  entity_type: string | null;
+  confidence: number;
+  sic_code: string | null;
+  sic_description: string | null;
+  created_at: string;
+}
+
+/**
+ * One distinct answer given for a payee group, with where it came from
+ */
+export interface ConsistencyAnswer {
+  key: string;
+  classification: 'Business' | 'Individual';
+  entityType: EntityType;
+  sicCode: string | null;
+  sicDescription: string | null;
+  rowCount: number;
+  batchIds: string[];
+  averageConfidence: number;
+}
+
+export type ConsistencyConflict = 'classification' | 'sic';
+
+export interface ConsistencyGroup {
+  key: string;
+  payeeNames: string[];
+  batchIds: string[];
+  rowIds: string[];
+  conflicts: ConsistencyConflict[];
+  answers: ConsistencyAnswer[];
+}
+
+const PAGE_SIZE = 1000;
+
+// Keeps the PostgREST `in` filter well under URL length limits
+const UPDATE_CHUNK_SIZE = 200;
+
+function answerKey(entityType: EntityType, sicCode: string | null): string {
+  return `${entityType}|${sicCode || ''}`;
+}
+
+/**
+ * Group rows that describe the same payee and keep the groups whose answers conflict
+ * across batches. Rows are linked by normalized name across batches, and by duplicate
+ * group within a batch (duplicate group ids are only unique inside their batch).
+ */
+export function buildConsistencyGroups(rows: ConsistencyRow[]): ConsistencyGroup[] {
+  const parent = rows.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  const linkBy = (key: string | null, index: number, firstByKey: Map<string, number>) => {
+    if (!key) return;
+    const first = firstByKey.get(key);
+    if (first === undefined) {
+      firstByKey.set(key, index);
+    } else {
+      parent[find(index)] = find(first);
+    }
+  };
+
+  const firstByName = new Map<string, number>();
+  const firstByDuplicateGroup = new Map<string, number>();
+  rows.forEach((row, index) => {
+    const name = row.normalized_name || getCacheKey(row.payee_name);
+    linkBy(name === 'UNKNOWN' ? null : name, index, firstByName);
+    // Singletons are labelled unique_* by duplicate detection and link nothing
+    const duplicateGroup = row.duplicate_group_id && !row.duplicate_group_id.startsWith('unique_')
+      ? `${row.batch_id}:${row.duplicate_group_id}`
+      : null;
+    linkBy(duplicateGroup, index, firstByDuplicateGroup);
+  });
+
+  const members = new Map<number, ConsistencyRow[]>();
+  rows.forEach((row, index) => {
+    const root = find(index);
+    members.set(root, [...(members.get(root) || []), row]);
+  });
+
+  const groups: ConsistencyGroup[] = [];
+  for (const groupRows of members.values()) {
+    const batchIds = Array.from(new Set(groupRows.map(row => row.batch_id || 'unbatched')));
+    if (batchIds.length < 2) continue;
+
+    const answers = new Map<string, ConsistencyAnswer & { confidenceTotal: number }>();
+    for (const row of groupRows) {
+      const entityType = normalizeEntityType(row.entity_type, row.classification);
+      const classification = toBinaryClassification(entityType);
+      const sicCode = classification === 'Business' ? row.sic_code || null : null;
+      const key = answerKey(entityType, sicCode);
+      const answer = answers.get(key) || {
+        key,
+        classification,
+        entityType,
+        sicCode,
+        sicDescription: classification === 'Business' ? row.sic_description || null : null,
+        rowCount: 0,
+        batchIds: [],
+        averageConfidence: 0,
+        confidenceTotal: 0
+      };
+      answer.rowCount++;
+      answer.confidenceTotal += row.confidence;
+      const batchId = row.batch_id || 'unbatched';
+      if (!answer.batchIds.includes(batchId)) answer.batchIds.push(batchId);
+      answers.set(key, answer);
+    }
+
+    const answerList = Array.from(answers.values());
+    const conflicts: ConsistencyConflict[] = [];
+    if (new Set(answerList.map(answer => answer.entityType)).size > 1) {
+      conflicts.push('classification');
+    }
+    if (new Set(answerList.map(answer => answer.sicCode).filter(Boolean)).size > 1) {
+      conflicts.push('sic');
+    }
+    if (conflicts.length === 0) continue;
+
+    const payeeNames = Array.from(new Set(groupRows.map(row => row.payee_name)));
+    groups.push({
+      key: getCacheKey(payeeNames[0]),
+      payeeNames,
+      batchIds,
+      rowIds: groupRows.map(row => row.id),
+      conflicts,
+      answers: answerList
+        .map(({ confidenceTotal, ...answer }) => ({
+          ...answer,
+          averageConfidence: Math.round(confidenceTotal / answer.rowCount)
+        }))
+        .sort((a, b) => b.rowCount - a.rowCount)
+    });
+  }
+
+  return groups.sort((a, b) => b.rowIds.length - a.rowIds.length);
+}
+
+/**
+ * Scan every saved classification for payees answered differently across batches
+ */
+export async function loadConsistencyReport(): Promise<ConsistencyGroup[]> {
+  const rows: ConsistencyRow[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('payee_classifications')
+      .select('id, batch_id, payee_name, normalized_name, duplicate_group_id, classification, entity_type, confidence, sic_code, sic_description, created_at')
+      .neq('processing_tier', 'Failed')
+      .order('created_at', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load classifications: ${error.message}`);
+    }
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return buildConsistencyGroups(rows);
+}
+
+/**
+ * Apply the chosen answer to every row in the group, remember it as an override for
+ * future batches, and queue each affected job's files for regeneration
+ */
+export async function resolveConsistencyGroup(
+  group: ConsistencyGroup,
+  answer: Pick<ConsistencyAnswer, 'entityType' | 'sicCode' | 'sicDescription'>,
+  resolvedBy: string
+): Promise<{ success: boolean; error?: string }> {
+  if (!resolvedBy.trim()) {
+    return { success: false, error: 'Your name is required to resolve a conflict' };
+  }
+
+  const classification = toBinaryClassification(answer.entityType);
+  const isBusiness = classification === 'Business';
+  const sicCode = isBusiness ? answer.sicCode : null;
+  const sicDescription = isBusiness ? answer.sicDescription : null;
+
+  try {
+    for (let i = 0; i < group.rowIds.length; i += UPDATE_CHUNK_SIZE) {
+      const { error } = await supabase
+        .from('payee_classifications')
+        .update({
+          classification,
+          entity_type: answer.entityType,
+          sic_code: sicCode,
+          sic_description: sicDescription,
+          confidence: 100,
+          processing_method: `Consistency resolution by ${resolvedBy.trim()}`
+        })
+        .in('id', group.rowIds.slice(i, i + UPDATE_CHUNK_SIZE));
+
+      if (error) {
+        console.error('[CONSISTENCY] Failed to update classifications:', error);
+        return { success: false, error: error.message };
+      }
+    }
+
+    // Regenerated files re-run result processing, which applies stored overrides
+    for (const payeeName of group.payeeNames) {
+      const overrideResult = await savePayeeOverride({
+        payeeName,
+        entityType: answer.entityType,
+        sicCode,
+        sicDescription,
+        reason: `Cross-batch consistency resolution across ${group.batchIds.length} batches`,
+        createdBy: resolvedBy.trim()
+      });
+      if (!overrideResult.success) {
+        return overrideResult;
+      }
+    }
+
+    const batchIds = group.batchIds.filter(id => id !== 'unbatched');
+    if (batchIds.length > 0) {
+      const { error: clearError } = await supabase
+        .from('batch_jobs')
+        .update({ csv_file_url: null, excel_file_url: null, file_generated_at: null })
+        .in('id', batchIds);
+      if (clearError) {
+        console.error('[CONSISTENCY] Failed to clear generated files:', clearError);
+        return { success: false, error: clearError.message };
+      }
+
+      const { error: queueError } = await supabase
+        .from('file_generation_queue')
+        .upsert(batchIds.map(batchId => ({
+          batch_job_id: batchId,
+          status: 'pending',
+          retry_count: 0,
+          last_error: null,
+          updated_at: new Date().toISOString()
+        })), { onConflict: 'batch_job_id' });
+      if (queueError) {
+        console.error('[CONSISTENCY] Failed to queue file regeneration:', queueError);
+        return { success: false, error: queueError.message };
+      }
+    }
+
+    console.log(`[CONSISTENCY] Resolved "${group.payeeNames[0]}" as ${answer.entityType} across ${group.batchIds.length} batches`);
+    return { success: true };
+  } catch (error) {
+    console.error('[CONSISTENCY] Failed to resolve conflict:', error);
+    return { success: false, error: 'Failed to resolve conflict' };
+  }
+}
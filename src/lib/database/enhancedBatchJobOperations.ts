@@ -128,6 +128,7 @@ export class EnhancedBatchJobOperations {
         request_counts_failed: 0,
         errors: null,
         metadata: {
+          ...(batchJob.metadata || {}),
           processing_type: 'standard',
           record_count: payeeRowData.uniquePayeeNames.length,
           timestamp: Date.now()
@@ -190,6 +191,7 @@ export class EnhancedBatchJobOperations {
         request_counts_failed: 0,
         errors: null,
         metadata: {
+          ...(batchJob.metadata || {}),
           processing_type: 'optimized_large',
           original_record_count: (sampledData as any).originalRecordCount || sampledData.uniquePayeeNames.length,
           sampled_record_count: sampledData.uniquePayeeNames.length,
@@ -2,12 +2,15 @@
 import { supabase } from '@/integrations/supabase/client';
 import { PayeeClassification } from '@/lib/types';
 import { exponentialBackoff, createCircuitBreaker, DatabaseError } from './resilientDatabase';
+import { enqueueLowConfidenceForReview } from './reviewQueueService';
+import { getCacheKey } from './classificationCacheService';
 
 interface SICValidationStats {
   totalSaved: number;
   businessCount: number;
   individualCount: number;
   sicCodeCount: number;
+  queuedForReview: number;
   sicValidationErrors: string[];
 }
 
@@ -25,6 +28,7 @@ export const saveClassificationResultsWithValidation = async (
     businessCount: 0,
     individualCount: 0,
     sicCodeCount: 0,
+    queuedForReview: 0,
     sicValidationErrors: []
   };
 
@@ -65,7 +69,9 @@ export const saveClassificationResultsWithValidation = async (
 
     return {
       payee_name: result.payeeName,
+      normalized_name: getCacheKey(result.payeeName),
       classification: result.result.classification,
+      entity_type: result.result.entityType || result.result.classification,
       confidence: result.result.confidence,
       reasoning: result.result.reasoning,
       processing_tier: result.result.processingTier,
@@ -78,6 +84,17 @@ export const saveClassificationResultsWithValidation = async (
       batch_id: processedBatchId,
       sic_code: result.result.sicCode || null,
       sic_description: result.result.sicDescription || null,
+      cache_hit: result.result.cacheHit || false,
+      cached_from_batch_id: result.result.cachedFromBatchId || null,
+      prompt_version_id: result.result.promptVersionId || null,
+      prompt_tokens: result.result.usage?.promptTokens ?? null,
+      completion_tokens: result.result.usage?.completionTokens ?? null,
+      ai_cost_usd: result.result.usage?.costUsd ?? null,
+      ensemble_votes: result.result.ensemble ? JSON.parse(JSON.stringify(result.result.ensemble.votes)) : null,
+      ensemble_disagreement: result.result.ensemble?.disagreementScore ?? null,
+      ensemble_flagged: result.result.ensemble?.flagged || false,
+      error_code: result.result.batchError?.code || null,
+      error_message: result.result.batchError?.message || null,
       // DUPLICATE DETECTION DATA - check if available in result object
       is_potential_duplicate: (result as any).is_potential_duplicate || false,
       duplicate_of_payee_id: (result as any).duplicate_of_payee_id || null,
@@ -200,6 +217,9 @@ export const saveClassificationResultsWithValidation = async (
         console.error(`[ENHANCED DB SERVICE] ❌ ${error}`);
       }
     }
+
+    // Route low-confidence rows to the human review queue
+    stats.queuedForReview = await enqueueLowConfidenceForReview(batchId);
   }
 
   const sicCoverage = stats.businessCount > 0 ? Math.round((stats.sicCodeCount / stats.businessCount) * 100) : 0;
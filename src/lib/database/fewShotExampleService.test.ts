@@ -0,0 +1,55 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: { from: vi.fn() } }));
+
+import { supabase } from '@/integrations/supabase/client';
+import { loadFewShotExamplesByIds } from './fewShotExampleService';
+
+type Call = [method: string, args: unknown[]];
+
+// A chainable stand-in for one supabase query that records every call and resolves to the given rows
+function stubQuery(calls: Call[], data: unknown[]) {
+  const query: Record<string, unknown> = {};
+  for (const method of ['select', 'in']) {
+    query[method] = (...args: unknown[]) => {
+      calls.push([method, args]);
+      return query;
+    };
+  }
+  query.then = (resolve: (value: unknown) => unknown) => resolve({ data, error: null });
+  return query;
+}
+
+beforeEach(() => {
+  vi.mocked(supabase.from).mockReset();
+});
+
+describe('loadFewShotExamplesByIds', () => {
+  it('returns a job\'s examples in submission order and skips deleted rows', async () => {
+    const calls: Call[] = [];
+    vi.mocked(supabase.from).mockImplementation((() => stubQuery(calls, [
+      {
+        id: 'b', payee_name: 'JOHN SMITH', normalized_name: 'JOHN SMITH', classification: 'Business', entity_type: 'Business',
+        confidence: 80, reasoning: 'AI reasoning', sic_code: null, sic_description: null,
+        classification_reviews: { status: 'overridden', review_reason: 'Known individual', reviewed_at: '2026-10-01T00:00:00Z' }
+      },
+      {
+        id: 'a', payee_name: 'ACME PLUMBING', normalized_name: 'ACME PLUMBING', classification: 'Business', entity_type: 'Business',
+        confidence: 95, reasoning: 'Trade keyword', sic_code: '1711', sic_description: 'Plumbing', classification_reviews: null
+      }
+    ])) as unknown as typeof supabase.from);
+
+    const examples = await loadFewShotExamplesByIds(['a', 'deleted', 'b']);
+
+    expect(calls).toContainEqual(['in', ['id', ['a', 'deleted', 'b']]]);
+    expect(examples.map(example => [example.id, example.reasoning])).toEqual([
+      ['a', 'Trade keyword'],
+      ['b', 'Known individual']
+    ]);
+  });
+
+  it('looks nothing up for jobs without examples', async () => {
+    expect(await loadFewShotExamplesByIds([])).toEqual([]);
+    expect(supabase.from).not.toHaveBeenCalled();
+  });
+});
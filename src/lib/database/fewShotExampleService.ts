@@ -0,0 +1,173 @@
+import { supabase } from "@/integrations/supabase/client";
+import { normalizeEntityType, toBinaryClassification } from "@/lib/classification/entityTaxonomy";
+import { FewShotExample, MAX_FEW_SHOT_EXAMPLES, selectFewShotExamples } from "@/lib/openai/fewShotExamples";
+import { getCacheKey } from "./classificationCacheService";
+
+export interface FewShotSettings {
+  enabled: boolean;
+  exampleCount: number;
+}
+
+export const DEFAULT_FEW_SHOT_SETTINGS: FewShotSettings = {
+  enabled: false,
+  exampleCount: 6
+};
+
+const FEW_SHOT_SETTINGS_KEY = 'few_shot_settings';
+
+// Most recent reviewed rows considered as candidates
+const POOL_SIZE = 1000;
+const POOL_TTL_MS = 60 * 1000;
+
+let poolCache: { examples: FewShotExample[]; loadedAt: number } | null = null;
+
+interface ReviewedClassificationRow {
+  id: string;
+  payee_name: string;
+  normalized_name: string | null;
+  classification: string;
+  entity_type: string | null;
+  confidence: number;
+  reasoning: string;
+  sic_code: string | null;
+  sic_description: string | null;
+  classification_reviews: { status: string; review_reason: string | null; reviewed_at: string | null } | null;
+}
+
+/**
+ * Load few-shot settings from browser storage
+ */
+export function getFewShotSettings(): FewShotSettings {
+  try {
+    const raw = localStorage.getItem(FEW_SHOT_SETTINGS_KEY);
+    if (!raw) return DEFAULT_FEW_SHOT_SETTINGS;
+    return { ...DEFAULT_FEW_SHOT_SETTINGS, ...JSON.parse(raw) };
+  } catch (error) {
+    console.error('[FEW-SHOT] Failed to read settings:', error);
+    return DEFAULT_FEW_SHOT_SETTINGS;
+  }
+}
+
+/**
+ * Persist few-shot settings
+ */
+export function saveFewShotSettings(settings: Partial<FewShotSettings>): FewShotSettings {
+  const merged = { ...getFewShotSettings(), ...settings };
+  if (!Number.isInteger(merged.exampleCount) || merged.exampleCount < 1 || merged.exampleCount > MAX_FEW_SHOT_EXAMPLES) {
+    throw new Error(`The example count must be a whole number from 1 to ${MAX_FEW_SHOT_EXAMPLES}`);
+  }
+  localStorage.setItem(FEW_SHOT_SETTINGS_KEY, JSON.stringify(merged));
+  return merged;
+}
+
+const EXAMPLE_COLUMNS = 'id, payee_name, normalized_name, classification, entity_type, confidence, reasoning, sic_code, sic_description';
+
+function toFewShotExample(row: ReviewedClassificationRow): FewShotExample {
+  const review = row.classification_reviews;
+  const entityType = normalizeEntityType(row.entity_type, row.classification);
+  return {
+    id: row.id,
+    payeeName: row.payee_name,
+    classification: toBinaryClassification(entityType),
+    entityType,
+    confidence: row.confidence,
+    // An overridden row still carries the rejected AI reasoning; the reviewer's reason explains the answer
+    reasoning: (review?.status === 'overridden' && review.review_reason) || row.reasoning,
+    sicCode: row.sic_code,
+    sicDescription: row.sic_description,
+    reviewedAt: review?.reviewed_at || ''
+  };
+}
+
+/**
+ * Keep one example per payee, dropping payees whose reviewed rows disagree on the entity type
+ */
+function toHighAgreementExamples(rows: ReviewedClassificationRow[]): FewShotExample[] {
+  const groups = new Map<string, FewShotExample[]>();
+  for (const row of rows) {
+    const review = row.classification_reviews;
+    if (!review || review.status === 'pending') continue;
+
+    const key = row.normalized_name || getCacheKey(row.payee_name);
+    groups.set(key, [...(groups.get(key) || []), toFewShotExample(row)]);
+  }
+
+  return Array.from(groups.values())
+    .filter(examples => new Set(examples.map(example => example.entityType)).size === 1)
+    .map(examples => examples.reduce((newest, example) => example.reviewedAt > newest.reviewedAt ? example : newest));
+}
+
+/**
+ * Reviewed, unanimous classifications available as few-shot examples, cached briefly
+ */
+export async function loadFewShotExamplePool(): Promise<FewShotExample[]> {
+  if (poolCache && Date.now() - poolCache.loadedAt < POOL_TTL_MS) {
+    return poolCache.examples;
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('payee_classifications')
+      .select(`${EXAMPLE_COLUMNS}, classification_reviews!inner(status, review_reason, reviewed_at)`)
+      .neq('classification_reviews.status', 'pending')
+      .order('updated_at', { ascending: false })
+      .limit(POOL_SIZE);
+
+    if (error) {
+      console.error('[FEW-SHOT] Error loading reviewed classifications:', error);
+      return [];
+    }
+
+    const examples = toHighAgreementExamples((data || []) as unknown as ReviewedClassificationRow[]);
+    poolCache = { examples, loadedAt: Date.now() };
+    return examples;
+  } catch (error) {
+    console.error('[FEW-SHOT] Exception loading reviewed classifications:', error);
+    return [];
+  }
+}
+
+/**
+ * Few-shot examples for the given payees, or none when few-shot prompting is off
+ */
+export async function findFewShotExamples(
+  payeeNames: string[],
+  settings: FewShotSettings = getFewShotSettings()
+): Promise<FewShotExample[]> {
+  if (!settings.enabled) {
+    return [];
+  }
+  const examples = selectFewShotExamples(await loadFewShotExamplePool(), payeeNames, settings.exampleCount);
+  if (examples.length > 0) {
+    console.log(`[FEW-SHOT] Using ${examples.length} reviewed examples`);
+  }
+  return examples;
+}
+
+/**
+ * The examples a job was submitted with, in their original order, so later requests for
+ * the job see the same prompt. Examples whose rows were since deleted are left out.
+ */
+export async function loadFewShotExamplesByIds(ids: string[]): Promise<FewShotExample[]> {
+  if (ids.length === 0) {
+    return [];
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('payee_classifications')
+      .select(`${EXAMPLE_COLUMNS}, classification_reviews(status, review_reason, reviewed_at)`)
+      .in('id', ids);
+
+    if (error) {
+      console.error('[FEW-SHOT] Error loading job examples:', error);
+      return [];
+    }
+
+    const byId = new Map(((data || []) as unknown as ReviewedClassificationRow[]).map(row => [row.id, toFewShotExample(row)]));
+    return ids.flatMap(id => byId.get(id) || []);
+  } catch (error) {
+    console.error('[FEW-SHOT] Exception loading job examples:', error);
+    return [];
+  }
+}
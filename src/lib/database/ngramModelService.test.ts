@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: { from: vi.fn() } }));
+
+import { supabase } from '@/integrations/supabase/client';
+import { standardizePayeeName } from '@/lib/dataStandardization';
+import { getJobLocalModelSettings, loadTrainingSamples, saveLocalModelSettings } from './ngramModelService';
+
+type Call = [table: string, method: string, args: unknown[]];
+
+// A chainable stand-in for one supabase query that records every call and resolves to the given response
+function stubQuery(table: string, calls: Call[], response: { data?: unknown; error?: unknown }) {
+  const query: Record<string, unknown> = {};
+  for (const method of ['select', 'in', 'order', 'range']) {
+    query[method] = (...args: unknown[]) => {
+      calls.push([table, method, args]);
+      return query;
+    };
+  }
+  query.then = (resolve: (value: unknown) => unknown) => resolve({ data: null, error: null, ...response });
+  return query;
+}
+
+beforeEach(() => {
+  localStorage.clear();
+  vi.mocked(supabase.from).mockReset();
+});
+
+describe('getJobLocalModelSettings', () => {
+  it('forces the model on with the floor the job recorded', () => {
+    saveLocalModelSettings({ enabled: false, minConfidence: 99 });
+    expect(getJobLocalModelSettings({ local_model_min_confidence: 80 })).toEqual({ enabled: true, minConfidence: 80 });
+    expect(getJobLocalModelSettings({ local_model_min_confidence: 0 })).toEqual({ enabled: true, minConfidence: 0 });
+  });
+
+  it('uses the current floor for jobs that recorded none', () => {
+    saveLocalModelSettings({ enabled: false, minConfidence: 99 });
+    expect(getJobLocalModelSettings(undefined)).toEqual({ enabled: true, minConfidence: 99 });
+  });
+});
+
+describe('loadTrainingSamples', () => {
+  it('reads every page of reviews and overrides, letting overrides win', async () => {
+    const calls: Call[] = [];
+    const pages: Record<string, unknown[][]> = {
+      classification_reviews: [
+        Array.from({ length: 1000 }, (_, i) => ({ payee_name: `PAYEE ${i}`, reviewed_classification: 'Business', reviewed_entity_type: 'Business' })),
+        [
+          { payee_name: 'JOHN SMITH', reviewed_classification: 'Business', reviewed_entity_type: 'Business' },
+          { payee_name: 'JANE DOE', reviewed_classification: 'Individual', reviewed_entity_type: 'Individual' }
+        ]
+      ],
+      payee_overrides: [
+        [{ normalized_name: standardizePayeeName('JOHN SMITH').normalized, payee_name: 'John Smith', classification: 'Individual', entity_type: 'Individual' }]
+      ]
+    };
+    vi.mocked(supabase.from).mockImplementation(((table: string) => stubQuery(
+      table,
+      calls,
+      { data: pages[table].shift() || [] }
+    )) as unknown as typeof supabase.from);
+
+    const samples = await loadTrainingSamples();
+
+    expect(calls.filter(([table, method]) => table === 'classification_reviews' && method === 'range').map(([, , args]) => args))
+      .toEqual([[0, 999], [1000, 1999]]);
+    expect(calls.filter(([table, method]) => table === 'payee_overrides' && method === 'range').map(([, , args]) => args))
+      .toEqual([[0, 999]]);
+    expect(samples).toContainEqual({ name: 'JANE DOE', label: 'Individual' });
+    expect(samples.filter(sample => sample.name.toUpperCase() === 'JOHN SMITH')).toEqual([{ name: 'John Smith', label: 'Individual' }]);
+  });
+
+  it('fails when a lookup fails', async () => {
+    vi.mocked(supabase.from).mockImplementation(((table: string) => stubQuery(table, [], { error: { message: 'offline' } })) as unknown as typeof supabase.from);
+
+    await expect(loadTrainingSamples()).rejects.toThrow('Failed to load reviewed classifications: offline');
+  });
+});
@@ -0,0 +1,357 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import { ClassificationResult } from "@/lib/types";
+import { standardizePayeeName } from "@/lib/dataStandardization";
+import { normalizeEntityType } from "@/lib/classification/entityTaxonomy";
+import { NgramModel, TrainingSample, predictNgram, trainNgramModel } from "@/lib/classification/ngramModel";
+
+export interface NgramModelRecord {
+  id: string;
+  version: number;
+  sample_count: number;
+  holdout_accuracy: number | null;
+  confidence_threshold: number | null;
+  is_active: boolean;
+  trained_by: string | null;
+  created_at: string;
+}
+
+export interface LoadedNgramModel {
+  version: number;
+  model: NgramModel;
+}
+
+export interface LocalModelSettings {
+  enabled: boolean;
+  // Floor applied on top of each model's calibrated threshold
+  minConfidence: number;
+}
+
+export const DEFAULT_LOCAL_MODEL_SETTINGS: LocalModelSettings = {
+  enabled: true,
+  minConfidence: 90
+};
+
+// Below this many reviewed rows the model is too sparse to be worth training
+export const MIN_TRAINING_SAMPLES = 50;
+
+const LOCAL_MODEL_SETTINGS_KEY = 'local_model_settings';
+
+// PostgREST caps each response, so training data is read a page at a time
+const PAGE_SIZE = 1000;
+
+const RECORD_COLUMNS = 'id, version, sample_count, holdout_accuracy, confidence_threshold, is_active, trained_by, created_at';
+
+// Model versions are immutable, so they are cached for the session
+const modelCache = new Map<number, NgramModel>();
+const ACTIVE_TTL_MS = 60 * 1000;
+let activeCache: { loadedAt: number; version: number | null } | null = null;
+
+/**
+ * Load local model settings from browser storage
+ */
+export function getLocalModelSettings(): LocalModelSettings {
+  try {
+    const raw = localStorage.getItem(LOCAL_MODEL_SETTINGS_KEY);
+    if (!raw) return DEFAULT_LOCAL_MODEL_SETTINGS;
+    return { ...DEFAULT_LOCAL_MODEL_SETTINGS, ...JSON.parse(raw) };
+  } catch (error) {
+    console.error('[LOCAL MODEL] Failed to read settings:', error);
+    return DEFAULT_LOCAL_MODEL_SETTINGS;
+  }
+}
+
+/**
+ * Persist local model settings
+ */
+export function saveLocalModelSettings(settings: Partial<LocalModelSettings>): LocalModelSettings {
+  const merged = { ...getLocalModelSettings(), ...settings };
+  if (merged.minConfidence < 0 || merged.minConfidence > 100) {
+    throw new Error('The local model confidence floor must be between 0 and 100');
+  }
+  localStorage.setItem(LOCAL_MODEL_SETTINGS_KEY, JSON.stringify(merged));
+  return merged;
+}
+
+/**
+ * Local model settings to replay when processing a job's results. The submission already
+ * decided to skip AI for the payees the model classified, so the settings are forced on with
+ * the floor the job recorded, and a later settings change cannot drop those payees. Jobs that
+ * recorded no floor use the current one.
+ */
+export function getJobLocalModelSettings(metadata?: { local_model_min_confidence?: number }): LocalModelSettings {
+  return {
+    enabled: true,
+    minConfidence: metadata?.local_model_min_confidence ?? getLocalModelSettings().minConfidence
+  };
+}
+
+/**
+ * Collect human-labeled payees: reviewed queue items plus stored overrides.
+ * Overrides win over earlier review decisions for the same payee.
+ */
+export async function loadTrainingSamples(): Promise<TrainingSample[]> {
+  const samples = new Map<string, TrainingSample>();
+
+  // Oldest review first, so the latest decision for a payee wins
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: reviews, error: reviewError } = await supabase
+      .from('classification_reviews')
+      .select('payee_name, reviewed_classification, reviewed_entity_type')
+      .in('status', ['accepted', 'overridden'])
+      .order('reviewed_at')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+    if (reviewError) {
+      throw new Error(`Failed to load reviewed classifications: ${reviewError.message}`);
+    }
+
+    for (const review of reviews || []) {
+      if (!review.reviewed_classification) continue;
+      samples.set(standardizePayeeName(review.payee_name).normalized, {
+        name: review.payee_name,
+        label: normalizeEntityType(review.reviewed_entity_type, review.reviewed_classification)
+      });
+    }
+    if (!reviews || reviews.length < PAGE_SIZE) break;
+  }
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: overrides, error: overrideError } = await supabase
+      .from('payee_overrides')
+      .select('normalized_name, payee_name, classification, entity_type')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+    if (overrideError) {
+      throw new Error(`Failed to load payee overrides: ${overrideError.message}`);
+    }
+
+    for (const override of overrides || []) {
+      samples.set(override.normalized_name, {
+        name: override.payee_name,
+        label: normalizeEntityType(override.entity_type, override.classification)
+      });
+    }
+    if (!overrides || overrides.length < PAGE_SIZE) break;
+  }
+
+  return Array.from(samples.values());
+}
+
+/**
+ * Train a new model version from reviewed rows and make it the active model
+ */
+export async function trainAndSaveNgramModel(
+  trainedBy?: string
+): Promise<{ success: boolean; record?: NgramModelRecord; error?: string }> {
+  try {
+    const samples = await loadTrainingSamples();
+    if (samples.length < MIN_TRAINING_SAMPLES) {
+      return {
+        success: false,
+        error: `At least ${MIN_TRAINING_SAMPLES} reviewed payees are needed to train (found ${samples.length})`
+      };
+    }
+
+    const model = trainNgramModel(samples);
+
+    const { data: latest, error: latestError } = await supabase
+      .from('ngram_models')
+      .select('version')
+      .order('version', { ascending: false })
+      .limit(1);
+    if (latestError) {
+      return { success: false, error: latestError.message };
+    }
+    const version = (latest?.[0]?.version || 0) + 1;
+
+    const { error: deactivateError } = await supabase
+      .from('ngram_models')
+      .update({ is_active: false })
+      .eq('is_active', true);
+    if (deactivateError) {
+      return { success: false, error: deactivateError.message };
+    }
+
+    const { data, error } = await supabase
+      .from('ngram_models')
+      .insert({
+        version,
+        model: model as unknown as Json,
+        sample_count: model.sampleCount,
+        holdout_accuracy: model.holdoutAccuracy,
+        confidence_threshold: model.confidenceThreshold,
+        is_active: true,
+        trained_by: trainedBy?.trim() || null
+      })
+      .select(RECORD_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('[LOCAL MODEL] Failed to save model:', error);
+      return { success: false, error: error.message };
+    }
+
+    modelCache.set(version, model);
+    activeCache = { loadedAt: Date.now(), version };
+    console.log(`[LOCAL MODEL] Trained v${version} on ${model.sampleCount} payees (holdout accuracy ${model.holdoutAccuracy ?? 'n/a'}%)`);
+    return { success: true, record: data as NgramModelRecord };
+  } catch (error) {
+    console.error('[LOCAL MODEL] Training failed:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Training failed' };
+  }
+}
+
+/**
+ * List trained model versions, newest first
+ */
+export async function loadNgramModelRecords(): Promise<NgramModelRecord[]> {
+  const { data, error } = await supabase
+    .from('ngram_models')
+    .select(RECORD_COLUMNS)
+    .order('version', { ascending: false });
+
+  if (error) {
+    console.error('[LOCAL MODEL] Failed to list models:', error);
+    return [];
+  }
+  return (data || []) as NgramModelRecord[];
+}
+
+/**
+ * Make an earlier or newer version the one used for new classifications
+ */
+export async function activateNgramModel(version: number): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error: deactivateError } = await supabase
+      .from('ngram_models')
+      .update({ is_active: false })
+      .eq('is_active', true);
+    if (deactivateError) {
+      return { success: false, error: deactivateError.message };
+    }
+
+    const { error } = await supabase
+      .from('ngram_models')
+      .update({ is_active: true })
+      .eq('version', version);
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    activeCache = { loadedAt: Date.now(), version };
+    return { success: true };
+  } catch (error) {
+    console.error('[LOCAL MODEL] Failed to activate model:', error);
+    return { success: false, error: 'Failed to activate model' };
+  }
+}
+
+async function getActiveVersion(): Promise<number | null> {
+  if (activeCache && Date.now() - activeCache.loadedAt < ACTIVE_TTL_MS) {
+    return activeCache.version;
+  }
+
+  const { data, error } = await supabase
+    .from('ngram_models')
+    .select('version')
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[LOCAL MODEL] Failed to find active model:', error);
+    return activeCache?.version ?? null;
+  }
+  activeCache = { loadedAt: Date.now(), version: data?.version ?? null };
+  return activeCache.version;
+}
+
+/**
+ * Load a specific model version, or the active one when no version is given
+ */
+export async function loadNgramModel(version?: number): Promise<LoadedNgramModel | null> {
+  try {
+    const resolvedVersion = version ?? await getActiveVersion();
+    if (resolvedVersion === null) return null;
+
+    const cached = modelCache.get(resolvedVersion);
+    if (cached) return { version: resolvedVersion, model: cached };
+
+    const { data, error } = await supabase
+      .from('ngram_models')
+      .select('model')
+      .eq('version', resolvedVersion)
+      .maybeSingle();
+
+    if (error || !data) {
+      if (error) console.error(`[LOCAL MODEL] Failed to load v${resolvedVersion}:`, error);
+      return null;
+    }
+
+    const model = data.model as unknown as NgramModel;
+    modelCache.set(resolvedVersion, model);
+    return { version: resolvedVersion, model };
+  } catch (error) {
+    console.error('[LOCAL MODEL] Failed to load model:', error);
+    return null;
+  }
+}
+
+/**
+ * Classify with a loaded model, returning null unless the prediction clears
+ * both the model's calibrated threshold and the configured floor
+ */
+export function classifyWithNgramModel(
+  loaded: LoadedNgramModel,
+  payeeName: string,
+  settings: LocalModelSettings = getLocalModelSettings()
+): ClassificationResult | null {
+  const { model, version } = loaded;
+  if (!settings.enabled || model.confidenceThreshold === null) return null;
+
+  const prediction = predictNgram(model, payeeName);
+  if (!prediction) return null;
+
+  const threshold = Math.max(model.confidenceThreshold, settings.minConfidence);
+  if (prediction.confidence < threshold) return null;
+
+  return {
+    classification: prediction.classification,
+    entityType: prediction.entityType,
+    confidence: prediction.confidence,
+    reasoning: `Local n-gram model v${version} predicted ${prediction.entityType} (${prediction.confidence}%, threshold ${threshold}%)`,
+    processingTier: 'NLP-Based',
+    processingMethod: `Local n-gram model v${version}`,
+    localModelVersion: version
+  };
+}
+
+/**
+ * Confident local predictions for a list of payees, keyed by payee name.
+ * Pass the version recorded on a batch job to reproduce its submission-time predictions.
+ */
+export async function findLocalModelClassifications(
+  payeeNames: string[],
+  version?: number,
+  settings: LocalModelSettings = getLocalModelSettings()
+): Promise<{ version: number | null; results: Map<string, ClassificationResult> }> {
+  const results = new Map<string, ClassificationResult>();
+  if (!settings.enabled || payeeNames.length === 0) {
+    return { version: null, results };
+  }
+
+  const loaded = await loadNgramModel(version);
+  if (!loaded) {
+    return { version: null, results };
+  }
+
+  for (const name of payeeNames) {
+    const result = classifyWithNgramModel(loaded, name, settings);
+    if (result) results.set(name, result);
+  }
+
+  if (results.size > 0) {
+    console.log(`[LOCAL MODEL] v${loaded.version} classified ${results.size}/${payeeNames.length} payees without AI`);
+  }
+  return { version: loaded.version, results };
+}
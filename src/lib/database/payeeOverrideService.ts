@@ -0,0 +1,163 @@
+import { supabase } from "@/integrations/supabase/client";
+import { ClassificationResult, EntityType } from "@/lib/types";
+import { standardizePayeeName } from "@/lib/dataStandardization";
+import { normalizeEntityType, toBinaryClassification } from "@/lib/classification/entityTaxonomy";
+
+export interface PayeeOverride {
+  id: string;
+  normalized_name: string;
+  payee_name: string;
+  classification: string;
+  entity_type: string | null;
+  sic_code: string | null;
+  sic_description: string | null;
+  reason: string | null;
+  created_by: string | null;
+  source_review_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PayeeOverrideInput {
+  payeeName: string;
+  entityType: EntityType;
+  sicCode?: string | null;
+  sicDescription?: string | null;
+  reason?: string | null;
+  createdBy?: string | null;
+  sourceReviewId?: string | null;
+}
+
+// Overrides change rarely, so a short-lived in-memory copy avoids a query per payee
+const CACHE_TTL_MS = 60 * 1000;
+let overrideCache: { loadedAt: number; overrides: Map<string, PayeeOverride> } | null = null;
+
+// PostgREST caps each response, so overrides are read a page at a time
+const PAGE_SIZE = 1000;
+
+/**
+ * Key used to match payees against stored overrides
+ */
+export function getOverrideKey(payeeName: string): string {
+  return standardizePayeeName(payeeName).normalized;
+}
+
+/**
+ * Load all payee overrides keyed by normalized name
+ */
+export async function loadPayeeOverrides(forceRefresh: boolean = false): Promise<Map<string, PayeeOverride>> {
+  if (!forceRefresh && overrideCache && Date.now() - overrideCache.loadedAt < CACHE_TTL_MS) {
+    return overrideCache.overrides;
+  }
+
+  try {
+    const overrides = new Map<string, PayeeOverride>();
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('payee_overrides')
+        .select('*')
+        .order('normalized_name', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('Error loading payee overrides:', error);
+        return overrideCache?.overrides || new Map();
+      }
+
+      for (const override of (data || []) as PayeeOverride[]) {
+        overrides.set(override.normalized_name, override);
+      }
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    overrideCache = { loadedAt: Date.now(), overrides };
+    return overrides;
+  } catch (error) {
+    console.error('Error loading payee overrides:', error);
+    return overrideCache?.overrides || new Map();
+  }
+}
+
+/**
+ * Find the stored override for a single payee, if any
+ */
+export async function findPayeeOverride(payeeName: string): Promise<PayeeOverride | null> {
+  if (!payeeName || payeeName.trim() === '') {
+    return null;
+  }
+  const overrides = await loadPayeeOverrides();
+  return overrides.get(getOverrideKey(payeeName)) || null;
+}
+
+/**
+ * Find stored overrides for a list of payees, keyed by the original payee name
+ */
+export async function findPayeeOverrides(payeeNames: string[]): Promise<Map<string, PayeeOverride>> {
+  const overrides = await loadPayeeOverrides();
+  const matches = new Map<string, PayeeOverride>();
+  if (overrides.size === 0) {
+    return matches;
+  }
+
+  for (const name of payeeNames) {
+    const override = overrides.get(getOverrideKey(name));
+    if (override) {
+      matches.set(name, override);
+    }
+  }
+  return matches;
+}
+
+/**
+ * Store a reviewer correction so future batches reuse it
+ */
+export async function savePayeeOverride(input: PayeeOverrideInput): Promise<{ success: boolean; error?: string }> {
+  const classification = toBinaryClassification(input.entityType);
+  const isBusiness = classification === 'Business';
+
+  try {
+    const { error } = await supabase
+      .from('payee_overrides')
+      .upsert({
+        normalized_name: getOverrideKey(input.payeeName),
+        payee_name: input.payeeName.trim(),
+        classification,
+        entity_type: input.entityType,
+        sic_code: isBusiness ? input.sicCode || null : null,
+        sic_description: isBusiness ? input.sicDescription || null : null,
+        reason: input.reason || null,
+        created_by: input.createdBy || null,
+        source_review_id: input.sourceReviewId || null
+      }, { onConflict: 'normalized_name' });
+
+    if (error) {
+      console.error('Error saving payee override:', error);
+      return { success: false, error: error.message };
+    }
+
+    overrideCache = null;
+    return { success: true };
+  } catch (error) {
+    console.error('Error saving payee override:', error);
+    return { success: false, error: 'Failed to save payee override' };
+  }
+}
+
+/**
+ * Build the classification result for a payee with a stored override
+ */
+export function overrideToClassificationResult(override: PayeeOverride): ClassificationResult {
+  const entityType = normalizeEntityType(override.entity_type, override.classification);
+  return {
+    classification: toBinaryClassification(entityType),
+    entityType,
+    confidence: 100,
+    reasoning: `Reviewer override${override.created_by ? ` by ${override.created_by}` : ''}${override.reason ? `: ${override.reason}` : ''}`,
+    processingTier: 'Override',
+    processingMethod: 'Payee override memory',
+    matchingRules: [`Override for "${override.payee_name}"`],
+    sicCode: override.sic_code || undefined,
+    sicDescription: override.sic_description || undefined
+  };
+}
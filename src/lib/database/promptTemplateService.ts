@@ -0,0 +1,219 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import {
+  BUILT_IN_PROMPT_TEMPLATES,
+  getBuiltInPromptTemplate,
+  PromptPurpose,
+  PromptTemplate,
+  validatePromptTemplate
+} from "@/lib/openai/promptTemplates";
+
+const PROMPT_DEFAULTS_KEY = 'prompt_template_defaults';
+
+// Versions are immutable, so a fetched template never goes stale
+const templateCache = new Map<string, PromptTemplate>();
+
+export type PromptTemplateInput = Pick<
+  PromptTemplate,
+  'name' | 'purpose' | 'systemPrompt' | 'userPrompt' | 'variables' | 'notes'
+> & {
+  // Omit to start a new template; pass an existing key to add a version to it
+  templateKey?: string;
+};
+
+interface PromptTemplateRow {
+  id: string;
+  template_key: string;
+  name: string;
+  purpose: string;
+  version: number;
+  system_prompt: string;
+  user_prompt: string;
+  variables: Json;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+function fromRow(row: PromptTemplateRow): PromptTemplate {
+  const variables = row.variables && typeof row.variables === 'object' && !Array.isArray(row.variables)
+    ? Object.fromEntries(Object.entries(row.variables).map(([key, value]) => [key, String(value ?? '')]))
+    : {};
+  return {
+    id: row.id,
+    templateKey: row.template_key,
+    name: row.name,
+    purpose: row.purpose as PromptPurpose,
+    version: row.version,
+    systemPrompt: row.system_prompt,
+    userPrompt: row.user_prompt,
+    variables,
+    notes: row.notes,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    builtIn: false
+  };
+}
+
+function newTemplateKey(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'template';
+  return `${slug}-${Date.now().toString(36)}`;
+}
+
+/**
+ * Built-in and stored templates for a purpose, newest version of each template first
+ */
+export async function loadPromptTemplates(purpose?: PromptPurpose): Promise<PromptTemplate[]> {
+  const builtIns = BUILT_IN_PROMPT_TEMPLATES.filter(t => !purpose || t.purpose === purpose);
+
+  try {
+    let query = supabase
+      .from('prompt_templates')
+      .select('*')
+      .order('name')
+      .order('version', { ascending: false });
+    if (purpose) {
+      query = query.eq('purpose', purpose);
+    }
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error loading prompt templates:', error);
+      return builtIns;
+    }
+
+    const stored = (data || []).map(fromRow);
+    stored.forEach(template => templateCache.set(template.id, template));
+    return [...builtIns, ...stored];
+  } catch (error) {
+    console.error('Error loading prompt templates:', error);
+    return builtIns;
+  }
+}
+
+/**
+ * Look up one template version by id, built-in or stored
+ */
+export async function getPromptTemplate(id: string): Promise<PromptTemplate | null> {
+  const builtIn = BUILT_IN_PROMPT_TEMPLATES.find(t => t.id === id);
+  if (builtIn) return builtIn;
+  const cached = templateCache.get(id);
+  if (cached) return cached;
+
+  try {
+    const { data, error } = await supabase
+      .from('prompt_templates')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading prompt template:', error);
+      return null;
+    }
+    if (!data) return null;
+
+    const template = fromRow(data);
+    templateCache.set(template.id, template);
+    return template;
+  } catch (error) {
+    console.error('Error loading prompt template:', error);
+    return null;
+  }
+}
+
+/**
+ * Save a template as a new version; existing versions are never modified
+ */
+export async function savePromptTemplateVersion(
+  input: PromptTemplateInput,
+  createdBy?: string
+): Promise<{ success: boolean; error?: string; template?: PromptTemplate }> {
+  const validationError = validatePromptTemplate(input);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+
+  try {
+    const templateKey = input.templateKey || newTemplateKey(input.name);
+    const { data: latest, error: versionError } = await supabase
+      .from('prompt_templates')
+      .select('version')
+      .eq('template_key', templateKey)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (versionError) {
+      console.error('Error saving prompt template:', versionError);
+      return { success: false, error: versionError.message };
+    }
+
+    const { data, error } = await supabase
+      .from('prompt_templates')
+      .insert([{
+        template_key: templateKey,
+        name: input.name.trim(),
+        purpose: input.purpose,
+        version: (latest?.version || 0) + 1,
+        system_prompt: input.systemPrompt,
+        user_prompt: input.userPrompt,
+        variables: input.variables,
+        notes: input.notes?.trim() || null,
+        created_by: createdBy?.trim() || null
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error saving prompt template:', error);
+      return { success: false, error: error.message };
+    }
+
+    const template = fromRow(data);
+    templateCache.set(template.id, template);
+    return { success: true, template };
+  } catch (error) {
+    console.error('Error saving prompt template:', error);
+    return { success: false, error: 'Failed to save prompt template' };
+  }
+}
+
+/**
+ * Template version used when a job or call does not choose one
+ */
+export function getDefaultPromptTemplateId(purpose: PromptPurpose): string {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PROMPT_DEFAULTS_KEY) || '{}');
+    if (typeof stored[purpose] === 'string') {
+      return stored[purpose];
+    }
+  } catch (error) {
+    console.warn('Invalid prompt template defaults, using built-in templates:', error);
+  }
+  return getBuiltInPromptTemplate(purpose).id;
+}
+
+export function setDefaultPromptTemplateId(purpose: PromptPurpose, id: string): void {
+  let stored: Record<string, string> = {};
+  try {
+    stored = JSON.parse(localStorage.getItem(PROMPT_DEFAULTS_KEY) || '{}');
+  } catch {
+    stored = {};
+  }
+  localStorage.setItem(PROMPT_DEFAULTS_KEY, JSON.stringify({ ...stored, [purpose]: id }));
+}
+
+/**
+ * The template to use for a call: the chosen version, else the default for the
+ * purpose. Unknown or mismatched ids fall back to the built-in template.
+ */
+export async function resolvePromptTemplate(purpose: PromptPurpose, templateId?: string): Promise<PromptTemplate> {
+  const id = templateId || getDefaultPromptTemplateId(purpose);
+  const template = await getPromptTemplate(id);
+  if (template && template.purpose === purpose) {
+    return template;
+  }
+  console.warn(`[PROMPT TEMPLATES] Template ${id} is not a ${purpose} template, using the built-in one`);
+  return getBuiltInPromptTemplate(purpose);
+}
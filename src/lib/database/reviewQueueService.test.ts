@@ -0,0 +1,196 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: { from: vi.fn() } }));
+vi.mock('./payeeOverrideService', () => ({ savePayeeOverride: vi.fn(async () => ({ success: true })) }));
+
+import { supabase } from '@/integrations/supabase/client';
+import { savePayeeOverride } from './payeeOverrideService';
+import { applyReviewToResult, ClassificationReview, enqueueLowConfidenceForReview, submitReviewDecision } from './reviewQueueService';
+
+type Call = [table: string, method: string, args: unknown[]];
+
+// A chainable stand-in for one supabase query that records every call and resolves to the given response
+function stubQuery(table: string, calls: Call[], response: { data?: unknown; error?: unknown }) {
+  const query: Record<string, unknown> = {};
+  for (const method of ['select', 'eq', 'neq', 'or', 'order', 'range', 'upsert', 'update']) {
+    query[method] = (...args: unknown[]) => {
+      calls.push([table, method, args]);
+      return query;
+    };
+  }
+  query.then = (resolve: (value: unknown) => unknown) => resolve({ data: null, error: null, ...response });
+  return query;
+}
+
+const pendingReview: ClassificationReview = {
+  id: 'review-1',
+  classification_id: 'classification-1',
+  batch_id: 'batch_a',
+  payee_name: 'JOHN SMITH',
+  status: 'pending',
+  original_classification: 'Business',
+  original_entity_type: 'Business',
+  original_confidence: 70,
+  original_sic_code: '1711',
+  original_sic_description: 'Plumbing',
+  reviewed_classification: null,
+  reviewed_entity_type: null,
+  reviewed_sic_code: null,
+  reviewed_sic_description: null,
+  reviewer: null,
+  review_reason: null,
+  reviewed_at: null,
+  created_at: '2026-10-19T00:00:00Z',
+  updated_at: '2026-10-19T00:00:00Z'
+};
+
+beforeEach(() => {
+  vi.mocked(supabase.from).mockReset();
+  vi.mocked(savePayeeOverride).mockClear();
+});
+
+describe('enqueueLowConfidenceForReview', () => {
+  it('queues every page of low-confidence rows below the export review threshold', async () => {
+    const calls: Call[] = [];
+    const pages = [
+      Array.from({ length: 1000 }, (_, i) => ({ id: `c-${i}`, payee_name: `PAYEE ${i}`, classification: 'Business', entity_type: null, confidence: 60, sic_code: null, sic_description: null })),
+      [{ id: 'c-1000', payee_name: 'LAST PAYEE', classification: 'Individual', entity_type: 'Individual', confidence: 80, sic_code: null, sic_description: null }]
+    ];
+    vi.mocked(supabase.from).mockImplementation(((table: string) => stubQuery(
+      table,
+      calls,
+      table === 'payee_classifications' ? { data: pages.shift() } : {}
+    )) as unknown as typeof supabase.from);
+
+    expect(await enqueueLowConfidenceForReview('batch_a')).toBe(1001);
+
+    const lookups = calls.filter(([table]) => table === 'payee_classifications');
+    expect(lookups.filter(([, method]) => method === 'or').map(([, , args]) => args[0]))
+      .toEqual(['confidence.lt.85,ensemble_flagged.eq.true', 'confidence.lt.85,ensemble_flagged.eq.true']);
+    expect(lookups.filter(([, method]) => method === 'range').map(([, , args]) => args)).toEqual([[0, 999], [1000, 1999]]);
+
+    const upserts = calls.filter(([, method]) => method === 'upsert');
+    expect(upserts).toHaveLength(2);
+    expect(upserts[1][2]).toEqual([
+      [{
+        classification_id: 'c-1000',
+        batch_id: 'batch_a',
+        payee_name: 'LAST PAYEE',
+        original_classification: 'Individual',
+        original_entity_type: 'Individual',
+        original_confidence: 80,
+        original_sic_code: null,
+        original_sic_description: null
+      }],
+      { onConflict: 'classification_id', ignoreDuplicates: true }
+    ]);
+  });
+
+  it('queues nothing when the lookup fails', async () => {
+    const calls: Call[] = [];
+    vi.mocked(supabase.from).mockImplementation(((table: string) => stubQuery(table, calls, { error: { message: 'offline' } })) as unknown as typeof supabase.from);
+
+    expect(await enqueueLowConfidenceForReview('batch_a')).toBe(0);
+    expect(calls.some(([, method]) => method === 'upsert')).toBe(false);
+  });
+});
+
+describe('submitReviewDecision', () => {
+  it('requires a reviewer, and a reason for overrides', async () => {
+    expect(await submitReviewDecision(pendingReview, { action: 'accept', reviewer: ' ' }))
+      .toEqual({ success: false, error: 'Reviewer name is required' });
+    expect(await submitReviewDecision(pendingReview, { action: 'override', reviewer: 'Pat', entityType: 'Individual' }))
+      .toEqual({ success: false, error: 'A reason is required when overriding a classification' });
+    expect(supabase.from).not.toHaveBeenCalled();
+  });
+
+  it('accepts the original answer at full confidence without storing an override', async () => {
+    const calls: Call[] = [];
+    vi.mocked(supabase.from).mockImplementation(((table: string) => stubQuery(table, calls, {})) as unknown as typeof supabase.from);
+
+    expect(await submitReviewDecision(pendingReview, { action: 'accept', reviewer: ' Pat ' })).toEqual({ success: true });
+
+    const [review, classification] = calls.filter(([, method]) => method === 'update');
+    expect(review[2][0]).toMatchObject({
+      status: 'accepted',
+      reviewed_classification: 'Business',
+      reviewed_entity_type: 'Business',
+      reviewed_sic_code: '1711',
+      reviewer: 'Pat',
+      review_reason: null
+    });
+    expect(classification).toEqual(['payee_classifications', 'update', [{
+      classification: 'Business',
+      entity_type: 'Business',
+      sic_code: '1711',
+      sic_description: 'Plumbing',
+      confidence: 100,
+      processing_method: 'Human review by Pat'
+    }]]);
+    expect(savePayeeOverride).not.toHaveBeenCalled();
+  });
+
+  it('writes an override back, drops SIC codes from individuals and remembers the correction', async () => {
+    const calls: Call[] = [];
+    vi.mocked(supabase.from).mockImplementation(((table: string) => stubQuery(table, calls, {})) as unknown as typeof supabase.from);
+
+    expect(await submitReviewDecision(pendingReview, {
+      action: 'override',
+      reviewer: 'Pat',
+      reason: 'Known contractor',
+      entityType: 'Individual',
+      sicCode: '1711'
+    })).toEqual({ success: true });
+
+    const [review] = calls.filter(([, method]) => method === 'update');
+    expect(review[2][0]).toMatchObject({
+      status: 'overridden',
+      reviewed_classification: 'Individual',
+      reviewed_entity_type: 'Individual',
+      reviewed_sic_code: null,
+      review_reason: 'Known contractor'
+    });
+    expect(savePayeeOverride).toHaveBeenCalledWith({
+      payeeName: 'JOHN SMITH',
+      entityType: 'Individual',
+      sicCode: '1711',
+      sicDescription: null,
+      reason: 'Known contractor',
+      createdBy: 'Pat',
+      sourceReviewId: 'review-1'
+    });
+  });
+
+  it('reports a failed save', async () => {
+    vi.mocked(supabase.from).mockImplementation(((table: string) => stubQuery(table, [], { error: { message: 'denied' } })) as unknown as typeof supabase.from);
+
+    expect(await submitReviewDecision(pendingReview, { action: 'accept', reviewer: 'Pat' })).toEqual({ success: false, error: 'denied' });
+  });
+});
+
+describe('applyReviewToResult', () => {
+  it('leaves results without a completed review alone', () => {
+    const result = { classification: 'Business', confidence: 70 };
+    expect(applyReviewToResult(result, undefined)).toBe(result);
+    expect(applyReviewToResult(result, pendingReview)).toBe(result);
+  });
+
+  it('overlays the reviewed answer', () => {
+    expect(applyReviewToResult({ classification: 'Business', confidence: 70, sicCode: '1711' }, {
+      ...pendingReview,
+      status: 'overridden',
+      reviewed_classification: 'Individual',
+      reviewed_entity_type: 'Individual',
+      reviewer: 'Pat',
+      review_reason: 'Known contractor',
+      reviewed_at: '2026-10-19T12:00:00Z'
+    })).toEqual({
+      classification: 'Individual',
+      entityType: 'Individual',
+      confidence: 100,
+      sicCode: undefined,
+      sicDescription: undefined,
+      review: { status: 'overridden', reviewer: 'Pat', reviewedAt: '2026-10-19T12:00:00Z', reason: 'Known contractor' }
+    });
+  });
+});
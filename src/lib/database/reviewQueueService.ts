@@ -0,0 +1,286 @@
+import { supabase } from "@/integrations/supabase/client";
+import { ClassificationResult, ClassificationReviewInfo, EntityType } from "@/lib/types";
+import { CONFIDENCE_THRESHOLDS } from "@/lib/classification/finalClassification";
+import { normalizeEntityType, toBinaryClassification } from "@/lib/classification/entityTaxonomy";
+import { savePayeeOverride } from "./payeeOverrideService";
+
+// PostgREST caps each response, so rows are read a page at a time
+const PAGE_SIZE = 1000;
+
+export type ReviewStatus = 'pending' | 'accepted' | 'overridden';
+
+export interface ClassificationReview {
+  id: string;
+  classification_id: string;
+  batch_id: string | null;
+  payee_name: string;
+  status: ReviewStatus;
+  original_classification: string;
+  original_entity_type: string | null;
+  original_confidence: number;
+  original_sic_code: string | null;
+  original_sic_description: string | null;
+  reviewed_classification: string | null;
+  reviewed_entity_type: string | null;
+  reviewed_sic_code: string | null;
+  reviewed_sic_description: string | null;
+  reviewer: string | null;
+  review_reason: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ReviewDecision {
+  action: 'accept' | 'override';
+  reviewer: string;
+  reason?: string;
+  entityType?: EntityType;
+  sicCode?: string;
+  sicDescription?: string;
+}
+
+/**
+ * Queue every classification in a batch whose confidence is below the review threshold
+ * or whose ensemble vote was flagged for high disagreement. The default threshold is the
+ * one the export's requires_review column uses, so every row flagged there is queued.
+ * Rows already in the queue are left untouched so earlier decisions survive re-saves.
+ */
+export async function enqueueLowConfidenceForReview(
+  batchId: string,
+  threshold: number = CONFIDENCE_THRESHOLDS.MEDIUM_CONFIDENCE
+): Promise<number> {
+  let queued = 0;
+  try {
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('payee_classifications')
+        .select('id, payee_name, classification, entity_type, confidence, sic_code, sic_description')
+        .eq('batch_id', batchId)
+        .or(`confidence.lt.${threshold},ensemble_flagged.eq.true`)
+        .order('id')
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('Error loading low-confidence classifications:', error);
+        return queued;
+      }
+
+      if (data && data.length > 0) {
+        const { error: insertError } = await supabase
+          .from('classification_reviews')
+          .upsert(
+            data.map(row => ({
+              classification_id: row.id,
+              batch_id: batchId,
+              payee_name: row.payee_name,
+              original_classification: row.classification,
+              original_entity_type: row.entity_type,
+              original_confidence: row.confidence,
+              original_sic_code: row.sic_code,
+              original_sic_description: row.sic_description
+            })),
+            { onConflict: 'classification_id', ignoreDuplicates: true }
+          );
+
+        if (insertError) {
+          console.error('Error queueing classifications for review:', insertError);
+          return queued;
+        }
+        queued += data.length;
+      }
+
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    if (queued > 0) {
+      console.log(`[REVIEW QUEUE] Queued ${queued} low-confidence or disputed classifications from batch ${batchId}`);
+    }
+    return queued;
+  } catch (error) {
+    console.error('Error queueing classifications for review:', error);
+    return queued;
+  }
+}
+
+/**
+ * Load review queue entries, newest first
+ */
+export async function loadReviewQueue(status: ReviewStatus | 'all' = 'pending'): Promise<ClassificationReview[]> {
+  try {
+    const reviews: ClassificationReview[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let query = supabase
+        .from('classification_reviews')
+        .select('*');
+
+      if (status !== 'all') {
+        query = query.eq('status', status);
+      }
+
+      const { data, error } = await query
+        .order('created_at', { ascending: false })
+        .order('id')
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('Error loading review queue:', error);
+        return [];
+      }
+
+      reviews.push(...((data || []) as ClassificationReview[]));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return reviews;
+  } catch (error) {
+    console.error('Error loading review queue:', error);
+    return [];
+  }
+}
+
+/**
+ * Load completed reviews for a batch, keyed by classification id
+ */
+export async function loadReviewsForBatch(batchId: string): Promise<Map<string, ClassificationReview>> {
+  const reviews = new Map<string, ClassificationReview>();
+  try {
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('classification_reviews')
+        .select('*')
+        .eq('batch_id', batchId)
+        .neq('status', 'pending')
+        .order('id')
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('Error loading reviews for batch:', error);
+        return reviews;
+      }
+
+      for (const review of (data || []) as ClassificationReview[]) {
+        reviews.set(review.classification_id, review);
+      }
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+    return reviews;
+  } catch (error) {
+    console.error('Error loading reviews for batch:', error);
+    return reviews;
+  }
+}
+
+/**
+ * Record a reviewer's decision and write the reviewed values back to the classification.
+ * Overrides are also stored in the payee override memory.
+ */
+export async function submitReviewDecision(
+  review: ClassificationReview,
+  decision: ReviewDecision
+): Promise<{ success: boolean; error?: string }> {
+  if (!decision.reviewer.trim()) {
+    return { success: false, error: 'Reviewer name is required' };
+  }
+  if (decision.action === 'override' && !decision.reason?.trim()) {
+    return { success: false, error: 'A reason is required when overriding a classification' };
+  }
+
+  const entityType = decision.action === 'override' && decision.entityType
+    ? decision.entityType
+    : normalizeEntityType(review.original_entity_type, review.original_classification);
+  const classification = toBinaryClassification(entityType);
+  const isBusiness = classification === 'Business';
+  const sicCode = decision.action === 'override' ? decision.sicCode?.trim() || null : review.original_sic_code;
+  const sicDescription = decision.action === 'override' ? decision.sicDescription?.trim() || null : review.original_sic_description;
+  const reviewedAt = new Date().toISOString();
+
+  try {
+    const { error } = await supabase
+      .from('classification_reviews')
+      .update({
+        status: decision.action === 'accept' ? 'accepted' : 'overridden',
+        reviewed_classification: classification,
+        reviewed_entity_type: entityType,
+        reviewed_sic_code: isBusiness ? sicCode : null,
+        reviewed_sic_description: isBusiness ? sicDescription : null,
+        reviewer: decision.reviewer.trim(),
+        review_reason: decision.reason?.trim() || null,
+        reviewed_at: reviewedAt
+      })
+      .eq('id', review.id);
+
+    if (error) {
+      console.error('Error saving review decision:', error);
+      return { success: false, error: error.message };
+    }
+
+    const { error: classificationError } = await supabase
+      .from('payee_classifications')
+      .update({
+        classification,
+        entity_type: entityType,
+        sic_code: isBusiness ? sicCode : null,
+        sic_description: isBusiness ? sicDescription : null,
+        confidence: 100,
+        processing_method: `Human review by ${decision.reviewer.trim()}`
+      })
+      .eq('id', review.classification_id);
+
+    if (classificationError) {
+      console.error('Error applying review to classification:', classificationError);
+      return { success: false, error: classificationError.message };
+    }
+
+    // Remember corrections so the same payee is never sent to AI again
+    if (decision.action === 'override') {
+      const overrideResult = await savePayeeOverride({
+        payeeName: review.payee_name,
+        entityType,
+        sicCode,
+        sicDescription,
+        reason: decision.reason,
+        createdBy: decision.reviewer.trim(),
+        sourceReviewId: review.id
+      });
+      if (!overrideResult.success) {
+        return overrideResult;
+      }
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error saving review decision:', error);
+    return { success: false, error: 'Failed to save review decision' };
+  }
+}
+
+/**
+ * Overlay a completed review onto a classification result
+ */
+export function applyReviewToResult<T extends Pick<ClassificationResult, 'review'> & { classification: string }>(
+  result: T,
+  review: ClassificationReview | undefined
+): T {
+  if (!review || review.status === 'pending') {
+    return result;
+  }
+
+  const entityType = normalizeEntityType(review.reviewed_entity_type, review.reviewed_classification);
+  const reviewInfo: ClassificationReviewInfo = {
+    status: review.status,
+    reviewer: review.reviewer || '',
+    reviewedAt: review.reviewed_at || '',
+    reason: review.review_reason || ''
+  };
+  return {
+    ...result,
+    classification: toBinaryClassification(entityType),
+    entityType,
+    confidence: 100,
+    sicCode: review.reviewed_sic_code || undefined,
+    sicDescription: review.reviewed_sic_description || undefined,
+    review: reviewInfo
+  };
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: { from: vi.fn() } }));
+
+import { supabase } from '@/integrations/supabase/client';
+import { getMonthlyBudget, loadSpendLedger, saveMonthlyBudget, SpendLedgerEntry, summarizeSpend } from './spendLedgerService';
+
+// A chainable stand-in for one ledger query that records its range and resolves to the given response
+function stubQuery(ranges: unknown[][], response: { data?: unknown; error?: unknown }) {
+  const query: Record<string, unknown> = {
+    select: () => query,
+    order: () => query,
+    range: (...args: unknown[]) => {
+      ranges.push(args);
+      return query;
+    },
+    then: (resolve: (value: unknown) => unknown) => resolve({ data: null, error: null, ...response })
+  };
+  return query;
+}
+
+const ledgerRow = (id: string): SpendLedgerEntry => ({
+  id, batch_id: 'batch_a', job_name: null, model: 'gpt-4.1-mini', request_count: 1, payee_count: 1,
+  prompt_tokens: 300, completion_tokens: 80, total_tokens: 380, cost_usd: 0.01, incurred_at: '2026-01-15T10:00:00.000Z'
+});
+
+describe('loadSpendLedger', () => {
+  it('reads every page of the ledger', async () => {
+    const ranges: unknown[][] = [];
+    const pages = [Array.from({ length: 1000 }, (_, i) => ledgerRow(`row-${i}`)), [ledgerRow('row-1000')]];
+    vi.mocked(supabase.from).mockImplementation((() => stubQuery(ranges, { data: pages.shift() })) as unknown as typeof supabase.from);
+
+    const ledger = await loadSpendLedger();
+
+    expect(ranges).toEqual([[0, 999], [1000, 1999]]);
+    expect(ledger).toHaveLength(1001);
+    expect(ledger[1000].id).toBe('row-1000');
+  });
+
+  it('returns nothing when a page fails', async () => {
+    const responses = [{ data: Array.from({ length: 1000 }, (_, i) => ledgerRow(`row-${i}`)) }, { error: { message: 'offline' } }];
+    vi.mocked(supabase.from).mockImplementation((() => stubQuery([], responses.shift()!)) as unknown as typeof supabase.from);
+
+    expect(await loadSpendLedger()).toEqual([]);
+  });
+});
+
+describe('summarizeSpend', () => {
+  it('breaks spend down by month, model and job', () => {
+    const summary = summarizeSpend([
+      { id: '1', batch_id: 'batch_a', job_name: 'January vendors', model: 'gpt-4.1-mini', request_count: 100, payee_count: 100,
+        prompt_tokens: 30000, completion_tokens: 8000, total_tokens: 38000, cost_usd: 3, incurred_at: '2026-01-15T10:00:00.000Z' },
+      { id: '2', batch_id: 'batch_a', job_name: 'January vendors', model: 'gpt-4o', request_count: 20, payee_count: 100,
+        prompt_tokens: 6000, completion_tokens: 1600, total_tokens: 7600, cost_usd: 2, incurred_at: '2026-01-15T10:00:00.000Z' },
+      { id: '3', batch_id: 'batch_b', job_name: null, model: 'gpt-4.1-mini', request_count: 100, payee_count: 50,
+        prompt_tokens: 30000, completion_tokens: 8000, total_tokens: 38000, cost_usd: 1, incurred_at: '2026-02-01T00:00:00.000Z' }
+    ]);
+
+    expect(summary.total).toEqual({
+      key: 'total',
+      label: 'All jobs',
+      requestCount: 220,
+      payeeCount: 150,
+      totalTokens: 83600,
+      costUsd: 6,
+      hasUnpricedUsage: false,
+      costPerPayee: 0.04
+    });
+    expect(summary.byMonth.map(month => [month.key, month.costUsd, month.payeeCount])).toEqual([
+      ['2026-02', 1, 50],
+      ['2026-01', 5, 100]
+    ]);
+    expect(summary.byModel.map(model => [model.key, model.costUsd])).toEqual([['gpt-4.1-mini', 4], ['gpt-4o', 2]]);
+    expect(summary.byJob.map(job => [job.label, job.requestCount])).toEqual([['batch_b', 100], ['January vendors', 120]]);
+  });
+
+  it('counts a job\'s payees once across its model rows', () => {
+    const summary = summarizeSpend([
+      { id: '1', batch_id: 'batch_a', job_name: null, model: 'gpt-4.1-mini', request_count: 90, payee_count: 200,
+        prompt_tokens: 0, completion_tokens: 0, total_tokens: 0, cost_usd: 1, incurred_at: '2026-03-01T00:00:00.000Z' },
+      { id: '2', batch_id: 'batch_a', job_name: null, model: 'gpt-4o', request_count: 10, payee_count: 180,
+        prompt_tokens: 0, completion_tokens: 0, total_tokens: 0, cost_usd: 1, incurred_at: '2026-03-01T00:00:00.000Z' }
+    ]);
+
+    expect(summary.total.payeeCount).toBe(200);
+    expect(summary.total.costPerPayee).toBe(0.01);
+    expect(summary.byModel.map(model => model.payeeCount)).toEqual([200, 180]);
+  });
+
+  it('flags groups that include unpriced usage', () => {
+    const summary = summarizeSpend([
+      { id: '1', batch_id: 'batch_a', job_name: null, model: 'custom-model', request_count: 10, payee_count: 10,
+        prompt_tokens: 3000, completion_tokens: 800, total_tokens: 3800, cost_usd: null, incurred_at: '2026-01-15T10:00:00.000Z' },
+      { id: '2', batch_id: 'batch_b', job_name: null, model: 'gpt-4.1-mini', request_count: 10, payee_count: 10,
+        prompt_tokens: 3000, completion_tokens: 800, total_tokens: 3800, cost_usd: 0.5, incurred_at: '2026-01-20T10:00:00.000Z' }
+    ]);
+
+    expect(summary.total).toMatchObject({ costUsd: 0.5, hasUnpricedUsage: true });
+    expect(summary.byModel.map(model => [model.key, model.hasUnpricedUsage])).toEqual([['gpt-4.1-mini', false], ['custom-model', true]]);
+  });
+
+  it('returns an empty total when nothing was spent', () => {
+    expect(summarizeSpend([])).toEqual({
+      total: {
+        key: 'total',
+        label: 'All jobs',
+        requestCount: 0,
+        payeeCount: 0,
+        totalTokens: 0,
+        costUsd: 0,
+        hasUnpricedUsage: false,
+        costPerPayee: null
+      },
+      byMonth: [],
+      byModel: [],
+      byJob: []
+    });
+  });
+});
+
+describe('monthly budget', () => {
+  it('stores positive budgets and clears anything else', () => {
+    saveMonthlyBudget(250);
+    expect(getMonthlyBudget()).toBe(250);
+    saveMonthlyBudget(0);
+    expect(getMonthlyBudget()).toBeNull();
+    saveMonthlyBudget(-10);
+    expect(getMonthlyBudget()).toBeNull();
+  });
+});
@@ -0,0 +1,202 @@
+import { supabase } from "@/integrations/supabase/client";
+import { TokenUsage } from "@/lib/types";
+
+const MONTHLY_BUDGET_KEY = 'ai_monthly_budget_usd';
+// PostgREST caps each response, so the ledger is read a page at a time
+const PAGE_SIZE = 1000;
+
+export interface SpendLedgerEntry {
+  id: string;
+  batch_id: string;
+  job_name: string | null;
+  model: string;
+  request_count: number;
+  payee_count: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  cost_usd: number | null;
+  incurred_at: string;
+}
+
+/**
+ * Spend rolled up over one month, model or job
+ */
+export interface SpendBreakdown {
+  key: string;
+  label: string;
+  requestCount: number;
+  payeeCount: number;
+  totalTokens: number;
+  costUsd: number;
+  // Some rows used a model without known pricing, so costUsd is a lower bound
+  hasUnpricedUsage: boolean;
+  costPerPayee: number | null;
+}
+
+export interface SpendSummary {
+  total: SpendBreakdown;
+  byMonth: SpendBreakdown[];
+  byModel: SpendBreakdown[];
+  byJob: SpendBreakdown[];
+}
+
+function emptyBreakdown(key: string, label: string): SpendBreakdown {
+  return {
+    key,
+    label,
+    requestCount: 0,
+    payeeCount: 0,
+    totalTokens: 0,
+    costUsd: 0,
+    hasUnpricedUsage: false,
+    costPerPayee: null
+  };
+}
+
+/**
+ * Roll entries up under one key. A job split across models has a row per model with the
+ * same payee count, so payees are counted once per job within each group.
+ */
+function groupSpend(
+  entries: SpendLedgerEntry[],
+  keyOf: (entry: SpendLedgerEntry) => string,
+  labelOf: (entry: SpendLedgerEntry) => string
+): SpendBreakdown[] {
+  const groups = new Map<string, { breakdown: SpendBreakdown; payeesByJob: Map<string, number> }>();
+
+  for (const entry of entries) {
+    const key = keyOf(entry);
+    let group = groups.get(key);
+    if (!group) {
+      group = { breakdown: emptyBreakdown(key, labelOf(entry)), payeesByJob: new Map() };
+      groups.set(key, group);
+    }
+    const { breakdown, payeesByJob } = group;
+    breakdown.requestCount += entry.request_count;
+    breakdown.totalTokens += entry.total_tokens;
+    if (entry.cost_usd === null) {
+      breakdown.hasUnpricedUsage = true;
+    } else {
+      breakdown.costUsd += Number(entry.cost_usd);
+    }
+    payeesByJob.set(entry.batch_id, Math.max(payeesByJob.get(entry.batch_id) || 0, entry.payee_count));
+  }
+
+  return Array.from(groups.values()).map(({ breakdown, payeesByJob }) => {
+    const payeeCount = Array.from(payeesByJob.values()).reduce((sum, count) => sum + count, 0);
+    return {
+      ...breakdown,
+      payeeCount,
+      costPerPayee: payeeCount > 0 ? breakdown.costUsd / payeeCount : null
+    };
+  });
+}
+
+/**
+ * Totals plus per-month, per-model and per-job breakdowns, most expensive or most recent first
+ */
+export function summarizeSpend(entries: SpendLedgerEntry[]): SpendSummary {
+  const [total] = groupSpend(entries, () => 'total', () => 'All jobs');
+  const newestFirst = [...entries].sort((a, b) => b.incurred_at.localeCompare(a.incurred_at));
+
+  return {
+    total: total || emptyBreakdown('total', 'All jobs'),
+    byMonth: groupSpend(entries, e => e.incurred_at.slice(0, 7), e => e.incurred_at.slice(0, 7))
+      .sort((a, b) => b.key.localeCompare(a.key)),
+    byModel: groupSpend(entries, e => e.model, e => e.model)
+      .sort((a, b) => b.costUsd - a.costUsd),
+    byJob: groupSpend(newestFirst, e => e.batch_id, e => e.job_name || e.batch_id)
+  };
+}
+
+/**
+ * Record the tokens a finished batch job was billed for, one ledger row per model.
+ * Re-downloading the same job's results overwrites its rows instead of double counting.
+ */
+export async function recordBatchUsage(
+  batchId: string,
+  jobName: string | undefined,
+  payeeCount: number,
+  incurredAt: Date,
+  usageByModel: Map<string, { requestCount: number; usage: TokenUsage }>
+): Promise<{ success: boolean; error?: string }> {
+  const rows = Array.from(usageByModel.entries()).map(([model, { requestCount, usage }]) => ({
+    batch_id: batchId,
+    job_name: jobName || null,
+    model,
+    request_count: requestCount,
+    payee_count: payeeCount,
+    prompt_tokens: usage.promptTokens,
+    completion_tokens: usage.completionTokens,
+    total_tokens: usage.totalTokens,
+    cost_usd: usage.costUsd,
+    incurred_at: incurredAt.toISOString()
+  }));
+  if (rows.length === 0) {
+    return { success: true };
+  }
+
+  try {
+    const { error } = await supabase
+      .from('ai_spend_ledger')
+      .upsert(rows, { onConflict: 'batch_id,model' });
+
+    if (error) {
+      console.error('[SPEND LEDGER] Error recording batch usage:', error);
+      return { success: false, error: error.message };
+    }
+
+    console.log(`[SPEND LEDGER] Recorded ${rows.length} usage rows for batch ${batchId}`);
+    return { success: true };
+  } catch (error) {
+    console.error('[SPEND LEDGER] Exception recording batch usage:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Every ledger row, newest first. A failed page returns nothing rather than a partial total.
+ */
+export async function loadSpendLedger(): Promise<SpendLedgerEntry[]> {
+  try {
+    const entries: SpendLedgerEntry[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('ai_spend_ledger')
+        .select('*')
+        .order('incurred_at', { ascending: false })
+        .order('id')
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('[SPEND LEDGER] Error loading ledger:', error);
+        return [];
+      }
+
+      entries.push(...((data || []) as SpendLedgerEntry[]));
+      if (!data || data.length < PAGE_SIZE) {
+        return entries;
+      }
+    }
+  } catch (error) {
+    console.error('[SPEND LEDGER] Exception loading ledger:', error);
+    return [];
+  }
+}
+
+/**
+ * Monthly AI budget in USD, or null when none is set
+ */
+export function getMonthlyBudget(): number | null {
+  const stored = Number(localStorage.getItem(MONTHLY_BUDGET_KEY));
+  return Number.isFinite(stored) && stored > 0 ? stored : null;
+}
+
+export function saveMonthlyBudget(budget: number | null): void {
+  if (budget && budget > 0) {
+    localStorage.setItem(MONTHLY_BUDGET_KEY, String(budget));
+  } else {
+    localStorage.removeItem(MONTHLY_BUDGET_KEY);
+  }
+}
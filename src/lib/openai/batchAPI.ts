@@ -1,6 +1,9 @@
 
 import { getOpenAIClient } from './client';
-import { CLASSIFICATION_MODEL } from './config';
+import { getActiveModel, getBatchEndpoint, getRequestModel } from './providers';
+import { CLASSIFICATION_RESPONSE_FORMAT, parseClassificationResponse } from './responseSchemas';
+import { encodePromptValue, screenPayeeName } from './promptSafety';
+import { ClassificationResult } from '../types';
 
 export interface BatchJobRequest {
   custom_id: string;
@@ -14,6 +17,7 @@ export interface BatchJobRequest {
     }>;
     temperature: number;
     max_tokens: number;
+    response_format: typeof CLASSIFICATION_RESPONSE_FORMAT;
   };
 }
 
@@ -31,6 +35,8 @@ export interface BatchClassificationResult {
   error?: string;
   sicCode?: string;
   sicDescription?: string;
+  // Set when the result did not come from the model, e.g. 'Suspicious Input'
+  processingTier?: ClassificationResult['processingTier'];
 }
 
 /**
@@ -40,9 +46,9 @@ function createBatchRequests(payeeNames: string[]): BatchJobRequest[] {
   return payeeNames.map((name, index) => ({
     custom_id: `payee-${index}-${Date.now()}`,
     method: 'POST',
-    url: '/v1/chat/completions',
+    url: getBatchEndpoint(),
     body: {
-      model: CLASSIFICATION_MODEL,
+      model: getRequestModel(getActiveModel()),
       messages: [
         {
           role: 'system',
@@ -61,11 +67,12 @@ Example: {"classification": "Business", "confidence": 95, "reasoning": "Contains
         },
         {
           role: 'user',
-          content: `Classify this payee name and assign SIC code if it's a business: "${name}"`
+          content: `Classify this payee name and assign SIC code if it's a business: "${encodePromptValue(name)}"`
         }
       ],
       temperature: 0.1,
-      max_tokens: 300
+      max_tokens: 300,
+      response_format: CLASSIFICATION_RESPONSE_FORMAT
     }
   }));
 }
@@ -81,14 +88,27 @@ async function processWithChatCompletions(
   const results: BatchClassificationResult[] = [];
   const batchSize = 10;
   
-  console.log(`[BATCH API] Processing ${payeeNames.length} names with SIC codes using model: ${CLASSIFICATION_MODEL}`);
+  console.log(`[BATCH API] Processing ${payeeNames.length} names with SIC codes using model: ${getActiveModel()}`);
   
   for (let i = 0; i < payeeNames.length; i += batchSize) {
     const batch = payeeNames.slice(i, i + batchSize);
     const batchPromises = batch.map(async (name, index) => {
+      const screened = screenPayeeName(name);
+      if (screened) {
+        console.warn(`[BATCH API] Not sending "${name}" to AI: name looks like prompt injection`);
+        return {
+          payeeName: name,
+          classification: screened.classification,
+          confidence: screened.confidence,
+          reasoning: screened.reasoning,
+          status: 'success' as const,
+          processingTier: screened.processingTier
+        };
+      }
+
       try {
         const response = await client.chat.completions.create({
-          model: CLASSIFICATION_MODEL,
+          model: getRequestModel(getActiveModel()),
           messages: [
             {
               role: 'system',
@@ -100,30 +120,31 @@ Return ONLY a JSON object with: classification, confidence (0-100), reasoning, s
             },
             {
               role: 'user',
-              content: `Classify this payee name and assign SIC code if it's a business: "${name}"`
+              content: `Classify this payee name and assign SIC code if it's a business: "${encodePromptValue(name)}"`
             }
           ],
           temperature: 0.1,
-          max_tokens: 300
+          max_tokens: 300,
+          response_format: CLASSIFICATION_RESPONSE_FORMAT
         });
 
-        const content = response.choices[0]?.message?.content;
-        if (content) {
-          const parsed = JSON.parse(content);
-          
-          // Debug SIC code assignment
-          console.log(`[BATCH API SIC] "${name}": ${parsed.classification}, SIC: ${parsed.sicCode || 'None'}`);
-          
-          return {
-            payeeName: name,
-            classification: parsed.classification || 'Individual',
-            confidence: parsed.confidence || 50,
-            reasoning: parsed.reasoning || 'Classified via OpenAI with SIC codes',
-            status: 'success' as const,
-            sicCode: parsed.sicCode || undefined,
-            sicDescription: parsed.sicDescription || undefined
-          };
+        const parsed = parseClassificationResponse(response.choices[0]);
+        if (!parsed.success) {
+          throw new Error(`Invalid AI response: ${parsed.error}`);
         }
+        
+        // Debug SIC code assignment
+        console.log(`[BATCH API SIC] "${name}": ${parsed.value.classification}, SIC: ${parsed.value.sicCode || 'None'}`);
+        
+        return {
+          payeeName: name,
+          classification: parsed.value.classification,
+          confidence: parsed.value.confidence,
+          reasoning: parsed.value.reasoning,
+          status: 'success' as const,
+          sicCode: parsed.value.sicCode || undefined,
+          sicDescription: parsed.value.sicDescription || undefined
+        };
       } catch (error) {
         console.error(`[BATCH API] Error processing ${name}:`, error);
         return {
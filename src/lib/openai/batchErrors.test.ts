@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { formatBatchError, getBatchLineFailure } from './batchErrors';
+
+describe('getBatchLineFailure', () => {
+  it('ignores successful responses', () => {
+    expect(getBatchLineFailure({ response: { status_code: 200, body: {} }, error: null })).toBeNull();
+  });
+
+  it('retries capacity and timing failures', () => {
+    expect(getBatchLineFailure({
+      response: { status_code: 429, body: { error: { message: 'Rate limit reached', code: 'rate_limit_exceeded' } } }
+    })).toEqual({ code: 'rate_limit_exceeded', message: 'Rate limit reached', statusCode: 429, retryable: true });
+    expect(getBatchLineFailure({ response: { status_code: 503, body: {} } })?.retryable).toBe(true);
+    expect(getBatchLineFailure({ response: null, error: { code: 'batch_expired', message: 'Expired' } })?.retryable).toBe(true);
+  });
+
+  it('does not retry request and account failures', () => {
+    expect(getBatchLineFailure({
+      response: { status_code: 429, body: { error: { message: 'Quota exceeded', code: 'insufficient_quota' } } }
+    })?.retryable).toBe(false);
+    expect(getBatchLineFailure({
+      response: { status_code: 400, body: { error: { message: 'Bad request', type: 'invalid_request_error', code: null } } }
+    })).toEqual({ code: 'invalid_request_error', message: 'Bad request', statusCode: 400, retryable: false });
+    expect(getBatchLineFailure({ error: { code: 'batch_cancelled', message: 'Cancelled' } })?.retryable).toBe(false);
+  });
+});
+
+describe('formatBatchError', () => {
+  it('prefixes the code when there is one', () => {
+    expect(formatBatchError({ code: 'rate_limit_exceeded', message: 'Rate limit reached' })).toBe('rate_limit_exceeded: Rate limit reached');
+    expect(formatBatchError({ code: null, message: 'Request failed with status 500' })).toBe('Request failed with status 500');
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Failed Batch API requests. Requests that fail are written to the job's error file
+ * instead of its output file, either with an error response from the API or, for
+ * requests the job never ran, with a batch-level error. Failures the API might not
+ * repeat are retryable in a follow-up batch; the rest would fail the same way again.
+ */
+
+export interface BatchRequestFailure {
+  code: string | null;
+  message: string;
+  statusCode?: number;
+  retryable: boolean;
+}
+
+/** The parts of an output or error file line that describe a failure */
+export interface BatchOutputLine {
+  response?: {
+    status_code: number;
+    body?: {
+      error?: { message?: string; type?: string; code?: string | null } | null;
+    };
+  } | null;
+  error?: { code?: string | null; message?: string } | null;
+}
+
+// Capacity and timing problems on the API side
+const RETRYABLE_CODES = new Set(['rate_limit_exceeded', 'server_error', 'timeout', 'batch_expired']);
+
+// Account, request and input problems; checked first because quota errors come back as 429
+const NON_RETRYABLE_CODES = new Set([
+  'insufficient_quota',
+  'billing_hard_limit_reached',
+  'context_length_exceeded',
+  'invalid_api_key',
+  'model_not_found',
+  'invalid_request_error',
+  'batch_cancelled'
+]);
+
+const RETRYABLE_STATUS_CODES = new Set([408, 409, 429]);
+
+export function isRetryableBatchFailure(statusCode: number | undefined, code: string | null): boolean {
+  if (code && NON_RETRYABLE_CODES.has(code)) return false;
+  if (code && RETRYABLE_CODES.has(code)) return true;
+  return statusCode !== undefined && (RETRYABLE_STATUS_CODES.has(statusCode) || statusCode >= 500);
+}
+
+export function formatBatchError(error: { code: string | null; message: string }): string {
+  return error.code ? `${error.code}: ${error.message}` : error.message;
+}
+
+/**
+ * The failure a batch line reports, or null for a successful response
+ */
+export function getBatchLineFailure(line: BatchOutputLine): BatchRequestFailure | null {
+  if (line.error) {
+    const code = line.error.code || null;
+    return {
+      code,
+      message: line.error.message || code || 'Batch request failed',
+      retryable: isRetryableBatchFailure(undefined, code)
+    };
+  }
+
+  const response = line.response;
+  if (!response || response.status_code < 400) return null;
+
+  const error = response.body?.error;
+  const code = error?.code || error?.type || null;
+  return {
+    code,
+    message: error?.message || `Request failed with status ${response.status_code}`,
+    statusCode: response.status_code,
+    retryable: isRetryableBatchFailure(response.status_code, code)
+  };
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { isCleanReconciliation, mappingsFromCustomIds, reconcileBatchOutput } from './batchReconciliation';
+
+const mappings = [
+  { customId: 'payee-0-1', payeeNames: ['ACME LLC'] },
+  { customId: 'payee-1-1', payeeNames: ['JOHN SMITH'] },
+  { customId: 'pack-2_3-1', payeeNames: ['BOB JONES', 'CITY OF AUSTIN'] }
+];
+
+describe('reconcileBatchOutput', () => {
+  it('matches lines by custom_id regardless of output order', () => {
+    const lines = [{ custom_id: 'pack-2_3-1' }, { custom_id: 'payee-1-1' }, { custom_id: 'payee-0-1' }];
+    const { linesByCustomId, report } = reconcileBatchOutput(lines, mappings);
+
+    expect(linesByCustomId.get('payee-0-1')).toBe(lines[2]);
+    expect(report).toEqual({
+      expectedCount: 3,
+      matchedCount: 3,
+      missingIds: [],
+      duplicatedIds: [],
+      unknownIds: [],
+      usedStoredMapping: true
+    });
+    expect(isCleanReconciliation(report)).toBe(true);
+  });
+
+  it('reports missing, duplicated and unknown ids and keeps the first duplicate', () => {
+    const first = { custom_id: 'payee-1-1', n: 1 };
+    const { linesByCustomId, report } = reconcileBatchOutput(
+      [first, { custom_id: 'payee-1-1', n: 2 }, { custom_id: 'payee-9-1', n: 3 }, { custom_id: 'pack-2_3-1', n: 4 }],
+      mappings
+    );
+
+    expect(linesByCustomId.get('payee-1-1')).toBe(first);
+    expect(report.missingIds).toEqual(['payee-0-1']);
+    expect(report.duplicatedIds).toEqual(['payee-1-1']);
+    expect(report.unknownIds).toEqual(['payee-9-1']);
+    expect(isCleanReconciliation(report)).toBe(false);
+  });
+});
+
+describe('mappingsFromCustomIds', () => {
+  it('rebuilds mappings of older jobs from the indexes in their custom_ids', () => {
+    expect(mappingsFromCustomIds(['payee-1-1', 'pack-0_1-1', 'payee-7-1', 'other'], ['A', 'B'])).toEqual([
+      { customId: 'payee-1-1', payeeNames: ['B'] },
+      { customId: 'pack-0_1-1', payeeNames: ['A', 'B'] }
+    ]);
+  });
+});
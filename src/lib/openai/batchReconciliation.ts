@@ -0,0 +1,94 @@
+/**
+ * Matching Batch API output lines to the requests that produced them. The API does not
+ * keep output in input order, so lines are matched strictly by custom_id against the
+ * mapping stored when the job was created. Anything that does not line up is reported
+ * instead of being guessed.
+ */
+
+import { decodePackCustomId } from './payeePacking';
+
+/** One submitted request: its custom_id and the payees it carried, in request order */
+export interface BatchRequestMapping {
+  customId: string;
+  payeeNames: string[];
+}
+
+export interface BatchReconciliationReport {
+  expectedCount: number;
+  matchedCount: number;
+  // Submitted requests with no output line
+  missingIds: string[];
+  // custom_ids with more than one output line; the first line is used
+  duplicatedIds: string[];
+  // Output lines whose custom_id was never submitted; ignored
+  unknownIds: string[];
+  // False when the job predates stored mappings and was reconciled from its custom_ids alone
+  usedStoredMapping: boolean;
+}
+
+export interface BatchReconciliation<T> {
+  linesByCustomId: Map<string, T>;
+  report: BatchReconciliationReport;
+}
+
+const SINGLE_CUSTOM_ID_PATTERN = /^payee-(\d+)-\d+$/;
+
+/**
+ * Match output lines to requests by custom_id
+ */
+export function reconcileBatchOutput<T extends { custom_id: string }>(
+  lines: T[],
+  mappings: BatchRequestMapping[],
+  usedStoredMapping: boolean = true
+): BatchReconciliation<T> {
+  const expected = new Set(mappings.map(mapping => mapping.customId));
+  const linesByCustomId = new Map<string, T>();
+  const duplicated = new Set<string>();
+  const unknown = new Set<string>();
+
+  for (const line of lines) {
+    if (!expected.has(line.custom_id)) {
+      unknown.add(line.custom_id);
+    } else if (linesByCustomId.has(line.custom_id)) {
+      duplicated.add(line.custom_id);
+    } else {
+      linesByCustomId.set(line.custom_id, line);
+    }
+  }
+
+  return {
+    linesByCustomId,
+    report: {
+      expectedCount: expected.size,
+      matchedCount: linesByCustomId.size,
+      missingIds: Array.from(expected).filter(customId => !linesByCustomId.has(customId)),
+      duplicatedIds: Array.from(duplicated),
+      unknownIds: Array.from(unknown),
+      usedStoredMapping
+    }
+  };
+}
+
+/**
+ * Rebuild mappings for jobs created before mappings were stored, from the payee indexes
+ * encoded in each output line's custom_id. Requests with no output line cannot be known.
+ */
+export function mappingsFromCustomIds(customIds: string[], payeeNames: string[]): BatchRequestMapping[] {
+  const mappings = new Map<string, BatchRequestMapping>();
+  for (const customId of customIds) {
+    const single = SINGLE_CUSTOM_ID_PATTERN.exec(customId);
+    const indexes = single ? [Number(single[1])] : decodePackCustomId(customId);
+    if (!indexes || indexes.some(index => index >= payeeNames.length)) continue;
+    mappings.set(customId, { customId, payeeNames: indexes.map(index => payeeNames[index]) });
+  }
+  return Array.from(mappings.values());
+}
+
+export function isCleanReconciliation(report: BatchReconciliationReport): boolean {
+  return report.missingIds.length === 0 && report.duplicatedIds.length === 0 && report.unknownIds.length === 0;
+}
+
+export function formatReconciliationReport(report: BatchReconciliationReport): string {
+  return `${report.matchedCount}/${report.expectedCount} requests matched, ` +
+    `${report.missingIds.length} missing, ${report.duplicatedIds.length} duplicated, ${report.unknownIds.length} unknown`;
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AzureOpenAI } from 'openai';
+import { clearOpenAIKeys, getOpenAIClient, initializeOpenAI, resolveAIProvider } from './client';
+import { clearProviderSettings, saveProviderSettings } from './providers';
+import { CLASSIFICATION_MODEL } from './config';
+
+beforeEach(() => {
+  localStorage.clear();
+  clearProviderSettings();
+  clearOpenAIKeys();
+});
+
+describe('resolveAIProvider', () => {
+  it('uses the stock OpenAI client when no provider is configured', () => {
+    const stock = initializeOpenAI('sk-test');
+
+    expect(resolveAIProvider()).toEqual({
+      client: stock,
+      model: CLASSIFICATION_MODEL,
+      settings: expect.objectContaining({ type: 'openai', supportsBatchAPI: true })
+    });
+    expect(getOpenAIClient()).toBe(stock);
+  });
+
+  it('prefers explicit settings over the stored provider', () => {
+    saveProviderSettings({ type: 'ollama', model: 'llama3.1', baseURL: 'http://localhost:11434/v1' });
+    const resolved = resolveAIProvider({ type: 'openai-compatible', model: 'mistral', baseURL: 'http://localhost:8000/v1' });
+
+    expect(resolved.model).toBe('mistral');
+    expect(resolved.client.baseURL).toBe('http://localhost:8000/v1');
+  });
+
+  it('routes every client lookup through the stored Azure provider', () => {
+    saveProviderSettings({
+      type: 'azure-openai',
+      model: 'gpt-4o',
+      baseURL: 'https://acme.openai.azure.com',
+      apiVersion: '2024-10-21',
+      deployment: 'classifier',
+      apiKey: 'azure-key'
+    });
+
+    expect(resolveAIProvider().client).toBeInstanceOf(AzureOpenAI);
+    expect(resolveAIProvider().model).toBe('classifier');
+    expect(getOpenAIClient()).toBe(resolveAIProvider().client);
+  });
+
+  it('fails when neither a provider nor a stored key is available', () => {
+    expect(() => getOpenAIClient()).toThrow('OpenAI client not initialized');
+  });
+});
@@ -1,6 +1,22 @@
 
 import OpenAI from 'openai';
 import { storeApiKey, getApiKey, hasSavedApiKey, deleteApiKey } from '@/lib/backend/apiKeyService';
+import { CLASSIFICATION_MODEL } from './config';
+import {
+  AIProviderSettings,
+  DEFAULT_PROVIDER_SETTINGS,
+  getActiveProviderSettings,
+  getProviderClient,
+  getRequestModel,
+  hasCustomProvider
+} from './providers';
+
+export interface ResolvedAIProvider {
+  client: OpenAI;
+  // The name to send as the request's model; the deployment name on Azure
+  model: string;
+  settings: AIProviderSettings;
+}
 
 let openaiClient: OpenAI | null = null;
 let currentToken: string | null = null;
@@ -65,9 +81,9 @@ export function initializeOpenAI(apiKey?: string, rememberKey?: boolean): OpenAI
 }
 
 /**
- * Get the current OpenAI client
+ * The stock OpenAI client for the key managed by this module
  */
-export function getOpenAIClient(): OpenAI {
+function getStockOpenAIClient(): OpenAI {
   if (!openaiClient) {
     // Try to initialize from saved key
     try {
@@ -80,11 +96,46 @@ export function getOpenAIClient(): OpenAI {
   return openaiClient;
 }
 
+/**
+ * Resolve the client and model to use for an AI call.
+ * Explicit settings win, then the stored active provider, then the stock OpenAI client.
+ */
+export function resolveAIProvider(settings?: AIProviderSettings): ResolvedAIProvider {
+  const effective = settings || getActiveProviderSettings();
+
+  const needsDedicatedClient = effective && (
+    effective.type !== 'openai' || effective.apiKey || effective.apiKeyToken || effective.baseURL
+  );
+
+  if (needsDedicatedClient) {
+    return {
+      client: getProviderClient(effective),
+      model: getRequestModel(effective.model, effective),
+      settings: effective
+    };
+  }
+
+  // Stock OpenAI keeps using the key managed by this module
+  return {
+    client: getStockOpenAIClient(),
+    model: effective?.model || CLASSIFICATION_MODEL,
+    settings: effective || DEFAULT_PROVIDER_SETTINGS['openai']
+  };
+}
+
+/**
+ * Get the current OpenAI client.
+ * When another provider is configured, returns an OpenAI-compatible client for it.
+ */
+export function getOpenAIClient(): OpenAI {
+  return resolveAIProvider().client;
+}
+
 /**
  * Check if the OpenAI client has been initialized
  */
 export function isOpenAIInitialized(): boolean {
-  if (openaiClient !== null) {
+  if (openaiClient !== null || hasCustomProvider()) {
     return true;
   }
   
@@ -122,7 +173,7 @@ export async function testOpenAIConnection(): Promise<boolean> {
     const client = getOpenAIClient();
     // Make a simple API call to test the connection
     await client.chat.completions.create({
-      model: 'gpt-4o-mini',
+      model: hasCustomProvider() ? resolveAIProvider().model : 'gpt-4o-mini',
       messages: [{ role: 'user', content: 'Hello' }],
       max_tokens: 5
     });
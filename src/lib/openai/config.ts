@@ -10,6 +10,9 @@ export const CLASSIFICATION_MODEL = 'gpt-4.1-2025-04-14';
 export const MINIMUM_CONFIDENCE_THRESHOLD = 85;
 export const HIGH_ACCURACY_MODE = true;
 
+// Response token limit for each batch classification request
+export const BATCH_MAX_TOKENS = 300;
+
 // Enhanced processing configuration
 export const ENHANCED_PROCESSING = {
   BATCH_SIZE: 15,
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import {
+  estimateBatchCost,
+  estimateBatchCostForModels,
+  estimateBatchMinutes,
+  estimateTokens,
+  EXPECTED_OUTPUT_TOKENS,
+  formatCost
+} from './costEstimator';
+import { getBuiltInPromptTemplate } from './promptTemplates';
+import { CLASSIFICATION_MODEL } from './config';
+
+const template = getBuiltInPromptTemplate('batch_classification');
+
+describe('estimateBatchCost', () => {
+  it('scales tokens and cost with the number of payees', () => {
+    const one = estimateBatchCost(['ACME LLC'], template, CLASSIFICATION_MODEL);
+    const two = estimateBatchCost(['ACME LLC', 'JOHN SMITH'], template, CLASSIFICATION_MODEL);
+
+    expect(one.inputTokens).toBeGreaterThan(estimateTokens(template.systemPrompt));
+    expect(two.outputTokens).toBe(2 * EXPECTED_OUTPUT_TOKENS);
+    expect(two.estimatedCost ?? 0).toBeGreaterThan(one.estimatedCost ?? 0);
+    expect(two.maxCost ?? 0).toBeGreaterThan(two.estimatedCost ?? 0);
+    expect(estimateBatchCost(['ACME LLC'], template, CLASSIFICATION_MODEL, 3).inputTokens)
+      .toBeGreaterThan(one.inputTokens + 3 * EXPECTED_OUTPUT_TOKENS);
+  });
+
+  it('pays for the shared prompt once per pack', () => {
+    const names = Array.from({ length: 20 }, (_, i) => `PAYEE ${i}`);
+    const single = estimateBatchCost(names, template, CLASSIFICATION_MODEL);
+    const packed = estimateBatchCost(names, template, CLASSIFICATION_MODEL, 0, 10);
+
+    expect(packed.requestCount).toBe(2);
+    expect(packed.inputTokens).toBeLessThan(single.inputTokens / 3);
+    expect(packed.outputTokens).toBe(single.outputTokens);
+  });
+
+  it('reports unknown cost for unpriced models and includes them in comparisons', () => {
+    const estimates = estimateBatchCostForModels(['ACME LLC'], template, 'llama3.1');
+    const unpriced = estimates.find(estimate => estimate.model === 'llama3.1');
+
+    expect(unpriced?.estimatedCost).toBeNull();
+    expect(formatCost(unpriced?.estimatedCost ?? null)).toBe('Unknown');
+    expect(estimates.filter(estimate => estimate.model === CLASSIFICATION_MODEL)).toHaveLength(1);
+  });
+
+  it('keeps durations within the completion window', () => {
+    expect(estimateBatchMinutes(0)).toBe(0);
+    expect(estimateBatchMinutes(5)).toBe(10);
+    expect(estimateBatchMinutes(10_000_000)).toBe(24 * 60);
+  });
+});
@@ -0,0 +1,173 @@
+import { CLASSIFICATION_MODEL, BATCH_MAX_TOKENS } from './config';
+import { PromptTemplate, renderPromptTemplate } from './promptTemplates';
+import { DEFAULT_PACK_SIZE, renderPackedPrompt } from './payeePacking';
+
+/**
+ * Pre-submission token, cost and duration estimates for batch jobs.
+ * Token counts use the ~4 characters per token rule of thumb, so they are planning
+ * figures rather than an invoice.
+ */
+
+export interface ModelPricing {
+  model: string;
+  label: string;
+  // USD per million tokens at Batch API pricing (half the synchronous price)
+  batchInputPerMillion: number;
+  batchOutputPerMillion: number;
+}
+
+// Published OpenAI batch prices; update when the price list changes
+export const BATCH_MODEL_PRICING: ModelPricing[] = [
+  { model: CLASSIFICATION_MODEL, label: 'GPT-4.1', batchInputPerMillion: 1.0, batchOutputPerMillion: 4.0 },
+  { model: 'gpt-4.1-mini-2025-04-14', label: 'GPT-4.1 mini', batchInputPerMillion: 0.2, batchOutputPerMillion: 0.8 },
+  { model: 'gpt-4.1-nano-2025-04-14', label: 'GPT-4.1 nano', batchInputPerMillion: 0.05, batchOutputPerMillion: 0.2 },
+  { model: 'gpt-4o-2024-08-06', label: 'GPT-4o', batchInputPerMillion: 1.25, batchOutputPerMillion: 5.0 },
+  { model: 'gpt-4o-mini-2024-07-18', label: 'GPT-4o mini', batchInputPerMillion: 0.075, batchOutputPerMillion: 0.3 }
+];
+
+const CHARS_PER_TOKEN = 4;
+// Chat formatting adds a few tokens per message and per request
+const TOKENS_PER_MESSAGE = 4;
+const TOKENS_PER_REQUEST = 3;
+// Number and quotes around each name in a packed request
+const TOKENS_PER_PACKED_NAME = 3;
+// Synchronous requests cost twice the batch price
+const STANDARD_PRICE_MULTIPLIER = 2;
+// A classification answer is a one-line JSON object with a short reasoning
+export const EXPECTED_OUTPUT_TOKENS = 80;
+
+// Observed batch throughput; the API only guarantees completion within 24 hours
+const BATCH_REQUESTS_PER_MINUTE = 500;
+const MIN_BATCH_MINUTES = 10;
+const BATCH_COMPLETION_WINDOW_MINUTES = 24 * 60;
+
+export interface BatchCostEstimate {
+  model: string;
+  label: string;
+  requestCount: number;
+  inputTokens: number;
+  outputTokens: number;
+  maxOutputTokens: number;
+  // null when the model has no known price
+  estimatedCost: number | null;
+  maxCost: number | null;
+  expectedMinutes: number;
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function getModelPricing(model: string): ModelPricing | null {
+  return BATCH_MODEL_PRICING.find(pricing => pricing.model === model) || null;
+}
+
+export function estimateBatchMinutes(requestCount: number): number {
+  if (requestCount === 0) return 0;
+  return Math.min(
+    BATCH_COMPLETION_WINDOW_MINUTES,
+    Math.max(MIN_BATCH_MINUTES, Math.ceil(requestCount / BATCH_REQUESTS_PER_MINUTE))
+  );
+}
+
+/**
+ * Input tokens for a batch rendered from a prompt template; the system prompt and any
+ * few-shot examples are the same for every request, only the payee names vary.
+ * Packing puts `packSize` names in each request, so the shared part is paid per pack.
+ */
+export function estimateBatchInputTokens(
+  payeeNames: string[],
+  template: PromptTemplate,
+  fewShotExampleCount: number = 0,
+  packSize: number = DEFAULT_PACK_SIZE
+): number {
+  const single = renderPromptTemplate(template, { payeeName: '' });
+  const packed = packSize > 1;
+  const { system, user } = packed ? renderPackedPrompt(template, []) : single;
+  // Each example is a rendered request plus an answer about the size of a real one
+  const perExample = estimateTokens(single.user) + EXPECTED_OUTPUT_TOKENS + 2 * TOKENS_PER_MESSAGE;
+  const perRequest = estimateTokens(system) + estimateTokens(user) + 2 * TOKENS_PER_MESSAGE + TOKENS_PER_REQUEST +
+    fewShotExampleCount * perExample;
+  const nameTokens = payeeNames.reduce(
+    (total, name) => total + estimateTokens(name) + (packed ? TOKENS_PER_PACKED_NAME : 0),
+    0
+  );
+  return perRequest * Math.ceil(payeeNames.length / packSize) + nameTokens;
+}
+
+/**
+ * Estimate one batch for a model. Payees later resolved by overrides, the cache or
+ * the local model are never submitted, so the real bill can only be lower.
+ */
+export function estimateBatchCost(
+  payeeNames: string[],
+  template: PromptTemplate,
+  model: string,
+  fewShotExampleCount: number = 0,
+  packSize: number = DEFAULT_PACK_SIZE
+): BatchCostEstimate {
+  const pricing = getModelPricing(model);
+  const inputTokens = estimateBatchInputTokens(payeeNames, template, fewShotExampleCount, packSize);
+  const requestCount = Math.ceil(payeeNames.length / packSize);
+  const outputTokens = payeeNames.length * EXPECTED_OUTPUT_TOKENS;
+  const maxOutputTokens = payeeNames.length * BATCH_MAX_TOKENS;
+  const cost = (output: number) => pricing
+    ? (inputTokens * pricing.batchInputPerMillion + output * pricing.batchOutputPerMillion) / 1_000_000
+    : null;
+
+  return {
+    model,
+    label: pricing?.label || model,
+    requestCount,
+    inputTokens,
+    outputTokens,
+    maxOutputTokens,
+    estimatedCost: cost(outputTokens),
+    maxCost: cost(maxOutputTokens),
+    expectedMinutes: estimateBatchMinutes(requestCount)
+  };
+}
+
+/**
+ * Estimates for every priced model, plus the given model when it has no price
+ */
+export function estimateBatchCostForModels(
+  payeeNames: string[],
+  template: PromptTemplate,
+  extraModel?: string,
+  fewShotExampleCount: number = 0,
+  packSize: number = DEFAULT_PACK_SIZE
+): BatchCostEstimate[] {
+  const models = BATCH_MODEL_PRICING.map(pricing => pricing.model);
+  if (extraModel && !models.includes(extraModel)) {
+    models.push(extraModel);
+  }
+  return models.map(model => estimateBatchCost(payeeNames, template, model, fewShotExampleCount, packSize));
+}
+
+/**
+ * Actual cost of billed tokens at batch pricing, or null for unpriced models
+ */
+export function calculateBatchCost(model: string, promptTokens: number, completionTokens: number): number | null {
+  const pricing = getModelPricing(model);
+  if (!pricing) return null;
+  return (promptTokens * pricing.batchInputPerMillion + completionTokens * pricing.batchOutputPerMillion) / 1_000_000;
+}
+
+/**
+ * Actual cost of billed tokens sent outside the Batch API, or null for unpriced models
+ */
+export function calculateStandardCost(model: string, promptTokens: number, completionTokens: number): number | null {
+  const batchCost = calculateBatchCost(model, promptTokens, completionTokens);
+  return batchCost === null ? null : batchCost * STANDARD_PRICE_MULTIPLIER;
+}
+
+export function formatCost(cost: number | null): string {
+  if (cost === null) return 'Unknown';
+  return cost < 0.01 && cost > 0 ? '< $0.01' : `$${cost.toFixed(2)}`;
+}
+
+export function formatMinutes(minutes: number): string {
+  if (minutes < 60) return `~${minutes} min`;
+  return `~${(minutes / 60).toFixed(1)} h`;
+}
@@ -4,9 +4,12 @@ import { getOpenAIClient } from './client';
 import { timeoutPromise } from './utils';
 import { DEFAULT_API_TIMEOUT, CLASSIFICATION_MODEL } from './config';
 import { classifyPayeeWithAI } from './singleClassification';
+import type { AIProviderSettings } from './providers';
+import type { EntityType } from '../types';
 
 export interface EnhancedClassificationResult {
   classification: 'Business' | 'Individual';
+  entityType?: EntityType;
   confidence: number;
   reasoning: string;
   processingTier?: string;
@@ -14,6 +17,7 @@ export interface EnhancedClassificationResult {
   matchingRules?: string[];
   sicCode?: string;
   sicDescription?: string;
+  promptVersionId?: string;
 }
 
 /**
@@ -21,16 +25,18 @@ export interface EnhancedClassificationResult {
  */
 export async function enhancedClassifyPayeeWithAI(
   payeeName: string,
-  timeout: number = DEFAULT_API_TIMEOUT
+  timeout: number = DEFAULT_API_TIMEOUT,
+  provider?: AIProviderSettings
 ): Promise<EnhancedClassificationResult> {
   console.log(`[ENHANCED CLASSIFICATION] Classifying "${payeeName}" with SIC code support`);
 
   try {
     // Use the single classification function which already has SIC code logic
-    const result = await classifyPayeeWithAI(payeeName, timeout);
+    const result = await classifyPayeeWithAI(payeeName, timeout, provider);
     
     console.log(`[ENHANCED CLASSIFICATION] Result for "${payeeName}":`, {
       classification: result.classification,
+      entityType: result.entityType,
       confidence: result.confidence,
       sicCode: result.sicCode,
       sicDescription: result.sicDescription
@@ -38,13 +44,15 @@ export async function enhancedClassifyPayeeWithAI(
 
     return {
       classification: result.classification,
+      entityType: result.entityType,
       confidence: result.confidence,
       reasoning: result.reasoning,
       processingTier: 'AI-Powered',
       processingMethod: 'Enhanced OpenAI Classification with SIC Codes',
       matchingRules: ['OpenAI Enhanced Classification'],
       sicCode: result.sicCode,
-      sicDescription: result.sicDescription
+      sicDescription: result.sicDescription,
+      promptVersionId: result.promptVersionId
     };
   } catch (error) {
     console.error(`[ENHANCED CLASSIFICATION] Error classifying "${payeeName}":`, error);
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { buildFewShotMessages, FewShotExample, selectFewShotExamples } from './fewShotExamples';
+import { getBuiltInPromptTemplate } from './promptTemplates';
+
+describe('selectFewShotExamples', () => {
+  const pool: FewShotExample[] = [
+    { id: 'bakery', payeeName: 'Main Street Bakery', classification: 'Business', entityType: 'Business', confidence: 100,
+      reasoning: 'Reviewed', sicCode: '5461', sicDescription: 'Retail Bakeries', reviewedAt: '2026-01-01T00:00:00.000Z' },
+    { id: 'plumbing', payeeName: 'Smith Plumbing LLC', classification: 'Business', entityType: 'Business', confidence: 100,
+      reasoning: 'Reviewed', sicCode: '1711', sicDescription: 'Plumbing, Heating and Air-Conditioning', reviewedAt: '2026-01-01T00:00:00.000Z' },
+    { id: 'person', payeeName: 'Jane Doe', classification: 'Individual', entityType: 'Individual', confidence: 100,
+      reasoning: 'Reviewed', sicCode: null, sicDescription: null, reviewedAt: '2026-01-01T00:00:00.000Z' },
+    { id: 'newer', payeeName: 'Acme Holdings', classification: 'Business', entityType: 'Business', confidence: 100,
+      reasoning: 'Reviewed', sicCode: '6719', sicDescription: 'Holding Companies', reviewedAt: '2026-06-01T00:00:00.000Z' }
+  ];
+
+  it('prefers examples that share tokens with the target names', () => {
+    expect(selectFewShotExamples(pool, ['Jones Plumbing LLC', 'Bob Smith'], 1).map(e => e.id)).toEqual(['plumbing']);
+  });
+
+  it('breaks ties by the most recent review', () => {
+    expect(selectFewShotExamples(pool, ['Unrelated Name'], 1).map(e => e.id)).toEqual(['newer']);
+  });
+
+  it('keeps both classes represented and caps the count', () => {
+    expect(selectFewShotExamples(pool, ['Harbor Plumbing', 'Main Street Deli'], 2).map(e => e.id)).toEqual(['bakery', 'person']);
+    // A single example is never swapped for the other class
+    expect(selectFewShotExamples(pool, ['Harbor Plumbing'], 1).map(e => e.id)).toEqual(['plumbing']);
+    expect(selectFewShotExamples(pool, ['anything'], 0)).toEqual([]);
+    expect(selectFewShotExamples(pool, ['anything'], 2.9)).toHaveLength(2);
+    expect(selectFewShotExamples(pool, ['anything'], 50)).toHaveLength(4);
+  });
+
+  it('returns what it has when the pool is small or one-sided', () => {
+    expect(selectFewShotExamples([], ['Smith Plumbing'], 5)).toEqual([]);
+    expect(selectFewShotExamples([pool[0], pool[1]], ['Jane Doe'], 2).map(e => e.classification)).toEqual(['Business', 'Business']);
+  });
+});
+
+describe('buildFewShotMessages', () => {
+  it('renders each example as a request and answer pair', () => {
+    const messages = buildFewShotMessages(getBuiltInPromptTemplate('batch_classification'), [
+      { id: 'person', payeeName: 'Jane Doe', classification: 'Individual', entityType: 'Individual', confidence: 97,
+        reasoning: 'Given name and surname', sicCode: null, sicDescription: null, reviewedAt: '2026-01-01T00:00:00.000Z' }
+    ]);
+    expect(messages).toEqual([
+      { role: 'user', content: 'Classify this payee name and assign SIC code if it\'s a business: "Jane Doe"' },
+      {
+        role: 'assistant',
+        content: JSON.stringify({
+          classification: 'Individual',
+          entityType: 'Individual',
+          confidence: 97,
+          reasoning: 'Given name and surname',
+          sicCode: null,
+          sicDescription: null
+        })
+      }
+    ]);
+  });
+
+  it('never shows a SIC code on an individual answer', () => {
+    const [, answer] = buildFewShotMessages(getBuiltInPromptTemplate('batch_classification'), [
+      { id: 'stale-sic', payeeName: 'John Smith', classification: 'Individual', entityType: 'Individual', confidence: 90,
+        reasoning: 'Reviewed', sicCode: '1711', sicDescription: 'Plumbing', reviewedAt: '2026-01-01T00:00:00.000Z' }
+    ]);
+    expect(JSON.parse(answer.content)).toMatchObject({ entityType: 'Individual', sicCode: null, sicDescription: null });
+    expect(buildFewShotMessages(getBuiltInPromptTemplate('batch_classification'), [])).toEqual([]);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Few-shot examples drawn from human-reviewed classifications. Examples are rendered
+ * through the same prompt template as the real request and answered in the same JSON
+ * shape, so reviewer corrections steer the model without fine-tuning.
+ */
+
+import { EntityType } from '../types';
+import { PromptTemplate, renderPromptTemplate } from './promptTemplates';
+
+// Each example id is recorded in the job's metadata, which the Batch API caps at 512 characters per value
+export const MAX_FEW_SHOT_EXAMPLES = 10;
+
+export interface FewShotExample {
+  // payee_classifications id of the reviewed row
+  id: string;
+  payeeName: string;
+  classification: 'Business' | 'Individual';
+  entityType: EntityType;
+  confidence: number;
+  reasoning: string;
+  sicCode: string | null;
+  sicDescription: string | null;
+  reviewedAt: string;
+}
+
+export interface FewShotMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+function nameTokens(name: string): string[] {
+  return name.toUpperCase().split(/[^A-Z0-9]+/).filter(token => token.length > 1);
+}
+
+/**
+ * Pick up to `count` examples, most similar to the target names first. Similarity is the
+ * share of an example's name tokens that appear in any target name, weighted by how many
+ * targets use them; recency breaks ties. When both classes are available, at least one
+ * Business and one Individual example is kept so the model sees both answers.
+ */
+export function selectFewShotExamples(
+  pool: FewShotExample[],
+  targetNames: string[],
+  count: number
+): FewShotExample[] {
+  const limit = Math.min(Math.max(0, Math.floor(count)), MAX_FEW_SHOT_EXAMPLES);
+  if (limit === 0 || pool.length === 0) {
+    return [];
+  }
+
+  const targetFrequency = new Map<string, number>();
+  for (const name of targetNames) {
+    for (const token of new Set(nameTokens(name))) {
+      targetFrequency.set(token, (targetFrequency.get(token) || 0) + 1);
+    }
+  }
+
+  const ranked = pool
+    .map(example => {
+      const tokens = Array.from(new Set(nameTokens(example.payeeName)));
+      const shared = tokens.filter(token => targetFrequency.has(token));
+      return {
+        example,
+        overlap: tokens.length > 0 ? shared.length / tokens.length : 0,
+        usage: shared.reduce((sum, token) => sum + (targetFrequency.get(token) || 0), 0)
+      };
+    })
+    .sort((a, b) =>
+      b.overlap - a.overlap ||
+      b.usage - a.usage ||
+      b.example.reviewedAt.localeCompare(a.example.reviewedAt)
+    )
+    .map(entry => entry.example);
+
+  const selected = ranked.slice(0, limit);
+  if (limit >= 2) {
+    for (const classification of ['Business', 'Individual'] as const) {
+      if (selected.some(example => example.classification === classification)) continue;
+      const best = ranked.find(example => example.classification === classification);
+      if (best) {
+        selected[selected.length - 1] = best;
+      }
+    }
+  }
+  return selected;
+}
+
+/**
+ * Example turns to place between the system prompt and the real request
+ */
+export function buildFewShotMessages(template: PromptTemplate, examples: FewShotExample[]): FewShotMessage[] {
+  return examples.flatMap(example => [
+    { role: 'user' as const, content: renderPromptTemplate(template, { payeeName: example.payeeName }).user },
+    {
+      role: 'assistant' as const,
+      content: JSON.stringify({
+        classification: example.classification,
+        entityType: example.entityType,
+        confidence: example.confidence,
+        reasoning: example.reasoning,
+        sicCode: example.classification === 'Business' ? example.sicCode : null,
+        sicDescription: example.classification === 'Business' ? example.sicDescription : null
+      })
+    }
+  ]);
+}
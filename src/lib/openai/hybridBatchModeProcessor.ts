@@ -35,7 +35,7 @@ export async function processWithHybridBatch(
     classification: 'Business' | 'Individual';
     confidence: number;
     reasoning: string;
-    processingTier: 'Rule-Based' | 'AI-Powered' | 'Failed' | 'NLP-Based' | 'AI-Assisted' | 'Excluded';
+    processingTier: HybridBatchResult['results'][number]['processingTier'];
   } | null> = payeeNames.map((name, index) => {
     const exclusionResult = exclusionResults[index];
     if (exclusionResult.isExcluded) {
@@ -107,7 +107,7 @@ export async function processWithHybridBatch(
           classification: aiResult?.classification || 'Individual',
           confidence: aiResult?.confidence || 0,
           reasoning: aiResult?.reasoning || 'AI classification failed',
-          processingTier: 'AI-Powered' as const
+          processingTier: aiResult?.processingTier || 'AI-Powered'
         };
       });
 
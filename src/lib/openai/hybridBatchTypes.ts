@@ -1,4 +1,5 @@
 
+import { ClassificationResult } from '@/lib/types';
 import { BatchJob } from './trueBatchAPI';
 
 export interface HybridBatchResult {
@@ -6,7 +7,7 @@ export interface HybridBatchResult {
     classification: 'Business' | 'Individual';
     confidence: number;
     reasoning: string;
-    processingTier: 'Rule-Based' | 'AI-Powered' | 'Failed' | 'NLP-Based' | 'AI-Assisted' | 'Excluded';
+    processingTier: ClassificationResult['processingTier'];
   }>;
   batchJob?: BatchJob;
   stats?: {
@@ -1,12 +1,29 @@
 
 import { getOpenAIClient } from './client';
 import { timeoutPromise } from './utils';
-import { DEFAULT_API_TIMEOUT, CLASSIFICATION_MODEL } from './config';
+import { BATCH_MAX_TOKENS, DEFAULT_API_TIMEOUT } from './config';
+import { getActiveModel, getRequestModel } from './providers';
+import { screenPayeeName } from './promptSafety';
+import { renderPackedPrompt } from './payeePacking';
+import { PACKED_CLASSIFICATION_RESPONSE_FORMAT, parsePackedClassificationResponse } from './responseSchemas';
+import { resolvePromptTemplate } from '../database/promptTemplateService';
+import { ClassificationResult } from '../types';
 
 export const OPTIMIZED_BATCH_SIZE = 10; // Reduced for better reliability
 export const MAX_RETRIES = 2;
 export const RETRY_DELAY_BASE = 1000;
 
+export interface OptimizedClassificationResult {
+  payeeName: string;
+  classification: 'Business' | 'Individual';
+  confidence: number;
+  reasoning: string;
+  source: 'cache' | 'api' | 'local';
+  // Set when the result did not come from the model, e.g. 'Suspicious Input' or 'Failed'
+  processingTier?: ClassificationResult['processingTier'];
+  error?: string;
+}
+
 interface CachedResult {
   classification: 'Business' | 'Individual';
   confidence: number;
@@ -121,101 +138,27 @@ async function withRetry<T>(
 }
 
 /**
- * Create fallback result for failed classifications
+ * Result for a payee the model did not answer usably, with the reason
  */
-function createFallbackResult(payeeName: string, error?: string): {
-  payeeName: string;
-  classification: 'Business' | 'Individual';
-  confidence: number;
-  reasoning: string;
-  source: 'api';
-} {
+function createFailedResult(payeeName: string, error: string): OptimizedClassificationResult {
   return {
     payeeName,
     classification: 'Individual',
     confidence: 0,
-    reasoning: error ? `Classification failed: ${error}` : 'Classification failed - using fallback',
-    source: 'api'
+    reasoning: `Classification failed: ${error}`,
+    source: 'api',
+    processingTier: 'Failed',
+    error
   };
 }
 
-/**
- * Validate and sanitize API response
- */
-function validateApiResponse(content: string, expectedCount: number): any[] {
-  if (!content || typeof content !== 'string') {
-    throw new Error('Invalid API response: empty or non-string content');
-  }
-
-  console.log(`[VALIDATION] Raw API response:`, content);
-  
-  // Clean the response - remove markdown formatting
-  const cleanContent = content.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-  
-  let parsed: any;
-  try {
-    parsed = JSON.parse(cleanContent);
-  } catch (parseError) {
-    console.error(`[VALIDATION] JSON parse error:`, parseError);
-    throw new Error(`Failed to parse API response as JSON: ${parseError}`);
-  }
-
-  // Extract array from various possible response structures
-  let classifications: any[];
-  if (Array.isArray(parsed)) {
-    classifications = parsed;
-  } else if (parsed && typeof parsed === 'object') {
-    classifications = parsed.results || parsed.payees || parsed.classifications || parsed.data || [];
-  } else {
-    throw new Error('API response is not in expected format');
-  }
-
-  if (!Array.isArray(classifications)) {
-    throw new Error('No valid classifications array found in response');
-  }
-
-  console.log(`[VALIDATION] Extracted ${classifications.length} classifications, expected ${expectedCount}`);
-
-  // Validate each classification object
-  const validatedClassifications = classifications.slice(0, expectedCount).map((item, index) => {
-    if (!item || typeof item !== 'object') {
-      throw new Error(`Classification ${index} is not a valid object`);
-    }
-
-    const { name, classification, confidence, reasoning } = item;
-
-    if (!classification || (classification !== 'Business' && classification !== 'Individual')) {
-      throw new Error(`Invalid classification "${classification}" at index ${index}`);
-    }
-
-    if (typeof confidence !== 'number' || confidence < 0 || confidence > 100) {
-      throw new Error(`Invalid confidence "${confidence}" at index ${index}`);
-    }
-
-    return {
-      name: name || `Unknown-${index}`,
-      classification,
-      confidence: Math.min(100, Math.max(0, confidence)),
-      reasoning: reasoning || 'No reasoning provided'
-    };
-  });
-
-  return validatedClassifications;
-}
-
 /**
  * Classify multiple payees in an optimized batch
  */
 export async function optimizedBatchClassification(
   payeeNames: string[],
   timeout: number = DEFAULT_API_TIMEOUT
-): Promise<Array<{
-  payeeName: string;
-  classification: 'Business' | 'Individual';
-  confidence: number;
-  reasoning: string;
-  source: 'cache' | 'api';
-}>> {
+): Promise<OptimizedClassificationResult[]> {
   console.log(`[OPTIMIZED] Starting classification of ${payeeNames.length} payees`);
 
   // Input validation
@@ -236,17 +179,25 @@ export async function optimizedBatchClassification(
     return [];
   }
 
-  const results: Array<{
-    payeeName: string;
-    classification: 'Business' | 'Individual';
-    confidence: number;
-    reasoning: string;
-    source: 'cache' | 'api';
-  }> = [];
+  const results: OptimizedClassificationResult[] = [];
 
-  // Step 1: Check cache
+  // Step 1: Screen out names that look like prompt injection, then check cache
   const uncachedNames: string[] = [];
   for (const name of validNames) {
+    const screened = screenPayeeName(name);
+    if (screened) {
+      console.warn(`[OPTIMIZED] Not sending "${name}" to AI: name looks like prompt injection`);
+      results.push({
+        payeeName: name,
+        classification: screened.classification,
+        confidence: screened.confidence,
+        reasoning: screened.reasoning,
+        source: 'local',
+        processingTier: screened.processingTier
+      });
+      continue;
+    }
+
     try {
       const cached = getCachedResult(name);
       if (cached) {
@@ -266,10 +217,12 @@ export async function optimizedBatchClassification(
     }
   }
 
-  console.log(`[OPTIMIZED] Cache: ${results.length} hits, ${uncachedNames.length} need API`);
+  console.log(`[OPTIMIZED] Cache: ${results.filter(r => r.source === 'cache').length} hits, ${uncachedNames.length} need API`);
 
-  // Step 2: Process uncached names in batches
+  // Step 2: Process uncached names in batches, numbered in one packed request each
   if (uncachedNames.length > 0) {
+    const promptTemplate = await resolvePromptTemplate('batch_classification');
+
     for (let i = 0; i < uncachedNames.length; i += OPTIMIZED_BATCH_SIZE) {
       const batchNames = uncachedNames.slice(i, i + OPTIMIZED_BATCH_SIZE);
       const batchNumber = Math.floor(i / OPTIMIZED_BATCH_SIZE) + 1;
@@ -278,90 +231,67 @@ export async function optimizedBatchClassification(
       
       try {
         const batchResults = await withRetry(async () => {
-          const prompt = `Classify each payee name as "Business" or "Individual". Return ONLY a JSON array:
-[
-  {"name": "payee_name", "classification": "Business", "confidence": 95, "reasoning": "brief reason"},
-  {"name": "next_payee", "classification": "Individual", "confidence": 90, "reasoning": "brief reason"}
-]
-
-Names to classify:
-${batchNames.map((name, idx) => `${idx + 1}. "${name}"`).join('\n')}`;
-
+          const prompt = renderPackedPrompt(promptTemplate, batchNames);
           const apiCall = openaiClient.chat.completions.create({
-            model: CLASSIFICATION_MODEL,
+            model: getRequestModel(getActiveModel()),
             messages: [
-              {
-                role: "system",
-                content: "You are an expert classifier. Return only valid JSON array, no other text."
-              },
-              {
-                role: "user",
-                content: prompt
-              }
+              { role: 'system', content: prompt.system },
+              { role: 'user', content: prompt.user }
             ],
             temperature: 0.1,
-            max_tokens: 800
+            max_tokens: BATCH_MAX_TOKENS * batchNames.length,
+            response_format: PACKED_CLASSIFICATION_RESPONSE_FORMAT
           });
           
           return await timeoutPromise(apiCall, timeout);
         });
 
-        const content = batchResults?.choices?.[0]?.message?.content;
-        if (!content) {
-          throw new Error("No response content from OpenAI API");
+        const parsed = parsePackedClassificationResponse(batchResults?.choices?.[0], batchNames.length);
+        if (!parsed.success) {
+          throw new Error(`Invalid AI response: ${parsed.error}`);
         }
 
-        // Validate and parse response
-        const validatedClassifications = validateApiResponse(content, batchNames.length);
+        parsed.value.forEach((answer, index) => {
+          const originalName = batchNames[index];
+          if (!answer) {
+            results.push(createFailedResult(originalName, 'Missing from the AI response'));
+            return;
+          }
+          if (!answer.success) {
+            console.warn(`[OPTIMIZED] Invalid answer for "${originalName}": ${answer.error}`);
+            results.push(createFailedResult(originalName, `Invalid AI response: ${answer.error}`));
+            return;
+          }
 
-        // Process results
-        validatedClassifications.forEach((result, index) => {
-          if (index < batchNames.length) {
-            const originalName = batchNames[index];
-            const classificationResult = {
-              payeeName: originalName,
-              classification: result.classification as 'Business' | 'Individual',
-              confidence: result.confidence,
-              reasoning: result.reasoning,
-              source: 'api' as const
-            };
-            
-            results.push(classificationResult);
-            
-            // Cache the result
-            try {
-              setCachedResult(originalName, {
-                classification: classificationResult.classification,
-                confidence: classificationResult.confidence,
-                reasoning: classificationResult.reasoning,
-                timestamp: Date.now()
-              });
-            } catch (cacheError) {
-              console.warn(`[OPTIMIZED] Failed to cache result for "${originalName}":`, cacheError);
-            }
-            
-            console.log(`[OPTIMIZED] Classified "${originalName}": ${result.classification} (${result.confidence}%)`);
+          const classificationResult = {
+            payeeName: originalName,
+            classification: answer.value.classification,
+            confidence: answer.value.confidence,
+            reasoning: answer.value.reasoning,
+            source: 'api' as const
+          };
+          results.push(classificationResult);
+          
+          // Cache the result
+          try {
+            setCachedResult(originalName, {
+              classification: classificationResult.classification,
+              confidence: classificationResult.confidence,
+              reasoning: classificationResult.reasoning,
+              timestamp: Date.now()
+            });
+          } catch (cacheError) {
+            console.warn(`[OPTIMIZED] Failed to cache result for "${originalName}":`, cacheError);
           }
+          
+          console.log(`[OPTIMIZED] Classified "${originalName}": ${classificationResult.classification} (${classificationResult.confidence}%)`);
         });
         
-        // Handle missing results
-        if (validatedClassifications.length < batchNames.length) {
-          for (let j = validatedClassifications.length; j < batchNames.length; j++) {
-            const missingName = batchNames[j];
-            if (missingName) {
-              results.push(createFallbackResult(missingName, 'Incomplete API response'));
-            }
-          }
-        }
-        
       } catch (error) {
         console.error(`[OPTIMIZED] Batch ${batchNumber} failed:`, error);
         
-        // Create fallback results for this batch
         batchNames.forEach(name => {
-          if (name) {
-            results.push(createFallbackResult(name, error instanceof Error ? error.message : 'Unknown error'));
-          }
+          results.push(createFailedResult(name, error instanceof Error ? error.message : 'Unknown error'));
         });
       }
     }
@@ -371,8 +301,8 @@ ${batchNames.map((name, idx) => `${idx + 1}. "${name}"`).join('\n')}`;
   const orderedResults = validNames.map(name => {
     const result = results.find(r => r.payeeName === name);
     if (!result) {
-      console.warn(`[OPTIMIZED] Missing result for "${name}", creating fallback`);
-      return createFallbackResult(name, 'No result found');
+      console.warn(`[OPTIMIZED] Missing result for "${name}"`);
+      return createFailedResult(name, 'No result found');
     }
     return result;
   });
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import {
+  decodePackCustomId,
+  encodePackCustomId,
+  MAX_PACK_SIZE,
+  normalizePackSize,
+  packPayees,
+  renderPackedPrompt,
+  splitTokenUsage
+} from './payeePacking';
+import { getBuiltInPromptTemplate } from './promptTemplates';
+
+describe('pack custom ids', () => {
+  it('round-trip the payee indexes of a pack in order', () => {
+    const customId = encodePackCustomId([4, 5, 6, 9, 12, 13], 1718000000000);
+
+    expect(customId).toBe('pack-4_6.9.12_13-1718000000000');
+    expect(decodePackCustomId(customId)).toEqual([4, 5, 6, 9, 12, 13]);
+    expect(decodePackCustomId('payee-4-1718000000000')).toBeNull();
+  });
+});
+
+describe('packing', () => {
+  it('splits payees into packs of the normalized size', () => {
+    expect(packPayees([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+    expect(normalizePackSize(undefined)).toBe(1);
+    expect(normalizePackSize(3.7)).toBe(3);
+    expect(normalizePackSize(500)).toBe(MAX_PACK_SIZE);
+  });
+
+  it('numbers escaped names after the template system prompt', () => {
+    const template = getBuiltInPromptTemplate('batch_classification');
+    const prompt = renderPackedPrompt(template, ['ACME LLC', 'JOHN "JACK" SMITH']);
+
+    expect(prompt.system.startsWith(template.systemPrompt.slice(0, 40))).toBe(true);
+    expect(prompt.user).toContain('1. "ACME LLC"\n2. "JOHN \\"JACK\\" SMITH"');
+  });
+
+  it('shares billed tokens between the payees of a pack', () => {
+    const usage = { model: 'm', promptTokens: 900, completionTokens: 300, totalTokens: 1200, costUsd: 0.03 };
+
+    expect(splitTokenUsage(usage, 3)).toEqual({ model: 'm', promptTokens: 300, completionTokens: 100, totalTokens: 400, costUsd: 0.01 });
+    expect(splitTokenUsage(usage, 1)).toBe(usage);
+  });
+});
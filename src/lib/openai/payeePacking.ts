@@ -0,0 +1,90 @@
+/**
+ * Packing several payees into one batch request. The system prompt and few-shot
+ * examples are then billed once per pack instead of once per payee. Payees are
+ * numbered in the request and answered by number. Each request's custom_id lists
+ * the payee indexes it carries, so results can be unpacked without the input file.
+ */
+
+import { PromptTemplate, renderPromptTemplate, RenderedPrompt } from './promptTemplates';
+import { encodePromptValue } from './promptSafety';
+import { TokenUsage } from '../types';
+
+/** One payee per request, the original unpacked behavior */
+export const DEFAULT_PACK_SIZE = 1;
+/** Keeps packed answers well inside the output limit and custom_ids short */
+export const MAX_PACK_SIZE = 25;
+
+const PACK_CUSTOM_ID_PATTERN = /^pack-([\d._]+)-\d+$/;
+
+export const PACKED_CLASSIFICATION_INSTRUCTIONS = `You will receive several numbered payee names at once. Classify each one independently, exactly as you would a single payee, and return one entry per payee in "results" with "index" set to the payee's number. Never skip, merge or renumber payees.`;
+
+/**
+ * Clamp a requested pack size to a whole number from 1 to MAX_PACK_SIZE
+ */
+export function normalizePackSize(packSize: number | undefined): number {
+  if (!packSize || !Number.isFinite(packSize)) return DEFAULT_PACK_SIZE;
+  return Math.min(MAX_PACK_SIZE, Math.max(DEFAULT_PACK_SIZE, Math.floor(packSize)));
+}
+
+export function packPayees<T>(payees: T[], packSize: number): T[][] {
+  const packs: T[][] = [];
+  for (let start = 0; start < payees.length; start += packSize) {
+    packs.push(payees.slice(start, start + packSize));
+  }
+  return packs;
+}
+
+/**
+ * custom_id for a pack: its payee indexes as runs, e.g. `pack-4_9.12-1718000000000`
+ * for payees 4 to 9 and 12
+ */
+export function encodePackCustomId(indexes: number[], timestamp: number = Date.now()): string {
+  const runs: string[] = [];
+  let start = indexes[0];
+  for (let i = 1; i <= indexes.length; i++) {
+    if (i < indexes.length && indexes[i] === indexes[i - 1] + 1) continue;
+    const end = indexes[i - 1];
+    runs.push(start === end ? `${start}` : `${start}_${end}`);
+    start = indexes[i];
+  }
+  return `pack-${runs.join('.')}-${timestamp}`;
+}
+
+/**
+ * Payee indexes of a packed request in request order, or null for unpacked requests
+ */
+export function decodePackCustomId(customId: string): number[] | null {
+  const match = PACK_CUSTOM_ID_PATTERN.exec(customId);
+  if (!match) return null;
+  return match[1].split('.').flatMap(run => {
+    const [start, end = start] = run.split('_').map(Number);
+    return Array.from({ length: end - start + 1 }, (_, offset) => start + offset);
+  });
+}
+
+/**
+ * Render a packed request from a batch template: the template's system prompt plus
+ * the packing instructions, and the names numbered from 1 in the user message
+ */
+export function renderPackedPrompt(template: PromptTemplate, payeeNames: string[]): RenderedPrompt {
+  const { system } = renderPromptTemplate(template, { payeeName: '' });
+  const lines = payeeNames.map((name, position) => `${position + 1}. "${encodePromptValue(name)}"`);
+  return {
+    system: `${system}\n\n${PACKED_CLASSIFICATION_INSTRUCTIONS}`,
+    user: `Classify each of these ${payeeNames.length} payee names and assign SIC codes to businesses:\n${lines.join('\n')}`
+  };
+}
+
+/**
+ * Share a packed request's billed tokens equally between the payees it carried
+ */
+export function splitTokenUsage(usage: TokenUsage | undefined, parts: number): TokenUsage | undefined {
+  if (!usage || parts <= 1) return usage;
+  return {
+    ...usage,
+    promptTokens: Math.round(usage.promptTokens / parts),
+    completionTokens: Math.round(usage.completionTokens / parts),
+    totalTokens: Math.round(usage.totalTokens / parts),
+    costUsd: usage.costUsd === null ? null : usage.costUsd / parts
+  };
+}
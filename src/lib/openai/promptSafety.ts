@@ -0,0 +1,116 @@
+/**
+ * Guards for payee names that end up inside AI prompts. Names are untrusted text from
+ * uploaded files: every name is cleaned and escaped before it is placed in a prompt,
+ * and names that read like instructions to the model are never sent at all.
+ */
+
+import { ClassificationResult } from '../types';
+import { performOfflineClassification } from '../classification/offlineClassification';
+import { detectBusinessByExtendedRules, detectIndividualByExtendedRules } from '../classification/enhancedRules';
+
+/** Longest name sent to the model; real payees are far shorter */
+export const MAX_PROMPT_VALUE_LENGTH = 200;
+
+/** Suspicious rows are capped below the review threshold so each one is queued for review */
+export const SUSPICIOUS_INPUT_MAX_CONFIDENCE = 70;
+
+export interface PromptInjectionCheck {
+  suspicious: boolean;
+  reasons: string[];
+}
+
+// Invisible or direction-changing characters that can hide text from reviewers
+const INVISIBLE_CHARACTERS = /[\u200B-\u200F\u202A-\u202E\u2060-\u2069\uFEFF]/g;
+
+const INJECTION_PATTERNS: Array<{ pattern: RegExp; reason: string }> = [
+  {
+    pattern: /\b(ignore|disregard|forget|override|bypass)\b.{0,30}\b(previous|prior|above|earlier|preceding|all|any|your|the)\b.{0,20}\b(instructions?|prompts?|rules?|directions?|guidelines?)\b/i,
+    reason: 'Asks the model to ignore its instructions'
+  },
+  { pattern: /\b(system|developer)\s+(prompt|message|instructions?)\b/i, reason: 'Refers to the system prompt' },
+  { pattern: /\bnew\s+instructions?\b/i, reason: 'Gives new instructions' },
+  { pattern: /\byou\s+are\s+now\b|\bact\s+as\s+(an?|the)\s+\w+\s+(model|assistant|ai)\b/i, reason: 'Tries to change the model\'s role' },
+  { pattern: /(^|[\s"'])(system|assistant|user)\s*:/i, reason: 'Contains a chat role marker' },
+  { pattern: /<\|[^|]*\|>|\[\/?INST\]|<\/?(system|assistant|user)>/i, reason: 'Contains chat control tokens' },
+  { pattern: /```/, reason: 'Contains a code block' },
+  { pattern: /\b(respond|reply|answer)\s+(only\s+)?with\b|\boutput\s+only\b/i, reason: 'Dictates the model\'s answer' },
+  { pattern: /\b(classify|label|mark)\b.{0,30}\bas\s+(an?\s+)?["']?(business|individual)\b/i, reason: 'Dictates the classification' },
+  { pattern: /["']?\b(classification|entityType|confidence|sicCode|is_duplicate)\b["']?\s*:/i, reason: 'Contains answer fields' },
+  { pattern: /\bjailbreak\b|\bprompt\s+injection\b/i, reason: 'Mentions prompt manipulation' }
+];
+
+/** Replace C0/C1 control characters (newlines included) with spaces */
+function stripControlCharacters(value: string): string {
+  return Array.from(value, char => {
+    const code = char.charCodeAt(0);
+    return code < 0x20 || (code >= 0x7f && code <= 0x9f) ? ' ' : char;
+  }).join('');
+}
+
+/**
+ * Strip control and invisible characters, collapse whitespace and cap the length
+ */
+export function sanitizePromptValue(value: string): string {
+  return stripControlCharacters(value.replace(INVISIBLE_CHARACTERS, ''))
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_PROMPT_VALUE_LENGTH);
+}
+
+/**
+ * Sanitize a value and escape it as the inside of a JSON string, so quotes and
+ * backslashes in a name cannot close the quotes templates put around it
+ */
+export function encodePromptValue(value: string): string {
+  return JSON.stringify(sanitizePromptValue(value)).slice(1, -1);
+}
+
+/**
+ * Look for instruction-like content in a payee name
+ */
+export function detectPromptInjection(payeeName: string): PromptInjectionCheck {
+  const cleaned = stripControlCharacters((payeeName || '').replace(INVISIBLE_CHARACTERS, ''));
+  const reasons = INJECTION_PATTERNS
+    .filter(({ pattern }) => pattern.test(cleaned))
+    .map(({ reason }) => reason);
+  if (cleaned.trim().length > MAX_PROMPT_VALUE_LENGTH) {
+    reasons.push(`Longer than ${MAX_PROMPT_VALUE_LENGTH} characters`);
+  }
+  return { suspicious: reasons.length > 0, reasons };
+}
+
+export function isSuspiciousPayeeName(payeeName: string): boolean {
+  return detectPromptInjection(payeeName).suspicious;
+}
+
+/**
+ * Flag a result computed without AI for a suspicious name: dedicated tier, capped
+ * confidence and the detection reasons in the reasoning
+ */
+export function toSuspiciousInputResult(
+  result: ClassificationResult,
+  check: PromptInjectionCheck
+): ClassificationResult {
+  return {
+    ...result,
+    confidence: Math.min(result.confidence, SUSPICIOUS_INPUT_MAX_CONFIDENCE),
+    reasoning: `Not sent to AI - name looks like instructions (${check.reasons.join('; ')}). ${result.reasoning}`,
+    processingTier: 'Suspicious Input',
+    processingMethod: `Prompt-injection screen, then ${result.processingMethod || 'local classification'}`
+  };
+}
+
+/**
+ * Offline, flagged result for a name that must not be sent to AI, or null when the
+ * name is safe to send. For real-time paths that call the model directly.
+ */
+export function screenPayeeName(payeeName: string): ClassificationResult | null {
+  const check = detectPromptInjection(payeeName);
+  if (!check.suspicious) return null;
+  const offlineResult = performOfflineClassification(
+    payeeName,
+    detectBusinessByExtendedRules(payeeName).rules,
+    detectIndividualByExtendedRules(payeeName).rules
+  );
+  return toSuspiciousInputResult(offlineResult, check);
+}
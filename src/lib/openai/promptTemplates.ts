@@ -0,0 +1,239 @@
+/**
+ * Versioned prompt templates for every AI call. Built-in templates reproduce the
+ * original hardcoded prompts; user versions are stored in Supabase and never edited
+ * in place, so the id recorded on a job or result always identifies the exact prompt.
+ */
+
+import { encodePromptValue } from './promptSafety';
+
+export type PromptPurpose = 'batch_classification' | 'single_classification' | 'duplicate_detection';
+
+export const PROMPT_PURPOSE_LABELS: Record<PromptPurpose, string> = {
+  batch_classification: 'Batch classification',
+  single_classification: 'Single classification',
+  duplicate_detection: 'Duplicate detection'
+};
+
+/**
+ * Variables filled in per call rather than defined by the template
+ */
+export const PROMPT_RUNTIME_VARIABLES: Record<PromptPurpose, string[]> = {
+  batch_classification: ['payeeName'],
+  single_classification: ['payeeName'],
+  duplicate_detection: ['payeeName1', 'payeeName2']
+};
+
+export const PROMPT_PREVIEW_VALUES: Record<string, string> = {
+  payeeName: 'SMITH PLUMBING LLC',
+  payeeName1: 'WALMART INC',
+  payeeName2: 'WAL-MART STORES'
+};
+
+export interface PromptTemplate {
+  id: string;
+  templateKey: string;
+  name: string;
+  purpose: PromptPurpose;
+  version: number;
+  systemPrompt: string;
+  userPrompt: string;
+  variables: Record<string, string>;
+  notes?: string | null;
+  createdBy?: string | null;
+  createdAt?: string;
+  builtIn: boolean;
+}
+
+export interface RenderedPrompt {
+  system: string;
+  user: string;
+}
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+const BATCH_SIC_EXAMPLES = `- 7372: Prepackaged Software
+- 8742: Management Consulting Services  
+- 5411: Grocery Stores
+- 8011: Offices of Doctors of Medicine
+- 6021: National Commercial Banks
+- 7011: Hotels and Motels
+- 5812: Eating Places
+- 1521: General Contractors-Single Family Houses
+- 7381: Detective Guard & Armored Car Services
+- 8999: Services, Not Elsewhere Classified`;
+
+const SINGLE_SIC_EXAMPLES = `- Healthcare: 8011 (Offices of Physicians), 8021 (Offices of Dentists)
+- Retail: 5311 (Department Stores), 5411 (Grocery Stores)  
+- Construction: 1521 (General Building Contractors)
+- Professional: 8111 (Legal Services), 8721 (Accounting Services)
+- Manufacturing: 2000-3999 range
+- Services: 7000-8999 range`;
+
+export const BUILT_IN_PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'builtin-batch-classification-v1',
+    templateKey: 'builtin-batch-classification',
+    name: 'Standard batch classification',
+    purpose: 'batch_classification',
+    version: 1,
+    builtIn: true,
+    variables: { sicExamples: BATCH_SIC_EXAMPLES },
+    systemPrompt: `You are an expert at classifying payee names as either "Business" or "Individual". 
+
+Also assign an entityType, one of: "Individual", "Sole Proprietor", "Business", "Financial Institution", "Nonprofit", "Government", "Trust/Estate". Use "Individual" only for natural persons; a person operating under a trade name (e.g. "DBA") is a "Sole Proprietor". Every entityType except "Individual" has classification "Business". Government entities use SIC code 9199.
+
+For BUSINESS entities, you must also assign a 4-digit SIC (Standard Industrial Classification) code and description based on the business type.
+
+Common SIC codes:
+{{sicExamples}}
+
+Return ONLY a JSON object with these exact fields:
+- classification: "Business" or "Individual"
+- entityType: one of the entity types listed above
+- confidence: number (0-100)
+- reasoning: string explaining the classification
+- sicCode: string (4-digit code, only for businesses, null for individuals)
+- sicDescription: string (description, only for businesses, null for individuals)
+
+Example responses:
+{"classification": "Business", "entityType": "Business", "confidence": 95, "reasoning": "Contains LLC suffix indicating business entity", "sicCode": "8742", "sicDescription": "Management Consulting Services"}
+{"classification": "Business", "entityType": "Government", "confidence": 97, "reasoning": "Municipal government body", "sicCode": "9199", "sicDescription": "General Government, Not Elsewhere Classified"}
+{"classification": "Individual", "entityType": "Individual", "confidence": 90, "reasoning": "Appears to be a person's name with first and last name", "sicCode": null, "sicDescription": null}`,
+    userPrompt: `Classify this payee name and assign SIC code if it's a business: "{{payeeName}}"`
+  },
+  {
+    id: 'builtin-single-classification-v1',
+    templateKey: 'builtin-single-classification',
+    name: 'Standard single classification',
+    purpose: 'single_classification',
+    version: 1,
+    builtIn: true,
+    variables: { sicExamples: SINGLE_SIC_EXAMPLES },
+    systemPrompt: `You are an expert payee classifier that determines if a name belongs to a business or individual, and assigns SIC codes to businesses.
+
+CRITICAL INSTRUCTIONS:
+1. For businesses: ALWAYS provide a 4-digit SIC code and description
+2. For individuals: Set sicCode and sicDescription to null
+3. Use SIC 7389 (Business Services, NEC) for unclear business types
+4. Government entities use SIC 9199 (General Government, NEC)
+5. Assign an entityType: "Individual", "Sole Proprietor", "Business", "Financial Institution", "Nonprofit", "Government" or "Trust/Estate"
+6. Only natural persons are "Individual"; a person trading under a business name (e.g. "DBA") is a "Sole Proprietor". Every other entityType has classification "Business"
+
+SIC Code Examples:
+{{sicExamples}}
+
+Return JSON: {"classification": "Business|Individual", "entityType": "one of the entity types above", "confidence": number, "reasoning": "brief explanation", "sicCode": "4-digit code or null", "sicDescription": "description or null"}`,
+    userPrompt: `Classify and determine SIC code for: "{{payeeName}}"`
+  },
+  {
+    id: 'builtin-duplicate-detection-v1',
+    templateKey: 'builtin-duplicate-detection',
+    name: 'Standard duplicate detection',
+    purpose: 'duplicate_detection',
+    version: 1,
+    builtIn: true,
+    variables: {},
+    systemPrompt: 'You are a duplicate detection expert. Analyze payee names and return accurate JSON responses.',
+    userPrompt: `You are an expert at analyzing payee names to determine if they represent the same entity. Compare these two payee names and determine if they are duplicates.
+
+PAYEE NAME 1: "{{payeeName1}}"
+PAYEE NAME 2: "{{payeeName2}}"
+
+SPECIFIC ANALYSIS REQUIRED:
+1. Are these names referring to the same person or business entity?
+2. Consider variations in business suffixes (INC, LLC, CORP, etc.) - these are usually the SAME entity
+3. Consider case variations, abbreviations, and formatting differences
+4. Consider partial names vs full names of the same entity
+
+KEY DUPLICATE INDICATORS:
+- Same core name with different business suffixes (INC, LLC, etc.) → DUPLICATE
+- Case-only differences ("CHRISTA" vs "Christa") → DUPLICATE  
+- Abbreviations vs full forms ("McDonald's" vs "McDonalds") → DUPLICATE
+- Punctuation differences ("AT&T" vs "AT T") → DUPLICATE
+- Partial vs full names of same entity ("J Smith" vs "John Smith") → DUPLICATE
+
+IMPORTANT: Focus on whether these represent the SAME REAL-WORLD ENTITY, not just textual similarity.
+
+Examples:
+- "Christa INC" vs "CHRISTA" vs "Christa" → ALL DUPLICATES (same person/entity with variations)
+- "WALMART INC" vs "WAL-MART STORES" → DUPLICATE (same company)
+- "John Smith" vs "Jonathan Smith" → LIKELY NOT DUPLICATE (different people)
+- "ABC Company LLC" vs "ABC Company Corp" → DUPLICATE (same business, different structure)
+
+Return your analysis as JSON:
+{
+  "is_duplicate": boolean,
+  "confidence": number (0-100),
+  "reasoning": "Explain WHY these names represent the same or different real-world entities"
+}`
+  }
+];
+
+export function getBuiltInPromptTemplate(purpose: PromptPurpose): PromptTemplate {
+  const template = BUILT_IN_PROMPT_TEMPLATES.find(t => t.purpose === purpose);
+  if (!template) {
+    throw new Error(`No built-in prompt template for ${purpose}`);
+  }
+  return template;
+}
+
+/**
+ * Human-readable version label, e.g. "Standard batch classification v1"
+ */
+export function formatPromptVersion(template: Pick<PromptTemplate, 'name' | 'version'>): string {
+  return `${template.name} v${template.version}`;
+}
+
+/**
+ * Distinct {{variable}} names used in a prompt, in order of first use
+ */
+export function extractTemplateVariables(text: string): string[] {
+  const names: string[] = [];
+  for (const match of text.matchAll(VARIABLE_PATTERN)) {
+    if (!names.includes(match[1])) names.push(match[1]);
+  }
+  return names;
+}
+
+/**
+ * Check a template before it is saved; returns an error message or null
+ */
+export function validatePromptTemplate(
+  template: Pick<PromptTemplate, 'name' | 'purpose' | 'systemPrompt' | 'userPrompt' | 'variables'>
+): string | null {
+  if (!template.name.trim()) return 'Template name is required';
+  if (!(template.purpose in PROMPT_PURPOSE_LABELS)) return `Unknown prompt purpose "${template.purpose}"`;
+  if (!template.systemPrompt.trim()) return 'System prompt is required';
+  if (!template.userPrompt.trim()) return 'User prompt is required';
+
+  const runtime = PROMPT_RUNTIME_VARIABLES[template.purpose];
+  const used = extractTemplateVariables(`${template.systemPrompt}\n${template.userPrompt}`);
+  const undefinedVariables = used.filter(name => !runtime.includes(name) && !(name in template.variables));
+  if (undefinedVariables.length > 0) {
+    return `Undefined variables: ${undefinedVariables.join(', ')}`;
+  }
+  const missingRuntime = runtime.filter(name => !used.includes(name));
+  if (missingRuntime.length > 0) {
+    return `The prompt must include ${missingRuntime.map(name => `{{${name}}}`).join(' and ')}`;
+  }
+  return null;
+}
+
+/**
+ * Fill in template variables and per-call values; per-call values take precedence.
+ * Runtime values such as payee names are untrusted and encoded before they are inserted.
+ */
+export function renderPromptTemplate(template: PromptTemplate, values: Record<string, string>): RenderedPrompt {
+  const runtime = PROMPT_RUNTIME_VARIABLES[template.purpose] || [];
+  const encoded = Object.fromEntries(Object.entries(values).map(([name, value]) =>
+    [name, runtime.includes(name) ? encodePromptValue(value) : value]
+  ));
+  const allValues = { ...template.variables, ...encoded };
+  const fill = (text: string) => text.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    name in allValues ? allValues[name] : placeholder
+  );
+  return {
+    system: fill(template.systemPrompt),
+    user: fill(template.userPrompt)
+  };
+}
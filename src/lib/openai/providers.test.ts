@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import OpenAI, { AzureOpenAI } from 'openai';
+import {
+  clearProviderSettings,
+  createProviderClient,
+  getActiveProviderSettings,
+  getBatchEndpoint,
+  getProviderClient,
+  getRequestModel,
+  saveProviderSettings,
+  validateProviderSettings
+} from './providers';
+
+beforeEach(() => {
+  localStorage.clear();
+  clearProviderSettings();
+});
+
+describe('validateProviderSettings', () => {
+  it('accepts complete settings', () => {
+    expect(() => validateProviderSettings({ type: 'openai', model: 'gpt-4o-mini' })).not.toThrow();
+    expect(() => validateProviderSettings({
+      type: 'azure-openai',
+      model: 'gpt-4o',
+      baseURL: 'https://acme.openai.azure.com',
+      apiVersion: '2024-10-21',
+      deployment: 'classifier'
+    })).not.toThrow();
+  });
+
+  it('names what each provider is missing', () => {
+    expect(() => validateProviderSettings({ type: 'openai', model: ' ' }))
+      .toThrow('A model name is required for the openai provider');
+    expect(() => validateProviderSettings({ type: 'azure-openai', model: 'gpt-4o', apiVersion: '2024-10-21' }))
+      .toThrow('Azure OpenAI requires the resource endpoint URL');
+    expect(() => validateProviderSettings({ type: 'azure-openai', model: 'gpt-4o', baseURL: 'https://acme.openai.azure.com' }))
+      .toThrow('Azure OpenAI requires an API version');
+    expect(() => validateProviderSettings({
+      type: 'azure-openai',
+      model: 'gpt-4o',
+      baseURL: 'https://acme.openai.azure.com',
+      apiVersion: '2024-10-21'
+    })).toThrow('Azure OpenAI requires the deployment name of the model');
+    expect(() => validateProviderSettings({ type: 'ollama', model: 'llama3.1' }))
+      .toThrow('The ollama provider requires a base URL');
+  });
+});
+
+describe('createProviderClient', () => {
+  it('builds an Azure client for the deployment', () => {
+    const client = createProviderClient({
+      type: 'azure-openai',
+      model: 'gpt-4o',
+      deployment: 'classifier',
+      baseURL: 'https://acme.openai.azure.com',
+      apiVersion: '2024-10-21',
+      apiKey: 'azure-key'
+    });
+
+    expect(client).toBeInstanceOf(AzureOpenAI);
+    expect(client.baseURL).toBe('https://acme.openai.azure.com/openai');
+  });
+
+  it('points self-hosted providers at their base URL without needing a key', () => {
+    const client = createProviderClient({
+      type: 'ollama',
+      model: 'llama3.1',
+      baseURL: 'http://localhost:11434/v1',
+      apiKey: 'gateway-key',
+      authHeader: 'X-Api-Key'
+    });
+
+    expect(client).toBeInstanceOf(OpenAI);
+    expect(client.baseURL).toBe('http://localhost:11434/v1');
+    expect(createProviderClient({ type: 'openai-compatible', model: 'mistral', baseURL: 'http://localhost:8000/v1' }).apiKey)
+      .toBe('not-required');
+  });
+
+  it('rejects invalid settings and a missing OpenAI key', () => {
+    expect(() => createProviderClient({ type: 'azure-openai', model: 'gpt-4o', apiKey: 'azure-key' }))
+      .toThrow('Azure OpenAI requires the resource endpoint URL');
+    expect(() => createProviderClient({ type: 'openai', model: 'gpt-4o-mini' }))
+      .toThrow('No OpenAI API key provided');
+  });
+});
+
+describe('getProviderClient', () => {
+  it('reuses clients until the settings are saved again', () => {
+    const settings = { type: 'ollama' as const, model: 'llama3.1', baseURL: 'http://localhost:11434/v1' };
+    const first = getProviderClient(settings);
+
+    expect(getProviderClient({ ...settings })).toBe(first);
+    expect(getProviderClient({ ...settings, model: 'qwen2.5' })).not.toBe(first);
+
+    saveProviderSettings(settings);
+    expect(getProviderClient(settings)).not.toBe(first);
+  });
+});
+
+describe('saveProviderSettings', () => {
+  it('stores a key token instead of the key and merges provider defaults', () => {
+    saveProviderSettings({ type: 'ollama', model: 'llama3.1', baseURL: 'http://gpu-box:11434/v1', apiKey: 'secret' });
+
+    expect(localStorage.getItem('ai_provider_settings')).not.toContain('secret');
+    expect(getActiveProviderSettings()).toMatchObject({
+      type: 'ollama',
+      model: 'llama3.1',
+      baseURL: 'http://gpu-box:11434/v1',
+      supportsBatchAPI: false,
+      apiKeyToken: expect.any(String)
+    });
+  });
+
+  it('refuses settings that cannot connect', () => {
+    expect(() => saveProviderSettings({ type: 'openai-compatible', model: 'mistral' }))
+      .toThrow('The openai-compatible provider requires a base URL');
+    expect(getActiveProviderSettings()).toBeNull();
+  });
+});
+
+describe('getRequestModel', () => {
+  const azure = {
+    type: 'azure-openai' as const,
+    model: 'gpt-4o',
+    deployment: 'classifier',
+    baseURL: 'https://acme.openai.azure.com',
+    apiVersion: '2024-10-21'
+  };
+
+  it('sends the deployment name for the configured Azure model', () => {
+    expect(getRequestModel('gpt-4o', azure)).toBe('classifier');
+    expect(getRequestModel('gpt-4o-mini', azure)).toBe('gpt-4o-mini');
+    expect(getRequestModel('gpt-4o', { type: 'openai', model: 'gpt-4o' })).toBe('gpt-4o');
+    expect(getRequestModel('gpt-4o', null)).toBe('gpt-4o');
+  });
+
+  it('uses the stored provider by default', () => {
+    saveProviderSettings(azure);
+    expect(getRequestModel('gpt-4o')).toBe('classifier');
+    expect(getBatchEndpoint()).toBe('/chat/completions');
+  });
+});
+
+describe('getBatchEndpoint', () => {
+  it('drops the version prefix only for Azure', () => {
+    expect(getBatchEndpoint(null)).toBe('/v1/chat/completions');
+    expect(getBatchEndpoint({ type: 'openai-compatible', model: 'mistral', baseURL: 'http://localhost:8000/v1' }))
+      .toBe('/v1/chat/completions');
+  });
+});
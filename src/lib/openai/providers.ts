@@ -0,0 +1,204 @@
+import OpenAI, { AzureOpenAI } from 'openai';
+import { storeApiKey, getApiKey } from '@/lib/backend/apiKeyService';
+import { CLASSIFICATION_MODEL } from './config';
+import type { AIProviderType, AIProviderSettings } from '@/lib/types/unified';
+
+export type { AIProviderType, AIProviderSettings };
+
+const PROVIDER_SETTINGS_KEY = 'ai_provider_settings';
+
+export const DEFAULT_PROVIDER_SETTINGS: Record<AIProviderType, AIProviderSettings> = {
+  'openai': {
+    type: 'openai',
+    model: CLASSIFICATION_MODEL,
+    supportsBatchAPI: true
+  },
+  'azure-openai': {
+    type: 'azure-openai',
+    model: CLASSIFICATION_MODEL,
+    apiVersion: '2024-10-21',
+    supportsBatchAPI: true
+  },
+  'openai-compatible': {
+    type: 'openai-compatible',
+    model: '',
+    baseURL: 'http://localhost:8000/v1',
+    supportsBatchAPI: false
+  },
+  'ollama': {
+    type: 'ollama',
+    model: 'llama3.1',
+    baseURL: 'http://localhost:11434/v1',
+    supportsBatchAPI: false
+  }
+};
+
+const clientCache = new Map<string, OpenAI>();
+
+/**
+ * Load the active provider settings from browser storage
+ */
+export function getActiveProviderSettings(): AIProviderSettings | null {
+  try {
+    const raw = localStorage.getItem(PROVIDER_SETTINGS_KEY);
+    if (!raw) return null;
+    const stored = JSON.parse(raw) as AIProviderSettings;
+    return { ...DEFAULT_PROVIDER_SETTINGS[stored.type], ...stored };
+  } catch (error) {
+    console.error('[AI PROVIDER] Failed to read provider settings:', error);
+    return null;
+  }
+}
+
+/**
+ * Persist provider settings. The API key itself goes through the secure key store
+ * and only its retrieval token is kept alongside the settings.
+ */
+export function saveProviderSettings(settings: AIProviderSettings): AIProviderSettings {
+  validateProviderSettings(settings);
+
+  const { apiKey, ...rest } = settings;
+  const toStore: AIProviderSettings = { ...rest };
+  if (apiKey && apiKey.trim() !== '') {
+    toStore.apiKeyToken = storeApiKey(apiKey.trim());
+  }
+
+  localStorage.setItem(PROVIDER_SETTINGS_KEY, JSON.stringify(toStore));
+  clientCache.clear();
+  console.log(`[AI PROVIDER] Saved ${settings.type} provider settings (model: ${settings.model})`);
+  return toStore;
+}
+
+/**
+ * Remove custom provider settings and fall back to the stock OpenAI client
+ */
+export function clearProviderSettings(): void {
+  localStorage.removeItem(PROVIDER_SETTINGS_KEY);
+  clientCache.clear();
+}
+
+/**
+ * True when a non-default provider has been configured
+ */
+export function hasCustomProvider(): boolean {
+  const settings = getActiveProviderSettings();
+  return settings !== null && settings.type !== 'openai';
+}
+
+/**
+ * Throws when the settings are missing anything the provider needs to connect
+ */
+export function validateProviderSettings(settings: AIProviderSettings): void {
+  if (!settings.model || settings.model.trim() === '') {
+    throw new Error(`A model name is required for the ${settings.type} provider`);
+  }
+
+  switch (settings.type) {
+    case 'azure-openai':
+      if (!settings.baseURL) {
+        throw new Error('Azure OpenAI requires the resource endpoint URL');
+      }
+      if (!settings.apiVersion) {
+        throw new Error('Azure OpenAI requires an API version');
+      }
+      if (!settings.deployment || settings.deployment.trim() === '') {
+        throw new Error('Azure OpenAI requires the deployment name of the model');
+      }
+      break;
+    case 'openai-compatible':
+    case 'ollama':
+      if (!settings.baseURL) {
+        throw new Error(`The ${settings.type} provider requires a base URL`);
+      }
+      break;
+    default:
+      break;
+  }
+}
+
+function resolveApiKey(settings: AIProviderSettings): string | undefined {
+  if (settings.apiKey) return settings.apiKey;
+  if (settings.apiKeyToken) return getApiKey(settings.apiKeyToken) || undefined;
+  return undefined;
+}
+
+/**
+ * Build an OpenAI SDK client pointed at the given provider
+ */
+export function createProviderClient(settings: AIProviderSettings): OpenAI {
+  validateProviderSettings(settings);
+  const apiKey = resolveApiKey(settings);
+  const defaultHeaders = settings.authHeader && apiKey
+    ? { [settings.authHeader]: apiKey }
+    : undefined;
+
+  switch (settings.type) {
+    case 'azure-openai':
+      // No fixed deployment: each request is routed by its model field, see getRequestModel
+      return new AzureOpenAI({
+        endpoint: settings.baseURL,
+        apiKey,
+        apiVersion: settings.apiVersion,
+        defaultHeaders,
+        dangerouslyAllowBrowser: true
+      });
+    case 'openai-compatible':
+    case 'ollama':
+      // Self-hosted servers usually ignore the key but the SDK requires a value
+      return new OpenAI({
+        apiKey: apiKey || 'not-required',
+        baseURL: settings.baseURL,
+        defaultHeaders,
+        dangerouslyAllowBrowser: true
+      });
+    case 'openai':
+    default:
+      if (!apiKey) {
+        throw new Error('No OpenAI API key provided. Please set your API key first.');
+      }
+      return new OpenAI({
+        apiKey,
+        baseURL: settings.baseURL,
+        defaultHeaders,
+        dangerouslyAllowBrowser: true
+      });
+  }
+}
+
+/**
+ * Return a cached client for the given provider settings
+ */
+export function getProviderClient(settings: AIProviderSettings): OpenAI {
+  const cacheKey = JSON.stringify(settings);
+  let client = clientCache.get(cacheKey);
+  if (!client) {
+    client = createProviderClient(settings);
+    clientCache.set(cacheKey, client);
+  }
+  return client;
+}
+
+/**
+ * The model name that classification calls should use for the active provider
+ */
+export function getActiveModel(): string {
+  return getActiveProviderSettings()?.model || CLASSIFICATION_MODEL;
+}
+
+/**
+ * The name a request sends in its model field. Azure routes requests by deployment,
+ * so the configured model is sent as its deployment name.
+ */
+export function getRequestModel(model: string, settings: AIProviderSettings | null = getActiveProviderSettings()): string {
+  if (settings?.type === 'azure-openai' && settings.deployment && model === settings.model) {
+    return settings.deployment;
+  }
+  return model;
+}
+
+/**
+ * Chat completions path for batch request lines and the batch endpoint; Azure has no /v1 prefix
+ */
+export function getBatchEndpoint(settings: AIProviderSettings | null = getActiveProviderSettings()): string {
+  return settings?.type === 'azure-openai' ? '/chat/completions' : '/v1/chat/completions';
+}
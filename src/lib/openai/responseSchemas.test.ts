@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { parseClassificationResponse, parseDuplicateJudgmentResponse, parsePackedClassificationResponse } from './responseSchemas';
+
+const choice = (content: unknown, extra: { refusal?: string; finish_reason?: string } = {}) => ({
+  message: {
+    content: typeof content === 'string' ? content : JSON.stringify(content),
+    refusal: extra.refusal ?? null
+  },
+  finish_reason: extra.finish_reason ?? 'stop'
+});
+
+const business = {
+  classification: 'Business',
+  entityType: 'Government',
+  confidence: 97,
+  reasoning: 'Municipal body',
+  sicCode: '9199',
+  sicDescription: 'General Government, Not Elsewhere Classified'
+};
+
+describe('parseClassificationResponse', () => {
+  it('returns typed answers and drops SIC fields for individuals', () => {
+    expect(parseClassificationResponse(choice(business))).toEqual({ success: true, value: business });
+    expect(parseClassificationResponse(choice({
+      ...business, classification: 'Individual', entityType: 'Individual'
+    })).value).toMatchObject({ sicCode: null, sicDescription: null });
+  });
+
+  it('reports why a row could not be used', () => {
+    expect(parseClassificationResponse(choice('{"classification": "Busi')).error).toMatch(/^Invalid JSON/);
+    expect(parseClassificationResponse(choice(business, { finish_reason: 'length' })).error).toMatch(/token limit/);
+    expect(parseClassificationResponse(choice('', { refusal: 'Cannot help' })).error).toBe('Model refused: Cannot help');
+    expect(parseClassificationResponse(choice({ ...business, confidence: 140 })).error).toMatch(/confidence/);
+    expect(parseClassificationResponse(choice({ ...business, classification: 'Individual' })).error).toMatch(/contradicts/);
+    expect(parseClassificationResponse(choice({ ...business, sicCode: null })).error).toMatch(/4-digit sicCode/);
+    expect(parseClassificationResponse(undefined).error).toBe('Empty response');
+  });
+});
+
+describe('parsePackedClassificationResponse', () => {
+  it('places answers by payee number and leaves gaps for omitted payees', () => {
+    const parsed = parsePackedClassificationResponse(choice({
+      results: [
+        { index: 3, ...business },
+        { index: 1, ...business, confidence: 140 },
+        { index: 7, ...business },
+        { index: 3, ...business, reasoning: 'Repeat' }
+      ]
+    }), 3);
+
+    expect(parsed.value?.[0]?.error).toMatch(/confidence/);
+    expect(parsed.value?.[1]).toBeUndefined();
+    expect(parsed.value?.[2]).toEqual({ success: true, value: business });
+    expect(parsePackedClassificationResponse(choice({ results: 'none' }), 2).error).toBe('results must be an array');
+  });
+});
+
+describe('parseDuplicateJudgmentResponse', () => {
+  it('validates every field', () => {
+    expect(parseDuplicateJudgmentResponse(choice({ is_duplicate: true, confidence: 88, reasoning: 'Same store' })))
+      .toEqual({ success: true, value: { is_duplicate: true, confidence: 88, reasoning: 'Same store' } });
+    expect(parseDuplicateJudgmentResponse(choice({ is_duplicate: 'yes', confidence: 88, reasoning: 'x' })).error)
+      .toMatch(/is_duplicate/);
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * JSON schemas sent as `response_format` with every AI call, and the matching parsers.
+ * Strict structured outputs make the model follow the schema; the parsers still check
+ * every field so refusals, truncated output and inconsistent answers become explicit
+ * errors on the row instead of being patched over with defaults.
+ */
+
+import type { ResponseFormatJSONSchema } from 'openai/resources/shared';
+import { EntityType } from '../types';
+import { ENTITY_TYPES, isEntityType, toBinaryClassification } from '../classification/entityTaxonomy';
+
+export interface ClassificationResponse {
+  classification: 'Business' | 'Individual';
+  entityType: EntityType;
+  confidence: number;
+  reasoning: string;
+  sicCode: string | null;
+  sicDescription: string | null;
+}
+
+export interface DuplicateJudgmentResponse {
+  is_duplicate: boolean;
+  confidence: number;
+  reasoning: string;
+}
+
+/**
+ * The parts of a chat completion choice the parsers read; matches both SDK responses
+ * and Batch API output lines
+ */
+export interface AIResponseChoice {
+  message?: {
+    content?: string | null;
+    refusal?: string | null;
+  };
+  finish_reason?: string | null;
+}
+
+export interface SchemaParseResult<T> {
+  success: boolean;
+  value?: T;
+  error?: string;
+}
+
+const SIC_CODE_PATTERN = '^\\d{4}$';
+
+const CLASSIFICATION_PROPERTIES = {
+  classification: { type: 'string', enum: ['Business', 'Individual'] },
+  entityType: { type: 'string', enum: ENTITY_TYPES },
+  confidence: { type: 'number', description: 'Confidence from 0 to 100' },
+  reasoning: { type: 'string' },
+  sicCode: { type: ['string', 'null'], pattern: SIC_CODE_PATTERN, description: '4-digit SIC code for businesses, null for individuals' },
+  sicDescription: { type: ['string', 'null'] }
+};
+const CLASSIFICATION_REQUIRED = ['classification', 'entityType', 'confidence', 'reasoning', 'sicCode', 'sicDescription'];
+
+export const CLASSIFICATION_RESPONSE_FORMAT: ResponseFormatJSONSchema = {
+  type: 'json_schema',
+  json_schema: {
+    name: 'payee_classification',
+    strict: true,
+    schema: {
+      type: 'object',
+      properties: CLASSIFICATION_PROPERTIES,
+      required: CLASSIFICATION_REQUIRED,
+      additionalProperties: false
+    }
+  }
+};
+
+/** One answer per numbered payee of a packed request, keyed by the payee's number */
+export const PACKED_CLASSIFICATION_RESPONSE_FORMAT: ResponseFormatJSONSchema = {
+  type: 'json_schema',
+  json_schema: {
+    name: 'packed_payee_classifications',
+    strict: true,
+    schema: {
+      type: 'object',
+      properties: {
+        results: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              index: { type: 'integer', description: 'Number of the payee in the request' },
+              ...CLASSIFICATION_PROPERTIES
+            },
+            required: ['index', ...CLASSIFICATION_REQUIRED],
+            additionalProperties: false
+          }
+        }
+      },
+      required: ['results'],
+      additionalProperties: false
+    }
+  }
+};
+
+export const DUPLICATE_JUDGMENT_RESPONSE_FORMAT: ResponseFormatJSONSchema = {
+  type: 'json_schema',
+  json_schema: {
+    name: 'duplicate_judgment',
+    strict: true,
+    schema: {
+      type: 'object',
+      properties: {
+        is_duplicate: { type: 'boolean' },
+        confidence: { type: 'number', description: 'Confidence from 0 to 100' },
+        reasoning: { type: 'string' }
+      },
+      required: ['is_duplicate', 'confidence', 'reasoning'],
+      additionalProperties: false
+    }
+  }
+};
+
+function parseObject(choice: AIResponseChoice | undefined): SchemaParseResult<Record<string, unknown>> {
+  const content = choice?.message?.content;
+  if (choice?.message?.refusal) {
+    return { success: false, error: `Model refused: ${choice.message.refusal}` };
+  }
+  if (choice?.finish_reason === 'length') {
+    return { success: false, error: 'Response was cut off at the token limit' };
+  }
+  if (!content || !content.trim()) {
+    return { success: false, error: 'Empty response' };
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    return { success: false, error: `Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}` };
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { success: false, error: 'Response is not a JSON object' };
+  }
+  return { success: true, value: parsed as Record<string, unknown> };
+}
+
+function isConfidence(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 100;
+}
+
+/**
+ * Validate a classification answer. Individuals never carry SIC fields, so any the
+ * model returned for one are dropped; every other inconsistency is an error.
+ */
+export function parseClassificationResponse(choice: AIResponseChoice | undefined): SchemaParseResult<ClassificationResponse> {
+  const object = parseObject(choice);
+  if (!object.success) return { success: false, error: object.error };
+  return validateClassificationAnswer(object.value);
+}
+
+/**
+ * Validate a packed answer for `count` numbered payees. Entry i holds the answer for
+ * payee number i + 1, or undefined when the model left that payee out; extra and
+ * repeated numbers are ignored.
+ */
+export function parsePackedClassificationResponse(
+  choice: AIResponseChoice | undefined,
+  count: number
+): SchemaParseResult<Array<SchemaParseResult<ClassificationResponse> | undefined>> {
+  const object = parseObject(choice);
+  if (!object.success) return { success: false, error: object.error };
+  const { results } = object.value;
+  if (!Array.isArray(results)) {
+    return { success: false, error: 'results must be an array' };
+  }
+
+  const answers: Array<SchemaParseResult<ClassificationResponse> | undefined> = new Array(count).fill(undefined);
+  for (const item of results) {
+    if (!item || typeof item !== 'object') continue;
+    const { index, ...fields } = item as Record<string, unknown>;
+    if (!Number.isInteger(index) || (index as number) < 1 || (index as number) > count) continue;
+    if (answers[(index as number) - 1]) continue;
+    answers[(index as number) - 1] = validateClassificationAnswer(fields);
+  }
+  return { success: true, value: answers };
+}
+
+function validateClassificationAnswer(fields: Record<string, unknown>): SchemaParseResult<ClassificationResponse> {
+  const { classification, entityType, confidence, reasoning, sicCode, sicDescription } = fields;
+
+  if (classification !== 'Business' && classification !== 'Individual') {
+    return { success: false, error: `classification must be "Business" or "Individual", got ${JSON.stringify(classification)}` };
+  }
+  if (!isEntityType(entityType)) {
+    return { success: false, error: `Unknown entityType ${JSON.stringify(entityType)}` };
+  }
+  if (toBinaryClassification(entityType) !== classification) {
+    return { success: false, error: `classification "${classification}" contradicts entityType "${entityType}"` };
+  }
+  if (!isConfidence(confidence)) {
+    return { success: false, error: `confidence must be a number from 0 to 100, got ${JSON.stringify(confidence)}` };
+  }
+  if (typeof reasoning !== 'string' || !reasoning.trim()) {
+    return { success: false, error: 'reasoning is missing' };
+  }
+
+  if (classification === 'Individual') {
+    return {
+      success: true,
+      value: { classification, entityType, confidence, reasoning, sicCode: null, sicDescription: null }
+    };
+  }
+  if (typeof sicCode !== 'string' || !new RegExp(SIC_CODE_PATTERN).test(sicCode)) {
+    return { success: false, error: `Business answers need a 4-digit sicCode, got ${JSON.stringify(sicCode)}` };
+  }
+  if (sicDescription !== null && typeof sicDescription !== 'string') {
+    return { success: false, error: 'sicDescription must be a string or null' };
+  }
+  return {
+    success: true,
+    value: { classification, entityType, confidence, reasoning, sicCode, sicDescription: (sicDescription as string | null) || null }
+  };
+}
+
+/**
+ * Validate a duplicate judgment answer
+ */
+export function parseDuplicateJudgmentResponse(choice: AIResponseChoice | undefined): SchemaParseResult<DuplicateJudgmentResponse> {
+  const object = parseObject(choice);
+  if (!object.success) return { success: false, error: object.error };
+  const { is_duplicate, confidence, reasoning } = object.value;
+
+  if (typeof is_duplicate !== 'boolean') {
+    return { success: false, error: `is_duplicate must be true or false, got ${JSON.stringify(is_duplicate)}` };
+  }
+  if (!isConfidence(confidence)) {
+    return { success: false, error: `confidence must be a number from 0 to 100, got ${JSON.stringify(confidence)}` };
+  }
+  if (typeof reasoning !== 'string' || !reasoning.trim()) {
+    return { success: false, error: 'reasoning is missing' };
+  }
+  return { success: true, value: { is_duplicate, confidence, reasoning } };
+}
@@ -3,6 +3,8 @@
  * SIC Code Validation and Error Checking for OpenAI Responses
  */
 
+import { parseClassificationResponse } from './responseSchemas';
+
 export interface SICValidationResult {
   isValid: boolean;
   sicCode?: string;
@@ -65,83 +67,38 @@ export function validateSICCode(sicCode: any, sicDescription: any): SICValidatio
 }
 
 /**
- * Validate complete OpenAI response for SIC codes
+ * Validate complete OpenAI response for SIC codes using the shared response schema
  */
 export function validateOpenAIResponse(rawResult: any, payeeName: string): OpenAIResponseValidation {
-  const errors: string[] = [];
-  const warnings: string[] = [];
-  
   console.log(`[SIC VALIDATOR] Validating OpenAI response for "${payeeName}"`);
   
-  // Phase 1: Basic structure validation
-  if (!rawResult?.response?.body?.choices?.[0]?.message?.content) {
-    errors.push('Invalid OpenAI response structure - missing content');
+  const parsed = parseClassificationResponse(rawResult?.response?.body?.choices?.[0]);
+  if (!parsed.success) {
+    console.error(`[SIC VALIDATOR] ❌ Invalid response for "${payeeName}":`, parsed.error);
     return {
       hasValidStructure: false,
       hasSICCode: false,
-      sicValidation: { isValid: false, error: 'No response content', warnings: [] },
-      errors,
-      warnings
+      sicValidation: { isValid: false, error: parsed.error, warnings: [] },
+      errors: [parsed.error],
+      warnings: []
     };
   }
   
-  const content = rawResult.response.body.choices[0].message.content;
-  
-  try {
-    const parsed = JSON.parse(content);
-    console.log(`[SIC VALIDATOR] Parsed response for "${payeeName}":`, {
-      classification: parsed.classification,
-      confidence: parsed.confidence,
-      hasSicCode: !!parsed.sicCode,
-      sicCode: parsed.sicCode,
-      hasReasoning: !!parsed.reasoning
-    });
-    
-    // Validate required fields
-    if (!parsed.classification) {
-      errors.push('Missing classification field');
-    }
-    
-    if (parsed.confidence === undefined || parsed.confidence === null) {
-      errors.push('Missing confidence field');
-    }
-    
-    // SIC code validation for businesses
-    let sicValidation: SICValidationResult = { isValid: true, warnings: [] };
-    let hasSICCode = false;
-    
-    if (parsed.classification === 'Business') {
-      sicValidation = validateSICCode(parsed.sicCode, parsed.sicDescription);
-      hasSICCode = sicValidation.isValid;
-      
-      if (!sicValidation.isValid) {
-        console.error(`[SIC VALIDATOR] ❌ Business "${payeeName}" SIC validation failed:`, sicValidation.error);
-      } else {
-        console.log(`[SIC VALIDATOR] ✅ Business "${payeeName}" has valid SIC: ${sicValidation.sicCode}`);
-      }
-    }
-    
-    return {
-      hasValidStructure: errors.length === 0,
-      hasSICCode,
-      sicValidation,
-      errors,
-      warnings: [...warnings, ...sicValidation.warnings]
-    };
-    
-  } catch (parseError) {
-    const error = `JSON parse error: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`;
-    errors.push(error);
-    console.error(`[SIC VALIDATOR] JSON parse failed for "${payeeName}":`, parseError);
-    
-    return {
-      hasValidStructure: false,
-      hasSICCode: false,
-      sicValidation: { isValid: false, error, warnings: [] },
-      errors,
-      warnings
-    };
+  // Individuals have no SIC code to check
+  const sicValidation = parsed.value.classification === 'Business'
+    ? validateSICCode(parsed.value.sicCode, parsed.value.sicDescription)
+    : { isValid: true, warnings: [] };
+  if (parsed.value.classification === 'Business') {
+    console.log(`[SIC VALIDATOR] ✅ Business "${payeeName}" has valid SIC: ${sicValidation.sicCode}`);
   }
+  
+  return {
+    hasValidStructure: true,
+    hasSICCode: parsed.value.classification === 'Business',
+    sicValidation,
+    errors: [],
+    warnings: sicValidation.warnings
+  };
 }
 
 /**
@@ -1,23 +1,36 @@
 
 import OpenAI from 'openai';
-import { getOpenAIClient } from './client';
 import { timeoutPromise } from './utils';
-import { DEFAULT_API_TIMEOUT, CLASSIFICATION_MODEL } from './config';
+import { DEFAULT_API_TIMEOUT } from './config';
+import { AIProviderSettings } from './providers';
+import { resolveAIProvider } from './client';
+import { EntityType } from '../types';
+import { resolvePromptTemplate } from '../database/promptTemplateService';
+import { renderPromptTemplate } from './promptTemplates';
+import { buildFewShotMessages } from './fewShotExamples';
+import { findFewShotExamples } from '../database/fewShotExampleService';
+import { CLASSIFICATION_RESPONSE_FORMAT, parseClassificationResponse } from './responseSchemas';
 
 /**
- * Classify a single payee name using the OpenAI API with SIC code determination
+ * Classify a single payee name using the OpenAI API with SIC code determination.
+ * Pass provider settings to target a specific endpoint; otherwise the active provider is used.
+ * The prompt comes from the default single classification template, preceded by
+ * reviewed examples when few-shot prompting is enabled.
  */
 export async function classifyPayeeWithAI(
   payeeName: string, 
-  timeout: number = DEFAULT_API_TIMEOUT
+  timeout: number = DEFAULT_API_TIMEOUT,
+  provider?: AIProviderSettings
 ): Promise<{
   classification: 'Business' | 'Individual';
+  entityType: EntityType;
   confidence: number;
   reasoning: string;
   sicCode?: string;
   sicDescription?: string;
+  promptVersionId: string;
 }> {
-  const openaiClient = getOpenAIClient();
+  const { client: openaiClient, model } = resolveAIProvider(provider);
   if (!openaiClient) {
     throw new Error("OpenAI client not initialized. Please set your API key first.");
   }
@@ -29,35 +42,18 @@ export async function classifyPayeeWithAI(
   try {
     console.log(`[SINGLE CLASSIFICATION] Classifying "${payeeName}" with OpenAI API including SIC code analysis...`);
     
+    const promptTemplate = await resolvePromptTemplate('single_classification');
+    const prompt = renderPromptTemplate(promptTemplate, { payeeName });
+    const fewShotExamples = await findFewShotExamples([payeeName]);
+    
     const apiCall = openaiClient.chat.completions.create({
-      model: CLASSIFICATION_MODEL,
+      model,
       messages: [
-        {
-          role: "system",
-          content: `You are an expert payee classifier that determines if a name belongs to a business or individual, and assigns SIC codes to businesses.
-
-CRITICAL INSTRUCTIONS:
-1. For businesses: ALWAYS provide a 4-digit SIC code and description
-2. For individuals: Set sicCode and sicDescription to null
-3. Use SIC 7389 (Business Services, NEC) for unclear business types
-4. Government entities use SIC 9199 (General Government, NEC)
-
-SIC Code Examples:
-- Healthcare: 8011 (Offices of Physicians), 8021 (Offices of Dentists)
-- Retail: 5311 (Department Stores), 5411 (Grocery Stores)  
-- Construction: 1521 (General Building Contractors)
-- Professional: 8111 (Legal Services), 8721 (Accounting Services)
-- Manufacturing: 2000-3999 range
-- Services: 7000-8999 range
-
-Return JSON: {"classification": "Business|Individual", "confidence": number, "reasoning": "brief explanation", "sicCode": "4-digit code or null", "sicDescription": "description or null"}`
-        },
-        {
-          role: "user",
-          content: `Classify and determine SIC code for: "${payeeName}"`
-        }
+        { role: "system", content: prompt.system },
+        ...buildFewShotMessages(promptTemplate, fewShotExamples),
+        { role: "user", content: prompt.user }
       ],
-      response_format: { "type": "json_object" },
+      response_format: CLASSIFICATION_RESPONSE_FORMAT,
       temperature: 0.1,
       max_tokens: 250
     });
@@ -66,48 +62,24 @@ Return JSON: {"classification": "Business|Individual", "confidence": number, "re
     
     const response = await timeoutPromise(apiCall, timeout);
 
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error("No response content from OpenAI API");
+    const parsed = parseClassificationResponse(response.choices[0]);
+    if (!parsed.success) {
+      console.error(`[SINGLE CLASSIFICATION] Invalid response for "${payeeName}":`, response.choices[0]?.message?.content);
+      throw new Error(`Invalid AI response: ${parsed.error}`);
     }
-
-    console.log(`[SINGLE CLASSIFICATION] Raw OpenAI response for "${payeeName}":`, content);
     
-    try {
-      const result = JSON.parse(content);
-      
-      if (!result.classification || typeof result.confidence !== 'number' || !result.reasoning) {
-        throw new Error(`Invalid response structure: ${JSON.stringify(result)}`);
-      }
-      
-      // Enhanced SIC code validation and processing
-      if (result.classification === 'Business') {
-        if (!result.sicCode || !/^\d{4}$/.test(result.sicCode)) {
-          console.warn(`[SIC WARNING] Business "${payeeName}" missing or invalid SIC code "${result.sicCode}", assigning default`);
-          result.sicCode = '7389'; // Business Services, NEC
-          result.sicDescription = 'Business Services, Not Elsewhere Classified';
-        }
-        console.log(`[SIC SUCCESS] Business "${payeeName}" assigned SIC ${result.sicCode}: ${result.sicDescription}`);
-      } else {
-        // Ensure individuals don't have SIC codes
-        result.sicCode = null;
-        result.sicDescription = null;
-        console.log(`[SIC INFO] Individual "${payeeName}" - no SIC code assigned`);
-      }
-      
-      console.log(`[SINGLE CLASSIFICATION] Successfully classified "${payeeName}": ${result.classification} (${result.confidence}%) SIC: ${result.sicCode || 'N/A'}`);
-      
-      return {
-        classification: result.classification as 'Business' | 'Individual',
-        confidence: Math.min(100, Math.max(0, result.confidence)),
-        reasoning: result.reasoning,
-        sicCode: result.sicCode || undefined,
-        sicDescription: result.sicDescription || undefined
-      };
-    } catch (parseError) {
-      console.error(`[SINGLE CLASSIFICATION] Failed to parse response for "${payeeName}":`, content);
-      throw new Error("Failed to parse OpenAI response as JSON");
-    }
+    const result = parsed.value;
+    console.log(`[SINGLE CLASSIFICATION] Successfully classified "${payeeName}": ${result.classification}/${result.entityType} (${result.confidence}%) SIC: ${result.sicCode || 'N/A'}`);
+    
+    return {
+      classification: result.classification,
+      entityType: result.entityType,
+      confidence: result.confidence,
+      reasoning: result.reasoning,
+      sicCode: result.sicCode || undefined,
+      sicDescription: result.sicDescription || undefined,
+      promptVersionId: promptTemplate.id
+    };
   } catch (error) {
     console.error(`[SINGLE CLASSIFICATION] Error calling OpenAI API for "${payeeName}":`, error);
     
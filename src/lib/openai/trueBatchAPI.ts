@@ -1,7 +1,45 @@
 
 import { getOpenAIClient } from './client';
 import { makeAPIRequest, logMemoryUsage } from './apiUtils';
-import { CLASSIFICATION_MODEL } from './config';
+import { getActiveModel, getActiveProviderSettings, getBatchEndpoint, getRequestModel } from './providers';
+import { BATCH_MAX_TOKENS, DEFAULT_API_TIMEOUT } from './config';
+import { BatchErrorInfo, ClassificationResult, EntityType, TokenUsage } from '../types';
+import {
+  CLASSIFICATION_RESPONSE_FORMAT,
+  ClassificationResponse,
+  PACKED_CLASSIFICATION_RESPONSE_FORMAT,
+  parseClassificationResponse,
+  parsePackedClassificationResponse
+} from './responseSchemas';
+import { findPayeeOverrides, overrideToClassificationResult, PayeeOverride } from '../database/payeeOverrideService';
+import { findCachedClassifications, getClassificationCacheSettings } from '../database/classificationCacheService';
+import { findLocalModelClassifications, getLocalModelSettings } from '../database/ngramModelService';
+import { parseCompositePayee } from '../dataStandardization/compositeParser';
+import { resolvePromptTemplate } from '../database/promptTemplateService';
+import { formatPromptVersion, renderPromptTemplate, RenderedPrompt } from './promptTemplates';
+import { buildFewShotMessages } from './fewShotExamples';
+import { findFewShotExamples, loadFewShotExamplesByIds } from '../database/fewShotExampleService';
+import { calculateBatchCost, calculateStandardCost } from './costEstimator';
+import { recordBatchUsage } from '../database/spendLedgerService';
+import { isSuspiciousPayeeName } from './promptSafety';
+import {
+  decodePackCustomId,
+  encodePackCustomId,
+  normalizePackSize,
+  packPayees,
+  renderPackedPrompt,
+  splitTokenUsage
+} from './payeePacking';
+import {
+  BatchReconciliationReport,
+  formatReconciliationReport,
+  isCleanReconciliation,
+  mappingsFromCustomIds,
+  reconcileBatchOutput
+} from './batchReconciliation';
+import { loadBatchRequestMap, saveBatchRequestMap, saveReconciliationReport } from '../database/batchRequestMapService';
+import { loadPackedRetryResults, savePackedRetryResults } from '../database/batchPackedRetryService';
+import { formatBatchError, getBatchLineFailure } from './batchErrors';
 
 export interface BatchJob {
   id: string;
@@ -27,13 +65,46 @@ export interface BatchJob {
     payee_count: number;
     description: string;
     job_name?: string;
+    // Version of the local n-gram model whose confident predictions were not submitted,
+    // and the confidence floor it was held to
+    local_model_version?: number;
+    local_model_min_confidence?: number;
+    // Cache settings in force when cached classifications kept payees from being submitted
+    cache_min_confidence?: number;
+    cache_max_age_days?: number;
+    // Prompt template version every submitted request was rendered from
+    prompt_version_id?: string;
+    prompt_version?: string;
+    // Model chosen for this job
+    model?: string;
+    // Reviewed payee_classifications rows injected into every request as few-shot examples
+    few_shot_example_ids?: string[];
+    // Payees per request when the job was packed; absent for one payee per request
+    pack_size?: number;
+    // Set on follow-up batches: the original job whose failed requests they retry
+    parent_batch_id?: string;
+    // The original job is attempt 1, its first follow-up attempt 2
+    attempt?: number;
   };
 }
 
+export interface CreateBatchJobOptions {
+  // Prompt template version; the default batch template when omitted
+  promptTemplateId?: string;
+  // Model for every request; the active provider's model when omitted
+  model?: string;
+  // Payees packed into each request; one per request when omitted
+  packSize?: number;
+  // Original job when this batch retries its failed requests
+  parentBatchId?: string;
+  attempt?: number;
+}
+
 export interface BatchJobResult {
   custom_id: string;
   response?: {
     status_code: number;
+    request_id?: string;
     body: {
       id: string;
       object: string;
@@ -43,94 +114,237 @@ export interface BatchJobResult {
         index: number;
         message: {
           role: string;
-          content: string;
+          content: string | null;
+          refusal?: string | null;
         };
         finish_reason: string;
       }>;
+      usage?: {
+        prompt_tokens: number;
+        completion_tokens: number;
+        total_tokens: number;
+      };
+      // Error file lines carry the API error instead of choices
+      error?: {
+        message: string;
+        type?: string;
+        code?: string | null;
+      };
     };
-  };
+  } | null;
   error?: {
     code: string;
     message: string;
-  };
+  } | null;
 }
 
 export interface TrueBatchClassificationResult {
   payeeName: string;
   classification: 'Business' | 'Individual';
+  entityType?: EntityType;
   confidence: number;
   reasoning: string;
   status: 'success' | 'failed';
   error?: string;
   sicCode?: string;
   sicDescription?: string;
+  processingTier?: ClassificationResult['processingTier'];
+  processingMethod?: string;
+  usage?: TokenUsage;
+  // Failed requests that could succeed in a follow-up batch
+  retryable?: boolean;
+  // The request's entry in the job's error file
+  batchError?: BatchErrorInfo;
+}
+
+const LOCAL_BATCH_JOB_PREFIX = 'local-';
+
+/**
+ * True for jobs that never reached the Batch API because every payee was resolved locally
+ */
+export function isLocalBatchJob(batchJobId: string): boolean {
+  return batchJobId.startsWith(LOCAL_BATCH_JOB_PREFIX);
+}
+
+/** What a job records about the payees it resolved locally instead of submitting */
+type SkippedPayeeMetadata = Pick<NonNullable<BatchJob['metadata']>, 'local_model_version' | 'local_model_min_confidence' | 'cache_min_confidence' | 'cache_max_age_days'>;
+
+function createLocalBatchJob(
+  payeeCount: number,
+  description: string,
+  jobName: string,
+  skipped: SkippedPayeeMetadata
+): BatchJob {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    id: `${LOCAL_BATCH_JOB_PREFIX}${Date.now()}`,
+    status: 'completed',
+    created_at: now,
+    in_progress_at: now,
+    finalizing_at: now,
+    completed_at: now,
+    completion_window: '24h',
+    request_counts: {
+      total: payeeCount,
+      completed: payeeCount,
+      failed: 0
+    },
+    metadata: {
+      payee_count: payeeCount,
+      description,
+      job_name: jobName,
+      ...skipped
+    }
+  };
+}
+
+function toOverrideBatchResult(payeeName: string, override: PayeeOverride): TrueBatchClassificationResult {
+  const result = overrideToClassificationResult(override);
+  return {
+    payeeName,
+    classification: result.classification,
+    entityType: result.entityType,
+    confidence: result.confidence,
+    reasoning: result.reasoning,
+    status: 'success',
+    sicCode: result.sicCode,
+    sicDescription: result.sicDescription,
+    processingTier: result.processingTier,
+    processingMethod: result.processingMethod
+  };
 }
 
 /**
- * Create a batch job using the true OpenAI Batch API with SIC code support
+ * Create a batch job using the true OpenAI Batch API with SIC code support.
+ * Payees with a stored reviewer override, a fresh cached classification or a confident
+ * local model prediction are never submitted, and neither are names that look like prompt
+ * injection; when nothing is left to classify a locally completed job is returned instead.
+ * Cached, local model and screened results are merged back when the job's results are
+ * processed. Requests are rendered from the chosen prompt template version and sent to
+ * the chosen model, or the defaults. With a pack size above one, each request carries
+ * that many numbered payees.
  */
 export async function createBatchJob(
   payeeNames: string[],
   description?: string,
-  jobName?: string
+  jobName?: string,
+  options: CreateBatchJobOptions = {}
 ): Promise<BatchJob> {
   logMemoryUsage('createBatchJob');
   
+  // Custom ids keep the original index so results still line up with payeeNames
+  const overrides = await findPayeeOverrides(payeeNames);
+  // Screened before the cache so an answer the name once steered is not reused either
+  const suspicious = new Set(payeeNames.filter(name => !overrides.has(name) && isSuspiciousPayeeName(name)));
+  const cacheSettings = getClassificationCacheSettings();
+  const cached = await findCachedClassifications(
+    payeeNames.filter(name => !overrides.has(name) && !suspicious.has(name)),
+    new Date(),
+    cacheSettings
+  );
+  const localModelSettings = getLocalModelSettings();
+  const localModel = await findLocalModelClassifications(
+    payeeNames.filter(name => !overrides.has(name) && !suspicious.has(name) && !cached.has(name)),
+    undefined,
+    localModelSettings
+  );
+  const pendingPayees = payeeNames
+    .map((name, index) => ({ name, index }))
+    .filter(({ name }) => !overrides.has(name) && !suspicious.has(name) && !cached.has(name) && !localModel.results.has(name));
+  // Only recorded when payees were actually skipped, so processing replays exactly what submission did
+  const localModelVersion = localModel.results.size > 0 ? localModel.version : null;
+  const skipped: SkippedPayeeMetadata = {
+    ...(localModelVersion !== null ? { local_model_version: localModelVersion, local_model_min_confidence: localModelSettings.minConfidence } : {}),
+    ...(cached.size > 0 ? { cache_min_confidence: cacheSettings.minConfidence, cache_max_age_days: cacheSettings.maxAgeDays } : {})
+  };
+  
+  if (overrides.size > 0) {
+    console.log(`[TRUE BATCH API] Skipping ${overrides.size} payees with stored overrides`);
+  }
+  if (suspicious.size > 0) {
+    console.warn(`[TRUE BATCH API] Skipping ${suspicious.size} payees whose names look like prompt injection`);
+  }
+  if (cached.size > 0) {
+    console.log(`[TRUE BATCH API] Skipping ${cached.size} payees with cached classifications`);
+  }
+  if (localModel.results.size > 0) {
+    console.log(`[TRUE BATCH API] Skipping ${localModel.results.size} payees classified by local model v${localModel.version}`);
+  }
+  
+  if (pendingPayees.length === 0) {
+    const { generateContextualBatchJobName } = await import('@/lib/services/batchJobNameGenerator');
+    return createLocalBatchJob(
+      payeeNames.length,
+      description || 'Payee classification resolved from stored overrides, cached results and the local model',
+      jobName || generateContextualBatchJobName(payeeNames.length, 'file'),
+      skipped
+    );
+  }
+  
+  const provider = getActiveProviderSettings();
+  if (provider && provider.supportsBatchAPI === false) {
+    throw new Error(`The ${provider.type} provider does not support the Batch API. Use single classification or switch providers.`);
+  }
+  
+  const promptTemplate = await resolvePromptTemplate('batch_classification', options.promptTemplateId);
+  const promptVersion = formatPromptVersion(promptTemplate);
+  // One example set for the whole job, chosen by similarity to the names actually submitted
+  const fewShotExamples = await findFewShotExamples(pendingPayees.map(({ name }) => name));
+  const fewShotMessages = buildFewShotMessages(promptTemplate, fewShotExamples);
+  const fewShotExampleIds = fewShotExamples.map(example => example.id);
+  const packSize = normalizePackSize(options.packSize);
+  
   return makeAPIRequest(async () => {
     const client = getOpenAIClient();
+    const model = options.model || getActiveModel();
+    const requestModel = getRequestModel(model, provider);
+    const batchEndpoint = getBatchEndpoint(provider);
     
     // Generate creative job name if not provided
     const { generateContextualBatchJobName } = await import('@/lib/services/batchJobNameGenerator');
     const finalJobName = jobName || generateContextualBatchJobName(payeeNames.length, 'file');
     
-    console.log(`[TRUE BATCH API] Creating batch job "${finalJobName}" for ${payeeNames.length} payees with SIC codes using model: ${CLASSIFICATION_MODEL}`);
+    console.log(`[TRUE BATCH API] Creating batch job "${finalJobName}" for ${pendingPayees.length} payees with SIC codes using model: ${model}, prompt: ${promptVersion}, few-shot examples: ${fewShotExampleIds.length}, payees per request: ${packSize}`);
     
-    // Create batch requests in JSONL format with enhanced SIC code system prompt
-    const batchRequests = payeeNames.map((name, index) => ({
-      custom_id: `payee-${index}-${Date.now()}`,
+    const toRequest = (customId: string, prompt: RenderedPrompt, payeeCount: number) => ({
+      custom_id: customId,
       method: 'POST',
-      url: '/v1/chat/completions',
+      url: batchEndpoint,
       body: {
-        model: CLASSIFICATION_MODEL,
+        model: requestModel,
         messages: [
-          {
-            role: 'system',
-            content: `You are an expert at classifying payee names as either "Business" or "Individual". 
-
-For BUSINESS entities, you must also assign a 4-digit SIC (Standard Industrial Classification) code and description based on the business type.
-
-Common SIC codes:
-- 7372: Prepackaged Software
-- 8742: Management Consulting Services  
-- 5411: Grocery Stores
-- 8011: Offices of Doctors of Medicine
-- 6021: National Commercial Banks
-- 7011: Hotels and Motels
-- 5812: Eating Places
-- 1521: General Contractors-Single Family Houses
-- 7381: Detective Guard & Armored Car Services
-- 8999: Services, Not Elsewhere Classified
-
-Return ONLY a JSON object with these exact fields:
-- classification: "Business" or "Individual"
-- confidence: number (0-100)
-- reasoning: string explaining the classification
-- sicCode: string (4-digit code, only for businesses, null for individuals)
-- sicDescription: string (description, only for businesses, null for individuals)
-
-Example responses:
-{"classification": "Business", "confidence": 95, "reasoning": "Contains LLC suffix indicating business entity", "sicCode": "8742", "sicDescription": "Management Consulting Services"}
-{"classification": "Individual", "confidence": 90, "reasoning": "Appears to be a person's name with first and last name", "sicCode": null, "sicDescription": null}`
-          },
-          {
-            role: 'user',
-            content: `Classify this payee name and assign SIC code if it's a business: "${name}"`
-          }
+          { role: 'system', content: prompt.system },
+          ...fewShotMessages,
+          { role: 'user', content: prompt.user }
         ],
         temperature: 0.1,
-        max_tokens: 300
+        max_tokens: BATCH_MAX_TOKENS * payeeCount,
+        // A trailing pack of one still uses the packed prompt, so it needs the packed schema too
+        response_format: packSize > 1 ? PACKED_CLASSIFICATION_RESPONSE_FORMAT : CLASSIFICATION_RESPONSE_FORMAT
       }
-    }));
+    });
+    // Composite payees are classified by their primary entity; the rest is classified locally
+    const toPromptName = (name: string) => parseCompositePayee(name)?.primaryName || name;
+    
+    // Create batch requests in JSONL format from the prompt template, each with the payees it carries
+    const requests = packSize > 1
+      ? packPayees(pendingPayees, packSize).map(pack => ({
+        payeeNames: pack.map(({ name }) => name),
+        request: toRequest(
+          encodePackCustomId(pack.map(({ index }) => index)),
+          renderPackedPrompt(promptTemplate, pack.map(({ name }) => toPromptName(name))),
+          pack.length
+        )
+      }))
+      : pendingPayees.map(({ name, index }) => ({
+        payeeNames: [name],
+        request: toRequest(
+          `payee-${index}-${Date.now()}`,
+          renderPromptTemplate(promptTemplate, { payeeName: toPromptName(name) }),
+          1
+        )
+      }));
+    const batchRequests = requests.map(({ request }) => request);
     
     // Convert to JSONL format
     const jsonlContent = batchRequests.map(req => JSON.stringify(req)).join('\n');
@@ -146,17 +360,34 @@ Example responses:
     // Create the batch job
     const batch = await client.batches.create({
       input_file_id: file.id,
-      endpoint: '/v1/chat/completions',
+      // Azure's unversioned path is not in the SDK's endpoint type
+      endpoint: batchEndpoint as '/v1/chat/completions',
       completion_window: '24h',
       metadata: {
         payee_count: payeeNames.length.toString(),
         description: description || 'Payee classification batch with SIC codes',
-        job_name: finalJobName
+        job_name: finalJobName,
+        prompt_version_id: promptTemplate.id,
+        prompt_version: promptVersion,
+        model,
+        ...(fewShotExampleIds.length > 0 ? { few_shot_example_ids: fewShotExampleIds.join(',') } : {}),
+        ...(packSize > 1 ? { pack_size: packSize.toString() } : {}),
+        ...(options.parentBatchId ? { parent_batch_id: options.parentBatchId, attempt: (options.attempt || 2).toString() } : {}),
+        ...Object.fromEntries(Object.entries(skipped).map(([key, value]) => [key, String(value)]))
       }
     });
     
     console.log(`[TRUE BATCH API] Created batch job with SIC codes: ${batch.id}`);
     
+    // Without a stored mapping, results fall back to the payee indexes in each custom_id
+    const mapSaved = await saveBatchRequestMap(
+      batch.id,
+      requests.map(({ request, payeeNames }) => ({ customId: request.custom_id, payeeNames }))
+    );
+    if (!mapSaved.success) {
+      console.warn(`[TRUE BATCH API] Request mapping for ${batch.id} was not stored: ${mapSaved.error}`);
+    }
+    
     return {
       id: batch.id,
       status: batch.status as BatchJob['status'],
@@ -173,14 +404,21 @@ Example responses:
       input_file_id: file.id,
       completion_window: '24h',
       request_counts: {
-        total: batch.request_counts?.total || payeeNames.length,
+        total: batch.request_counts?.total || batchRequests.length,
         completed: batch.request_counts?.completed || 0,
         failed: batch.request_counts?.failed || 0
       },
       metadata: {
         payee_count: payeeNames.length,
         description: description || 'Payee classification batch with SIC codes',
-        job_name: finalJobName
+        job_name: finalJobName,
+        prompt_version_id: promptTemplate.id,
+        prompt_version: promptVersion,
+        model,
+        ...(fewShotExampleIds.length > 0 ? { few_shot_example_ids: fewShotExampleIds } : {}),
+        ...(packSize > 1 ? { pack_size: packSize } : {}),
+        ...(options.parentBatchId ? { parent_batch_id: options.parentBatchId, attempt: options.attempt || 2 } : {}),
+        ...skipped
       }
     };
   }, { timeout: 60000, retries: 2 });
@@ -190,6 +428,10 @@ Example responses:
  * Check the status of a batch job
  */
 export async function checkBatchJobStatus(batchId: string): Promise<BatchJob> {
+  if (isLocalBatchJob(batchId)) {
+    throw new Error(`Batch job ${batchId} was resolved locally and has no remote status`);
+  }
+  
   return makeAPIRequest(async () => {
     const client = getOpenAIClient();
     
@@ -218,12 +460,156 @@ export async function checkBatchJobStatus(batchId: string): Promise<BatchJob> {
       metadata: batch.metadata ? {
         payee_count: parseInt(batch.metadata.payee_count || '0'),
         description: batch.metadata.description || 'Payee classification batch',
-        job_name: batch.metadata.job_name
+        job_name: batch.metadata.job_name,
+        ...(batch.metadata.prompt_version_id ? { prompt_version_id: batch.metadata.prompt_version_id, prompt_version: batch.metadata.prompt_version } : {}),
+        ...(batch.metadata.model ? { model: batch.metadata.model } : {}),
+        ...(batch.metadata.few_shot_example_ids ? { few_shot_example_ids: batch.metadata.few_shot_example_ids.split(',') } : {}),
+        ...(batch.metadata.pack_size ? { pack_size: parseInt(batch.metadata.pack_size) } : {}),
+        ...(batch.metadata.parent_batch_id ? { parent_batch_id: batch.metadata.parent_batch_id, attempt: parseInt(batch.metadata.attempt || '2') } : {}),
+        ...(batch.metadata.local_model_version ? {
+          local_model_version: parseInt(batch.metadata.local_model_version),
+          ...(batch.metadata.local_model_min_confidence !== undefined ? { local_model_min_confidence: parseFloat(batch.metadata.local_model_min_confidence) } : {})
+        } : {}),
+        ...(batch.metadata.cache_min_confidence !== undefined ? {
+          cache_min_confidence: parseFloat(batch.metadata.cache_min_confidence),
+          cache_max_age_days: parseFloat(batch.metadata.cache_max_age_days || '0')
+        } : {})
       } : undefined
     };
   }, { timeout: 15000, retries: 1 }); // Shorter timeout for status checks
 }
 
+function toTokenUsage(
+  body: Pick<NonNullable<BatchJobResult['response']>['body'], 'model' | 'usage'>,
+  calculateCost: typeof calculateBatchCost = calculateBatchCost
+): TokenUsage | undefined {
+  if (!body.usage) return undefined;
+  const promptTokens = body.usage.prompt_tokens || 0;
+  const completionTokens = body.usage.completion_tokens || 0;
+  return {
+    model: body.model,
+    promptTokens,
+    completionTokens,
+    totalTokens: body.usage.total_tokens || promptTokens + completionTokens,
+    costUsd: calculateCost(body.model, promptTokens, completionTokens)
+  };
+}
+
+function addTokenUsage(total: TokenUsage, usage: TokenUsage): void {
+  total.promptTokens += usage.promptTokens;
+  total.completionTokens += usage.completionTokens;
+  total.totalTokens += usage.totalTokens;
+  total.costUsd = total.costUsd === null || usage.costUsd === null ? null : total.costUsd + usage.costUsd;
+}
+
+function addUsageByModel(byModel: Map<string, { requestCount: number; usage: TokenUsage }>, usage: TokenUsage): void {
+  const model = usage.model || 'unknown';
+  const existing = byModel.get(model);
+  if (!existing) {
+    byModel.set(model, { requestCount: 1, usage: { ...usage } });
+    return;
+  }
+  existing.requestCount++;
+  addTokenUsage(existing.usage, usage);
+}
+
+/**
+ * Add up billed tokens per model across every output line, including lines that failed to parse
+ */
+function aggregateUsageByModel(results: BatchJobResult[]): Map<string, { requestCount: number; usage: TokenUsage }> {
+  const byModel = new Map<string, { requestCount: number; usage: TokenUsage }>();
+  for (const result of results) {
+    const usage = result.response ? toTokenUsage(result.response.body) : undefined;
+    if (usage) {
+      addUsageByModel(byModel, usage);
+    }
+  }
+  return byModel;
+}
+
+function toAnswerBatchResult(
+  payeeName: string,
+  answer: ClassificationResponse,
+  usage: TokenUsage | undefined,
+  processingMethod?: string
+): TrueBatchClassificationResult {
+  console.log(`[SIC EXTRACTION] Payee: "${payeeName}" | Classification: ${answer.classification} | Entity: ${answer.entityType} | SIC: ${answer.sicCode || 'None'} | Description: ${answer.sicDescription || 'None'}`);
+  return {
+    payeeName,
+    classification: answer.classification,
+    entityType: answer.entityType,
+    confidence: answer.confidence,
+    reasoning: answer.reasoning,
+    status: 'success',
+    sicCode: answer.sicCode || undefined,
+    sicDescription: answer.sicDescription || undefined,
+    ...(processingMethod ? { processingMethod } : {}),
+    usage
+  };
+}
+
+/**
+ * Classify payees a packed response left out with one synchronous request each,
+ * using the job's prompt template version, few-shot examples and model
+ */
+async function retryMissingPackedPayees(batchJob: BatchJob, payeeNames: string[]): Promise<TrueBatchClassificationResult[]> {
+  console.log(`[TRUE BATCH API] Retrying ${payeeNames.length} payees missing from packed responses`);
+  const client = getOpenAIClient();
+  const model = batchJob.metadata?.model || getActiveModel();
+  const promptTemplate = await resolvePromptTemplate('batch_classification', batchJob.metadata?.prompt_version_id);
+  const fewShotMessages = buildFewShotMessages(
+    promptTemplate,
+    await loadFewShotExamplesByIds(batchJob.metadata?.few_shot_example_ids || [])
+  );
+  
+  const retried: TrueBatchClassificationResult[] = [];
+  for (const name of payeeNames) {
+    try {
+      const prompt = renderPromptTemplate(promptTemplate, { payeeName: parseCompositePayee(name)?.primaryName || name });
+      const response = await client.chat.completions.create({
+        model: getRequestModel(model),
+        messages: [
+          { role: 'system', content: prompt.system },
+          ...fewShotMessages,
+          { role: 'user', content: prompt.user }
+        ],
+        temperature: 0.1,
+        max_tokens: BATCH_MAX_TOKENS,
+        response_format: CLASSIFICATION_RESPONSE_FORMAT
+      }, {
+        timeout: DEFAULT_API_TIMEOUT
+      });
+      
+      const usage = toTokenUsage(response, calculateStandardCost);
+      const parsed = parseClassificationResponse(response.choices[0]);
+      retried.push(parsed.success
+        ? toAnswerBatchResult(name, parsed.value, usage, 'Packed batch retry')
+        : {
+          payeeName: name,
+          classification: 'Individual',
+          confidence: 0,
+          reasoning: `Invalid AI response on retry: ${parsed.error}`,
+          status: 'failed',
+          error: parsed.error,
+          usage
+        });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[TRUE BATCH API] Retry failed for "${name}":`, error);
+      retried.push({
+        payeeName: name,
+        classification: 'Individual',
+        confidence: 0,
+        reasoning: `Missing from packed response and the retry failed: ${message}`,
+        status: 'failed',
+        error: message,
+        retryable: true
+      });
+    }
+  }
+  return retried;
+}
+
 /**
  * Retrieve and parse batch job results with SIC code extraction
  */
@@ -231,40 +617,113 @@ export async function getBatchJobResults(
   batchJob: BatchJob,
   payeeNames: string[]
 ): Promise<TrueBatchClassificationResult[]> {
-  if (batchJob.status !== 'completed' || !batchJob.output_file_id) {
+  const { results } = await getReconciledBatchJobResults(batchJob, payeeNames);
+  return results;
+}
+
+/**
+ * Download and parse the JSONL lines of a batch output or error file
+ */
+async function downloadBatchLines(fileId: string): Promise<BatchJobResult[]> {
+  const client = getOpenAIClient();
+  const fileContent = await client.files.content(fileId);
+  const responseText = await fileContent.text();
+  
+  return responseText
+    .trim()
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => {
+      try {
+        return JSON.parse(line);
+      } catch (error) {
+        console.error('[TRUE BATCH API] Error parsing result line:', line, error);
+        return null;
+      }
+    })
+    .filter(result => result !== null);
+}
+
+/**
+ * Retrieve batch job results matched to payees by custom_id, with the reconciliation
+ * report of the output against the job's stored request mapping (null for local jobs).
+ * Lines from the error file are matched the same way, and each failed request is
+ * marked retryable or not. Each payee of a packed request is unpacked by its number;
+ * payees a packed response left out are retried on their own before the results are
+ * returned. The report is stored with the job and should be checked before results
+ * are saved.
+ */
+export async function getReconciledBatchJobResults(
+  batchJob: BatchJob,
+  payeeNames: string[]
+): Promise<{ results: TrueBatchClassificationResult[]; reconciliation: BatchReconciliationReport | null }> {
+  const isLocal = isLocalBatchJob(batchJob.id);
+  // A job whose every request failed only has an error file
+  if (!isLocal && (batchJob.status !== 'completed' || (!batchJob.output_file_id && !batchJob.error_file_id))) {
     throw new Error(`Batch job is not completed or has no output file. Status: ${batchJob.status}`);
   }
   
-  return makeAPIRequest(async () => {
-    const client = getOpenAIClient();
-    
-    console.log(`[TRUE BATCH API] Retrieving SIC code results from file: ${batchJob.output_file_id}`);
-    
-    // Get the output file content
-    const fileContent = await client.files.content(batchJob.output_file_id!);
-    const responseText = await fileContent.text();
+  // Stored overrides win over anything the model returned
+  const overrides = await findPayeeOverrides(payeeNames);
+  
+  if (isLocal) {
+    const results = payeeNames.map((name): TrueBatchClassificationResult => {
+      const override = overrides.get(name);
+      if (override) {
+        return toOverrideBatchResult(name, override);
+      }
+      return {
+        payeeName: name,
+        classification: 'Individual',
+        confidence: 0,
+        reasoning: 'No stored classification found for locally resolved job',
+        status: 'failed',
+        error: 'Missing result'
+      };
+    });
+    return { results, reconciliation: null };
+  }
+  
+  const storedMappings = await loadBatchRequestMap(batchJob.id);
+  
+  const { results, classificationResults, missingFromPacks, reconciliation } = await makeAPIRequest(async () => {
+    console.log(`[TRUE BATCH API] Retrieving SIC code results from file: ${batchJob.output_file_id || 'none'}, errors from file: ${batchJob.error_file_id || 'none'}`);
     
-    // Parse JSONL results
-    const results: BatchJobResult[] = responseText
-      .trim()
-      .split('\n')
-      .filter(line => line.trim())
-      .map(line => {
-        try {
-          return JSON.parse(line);
-        } catch (error) {
-          console.error('[TRUE BATCH API] Error parsing result line:', line, error);
-          return null;
-        }
-      })
-      .filter(result => result !== null);
+    // Failed requests are only in the error file, so both files make up the job's output
+    const results: BatchJobResult[] = [
+      ...(batchJob.output_file_id ? await downloadBatchLines(batchJob.output_file_id) : []),
+      ...(batchJob.error_file_id ? await downloadBatchLines(batchJob.error_file_id) : [])
+    ];
     
     console.log(`[TRUE BATCH API] Parsed ${results.length} results with SIC code support`);
     logMemoryUsage('getBatchJobResults');
     
+    // Output order is not guaranteed, so lines are matched to payees by custom_id only
+    const mappings = storedMappings.length > 0
+      ? storedMappings
+      : mappingsFromCustomIds(results.map(result => result.custom_id), payeeNames);
+    const { linesByCustomId, report: reconciliation } = reconcileBatchOutput(results, mappings, storedMappings.length > 0);
+    
+    // Each payee points at its request's line and its number within that request
+    const lineByPayee = new Map<string, { result: BatchJobResult; position: number; size: number }>();
+    for (const mapping of mappings) {
+      const line = linesByCustomId.get(mapping.customId);
+      mapping.payeeNames.forEach((payeeName, position) => {
+        if (line) lineByPayee.set(payeeName, { result: line, position, size: mapping.payeeNames.length });
+      });
+    }
+    const packedAnswers = new Map<string, ReturnType<typeof parsePackedClassificationResponse>>();
+    const missingFromPacks: number[] = [];
+    
     // Map results back to payee names with SIC code extraction
     const classificationResults: TrueBatchClassificationResult[] = payeeNames.map((name, index) => {
-      const result = results.find(r => r.custom_id.startsWith(`payee-${index}-`));
+      const override = overrides.get(name);
+      if (override) {
+        return toOverrideBatchResult(name, override);
+      }
+      
+      const matched = lineByPayee.get(name);
+      const result = matched?.result;
       
       if (!result) {
         return {
@@ -273,18 +732,22 @@ export async function getBatchJobResults(
           confidence: 0,
           reasoning: 'No result found in batch output',
           status: 'failed',
-          error: 'Missing result'
+          error: 'Missing result',
+          retryable: true
         };
       }
       
-      if (result.error) {
+      const failure = getBatchLineFailure(result);
+      if (failure) {
         return {
           payeeName: name,
           classification: 'Individual',
           confidence: 0,
-          reasoning: `Batch processing error: ${result.error.message}`,
+          reasoning: `Batch processing error: ${failure.message}`,
           status: 'failed',
-          error: result.error.message
+          error: formatBatchError(failure),
+          retryable: failure.retryable,
+          batchError: { code: failure.code, message: failure.message }
         };
       }
       
@@ -299,45 +762,114 @@ export async function getBatchJobResults(
         };
       }
       
-      try {
-        const content = result.response.body.choices[0]?.message?.content;
-        if (content) {
-          const parsed = JSON.parse(content);
-          
-          // Debug SIC code extraction
-          console.log(`[SIC EXTRACTION] Payee: "${name}" | Classification: ${parsed.classification} | SIC: ${parsed.sicCode || 'None'} | Description: ${parsed.sicDescription || 'None'}`);
-          
+      if (decodePackCustomId(result.custom_id)) {
+        const usage = splitTokenUsage(toTokenUsage(result.response.body), matched.size);
+        if (!packedAnswers.has(result.custom_id)) {
+          packedAnswers.set(result.custom_id, parsePackedClassificationResponse(result.response.body.choices[0], matched.size));
+        }
+        const pack = packedAnswers.get(result.custom_id)!;
+        const answer = pack.value?.[matched.position];
+        if (!answer) {
+          // Replaced by a retry once every line has been read
+          missingFromPacks.push(index);
+          const error = pack.error || 'Missing from packed response';
           return {
             payeeName: name,
-            classification: parsed.classification || 'Individual',
-            confidence: parsed.confidence || 50,
-            reasoning: parsed.reasoning || 'Classified via OpenAI Batch API with SIC codes',
-            status: 'success',
-            sicCode: parsed.sicCode || undefined,
-            sicDescription: parsed.sicDescription || undefined
+            classification: 'Individual',
+            confidence: 0,
+            reasoning: `Missing from packed response: ${error}`,
+            status: 'failed',
+            error,
+            usage
           };
         }
-      } catch (error) {
-        console.error(`[TRUE BATCH API] Error parsing result for ${name}:`, error);
+        if (!answer.success) {
+          console.error(`[TRUE BATCH API] Invalid packed response for "${name}": ${answer.error}`);
+          return {
+            payeeName: name,
+            classification: 'Individual',
+            confidence: 0,
+            reasoning: `Invalid AI response: ${answer.error}`,
+            status: 'failed',
+            error: answer.error,
+            usage
+          };
+        }
+        return toAnswerBatchResult(name, answer.value, usage, `Packed batch request (${matched.size} payees)`);
       }
       
-      return {
-        payeeName: name,
-        classification: 'Individual',
-        confidence: 0,
-        reasoning: 'Failed to parse batch result',
-        status: 'failed',
-        error: 'Parse error'
-      };
+      const usage = toTokenUsage(result.response.body);
+      const parsed = parseClassificationResponse(result.response.body.choices[0]);
+      if (!parsed.success) {
+        console.error(`[TRUE BATCH API] Invalid response for "${name}": ${parsed.error}`);
+        return {
+          payeeName: name,
+          classification: 'Individual',
+          confidence: 0,
+          reasoning: `Invalid AI response: ${parsed.error}`,
+          status: 'failed',
+          error: parsed.error,
+          usage
+        };
+      }
+      
+      return toAnswerBatchResult(name, parsed.value, usage);
     });
     
-    // Log SIC code statistics
-    const businessResults = classificationResults.filter(r => r.classification === 'Business');
-    const sicResults = classificationResults.filter(r => r.sicCode);
-    console.log(`[TRUE BATCH API] SIC Code Statistics: ${sicResults.length}/${businessResults.length} businesses have SIC codes`);
-    
-    return classificationResults;
+    return { results, classificationResults, missingFromPacks, reconciliation };
   }, { timeout: 120000, retries: 2 });
+  
+  const retryableCount = classificationResults.filter(result => result.retryable).length;
+  if (retryableCount > 0) {
+    console.warn(`[TRUE BATCH API] ${retryableCount} failed payees in ${batchJob.id} can be retried in a follow-up batch`);
+  }
+  
+  if (isCleanReconciliation(reconciliation)) {
+    console.log(`[TRUE BATCH API] Reconciled ${batchJob.id}: ${formatReconciliationReport(reconciliation)}`);
+  } else {
+    console.warn(`[TRUE BATCH API] Reconciliation issues for ${batchJob.id}: ${formatReconciliationReport(reconciliation)}`, reconciliation);
+  }
+  await saveReconciliationReport(batchJob.id, reconciliation);
+  
+  const usageByModel = aggregateUsageByModel(results);
+  if (missingFromPacks.length > 0) {
+    // Retries are paid requests, so each payee is retried once and its stored result reused
+    const stored = await loadPackedRetryResults(batchJob.id);
+    const retryNames = missingFromPacks.map(index => payeeNames[index]).filter(name => !stored.has(name));
+    if (retryNames.length > 0) {
+      const fresh = await retryMissingPackedPayees(batchJob, retryNames);
+      await savePackedRetryResults(batchJob.id, fresh);
+      fresh.forEach(retry => stored.set(retry.payeeName, retry));
+    }
+    missingFromPacks.forEach(index => {
+      const retry = stored.get(payeeNames[index]);
+      if (!retry) return;
+      // The payee keeps its share of the pack's tokens as well as the retry's own
+      const packUsage = classificationResults[index].usage;
+      const usage = retry.usage ? { ...retry.usage } : packUsage;
+      if (retry.usage && usage) {
+        addUsageByModel(usageByModel, retry.usage);
+        if (packUsage) addTokenUsage(usage, packUsage);
+      }
+      classificationResults[index] = { ...retry, usage };
+    });
+  }
+  
+  // Log SIC code statistics
+  const businessResults = classificationResults.filter(r => r.classification === 'Business');
+  const sicResults = classificationResults.filter(r => r.sicCode);
+  console.log(`[TRUE BATCH API] SIC Code Statistics: ${sicResults.length}/${businessResults.length} businesses have SIC codes`);
+  
+  // Ledger failures must never block result processing; recordBatchUsage logs its own errors
+  await recordBatchUsage(
+    batchJob.id,
+    batchJob.metadata?.job_name,
+    payeeNames.length,
+    new Date((batchJob.completed_at || batchJob.created_at) * 1000),
+    usageByModel
+  );
+  
+  return { results: classificationResults, reconciliation };
 }
 
 /**
@@ -372,7 +904,20 @@ export async function cancelBatchJob(batchId: string): Promise<BatchJob> {
       metadata: batch.metadata ? {
         payee_count: parseInt(batch.metadata.payee_count || '0'),
         description: batch.metadata.description || 'Payee classification batch',
-        job_name: batch.metadata.job_name
+        job_name: batch.metadata.job_name,
+        ...(batch.metadata.prompt_version_id ? { prompt_version_id: batch.metadata.prompt_version_id, prompt_version: batch.metadata.prompt_version } : {}),
+        ...(batch.metadata.model ? { model: batch.metadata.model } : {}),
+        ...(batch.metadata.few_shot_example_ids ? { few_shot_example_ids: batch.metadata.few_shot_example_ids.split(',') } : {}),
+        ...(batch.metadata.pack_size ? { pack_size: parseInt(batch.metadata.pack_size) } : {}),
+        ...(batch.metadata.parent_batch_id ? { parent_batch_id: batch.metadata.parent_batch_id, attempt: parseInt(batch.metadata.attempt || '2') } : {}),
+        ...(batch.metadata.local_model_version ? {
+          local_model_version: parseInt(batch.metadata.local_model_version),
+          ...(batch.metadata.local_model_min_confidence !== undefined ? { local_model_min_confidence: parseFloat(batch.metadata.local_model_min_confidence) } : {})
+        } : {}),
+        ...(batch.metadata.cache_min_confidence !== undefined ? {
+          cache_min_confidence: parseFloat(batch.metadata.cache_min_confidence),
+          cache_max_age_days: parseFloat(batch.metadata.cache_max_age_days || '0')
+        } : {})
       } : undefined
     };
   }, { timeout: 30000, retries: 1 });
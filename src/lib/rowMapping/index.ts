@@ -12,6 +12,7 @@ export {
 } from './mapper';
 
 export { createMappedRow } from './rowCreator';
+export { getNameComponentColumns, isNameComponentExportEnabled, setNameComponentExportEnabled } from './nameComponents';
 export { validateMappedResults } from './validator';
 
 // Legacy exports for backward compatibility
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { getNameComponentColumns } from './nameComponents';
+
+describe('getNameComponentColumns', () => {
+  it('splits an individual into person columns', () => {
+    expect(getNameComponentColumns('Dr. Jane Q. Public, MD', 'Individual')).toEqual({
+      name_prefix: 'Dr.',
+      name_first: 'Jane',
+      name_middle: 'Q.',
+      name_last: 'Public',
+      name_suffix: 'MD',
+      name_additional_parties: '',
+      corporation_name: '',
+      corporation_legal_type: ''
+    });
+  });
+
+  it('keeps every party of a joint payee', () => {
+    expect(getNameComponentColumns('JOHN & MARY SMITH', 'Individual')).toMatchObject({
+      name_first: 'JOHN',
+      name_last: 'SMITH',
+      name_additional_parties: 'MARY SMITH'
+    });
+    expect(getNameComponentColumns('JOHN SMITH AND MARY JONES AND ANN LEE', 'Individual')).toMatchObject({
+      name_first: 'JOHN',
+      name_last: 'SMITH',
+      name_additional_parties: 'MARY JONES; ANN LEE'
+    });
+  });
+
+  it('keeps multi-word surnames together', () => {
+    expect(getNameComponentColumns('MARY ANN VAN DER BERG', 'Individual')).toMatchObject({
+      name_first: 'MARY',
+      name_middle: 'ANN',
+      name_last: 'VAN DER BERG'
+    });
+  });
+
+  it('splits a business into corporation columns', () => {
+    expect(getNameComponentColumns('Acme Widgets LLC', 'Business')).toMatchObject({
+      name_first: '',
+      name_additional_parties: '',
+      corporation_name: 'Acme Widgets',
+      corporation_legal_type: 'LLC'
+    });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Parsed name component columns for vendor master loading
+ */
+
+import { parseCorporationName, parsePersonName } from '../classification/nameParser';
+import { detectJointPayee } from '../classification/nameProcessing';
+
+export interface NameComponentColumns {
+  name_prefix: string;
+  name_first: string;
+  name_middle: string;
+  name_last: string;
+  name_suffix: string;
+  name_additional_parties: string;
+  corporation_name: string;
+  corporation_legal_type: string;
+}
+
+const NAME_COMPONENTS_STORAGE_KEY = 'export_name_components';
+
+/**
+ * Whether exports include parsed name component columns
+ */
+export function isNameComponentExportEnabled(): boolean {
+  try {
+    return localStorage.getItem(NAME_COMPONENTS_STORAGE_KEY) === 'true';
+  } catch {
+    return false;
+  }
+}
+
+export function setNameComponentExportEnabled(enabled: boolean): void {
+  localStorage.setItem(NAME_COMPONENTS_STORAGE_KEY, String(enabled));
+}
+
+function join(...parts: Array<string | undefined>): string {
+  return parts.filter(Boolean).join(' ');
+}
+
+/**
+ * Split a payee name into person columns for individuals or corporation columns
+ * for businesses. Every column is always present so exports keep a stable header.
+ * Joint payees ("JOHN & MARY SMITH") fill the person columns from the first party
+ * and list the other parties, "; " separated, in name_additional_parties.
+ */
+export function getNameComponentColumns(payeeName: string, classification: string): NameComponentColumns {
+  const columns: NameComponentColumns = {
+    name_prefix: '',
+    name_first: '',
+    name_middle: '',
+    name_last: '',
+    name_suffix: '',
+    name_additional_parties: '',
+    corporation_name: '',
+    corporation_legal_type: ''
+  };
+  if (!payeeName) return columns;
+
+  if (classification === 'Individual') {
+    const [primary, ...others] = detectJointPayee(payeeName).parties;
+    columns.name_additional_parties = others.join('; ');
+    const person = parsePersonName(primary);
+    if (person) {
+      columns.name_prefix = join(person.PrefixMarital, person.PrefixOther);
+      columns.name_first = person.GivenName || person.FirstInitial || '';
+      columns.name_middle = person.MiddleName || person.MiddleInitial || '';
+      columns.name_last = person.Surname || person.LastInitial || '';
+      columns.name_suffix = join(person.SuffixGenerational, person.SuffixOther);
+    }
+    return columns;
+  }
+
+  const corporation = parseCorporationName(payeeName);
+  columns.corporation_name = corporation.CorporationName || '';
+  columns.corporation_legal_type = corporation.CorporationLegalType || '';
+  return columns;
+}
@@ -2,6 +2,13 @@
  * Row creation utilities for mapping classification results to original data
  */
 
+import { EnsembleVote } from '../types';
+import { getNameComponentColumns, isNameComponentExportEnabled } from './nameComponents';
+import { parseCompositePayee } from '../dataStandardization/compositeParser';
+import { determine1099Reportability } from '../classification/form1099Rules';
+import { CONFIDENCE_THRESHOLDS } from '../classification/finalClassification';
+import { formatBatchError } from '../openai/batchErrors';
+
 /**
  * Creates a mapped row with all necessary data - PRESERVES ALL ORIGINAL COLUMNS
  */
@@ -13,11 +20,16 @@ export function createMappedRow(originalRow: any, classificationResult: any, map
   
   // Append classification data as new columns (don't overwrite any originals)
   mappedRow.ai_classification = classificationResult.result?.classification || 'Individual';
+  mappedRow.ai_entity_type = classificationResult.result?.entityType || mappedRow.ai_classification;
   mappedRow.ai_confidence = classificationResult.result?.confidence || 50;
   mappedRow.ai_reasoning = classificationResult.result?.reasoning || 'No classification result';
   mappedRow.ai_processing_tier = classificationResult.result?.processingTier || 'Failed';
   mappedRow.ai_processing_method = classificationResult.result?.processingMethod || 'Unknown';
+  mappedRow.ai_prompt_version_id = classificationResult.result?.promptVersionId || '';
+  mappedRow.ai_total_tokens = classificationResult.result?.usage?.totalTokens ?? '';
+  mappedRow.ai_cost_usd = classificationResult.result?.usage?.costUsd ?? '';
   mappedRow.ai_timestamp = classificationResult.timestamp instanceof Date ? classificationResult.timestamp.toISOString() : new Date().toISOString();
+  mappedRow.ai_error = classificationResult.result?.batchError ? formatBatchError(classificationResult.result.batchError) : '';
   
   // Keyword exclusion data as new columns
   mappedRow.keyword_exclusion_applied = classificationResult.result?.keywordExclusion?.isExcluded ? 'Yes' : 'No';
@@ -29,6 +41,47 @@ export function createMappedRow(originalRow: any, classificationResult: any, map
   mappedRow.sic_code = classificationResult.result?.sicCode || '';
   mappedRow.sic_description = classificationResult.result?.sicDescription || '';
   
+  // 1099 reportability determination as new columns
+  const form1099 = determine1099Reportability(
+    mapping.payeeName || classificationResult.payeeName || '',
+    classificationResult.result
+  );
+  mappedRow.form_1099_status = form1099.status;
+  mappedRow.form_1099_reason = form1099.reason;
+  
+  // Composite payee parts (DBA, C/O, ATTN, FBO) as new columns
+  const composite = parseCompositePayee(mapping.payeeName || classificationResult.payeeName || '');
+  mappedRow.composite_relationship = composite?.relationship || '';
+  mappedRow.primary_payee_name = composite?.primaryName || '';
+  mappedRow.secondary_payee_name = composite?.secondaryName || '';
+  
+  // Parsed name components as new columns (optional, for vendor master loading)
+  if (isNameComponentExportEnabled()) {
+    Object.assign(mappedRow, getNameComponentColumns(
+      mapping.payeeName || classificationResult.payeeName || '',
+      mappedRow.ai_classification
+    ));
+  }
+  
+  // Cross-batch cache fields as new columns
+  mappedRow.cache_hit = classificationResult.result?.cacheHit ? 'Yes' : 'No';
+  mappedRow.cached_from_batch_id = classificationResult.result?.cachedFromBatchId || '';
+  
+  // Ensemble voting fields as new columns
+  const ensemble = classificationResult.result?.ensemble;
+  mappedRow.ensemble_disagreement = ensemble ? ensemble.disagreementScore : '';
+  mappedRow.ensemble_flagged_for_review = ensemble?.flagged ? 'Yes' : 'No';
+  mappedRow.ensemble_votes = ensemble
+    ? ensemble.votes.map((vote: EnsembleVote) => `${vote.voter}: ${vote.classification} ${vote.confidence}% (x${vote.weight})`).join('; ')
+    : '';
+  
+  // Human review fields as new columns
+  const review = classificationResult.result?.review;
+  mappedRow.review_status = review ? review.status : 'Not Reviewed';
+  mappedRow.reviewed_by = review?.reviewer || '';
+  mappedRow.reviewed_at = review?.reviewedAt || '';
+  mappedRow.review_reason = review?.reason || '';
+  
   // Standardization fields as new columns
   if (mapping.normalizedPayeeName) {
     mappedRow.normalized_payee_name = mapping.normalizedPayeeName;
@@ -116,7 +169,8 @@ export function createMappedRow(originalRow: any, classificationResult: any, map
   // Quality metrics as new columns
   mappedRow.processing_quality_score = classificationResult.result?.confidence >= 90 ? 'High' : 
                                       classificationResult.result?.confidence >= 70 ? 'Medium' : 'Low';
-  mappedRow.requires_review = (classificationResult.result?.confidence || 0) < 85 ? 'Yes' : 'No';
+  // Same rule as the review queue, so every flagged row is waiting there for a reviewer
+  mappedRow.requires_review = (classificationResult.result?.confidence || 0) < CONFIDENCE_THRESHOLDS.MEDIUM_CONFIDENCE || ensemble?.flagged ? 'Yes' : 'No';
   
   console.log(`[ROW MAPPER] Created mapped row with ${Object.keys(mappedRow).length} total columns (${Object.keys(originalRow).length} original + ${Object.keys(mappedRow).length - Object.keys(originalRow).length} new)`);
   
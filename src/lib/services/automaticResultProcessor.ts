@@ -2,6 +2,7 @@ import { BatchJob } from '@/lib/openai/trueBatchAPI';
 import { processDownloadResults, saveProcessedResults } from '@/hooks/batch/downloadProcessor';
 import { supabase } from '@/integrations/supabase/client';
 import { PayeeRowData } from '@/lib/rowMapping';
+import { BatchFollowUpService } from './batchFollowUpService';
 
 /**
  * Service for automatically processing and storing batch results when jobs complete
@@ -12,45 +13,58 @@ export class AutomaticResultProcessor {
   /**
    * Process and store results for a completed batch job
    * This runs automatically when a job status changes to 'completed'
+   * Results of a follow-up batch are merged into and stored under its original job.
+   * When retryable failures remain, a follow-up batch is submitted instead and the
+   * results are stored once it completes.
    */
   static async processCompletedBatch(batchJob: BatchJob): Promise<boolean> {
     try {
       console.log(`[AUTO PROCESSOR] Starting automatic processing for completed job ${batchJob.id}`);
       
+      const rootJobId = await BatchFollowUpService.resolveRootBatchId(batchJob);
+      
       // Check if results already exist for this job to prevent duplicate processing
       const { data: existingResults, error: checkError } = await supabase
         .from('payee_classifications')
         .select('id')
-        .eq('batch_id', batchJob.id)
+        .eq('batch_id', rootJobId)
         .limit(1);
         
       if (checkError) {
-        console.error(`[AUTO PROCESSOR] Error checking existing results for job ${batchJob.id}:`, checkError);
+        console.error(`[AUTO PROCESSOR] Error checking existing results for job ${rootJobId}:`, checkError);
         return false;
       }
       
       if (existingResults && existingResults.length > 0) {
-        console.log(`[AUTO PROCESSOR] Results already exist for job ${batchJob.id} - skipping duplicate processing`);
+        console.log(`[AUTO PROCESSOR] Results already exist for job ${rootJobId} - skipping duplicate processing`);
         return true; // Already processed, consider it successful
       }
       
       // Get the payee data from the batch job
-      const payeeData = await this.reconstructPayeeData(batchJob);
+      const payeeData = await this.reconstructPayeeData(rootJobId);
       if (!payeeData) {
-        console.error(`[AUTO PROCESSOR] Could not reconstruct payee data for job ${batchJob.id}`);
+        console.error(`[AUTO PROCESSOR] Could not reconstruct payee data for job ${rootJobId}`);
         return false;
       }
       
+      const merged = await BatchFollowUpService.getMergedResults(batchJob, payeeData.uniquePayeeNames);
+      const followUpId = merged.pendingChildId || await BatchFollowUpService.submitFollowUpBatch(merged, payeeData);
+      if (followUpId) {
+        console.log(`[AUTO PROCESSOR] Results for job ${rootJobId} wait for follow-up batch ${followUpId}`);
+        return true;
+      }
+      
       // Process the results (this downloads from OpenAI and processes classifications)
       const downloadResult = await processDownloadResults(
         {
-          job: batchJob,
+          job: merged.rootJob,
           payeeData,
           uniquePayeeNames: payeeData.uniquePayeeNames,
-          onJobComplete: () => {} // Not needed for automatic processing
+          onJobComplete: () => {}, // Not needed for automatic processing
+          mergedResults: merged
         },
         (processed, total, percentage) => {
-          console.log(`[AUTO PROCESSOR] Processing job ${batchJob.id}: ${processed}/${total} (${percentage}%)`);
+          console.log(`[AUTO PROCESSOR] Processing job ${rootJobId}: ${processed}/${total} (${percentage}%)`);
         }
       );
 
@@ -62,14 +76,14 @@ export class AutomaticResultProcessor {
       const { finalClassifications } = downloadResult;
 
       // Save results to database
-      const saveResult = await saveProcessedResults(finalClassifications, batchJob.id);
+      const saveResult = await saveProcessedResults(finalClassifications, rootJobId);
       
       if (!saveResult.success) {
-        console.error(`[AUTO PROCESSOR] Failed to save results for job ${batchJob.id}:`, saveResult.error);
+        console.error(`[AUTO PROCESSOR] Failed to save results for job ${rootJobId}:`, saveResult.error);
         return false;
       }
       
-      console.log(`[AUTO PROCESSOR] Successfully processed and saved ${finalClassifications.length} results for job ${batchJob.id}`);
+      console.log(`[AUTO PROCESSOR] Successfully processed and saved ${finalClassifications.length} results for job ${rootJobId}`);
       return true;
       
     } catch (error) {
@@ -81,17 +95,17 @@ export class AutomaticResultProcessor {
   /**
    * Reconstruct PayeeRowData from stored batch job data
    */
-  private static async reconstructPayeeData(batchJob: BatchJob): Promise<PayeeRowData | null> {
+  private static async reconstructPayeeData(jobId: string): Promise<PayeeRowData | null> {
     try {
       // Get the batch job data from database with all required fields
       const { data: jobData, error } = await supabase
         .from('batch_jobs')
         .select('original_file_data, row_mappings, unique_payee_names, selected_payee_column')
-        .eq('id', batchJob.id)
+        .eq('id', jobId)
         .single();
         
       if (error || !jobData) {
-        console.error(`[AUTO PROCESSOR] Error fetching job data for ${batchJob.id}:`, error);
+        console.error(`[AUTO PROCESSOR] Error fetching job data for ${jobId}:`, error);
         return null;
       }
       
@@ -119,7 +133,7 @@ export class AutomaticResultProcessor {
       };
       
     } catch (error) {
-      console.error(`[AUTO PROCESSOR] Error reconstructing payee data for job ${batchJob.id}:`, error);
+      console.error(`[AUTO PROCESSOR] Error reconstructing payee data for job ${jobId}:`, error);
       return null;
     }
   }
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/openai/trueBatchAPI', () => ({
+  cancelBatchJob: vi.fn(),
+  checkBatchJobStatus: vi.fn(),
+  createBatchJob: vi.fn(),
+  getReconciledBatchJobResults: vi.fn(),
+  isLocalBatchJob: () => false
+}));
+vi.mock('@/lib/database/batchJobRetryService', () => ({
+  findBatchJobRetry: vi.fn(async () => null),
+  loadBatchJobRetries: vi.fn(async () => [
+    { parentBatchId: 'batch_root', childBatchId: 'batch_child', attempt: 2, payeeNames: ['ACME INC'] }
+  ]),
+  saveBatchJobRetry: vi.fn()
+}));
+vi.mock('@/lib/database/enhancedBatchJobOperations', () => ({ EnhancedBatchJobOperations: {} }));
+vi.mock('@/stores/batchJobStore', () => ({ useBatchJobStore: { getState: () => ({}) } }));
+
+import { BatchJob, checkBatchJobStatus, getReconciledBatchJobResults } from '@/lib/openai/trueBatchAPI';
+import { BatchFollowUpService } from './batchFollowUpService';
+
+describe('BatchFollowUpService.getMergedResults', () => {
+  beforeEach(() => {
+    vi.mocked(getReconciledBatchJobResults).mockReset();
+  });
+
+  it('downloads nothing while a follow-up batch is still running', async () => {
+    vi.mocked(checkBatchJobStatus).mockImplementation(async id => ({
+      id, status: id === 'batch_child' ? 'in_progress' : 'completed'
+    } as BatchJob));
+
+    const merged = await BatchFollowUpService.getMergedResults(
+      { id: 'batch_root' } as BatchJob,
+      ['ACME INC', 'JANE DOE']
+    );
+
+    expect(merged).toMatchObject({ results: [], reconciliation: null, attempts: 2, pendingChildId: 'batch_child' });
+    expect(merged.rootJob.id).toBe('batch_root');
+    expect(getReconciledBatchJobResults).not.toHaveBeenCalled();
+  });
+
+  it('replaces failed payees with their follow-up results once every batch finished', async () => {
+    vi.mocked(checkBatchJobStatus).mockImplementation(async id => ({
+      id, status: 'completed'
+    } as BatchJob));
+    vi.mocked(getReconciledBatchJobResults).mockImplementation(async job => job.id === 'batch_root'
+      ? {
+        results: [
+          { payeeName: 'ACME INC', classification: 'Individual', confidence: 0, reasoning: 'Rate limited', status: 'failed', retryable: true },
+          { payeeName: 'JANE DOE', classification: 'Individual', confidence: 95, reasoning: 'Person name', status: 'success' }
+        ],
+        reconciliation: null
+      }
+      : {
+        results: [{ payeeName: 'ACME INC', classification: 'Business', confidence: 97, reasoning: 'INC suffix', status: 'success' }],
+        reconciliation: null
+      });
+
+    const merged = await BatchFollowUpService.getMergedResults(
+      { id: 'batch_root' } as BatchJob,
+      ['ACME INC', 'JANE DOE']
+    );
+
+    expect(merged.pendingChildId).toBeUndefined();
+    expect(merged.results.map(result => [result.payeeName, result.classification])).toEqual([
+      ['ACME INC', 'Business'],
+      ['JANE DOE', 'Individual']
+    ]);
+  });
+});
@@ -0,0 +1,178 @@
+import {
+  BatchJob,
+  cancelBatchJob,
+  checkBatchJobStatus,
+  createBatchJob,
+  getReconciledBatchJobResults,
+  isLocalBatchJob,
+  TrueBatchClassificationResult
+} from '@/lib/openai/trueBatchAPI';
+import { BatchReconciliationReport } from '@/lib/openai/batchReconciliation';
+import { findBatchJobRetry, loadBatchJobRetries, saveBatchJobRetry } from '@/lib/database/batchJobRetryService';
+import { EnhancedBatchJobOperations } from '@/lib/database/enhancedBatchJobOperations';
+import { PayeeRowData } from '@/lib/rowMapping';
+import { useBatchJobStore } from '@/stores/batchJobStore';
+
+/** The original job plus up to two follow-up batches */
+export const MAX_BATCH_ATTEMPTS = 3;
+
+const FINISHED_STATUSES: BatchJob['status'][] = ['completed', 'failed', 'expired', 'cancelled'];
+
+export interface MergedBatchResults {
+  // The original job; results are saved and files generated under its id
+  rootJob: BatchJob;
+  results: TrueBatchClassificationResult[];
+  // Reconciliation of the original job's output
+  reconciliation: BatchReconciliationReport | null;
+  // Attempts so far, the original job included
+  attempts: number;
+  // A follow-up batch still running; nothing is downloaded and results stay empty until it finishes
+  pendingChildId?: string;
+}
+
+/**
+ * Service for retrying the retryable failed requests of a batch job in follow-up
+ * batches, and merging their results back into the original job
+ */
+export class BatchFollowUpService {
+
+  /**
+   * Id of the original job a batch belongs to; its own id unless it is a follow-up
+   */
+  static async resolveRootBatchId(job: BatchJob): Promise<string> {
+    if (job.metadata?.parent_batch_id) {
+      return job.metadata.parent_batch_id;
+    }
+    const retry = await findBatchJobRetry(job.id);
+    return retry?.parentBatchId || job.id;
+  }
+
+  /**
+   * Results of the original job with each failed payee replaced by its result from
+   * the follow-up batches, in attempt order
+   */
+  static async getMergedResults(job: BatchJob, payeeNames: string[]): Promise<MergedBatchResults> {
+    const rootId = await this.resolveRootBatchId(job);
+    // Jobs loaded from the database have no error file id, so remote jobs are re-read
+    const rootJob = isLocalBatchJob(rootId) ? job : await checkBatchJobStatus(rootId);
+    const retries = await loadBatchJobRetries(rootId);
+    const attempts = retries.length + 1;
+
+    // Nothing is downloaded while a follow-up batch is still running
+    const children: BatchJob[] = [];
+    for (const retry of retries) {
+      const child = await checkBatchJobStatus(retry.childBatchId);
+      if (!FINISHED_STATUSES.includes(child.status)) {
+        return { rootJob, results: [], reconciliation: null, attempts, pendingChildId: child.id };
+      }
+      children.push(child);
+    }
+
+    const { results, reconciliation } = await getReconciledBatchJobResults(rootJob, payeeNames);
+    const merged = { rootJob, results, reconciliation, attempts };
+
+    for (const [i, retry] of retries.entries()) {
+      const child = children[i];
+      if (child.status !== 'completed') {
+        console.warn(`[BATCH FOLLOW-UP] Follow-up batch ${child.id} ended ${child.status}; its payees keep their earlier failures`);
+        continue;
+      }
+
+      const { results: childResults } = await getReconciledBatchJobResults(child, retry.payeeNames);
+      const childResultsByName = new Map(childResults.map(result => [result.payeeName, result]));
+      merged.results = merged.results.map(result => {
+        const replacement = childResultsByName.get(result.payeeName);
+        return result.status === 'failed' && replacement ? replacement : result;
+      });
+    }
+
+    return merged;
+  }
+
+  /**
+   * Submit a follow-up batch for the retryable failures in merged results, with the
+   * original job's prompt template version, model and pack size. Returns the id of the
+   * follow-up batch the results now wait for, or null when they should be processed
+   * as they are: nothing is retryable, attempts ran out or every retry resolved locally.
+   */
+  static async submitFollowUpBatch(merged: MergedBatchResults, payeeData: PayeeRowData): Promise<string | null> {
+    const retryNames = merged.results
+      .filter(result => result.status === 'failed' && result.retryable)
+      .map(result => result.payeeName);
+    if (retryNames.length === 0) {
+      return null;
+    }
+
+    const rootJob = merged.rootJob;
+    if (merged.attempts >= MAX_BATCH_ATTEMPTS) {
+      console.warn(`[BATCH FOLLOW-UP] ${retryNames.length} payees of ${rootJob.id} still failed after ${merged.attempts} attempts; keeping them as failed`);
+      return null;
+    }
+
+    const attempt = merged.attempts + 1;
+    console.log(`[BATCH FOLLOW-UP] Submitting attempt ${attempt} for ${retryNames.length} retryable failures of ${rootJob.id}`);
+    const child = await createBatchJob(
+      retryNames,
+      `Retry of ${retryNames.length} failed requests from ${rootJob.id}`,
+      `${rootJob.metadata?.job_name || rootJob.id} (attempt ${attempt})`,
+      {
+        promptTemplateId: rootJob.metadata?.prompt_version_id,
+        model: rootJob.metadata?.model,
+        packSize: rootJob.metadata?.pack_size,
+        parentBatchId: rootJob.id,
+        attempt
+      }
+    );
+    if (isLocalBatchJob(child.id)) {
+      console.log(`[BATCH FOLLOW-UP] Every retry for ${rootJob.id} resolved locally; no follow-up batch needed`);
+      return null;
+    }
+
+    const saved = await saveBatchJobRetry({
+      parentBatchId: rootJob.id,
+      childBatchId: child.id,
+      attempt,
+      payeeNames: retryNames
+    });
+    if (!saved.success) {
+      // Another processing run recorded this attempt first; keep that one and drop ours
+      await cancelBatchJob(child.id).catch(error => {
+        console.error(`[BATCH FOLLOW-UP] Could not cancel duplicate follow-up batch ${child.id}:`, error);
+      });
+      const existing = (await loadBatchJobRetries(rootJob.id)).find(retry => retry.attempt === attempt);
+      return existing?.childBatchId || null;
+    }
+
+    // Stored and tracked like any other job, so it is polled and processed when it completes
+    try {
+      await EnhancedBatchJobOperations.saveBatchJobIntelligently(child, payeeData);
+    } catch (error) {
+      console.error(`[BATCH FOLLOW-UP] Failed to store follow-up batch ${child.id}:`, error);
+    }
+    const { addJob, setPayeeData } = useBatchJobStore.getState();
+    addJob(child);
+    setPayeeData(child.id, payeeData);
+
+    return child.id;
+  }
+
+  /**
+   * The follow-up batch a job's results are still waiting for, if any
+   */
+  static async findPendingFollowUp(job: BatchJob): Promise<string | null> {
+    const rootId = await this.resolveRootBatchId(job);
+    const retries = await loadBatchJobRetries(rootId);
+    const latest = retries[retries.length - 1];
+    if (!latest) {
+      return null;
+    }
+
+    try {
+      const child = await checkBatchJobStatus(latest.childBatchId);
+      return FINISHED_STATUSES.includes(child.status) ? null : child.id;
+    } catch (error) {
+      console.error(`[BATCH FOLLOW-UP] Could not check follow-up batch ${latest.childBatchId}:`, error);
+      return null;
+    }
+  }
+}
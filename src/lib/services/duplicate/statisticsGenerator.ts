@@ -11,7 +11,8 @@ export function generateStatistics(processedRecords: DuplicateDetectionOutput[],
   const duplicates = processedRecords.filter(r => r.is_potential_duplicate);
   const highConfidence = processedRecords.filter(r => r.judgement_method === 'Algorithmic - High Confidence');
   const lowConfidence = processedRecords.filter(r => r.judgement_method === 'Algorithmic - Low Confidence');
-  const aiJudgments = processedRecords.filter(r => r.judgement_method === 'AI Judgment');
+  // Failed attempts still cost an AI call
+  const aiJudgments = processedRecords.filter(r => r.judgement_method === 'AI Judgment' || r.judgement_method === 'AI Judgment Failed');
 
   return {
     total_processed: processedRecords.length,
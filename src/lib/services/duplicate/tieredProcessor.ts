@@ -1,5 +1,5 @@
 import { duplicateDetectionWithAI } from '@/lib/openai/duplicateDetection';
-import { DuplicatePair, DuplicateDetectionConfig } from '../duplicateDetectionTypes';
+import { AiDuplicateJudgment, DuplicatePair, DuplicateDetectionConfig } from '../duplicateDetectionTypes';
 
 /**
  * Tiered logic processor for duplicate detection
@@ -8,7 +8,7 @@ import { DuplicatePair, DuplicateDetectionConfig } from '../duplicateDetectionTy
 export interface ProcessedPair extends DuplicatePair {
   is_duplicate: boolean;
   judgement_method: string;
-  ai_judgment?: { is_duplicate: boolean; confidence: number; reasoning: string };
+  ai_judgment?: AiDuplicateJudgment;
 }
 
 /**
@@ -47,7 +47,7 @@ export async function processWithTieredLogic(
         processedPairs.push({
           ...pair,
           is_duplicate: aiJudgment.is_duplicate,
-          judgement_method: 'AI Judgment',
+          judgement_method: aiJudgment.error ? 'AI Judgment Failed' : 'AI Judgment',
           ai_judgment: aiJudgment
         });
         console.log(`[TIERED PROCESSOR] AI judgment: ${aiJudgment.is_duplicate ? 'DUPLICATE' : 'NOT DUPLICATE'} (${aiJudgment.confidence}%) - ${aiJudgment.reasoning}`);
@@ -57,11 +57,12 @@ export async function processWithTieredLogic(
         processedPairs.push({
           ...pair,
           is_duplicate: false,
-          judgement_method: 'AI Judgment',
+          judgement_method: 'AI Judgment Failed',
           ai_judgment: {
             is_duplicate: false,
             confidence: 50,
-            reasoning: `AI analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+            reasoning: `AI analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            error: error instanceof Error ? error.message : 'Unknown error'
           }
         });
       }
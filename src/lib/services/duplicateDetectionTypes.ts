@@ -21,7 +21,7 @@ export interface DuplicateDetectionOutput extends DuplicateDetectionInput {
   duplicate_of_payee_id: string | null;
   duplicate_of_payee_name?: string | null;
   final_duplicate_score: number;
-  judgement_method: 'Algorithmic - High Confidence' | 'Algorithmic - Low Confidence' | 'AI Judgment';
+  judgement_method: 'Algorithmic - High Confidence' | 'Algorithmic - Low Confidence' | 'AI Judgment' | 'AI Judgment Failed';
   ai_judgement_is_duplicate: boolean | null;
   ai_judgement_reasoning: string | null;
   duplicate_group_id: string;
@@ -40,6 +40,8 @@ export interface AiDuplicateJudgment {
   is_duplicate: boolean;
   confidence: number;
   reasoning: string;
+  // Set when no valid judgment came back; the other fields are then a conservative non-duplicate
+  error?: string;
 }
 
 export interface DuplicateGroup {
@@ -2,6 +2,7 @@
 import { supabase } from '@/integrations/supabase/client';
 import { BatchJob } from '@/lib/openai/trueBatchAPI';
 import { RetroactiveBatchProcessor } from './retroactiveBatchProcessor';
+import { BatchFollowUpService } from './batchFollowUpService';
 import { logger } from '@/lib/logging/logger';
 import { generateBatchIdentifier } from '@/lib/utils/batchIdentifierGenerator';
 
@@ -63,6 +64,13 @@ export class EnhancedFileGenerationService {
   }> {
     logger.info(`Enhanced processing for completed job ${job.id}`, undefined, this.context);
 
+    // Files are built from merged results, so they wait for any follow-up batch to finish
+    const pendingFollowUp = await BatchFollowUpService.findPendingFollowUp(job);
+    if (pendingFollowUp) {
+      logger.info(`Deferring files for job ${job.id} until follow-up batch ${pendingFollowUp} completes`, undefined, this.context);
+      return { success: true };
+    }
+
     // Quick check if files already exist
     const existingFiles = await this.checkExistingFiles(job.id);
     if (existingFiles.csvUrl && existingFiles.excelUrl) {
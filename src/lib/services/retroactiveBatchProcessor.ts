@@ -1,13 +1,14 @@
 
 
 import { supabase } from '@/integrations/supabase/client';
-import { BatchJob, getBatchJobResults } from '@/lib/openai/trueBatchAPI';
+import { BatchJob } from '@/lib/openai/trueBatchAPI';
 import { PayeeRowData, RowMapping } from '@/lib/rowMapping';
 import { PayeeClassification, BatchProcessingResult } from '@/lib/types';
 import { processEnhancedBatchResults } from '@/services/batchProcessor';
 import { saveClassificationResultsWithValidation } from '@/lib/database/enhancedClassificationService';
 import { AutomaticResultProcessor } from './automaticResultProcessor';
 import { EnhancedFileGenerationService } from './enhancedFileGenerationService';
+import { BatchFollowUpService } from './batchFollowUpService';
 
 export interface RetroactiveProcessingResult {
   jobId: string;
@@ -34,17 +35,22 @@ export class RetroactiveBatchProcessor {
     console.log(`Starting retroactive processing for job ${job.id}`);
 
     try {
-      // Step 1: Reconstruct PayeeRowData from database
+      // Step 1: Reconstruct PayeeRowData from database, from the original job for follow-up batches
       onProgress?.(0, 100, 'Reconstructing job data...');
-      const payeeRowData = await this.reconstructPayeeRowData(job.id);
+      const rootJobId = await BatchFollowUpService.resolveRootBatchId(job);
+      const payeeRowData = await this.reconstructPayeeRowData(rootJobId);
 
       if (!payeeRowData) {
         throw new Error('Failed to reconstruct payee data from database');
       }
 
-      // Step 2: Download results from OpenAI
+      // Step 2: Download results from OpenAI, merged with follow-up batches
       onProgress?.(25, 100, 'Downloading OpenAI results...');
-      const rawResults = await getBatchJobResults(job, payeeRowData.uniquePayeeNames);
+      const merged = await BatchFollowUpService.getMergedResults(job, payeeRowData.uniquePayeeNames);
+      if (merged.pendingChildId) {
+        throw new Error(`Waiting for follow-up batch ${merged.pendingChildId}`);
+      }
+      const rawResults = merged.results;
 
       if (!rawResults || rawResults.length === 0) {
         throw new Error('No results found from OpenAI batch job');
@@ -56,7 +62,7 @@ export class RetroactiveBatchProcessor {
         rawResults,
         uniquePayeeNames: payeeRowData.uniquePayeeNames,
         payeeData: payeeRowData,
-        job,
+        job: merged.rootJob,
         onProgress: (processed, total) => {
           const progressPercent = 50 + (processed / total) * 25;
           onProgress?.(progressPercent, 100, `Processing ${processed}/${total} results...`);
@@ -65,7 +71,7 @@ export class RetroactiveBatchProcessor {
 
       // Step 4: Save to database
       onProgress?.(75, 100, 'Saving to database...');
-      await saveClassificationResultsWithValidation(finalClassifications, job.id);
+      await saveClassificationResultsWithValidation(finalClassifications, rootJobId);
 
       // Step 5: Generate pre-generated files
       onProgress?.(85, 100, 'Generating downloadable files...');
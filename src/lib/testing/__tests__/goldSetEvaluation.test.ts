@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Mock Supabase client
+vi.mock('@/integrations/supabase/client', () => ({ supabase: { from: vi.fn() } }));
+
+import {
+  parseGoldSetCSV,
+  scoreCase,
+  buildEvaluationReport,
+  diffEvaluationReports,
+  runEvaluation,
+  GoldSetEntry
+} from '../goldSetEvaluation';
+import { ClassificationResult } from '@/lib/types';
+
+const result = (overrides: Partial<ClassificationResult>): ClassificationResult => ({
+  classification: 'Business',
+  confidence: 90,
+  reasoning: 'test',
+  processingTier: 'Rule-Based',
+  ...overrides
+});
+
+describe('parseGoldSetCSV', () => {
+  it('reads names, expected classes and padded SIC codes', () => {
+    const { entries, errors } = parseGoldSetCSV(
+      'Payee Name,Expected Class,SIC\nACME LLC,Business,737\nJohn Smith,Individual,\nCity of Austin,Government,9111\nMystery,Alien,'
+    );
+
+    expect(errors).toEqual(['Row 5: unrecognized expected class "Alien" for "Mystery"']);
+    expect(entries).toEqual([
+      { payeeName: 'ACME LLC', expectedClassification: 'Business', expectedEntityType: undefined, expectedSicCode: '0737' },
+      { payeeName: 'John Smith', expectedClassification: 'Individual', expectedEntityType: undefined, expectedSicCode: undefined },
+      { payeeName: 'City of Austin', expectedClassification: 'Business', expectedEntityType: 'Government', expectedSicCode: '9111' }
+    ]);
+  });
+
+  it('rejects gold sets without the required columns', () => {
+    expect(parseGoldSetCSV('Vendor,Amount\nACME,10').errors).toHaveLength(1);
+  });
+});
+
+describe('buildEvaluationReport', () => {
+  const goldSet: GoldSetEntry[] = [
+    { payeeName: 'ACME LLC', expectedClassification: 'Business', expectedSicCode: '7372' },
+    { payeeName: 'Beta Corp', expectedClassification: 'Business', expectedSicCode: '5812' },
+    { payeeName: 'John Smith', expectedClassification: 'Individual' },
+    { payeeName: 'Jane Doe', expectedClassification: 'Individual' }
+  ];
+
+  it('computes the confusion matrix, per-tier metrics and SIC matches', () => {
+    const cases = [
+      scoreCase(goldSet[0], result({ sicCode: '7372' })),
+      scoreCase(goldSet[1], result({ sicCode: '5813', processingTier: 'AI-Powered' })),
+      scoreCase(goldSet[2], result({ processingTier: 'AI-Powered' })),
+      scoreCase(goldSet[3], null)
+    ];
+    const report = buildEvaluationReport(cases, 'final');
+
+    expect(report.accuracy).toBe(50);
+    expect(report.confusionMatrix.Business).toEqual({ Business: 2, Individual: 0, Unclassified: 0 });
+    expect(report.confusionMatrix.Individual).toEqual({ Business: 1, Individual: 0, Unclassified: 1 });
+    expect(report.business).toEqual({ precision: 66.7, recall: 100, support: 2 });
+    expect(report.tiers['AI-Powered'].accuracy).toBe(50);
+    expect(report.tiers['Rule-Based'].business.precision).toBe(100);
+    expect(report.sic).toMatchObject({ evaluated: 2, exactMatches: 1, majorGroupMatches: 2 });
+  });
+
+  it('diffs a run against the previous run', async () => {
+    const recorded = new Map([
+      ['ACME LLC', result({})],
+      ['John Smith', result({ classification: 'Individual' })]
+    ]);
+    const previous = await runEvaluation(goldSet.slice(0, 3), { classifier: 'recorded', recordedResults: new Map() });
+    const current = await runEvaluation([goldSet[0], goldSet[2], goldSet[3]], { classifier: 'recorded', recordedResults: recorded });
+
+    const diff = diffEvaluationReports(previous, current);
+    expect(diff.newlyCorrect).toEqual(['ACME LLC', 'John Smith']);
+    expect(diff.newlyIncorrect).toEqual([]);
+    expect(diff.added).toEqual(['Jane Doe']);
+    expect(diff.removed).toEqual(['Beta Corp']);
+    expect(diff.accuracyDelta).toBeCloseTo(66.7);
+  });
+});
@@ -0,0 +1,435 @@
+import * as XLSX from 'xlsx';
+import { supabase } from '@/integrations/supabase/client';
+import { ClassificationResult, EntityType } from '../types';
+import { classifyPayee } from '../classification/finalClassification';
+import { performOfflineClassification } from '../classification/offlineClassification';
+import { applyRuleBasedClassification } from '../classification/ruleBasedClassification';
+import { detectBusinessByExtendedRules, detectIndividualByExtendedRules } from '../classification/enhancedRules';
+import { normalizeEntityType, parseEntityType, toBinaryClassification } from '../classification/entityTaxonomy';
+import { predictNgram } from '../classification/ngramModel';
+import { loadNgramModel } from '../database/ngramModelService';
+
+/**
+ * Offline accuracy evaluation against labeled gold sets
+ */
+
+export type EvaluationClassifier = 'final' | 'offline' | 'rule-based' | 'local-model' | 'recorded';
+
+export type EvaluationLabel = 'Business' | 'Individual' | 'Unclassified';
+
+export interface GoldSetEntry {
+  payeeName: string;
+  expectedClassification: 'Business' | 'Individual';
+  // Only set when the gold set labels a specific entity type
+  expectedEntityType?: EntityType;
+  expectedSicCode?: string;
+}
+
+export interface EvaluationCase {
+  entry: GoldSetEntry;
+  predicted: EvaluationLabel;
+  predictedEntityType?: EntityType;
+  predictedSicCode?: string;
+  processingTier: string;
+  confidence: number;
+  correct: boolean;
+  sicExactMatch?: boolean;
+  sicMajorGroupMatch?: boolean;
+}
+
+export interface ClassMetrics {
+  precision: number;
+  recall: number;
+  support: number;
+}
+
+export interface TierMetrics {
+  count: number;
+  correct: number;
+  accuracy: number;
+  business: ClassMetrics;
+  individual: ClassMetrics;
+}
+
+export interface EvaluationReport {
+  goldSetName: string;
+  classifier: EvaluationClassifier;
+  runAt: string;
+  total: number;
+  correct: number;
+  accuracy: number;
+  // confusionMatrix[expected][predicted]
+  confusionMatrix: Record<'Business' | 'Individual', Record<EvaluationLabel, number>>;
+  business: ClassMetrics;
+  individual: ClassMetrics;
+  tiers: Record<string, TierMetrics>;
+  sic: {
+    evaluated: number;
+    exactMatches: number;
+    majorGroupMatches: number;
+    exactMatchRate: number;
+    majorGroupMatchRate: number;
+  };
+  cases: EvaluationCase[];
+}
+
+export interface EvaluationDiff {
+  previousRunAt: string;
+  accuracyDelta: number;
+  sicExactMatchDelta: number;
+  sicMajorGroupMatchDelta: number;
+  newlyCorrect: string[];
+  newlyIncorrect: string[];
+  added: string[];
+  removed: string[];
+}
+
+export interface RunEvaluationOptions {
+  classifier: EvaluationClassifier;
+  goldSetName?: string;
+  // Required for the 'recorded' classifier, keyed by payee name
+  recordedResults?: Map<string, ClassificationResult>;
+  onProgress?: (completed: number, total: number) => void;
+}
+
+const NAME_COLUMNS = ['payee_name', 'payee', 'name'];
+const CLASS_COLUMNS = ['expected_classification', 'expected_class', 'expected', 'classification', 'class'];
+const SIC_COLUMNS = ['expected_sic_code', 'expected_sic', 'sic_code', 'sic'];
+
+const LAST_RUN_STORAGE_KEY = 'gold_set_evaluation_runs';
+// PostgREST caps each response, so recorded results are read a page at a time
+const PAGE_SIZE = 1000;
+
+function findColumn(headers: string[], candidates: string[]): string | undefined {
+  const normalized = headers.map(header => header.trim().toLowerCase().replace(/[\s-]+/g, '_'));
+  for (const candidate of candidates) {
+    const index = normalized.indexOf(candidate);
+    if (index !== -1) return headers[index];
+  }
+  return undefined;
+}
+
+/**
+ * Normalize a SIC code to its 4-digit form, or undefined when it is not a SIC code
+ */
+function normalizeSicCode(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  const digits = String(value).trim();
+  if (!/^\d{1,4}$/.test(digits)) return undefined;
+  return digits.padStart(4, '0');
+}
+
+/**
+ * Build gold set entries from parsed spreadsheet rows.
+ * Rows without a name or a recognizable expected class are reported as errors.
+ */
+export function goldSetFromRows(rows: Record<string, unknown>[]): { entries: GoldSetEntry[]; errors: string[] } {
+  const errors: string[] = [];
+  if (rows.length === 0) {
+    return { entries: [], errors: ['Gold set is empty'] };
+  }
+
+  const headers = Object.keys(rows[0]);
+  const nameColumn = findColumn(headers, NAME_COLUMNS);
+  const classColumn = findColumn(headers, CLASS_COLUMNS);
+  const sicColumn = findColumn(headers, SIC_COLUMNS);
+  if (!nameColumn || !classColumn) {
+    return { entries: [], errors: ['Gold set needs a payee name column and an expected classification column'] };
+  }
+
+  const entries: GoldSetEntry[] = [];
+  rows.forEach((row, index) => {
+    const payeeName = String(row[nameColumn] ?? '').trim();
+    const rawClass = String(row[classColumn] ?? '').trim();
+    if (!payeeName) return;
+
+    const entityType = parseEntityType(rawClass);
+    if (!entityType) {
+      errors.push(`Row ${index + 2}: unrecognized expected class "${rawClass}" for "${payeeName}"`);
+      return;
+    }
+
+    const expectedClassification = toBinaryClassification(entityType);
+    entries.push({
+      payeeName,
+      expectedClassification,
+      expectedEntityType: entityType !== expectedClassification ? entityType : undefined,
+      expectedSicCode: sicColumn ? normalizeSicCode(row[sicColumn]) : undefined
+    });
+  });
+
+  return { entries, errors };
+}
+
+/**
+ * Parse a gold set from CSV text (name, expected class, optional SIC columns)
+ */
+export function parseGoldSetCSV(csvText: string): { entries: GoldSetEntry[]; errors: string[] } {
+  const workbook = XLSX.read(csvText, { type: 'string', raw: true });
+  const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+  const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(worksheet, { defval: '' });
+  return goldSetFromRows(rows);
+}
+
+/**
+ * Load saved AI outputs for a batch so a gold set can be scored without new API calls
+ */
+export async function loadRecordedResults(batchId: string): Promise<Map<string, ClassificationResult>> {
+  const recorded = new Map<string, ClassificationResult>();
+  const rows = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('payee_classifications')
+      .select('payee_name, classification, entity_type, confidence, reasoning, processing_tier, processing_method, sic_code, sic_description')
+      .eq('batch_id', batchId)
+      .order('row_index', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load recorded results: ${error.message}`);
+    }
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  for (const row of rows) {
+    if (recorded.has(row.payee_name)) continue;
+    const entityType = normalizeEntityType(row.entity_type, row.classification);
+    recorded.set(row.payee_name, {
+      classification: toBinaryClassification(entityType),
+      entityType,
+      confidence: row.confidence,
+      reasoning: row.reasoning,
+      processingTier: row.processing_tier as ClassificationResult['processingTier'],
+      processingMethod: row.processing_method || undefined,
+      sicCode: row.sic_code || undefined,
+      sicDescription: row.sic_description || undefined
+    });
+  }
+  return recorded;
+}
+
+async function classifyWith(
+  payeeName: string,
+  options: RunEvaluationOptions
+): Promise<ClassificationResult | null> {
+  switch (options.classifier) {
+    case 'final':
+      return classifyPayee(payeeName);
+    case 'offline':
+      return performOfflineClassification(
+        payeeName,
+        detectBusinessByExtendedRules(payeeName).rules,
+        detectIndividualByExtendedRules(payeeName).rules
+      );
+    case 'rule-based':
+      return applyRuleBasedClassification(payeeName);
+    case 'local-model': {
+      // Scores every prediction of the active model, not only those above its skip-AI threshold
+      const loaded = await loadNgramModel();
+      const prediction = loaded ? predictNgram(loaded.model, payeeName) : null;
+      return prediction ? {
+        classification: prediction.classification,
+        entityType: prediction.entityType,
+        confidence: prediction.confidence,
+        reasoning: `Local n-gram model v${loaded!.version}`,
+        processingTier: 'NLP-Based'
+      } : null;
+    }
+    case 'recorded':
+      return options.recordedResults?.get(payeeName) || null;
+  }
+}
+
+/**
+ * Score a single prediction against its gold entry
+ */
+export function scoreCase(entry: GoldSetEntry, result: ClassificationResult | null): EvaluationCase {
+  if (!result || result.processingTier === 'Failed') {
+    return {
+      entry,
+      predicted: 'Unclassified',
+      processingTier: result?.processingTier || 'Unclassified',
+      confidence: result?.confidence || 0,
+      correct: false
+    };
+  }
+
+  const predictedEntityType = normalizeEntityType(result.entityType, result.classification);
+  const predicted = toBinaryClassification(predictedEntityType);
+  const correct = entry.expectedEntityType
+    ? predictedEntityType === entry.expectedEntityType
+    : predicted === entry.expectedClassification;
+
+  const predictedSicCode = normalizeSicCode(result.sicCode);
+  const scoreSic = entry.expectedSicCode !== undefined;
+
+  return {
+    entry,
+    predicted,
+    predictedEntityType,
+    predictedSicCode,
+    processingTier: result.processingTier,
+    confidence: result.confidence,
+    correct,
+    sicExactMatch: scoreSic ? predictedSicCode === entry.expectedSicCode : undefined,
+    sicMajorGroupMatch: scoreSic ? predictedSicCode?.slice(0, 2) === entry.expectedSicCode!.slice(0, 2) : undefined
+  };
+}
+
+function rate(numerator: number, denominator: number): number {
+  return denominator > 0 ? Math.round((numerator / denominator) * 1000) / 10 : 0;
+}
+
+function classMetrics(cases: EvaluationCase[], label: 'Business' | 'Individual'): ClassMetrics {
+  const truePositives = cases.filter(c => c.predicted === label && c.entry.expectedClassification === label).length;
+  const predictedCount = cases.filter(c => c.predicted === label).length;
+  const support = cases.filter(c => c.entry.expectedClassification === label).length;
+  return {
+    precision: rate(truePositives, predictedCount),
+    recall: rate(truePositives, support),
+    support
+  };
+}
+
+/**
+ * Aggregate scored cases into an accuracy report
+ */
+export function buildEvaluationReport(
+  cases: EvaluationCase[],
+  classifier: EvaluationClassifier,
+  goldSetName: string = 'Gold set'
+): EvaluationReport {
+  const emptyRow = (): Record<EvaluationLabel, number> => ({ Business: 0, Individual: 0, Unclassified: 0 });
+  const confusionMatrix = { Business: emptyRow(), Individual: emptyRow() };
+  for (const c of cases) {
+    confusionMatrix[c.entry.expectedClassification][c.predicted]++;
+  }
+
+  const tiers: Record<string, TierMetrics> = {};
+  const tierNames = Array.from(new Set(cases.map(c => c.processingTier)));
+  for (const tier of tierNames) {
+    const tierCases = cases.filter(c => c.processingTier === tier);
+    const correct = tierCases.filter(c => c.correct).length;
+    tiers[tier] = {
+      count: tierCases.length,
+      correct,
+      accuracy: rate(correct, tierCases.length),
+      business: classMetrics(tierCases, 'Business'),
+      individual: classMetrics(tierCases, 'Individual')
+    };
+  }
+
+  const sicCases = cases.filter(c => c.entry.expectedSicCode !== undefined);
+  const exactMatches = sicCases.filter(c => c.sicExactMatch).length;
+  const majorGroupMatches = sicCases.filter(c => c.sicMajorGroupMatch).length;
+  const correct = cases.filter(c => c.correct).length;
+
+  return {
+    goldSetName,
+    classifier,
+    runAt: new Date().toISOString(),
+    total: cases.length,
+    correct,
+    accuracy: rate(correct, cases.length),
+    confusionMatrix,
+    business: classMetrics(cases, 'Business'),
+    individual: classMetrics(cases, 'Individual'),
+    tiers,
+    sic: {
+      evaluated: sicCases.length,
+      exactMatches,
+      majorGroupMatches,
+      exactMatchRate: rate(exactMatches, sicCases.length),
+      majorGroupMatchRate: rate(majorGroupMatches, sicCases.length)
+    },
+    cases
+  };
+}
+
+/**
+ * Run a gold set through the selected classifier and build the report
+ */
+export async function runEvaluation(
+  goldSet: GoldSetEntry[],
+  options: RunEvaluationOptions
+): Promise<EvaluationReport> {
+  if (options.classifier === 'recorded' && !options.recordedResults) {
+    throw new Error('Recorded results are required for the recorded classifier');
+  }
+
+  const cases: EvaluationCase[] = [];
+  for (const entry of goldSet) {
+    let result: ClassificationResult | null;
+    try {
+      result = await classifyWith(entry.payeeName, options);
+    } catch (error) {
+      console.error(`[GOLD SET EVALUATION] Classification failed for "${entry.payeeName}":`, error);
+      result = null;
+    }
+    cases.push(scoreCase(entry, result));
+    options.onProgress?.(cases.length, goldSet.length);
+  }
+
+  return buildEvaluationReport(cases, options.classifier, options.goldSetName);
+}
+
+/**
+ * Compare a run against an earlier run of the same gold set
+ */
+export function diffEvaluationReports(previous: EvaluationReport, current: EvaluationReport): EvaluationDiff {
+  const previousByName = new Map(previous.cases.map(c => [c.entry.payeeName, c]));
+  const currentByName = new Map(current.cases.map(c => [c.entry.payeeName, c]));
+
+  const newlyCorrect: string[] = [];
+  const newlyIncorrect: string[] = [];
+  for (const [name, currentCase] of currentByName) {
+    const previousCase = previousByName.get(name);
+    if (!previousCase) continue;
+    if (currentCase.correct && !previousCase.correct) newlyCorrect.push(name);
+    if (!currentCase.correct && previousCase.correct) newlyIncorrect.push(name);
+  }
+
+  return {
+    previousRunAt: previous.runAt,
+    accuracyDelta: Math.round((current.accuracy - previous.accuracy) * 10) / 10,
+    sicExactMatchDelta: Math.round((current.sic.exactMatchRate - previous.sic.exactMatchRate) * 10) / 10,
+    sicMajorGroupMatchDelta: Math.round((current.sic.majorGroupMatchRate - previous.sic.majorGroupMatchRate) * 10) / 10,
+    newlyCorrect,
+    newlyIncorrect,
+    added: Array.from(currentByName.keys()).filter(name => !previousByName.has(name)),
+    removed: Array.from(previousByName.keys()).filter(name => !currentByName.has(name))
+  };
+}
+
+function runKey(report: Pick<EvaluationReport, 'goldSetName' | 'classifier'>): string {
+  return `${report.goldSetName}::${report.classifier}`;
+}
+
+/**
+ * Load the previous run for a gold set and classifier, if one was saved
+ */
+export function loadPreviousEvaluation(goldSetName: string, classifier: EvaluationClassifier): EvaluationReport | null {
+  try {
+    const runs = JSON.parse(localStorage.getItem(LAST_RUN_STORAGE_KEY) || '{}');
+    return runs[runKey({ goldSetName, classifier })] || null;
+  } catch (error) {
+    console.error('[GOLD SET EVALUATION] Failed to load previous run:', error);
+    return null;
+  }
+}
+
+/**
+ * Save a run so the next run of the same gold set and classifier can be diffed against it
+ */
+export function saveEvaluation(report: EvaluationReport): void {
+  try {
+    const runs = JSON.parse(localStorage.getItem(LAST_RUN_STORAGE_KEY) || '{}');
+    runs[runKey(report)] = report;
+    localStorage.setItem(LAST_RUN_STORAGE_KEY, JSON.stringify(runs));
+  } catch (error) {
+    console.error('[GOLD SET EVALUATION] Failed to save run:', error);
+  }
+}
@@ -1,15 +1,124 @@
 
+/**
+ * Fine-grained payee entity taxonomy. `classification` stays binary for
+ * backwards compatibility; `entityType` carries the detailed class.
+ */
+export type EntityType =
+  | 'Individual'
+  | 'Business'
+  | 'Government'
+  | 'Nonprofit'
+  | 'Financial Institution'
+  | 'Trust/Estate'
+  | 'Sole Proprietor';
+
 export interface ClassificationResult {
   classification: 'Business' | 'Individual';
+  entityType?: EntityType;
   confidence: number;
   reasoning: string;
-  processingTier: 'Rule-Based' | 'NLP-Based' | 'AI-Assisted' | 'AI-Powered' | 'Excluded' | 'Failed';
+  processingTier: 'Rule-Based' | 'NLP-Based' | 'AI-Assisted' | 'AI-Powered' | 'Excluded' | 'Failed' | 'Override' | 'Suspicious Input';
   matchingRules?: string[];
   similarityScores?: SimilarityScores;
   keywordExclusion?: KeywordExclusionResult;
   processingMethod?: string;
   sicCode?: string;
   sicDescription?: string;
+  review?: ClassificationReviewInfo;
+  cacheHit?: boolean;
+  cachedFromBatchId?: string;
+  localModelVersion?: number;
+  // Prompt template version of the AI call that produced this result
+  promptVersionId?: string;
+  usage?: TokenUsage;
+  ensemble?: EnsembleResult;
+  composite?: CompositeClassification;
+  // Set when the payee's batch request failed and nothing else classified it
+  batchError?: BatchErrorInfo;
+}
+
+/**
+ * OpenAI's error for a failed batch request, as written to the job's error file
+ */
+export interface BatchErrorInfo {
+  code: string | null;
+  message: string;
+}
+
+/**
+ * Tokens billed for one AI request; costUsd is null when the model has no known price
+ */
+export interface TokenUsage {
+  // Not stored per payee, so absent on results loaded back from the database
+  model?: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number | null;
+}
+
+export type EnsembleVoter = 'keyword' | 'rule' | 'nlp' | 'offline' | 'localModel' | 'ai';
+
+/**
+ * One tier's opinion in an ensemble vote
+ */
+export interface EnsembleVote {
+  voter: EnsembleVoter;
+  classification: 'Business' | 'Individual';
+  entityType?: EntityType;
+  confidence: number;
+  weight: number;
+}
+
+/**
+ * Combined ensemble outcome; disagreementScore is 0 when every weighted vote agrees
+ * and 100 when the weighted votes are evenly split
+ */
+export interface EnsembleResult {
+  votes: EnsembleVote[];
+  disagreementScore: number;
+  flagged: boolean;
+}
+
+/**
+ * How the two entities in a composite payee string relate, e.g. "JOHN SMITH DBA SMITH PLUMBING"
+ */
+export type CompositeRelationship = 'DBA' | 'C/O' | 'ATTN' | 'FBO';
+
+export interface CompositePartClassification {
+  name: string;
+  classification: 'Business' | 'Individual';
+  entityType?: EntityType;
+  confidence: number;
+}
+
+/**
+ * Separate classifications of the primary and secondary entities of a composite payee
+ */
+export interface CompositeClassification {
+  relationship: CompositeRelationship;
+  primary: CompositePartClassification;
+  secondary: CompositePartClassification | null;
+}
+
+export type Form1099Status = 'Likely Reportable' | 'Exempt' | 'Review';
+
+/**
+ * Whether payments to a payee are likely reportable on Form 1099, with the rule that decided it
+ */
+export interface Form1099Determination {
+  status: Form1099Status;
+  reason: string;
+}
+
+/**
+ * Outcome of a human review of a low-confidence classification
+ */
+export interface ClassificationReviewInfo {
+  status: 'accepted' | 'overridden';
+  reviewer: string;
+  reviewedAt: string;
+  reason: string;
 }
 
 export interface SimilarityScores {
@@ -24,6 +133,7 @@ export interface SimilarityScores {
 export interface KeywordExclusionResult {
   isExcluded: boolean;
   matchedKeywords: string[];
+  matchedCategories?: string[];
   confidence: number;
   reasoning: string;
 }
@@ -60,6 +170,15 @@ export interface ParsedPerson {
   [key: string]: string | undefined;
 }
 
+/**
+ * Individual parties named by a joint payee such as "JOHN & MARY SMITH"
+ */
+export interface JointPayeeDetection {
+  isJoint: boolean;
+  partyCount: number;
+  parties: string[];
+}
+
 export interface ParsedCorporation {
   CorporationName?: string;
   CorporationLegalType?: string;
@@ -78,6 +197,7 @@ export interface ClassificationConfig {
   retryFailedClassifications?: boolean;
   maxRetries?: number;
   includeSicCodes?: boolean; // Add this property to support SIC code inclusion
+  ensembleMode?: boolean; // Run every tier and combine them by weighted vote
 }
 
 export interface DataIntegrityReport {
@@ -1,5 +1,8 @@
 
 // Unified type system for the entire application
+import type { EntityType } from '@/lib/types';
+
+export type { EntityType };
 
 // Base types
 export interface BaseEntity {
@@ -11,6 +14,7 @@ export interface BaseEntity {
 // Classification types (consolidated from multiple files)
 export interface ClassificationResult {
   classification: 'Personal' | 'Business';
+  entityType?: EntityType;
   confidence: number;
   reasoning: string;
   processingTier: string;
@@ -99,10 +103,39 @@ export interface DownloadState {
   estimatedTimeRemaining?: number;
 }
 
+// AI provider types
+/**
+ * Supported LLM provider types.
+ * - openai: the hosted OpenAI API (default)
+ * - azure-openai: Azure OpenAI resource with a model deployment
+ * - openai-compatible: any server exposing the OpenAI REST surface (vLLM, LiteLLM, ...)
+ * - ollama: a local Ollama server via its OpenAI-compatible /v1 endpoint
+ */
+export type AIProviderType = 'openai' | 'azure-openai' | 'openai-compatible' | 'ollama';
+
+export interface AIProviderSettings {
+  type: AIProviderType;
+  model: string;
+  baseURL?: string;
+  apiKey?: string;
+  /** Token returned by the secure key store when the key has been persisted */
+  apiKeyToken?: string;
+  /** Azure only: API version query parameter, e.g. 2024-10-21 */
+  apiVersion?: string;
+  /** Azure only: deployment name of the model; Azure routes requests by it */
+  deployment?: string;
+  /** Name of the header used to send the key for gateways that don't use Bearer auth */
+  authHeader?: string;
+  /** Whether the endpoint implements the /v1/files and /v1/batches APIs */
+  supportsBatchAPI?: boolean;
+}
+
 // Configuration types
 export interface ClassificationConfig {
   useAI: boolean;
-  aiProvider: 'openai';
+  aiProvider: AIProviderType;
+  /** Endpoint, auth and deployment details for non-default providers */
+  providerSettings?: Omit<AIProviderSettings, 'type' | 'model'>;
   model: string;
   temperature: number;
   maxTokens: number;
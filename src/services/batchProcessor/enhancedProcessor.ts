@@ -6,6 +6,100 @@ import { ProcessBatchResultsParams, ProcessBatchResultsReturn, BatchProcessorSta
 import { detectDuplicates } from '@/lib/services/duplicate';
 import { DEFAULT_DUPLICATE_CONFIG } from '@/lib/services/duplicateDetectionTypes';
 import { productionLogger } from '@/lib/logging';
+import { findCachedClassifications, getJobCacheSettings } from '@/lib/database/classificationCacheService';
+import { findLocalModelClassifications, getJobLocalModelSettings } from '@/lib/database/ngramModelService';
+import { classifyPayee } from '@/lib/classification/finalClassification';
+import { DEFAULT_CLASSIFICATION_CONFIG } from '@/lib/classification/config';
+import { isSuspiciousPayeeName } from '@/lib/openai/promptSafety';
+
+/**
+ * Replace results for payees that were never submitted because a fresh cached
+ * classification existed. The job's creation time pins the freshness window and its
+ * recorded cache settings are replayed, so the same hits are found as when the job
+ * was created.
+ */
+async function mergeCachedResults({
+  rawResults,
+  uniquePayeeNames,
+  job
+}: Pick<ProcessBatchResultsParams, 'rawResults' | 'uniquePayeeNames' | 'job'>): Promise<ProcessBatchResultsParams['rawResults']> {
+  const missing = uniquePayeeNames.filter((name, index) => {
+    const entry = rawResults[index];
+    return !entry || (entry.result ?? entry).status === 'failed';
+  });
+  if (missing.length === 0) {
+    return rawResults;
+  }
+
+  const asOf = job?.created_at ? new Date(job.created_at * 1000) : new Date();
+  const cached = await findCachedClassifications(missing, asOf, getJobCacheSettings(job?.metadata));
+  if (cached.size === 0) {
+    return rawResults;
+  }
+
+  return uniquePayeeNames.map((name, index) => {
+    const hit = cached.get(name);
+    return hit ? { result: { payeeName: name, status: 'success', ...hit.result } } : rawResults[index];
+  });
+}
+
+/**
+ * Replace results for payees the local n-gram model classified at submission.
+ * The job records which model version and floor it used; jobs without a version skipped nothing.
+ */
+async function mergeLocalModelResults({
+  rawResults,
+  uniquePayeeNames,
+  job
+}: Pick<ProcessBatchResultsParams, 'rawResults' | 'uniquePayeeNames' | 'job'>): Promise<ProcessBatchResultsParams['rawResults']> {
+  const version = Number(job?.metadata?.local_model_version);
+  if (!version) {
+    return rawResults;
+  }
+
+  const missing = uniquePayeeNames.filter((name, index) => {
+    const entry = rawResults[index];
+    return !entry || (entry.result ?? entry).status === 'failed';
+  });
+  if (missing.length === 0) {
+    return rawResults;
+  }
+
+  const { results } = await findLocalModelClassifications(missing, version, getJobLocalModelSettings(job?.metadata));
+  if (results.size === 0) {
+    return rawResults;
+  }
+
+  return uniquePayeeNames.map((name, index) => {
+    const hit = results.get(name);
+    return hit ? { result: { payeeName: name, status: 'success', ...hit } } : rawResults[index];
+  });
+}
+
+/**
+ * Replace results for payees held back because their names look like prompt injection.
+ * They are classified offline, which flags them with the Suspicious Input tier.
+ */
+async function mergeSuspiciousResults({
+  rawResults,
+  uniquePayeeNames
+}: Pick<ProcessBatchResultsParams, 'rawResults' | 'uniquePayeeNames'>): Promise<ProcessBatchResultsParams['rawResults']> {
+  const suspicious = new Set(uniquePayeeNames.filter((name, index) => {
+    const entry = rawResults[index];
+    return (!entry || (entry.result ?? entry).status === 'failed') && isSuspiciousPayeeName(name);
+  }));
+  if (suspicious.size === 0) {
+    return rawResults;
+  }
+
+  return Promise.all(uniquePayeeNames.map(async (name, index) => {
+    if (!suspicious.has(name)) {
+      return rawResults[index];
+    }
+    const result = await classifyPayee(name, { ...DEFAULT_CLASSIFICATION_CONFIG, offlineMode: true });
+    return { result: { payeeName: name, status: 'success', ...result } };
+  }));
+}
 
 /**
  * Enhanced batch result processor with chunked processing and keyword exclusion
@@ -29,9 +123,19 @@ export async function processEnhancedBatchResults({
     businessCount: 0,
     individualCount: 0,
     excludedCount: 0,
-    sicCodeCount: 0
+    sicCodeCount: 0,
+    overrideCount: 0,
+    cacheHitCount: 0,
+    localModelCount: 0,
+    suspiciousInputCount: 0,
+    ensembleFlaggedCount: 0
   };
 
+  // Screened names first: the cache may hold an answer from before they were screened
+  rawResults = await mergeSuspiciousResults({ rawResults, uniquePayeeNames });
+  rawResults = await mergeCachedResults({ rawResults, uniquePayeeNames, job });
+  rawResults = await mergeLocalModelResults({ rawResults, uniquePayeeNames, job });
+
   // RUN DUPLICATE DETECTION FIRST before processing individual results
   productionLogger.info(
     `Running duplicate detection on ${uniquePayeeNames.length} unique payees`,
@@ -128,7 +232,9 @@ export async function processEnhancedBatchResults({
         }
       }
       
-      return await processIndividualResult(result, index, payeeName, job.id, stats, originalRowData, duplicateData);
+      return await processIndividualResult(
+        result, index, payeeName, job.id, stats, originalRowData, duplicateData, job?.metadata?.prompt_version_id
+      );
     },
     {
       chunkSize: rawResults.length > 5000 ? 100 : 50,
@@ -1,6 +1,13 @@
 
-import { PayeeClassification } from '@/lib/types';
+import { PayeeClassification, EntityType } from '@/lib/types';
 import { checkKeywordExclusion } from '@/lib/classification/enhancedKeywordExclusion';
+import { detectEntityTypeByRules } from '@/lib/classification/enhancedRules';
+import { normalizeEntityType, toBinaryClassification } from '@/lib/classification/entityTaxonomy';
+import { combineWithAIVote, getEnsembleSettings } from '@/lib/classification/ensembleClassification';
+import { combineCompositeResults } from '@/lib/classification/compositeClassification';
+import { classifyPayee } from '@/lib/classification/finalClassification';
+import { DEFAULT_CLASSIFICATION_CONFIG } from '@/lib/classification/config';
+import { parseCompositePayee } from '@/lib/dataStandardization/compositeParser';
 import { BatchProcessorStats } from './types';
 import { productionLogger } from '@/lib/logging';
 
@@ -11,7 +18,8 @@ export async function processIndividualResult(
   jobId: string,
   stats: BatchProcessorStats,
   originalRowData?: any,
-  duplicateData?: any
+  duplicateData?: any,
+  promptVersionId?: string
 ): Promise<PayeeClassification> {
   productionLogger.debug(
     `Processing result ${index} for "${payeeName}" with original data preservation`,
@@ -19,8 +27,61 @@ export async function processIndividualResult(
     'RESULT_PROCESSOR'
   );
   
-  // Apply keyword exclusion check
+  // Apply keyword exclusion check (reviewer overrides are never re-classified)
+  const isOverride = (result.result?.processingTier || result.processingTier) === 'Override';
   const keywordExclusion = await checkKeywordExclusion(payeeName);
+  if (isOverride) {
+    stats.overrideCount++;
+  }
+  const cacheHit = Boolean(result.result?.cacheHit || result.cacheHit);
+  if (cacheHit) {
+    stats.cacheHitCount++;
+  }
+  const localModelVersion = result.result?.localModelVersion ?? result.localModelVersion;
+  if (localModelVersion !== undefined) {
+    stats.localModelCount++;
+  }
+
+  let rawResult = result.result ?? result;
+  // Names screened out as prompt injection were classified offline and must not be treated as AI answers
+  const isSuspiciousInput = rawResult.processingTier === 'Suspicious Input';
+  if (isSuspiciousInput) {
+    stats.suspiciousInputCount++;
+  }
+  // Tokens billed for this payee's request, even when its answer failed to parse
+  const usage = rawResult.usage;
+  const isFreshAIResult = !isOverride && !cacheHit && localModelVersion === undefined && !isSuspiciousInput &&
+    rawResult.status !== 'failed' && Boolean(rawResult.classification);
+
+  // The AI only saw a composite payee's primary entity; the secondary one is classified locally
+  const composite = isFreshAIResult ? parseCompositePayee(payeeName) : null;
+  if (composite) {
+    const secondaryResult = composite.secondaryName
+      ? await classifyPayee(composite.secondaryName, { ...DEFAULT_CLASSIFICATION_CONFIG, offlineMode: true })
+      : null;
+    rawResult = combineCompositeResults(composite, rawResult, secondaryResult);
+    result = { result: rawResult };
+  }
+
+  // Ensemble mode re-weighs fresh AI results against every local tier; keyword
+  // exclusion becomes one weighted vote instead of forcing the outcome
+  const ensembleSettings = getEnsembleSettings();
+  if (ensembleSettings.enabled && isFreshAIResult) {
+    const combined = await combineWithAIVote(payeeName, rawResult, ensembleSettings, keywordExclusion);
+    result = {
+      result: {
+        ...rawResult,
+        ...combined,
+        sicCode: combined.classification === 'Business' ? rawResult.sicCode : undefined,
+        sicDescription: combined.classification === 'Business' ? rawResult.sicDescription : undefined
+      }
+    };
+    if (combined.ensemble?.flagged) {
+      stats.ensembleFlaggedCount++;
+    }
+  }
+  const ensemble = result.result?.ensemble;
+  const applyExclusion = keywordExclusion.isExcluded && !isOverride && !ensemble;
   
   // ENFORCE HIGH ACCURACY - reject low confidence results
   const confidence = result.result?.confidence || result.confidence || 50;
@@ -34,8 +95,22 @@ export async function processIndividualResult(
   
   // Override classification if excluded
   let finalClassification = result.result?.classification || result.classification || 'Individual';
-  if (keywordExclusion.isExcluded) {
+
+  // Resolve the entity type: AI output first, then name rules, then the binary classification
+  const rawEntityType = result.result?.entityType || result.entityType;
+  let entityType: EntityType;
+  if (rawEntityType) {
+    entityType = normalizeEntityType(rawEntityType, finalClassification);
+  } else {
+    entityType = detectEntityTypeByRules(payeeName).entityType || normalizeEntityType(finalClassification);
+  }
+  finalClassification = toBinaryClassification(entityType);
+
+  if (applyExclusion) {
     finalClassification = 'Business';
+    if (entityType === 'Individual') {
+      entityType = 'Business';
+    }
     stats.excludedCount++;
     productionLogger.info(
       `Keyword exclusion applied to "${payeeName}" - forced to Business`,
@@ -73,17 +148,28 @@ export async function processIndividualResult(
     payeeName: payeeName,
     result: {
       classification: finalClassification,
+      entityType,
       confidence: confidence,
       // FIX: Ensure reasoning is specific to this payee and classification
-      reasoning: keywordExclusion.isExcluded 
+      reasoning: applyExclusion 
         ? `Keyword exclusion applied: ${keywordExclusion.reasoning}` 
         : (result.result?.reasoning || result.reasoning || `Classified as ${finalClassification} based on analysis`),
-      processingTier: result.result?.processingTier || 'AI-Powered',
-      processingMethod: result.result?.processingMethod || 'OpenAI High-Accuracy',
+      processingTier: result.result?.processingTier || result.processingTier || 'AI-Powered',
+      processingMethod: result.result?.processingMethod || result.processingMethod || 'OpenAI High-Accuracy',
       sicCode: sicCode || '',
       sicDescription: result.result?.sicDescription || result.sicDescription || '',
       matchingRules: result.result?.matchingRules || [],
-      keywordExclusion: keywordExclusion
+      keywordExclusion: keywordExclusion,
+      cacheHit,
+      cachedFromBatchId: result.result?.cachedFromBatchId || result.cachedFromBatchId,
+      localModelVersion,
+      // Only fresh AI answers came from the job's prompt
+      promptVersionId: isFreshAIResult ? promptVersionId : result.result?.promptVersionId,
+      usage,
+      ensemble,
+      composite: result.result?.composite,
+      // Only kept while no other tier replaced the failed answer
+      batchError: rawResult.status === 'failed' ? rawResult.batchError : undefined
     },
     timestamp: new Date(),
     // PRESERVE COMPLETE ORIGINAL ROW DATA - this is critical for data integrity
@@ -29,7 +29,7 @@ export function logProcessingStats(
     'ENHANCED_BATCH_PROCESSOR'
   );
   productionLogger.info(
-    `Business: ${stats.businessCount}, Individual: ${stats.individualCount}, Excluded: ${stats.excludedCount}, SIC: ${stats.sicCodeCount}`,
+    `Business: ${stats.businessCount}, Individual: ${stats.individualCount}, Excluded: ${stats.excludedCount}, Overrides: ${stats.overrideCount}, Cached: ${stats.cacheHitCount}, Local model: ${stats.localModelCount}, Suspicious input: ${stats.suspiciousInputCount}, Ensemble flagged: ${stats.ensembleFlaggedCount}, SIC: ${stats.sicCodeCount}`,
     undefined,
     'ENHANCED_BATCH_PROCESSOR'
   );
@@ -12,6 +12,11 @@ export interface BatchProcessorStats {
   individualCount: number;
   excludedCount: number;
   sicCodeCount: number;
+  overrideCount: number;
+  cacheHitCount: number;
+  localModelCount: number;
+  suspiciousInputCount: number;
+  ensembleFlaggedCount: number;
 }
 
 export interface ProcessBatchResultsParams {
@@ -1,5 +0,0 @@
-declare module 'probablepeople' {
-  export function parse(name: string): [any, string];
-  
-  // Add more functions and types as needed
-}
@@ -0,0 +1,13 @@
+-- Add entity type column to the payee_classifications table
+-- classification stays Business/Individual; entity_type carries the full taxonomy
+ALTER TABLE public.payee_classifications
+ADD COLUMN entity_type TEXT
+  CHECK (entity_type IN ('Individual', 'Sole Proprietor', 'Business', 'Financial Institution', 'Nonprofit', 'Government', 'Trust/Estate'));
+
+-- Backfill existing rows from the binary classification
+UPDATE public.payee_classifications
+SET entity_type = classification
+WHERE entity_type IS NULL;
+
+-- Add index for entity type queries
+CREATE INDEX idx_payee_classifications_entity_type ON public.payee_classifications(entity_type);
@@ -0,0 +1,43 @@
+-- Create table for the human review queue of low-confidence classifications
+CREATE TABLE public.classification_reviews (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  classification_id UUID NOT NULL UNIQUE REFERENCES public.payee_classifications(id) ON DELETE CASCADE,
+  batch_id TEXT,
+  payee_name TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'overridden')),
+  original_classification TEXT NOT NULL,
+  original_entity_type TEXT,
+  original_confidence NUMERIC NOT NULL,
+  original_sic_code TEXT,
+  original_sic_description TEXT,
+  reviewed_classification TEXT CHECK (reviewed_classification IN ('Business', 'Individual')),
+  reviewed_entity_type TEXT,
+  reviewed_sic_code TEXT,
+  reviewed_sic_description TEXT,
+  reviewer TEXT,
+  review_reason TEXT,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Create indexes for better performance
+CREATE INDEX idx_classification_reviews_status ON public.classification_reviews(status);
+CREATE INDEX idx_classification_reviews_batch_id ON public.classification_reviews(batch_id);
+CREATE INDEX idx_classification_reviews_created_at ON public.classification_reviews(created_at DESC);
+
+-- Create updated_at trigger
+CREATE TRIGGER update_classification_reviews_updated_at
+  BEFORE UPDATE ON public.classification_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable Row Level Security (RLS) for future user-specific access
+ALTER TABLE public.classification_reviews ENABLE ROW LEVEL SECURITY;
+
+-- Create a permissive policy for now (can be restricted later when auth is added)
+CREATE POLICY "Allow all operations on classification_reviews" 
+  ON public.classification_reviews 
+  FOR ALL 
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,42 @@
+-- Create table for reviewer corrections that are reused across batches
+CREATE TABLE public.payee_overrides (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  normalized_name TEXT NOT NULL UNIQUE,
+  payee_name TEXT NOT NULL,
+  classification TEXT NOT NULL CHECK (classification IN ('Business', 'Individual')),
+  entity_type TEXT,
+  sic_code TEXT,
+  sic_description TEXT,
+  reason TEXT,
+  created_by TEXT,
+  source_review_id UUID REFERENCES public.classification_reviews(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Create indexes for better performance
+CREATE INDEX idx_payee_overrides_normalized_name ON public.payee_overrides(normalized_name);
+
+-- Create updated_at trigger
+CREATE TRIGGER update_payee_overrides_updated_at
+  BEFORE UPDATE ON public.payee_overrides
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable Row Level Security (RLS) for future user-specific access
+ALTER TABLE public.payee_overrides ENABLE ROW LEVEL SECURITY;
+
+-- Create a permissive policy for now (can be restricted later when auth is added)
+CREATE POLICY "Allow all operations on payee_overrides" 
+  ON public.payee_overrides 
+  FOR ALL 
+  USING (true)
+  WITH CHECK (true);
+
+-- Allow the Override processing tier on saved classifications
+ALTER TABLE public.payee_classifications
+DROP CONSTRAINT IF EXISTS payee_classifications_processing_tier_check;
+
+ALTER TABLE public.payee_classifications
+ADD CONSTRAINT payee_classifications_processing_tier_check
+  CHECK (processing_tier IN ('Rule-Based', 'NLP-Based', 'AI-Assisted', 'AI-Powered', 'Excluded', 'Failed', 'Override'));
@@ -0,0 +1,12 @@
+-- Add cross-batch cache columns to the payee_classifications table
+-- normalized_name is written by the app using the same standardization as uploads;
+-- rows saved before this migration have no normalized name and are never cache hits
+ALTER TABLE public.payee_classifications
+ADD COLUMN normalized_name TEXT,
+ADD COLUMN cache_hit BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN cached_from_batch_id TEXT;
+
+-- Add index for cache lookups
+CREATE INDEX idx_payee_classifications_cache_lookup
+  ON public.payee_classifications(normalized_name, created_at DESC)
+  WHERE cache_hit = false;
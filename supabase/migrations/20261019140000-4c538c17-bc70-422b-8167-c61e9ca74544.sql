@@ -0,0 +1,32 @@
+-- Create table for versioned local n-gram classifier models
+CREATE TABLE public.ngram_models (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  version INTEGER NOT NULL UNIQUE,
+  model JSONB NOT NULL,
+  sample_count INTEGER NOT NULL,
+  holdout_accuracy NUMERIC,
+  confidence_threshold NUMERIC,
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  trained_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Only one model version may be active at a time
+CREATE UNIQUE INDEX idx_ngram_models_single_active ON public.ngram_models(is_active) WHERE is_active;
+
+-- Create updated_at trigger
+CREATE TRIGGER update_ngram_models_updated_at
+  BEFORE UPDATE ON public.ngram_models
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable Row Level Security (RLS) for future user-specific access
+ALTER TABLE public.ngram_models ENABLE ROW LEVEL SECURITY;
+
+-- Create a permissive policy for now (can be restricted later when auth is added)
+CREATE POLICY "Allow all operations on ngram_models" 
+  ON public.ngram_models 
+  FOR ALL 
+  USING (true)
+  WITH CHECK (true);
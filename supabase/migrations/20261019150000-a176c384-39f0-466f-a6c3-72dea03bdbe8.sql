@@ -0,0 +1,11 @@
+-- Add ensemble voting columns to the payee_classifications table
+-- Rows classified without ensemble mode keep a null disagreement score
+ALTER TABLE public.payee_classifications
+ADD COLUMN ensemble_votes JSONB,
+ADD COLUMN ensemble_disagreement NUMERIC,
+ADD COLUMN ensemble_flagged BOOLEAN NOT NULL DEFAULT false;
+
+-- Add index for finding high-disagreement rows that need review
+CREATE INDEX idx_payee_classifications_ensemble_flagged
+  ON public.payee_classifications(batch_id)
+  WHERE ensemble_flagged = true;
@@ -0,0 +1,36 @@
+-- Create table for analyst-authored classification rules
+CREATE TABLE public.classification_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  match_type TEXT NOT NULL CHECK (match_type IN ('regex', 'token', 'prefix', 'suffix', 'word_count')),
+  pattern TEXT NOT NULL,
+  classification TEXT NOT NULL CHECK (classification IN ('Business', 'Individual')),
+  entity_type TEXT,
+  sic_code TEXT,
+  sic_description TEXT,
+  confidence NUMERIC NOT NULL DEFAULT 90 CHECK (confidence >= 0 AND confidence <= 100),
+  priority INTEGER NOT NULL DEFAULT 100,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Active rules are loaded in priority order
+CREATE INDEX idx_classification_rules_active_priority ON public.classification_rules(is_active, priority DESC);
+
+-- Create updated_at trigger
+CREATE TRIGGER update_classification_rules_updated_at
+  BEFORE UPDATE ON public.classification_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable Row Level Security (RLS) for future user-specific access
+ALTER TABLE public.classification_rules ENABLE ROW LEVEL SECURITY;
+
+-- Create a permissive policy for now (can be restricted later when auth is added)
+CREATE POLICY "Allow all operations on classification_rules" 
+  ON public.classification_rules 
+  FOR ALL 
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,38 @@
+-- Create table for versioned AI prompt templates; every edit inserts a new version
+CREATE TABLE public.prompt_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  template_key TEXT NOT NULL,
+  name TEXT NOT NULL,
+  purpose TEXT NOT NULL CHECK (purpose IN ('batch_classification', 'single_classification', 'duplicate_detection')),
+  version INTEGER NOT NULL,
+  system_prompt TEXT NOT NULL,
+  user_prompt TEXT NOT NULL,
+  variables JSONB NOT NULL DEFAULT '{}'::jsonb,
+  notes TEXT,
+  created_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (template_key, version)
+);
+
+CREATE INDEX idx_prompt_templates_purpose ON public.prompt_templates(purpose, template_key, version DESC);
+
+-- Create updated_at trigger
+CREATE TRIGGER update_prompt_templates_updated_at
+  BEFORE UPDATE ON public.prompt_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable Row Level Security (RLS) for future user-specific access
+ALTER TABLE public.prompt_templates ENABLE ROW LEVEL SECURITY;
+
+-- Create a permissive policy for now (can be restricted later when auth is added)
+CREATE POLICY "Allow all operations on prompt_templates" 
+  ON public.prompt_templates 
+  FOR ALL 
+  USING (true)
+  WITH CHECK (true);
+
+-- Record which prompt version produced each AI classification (built-in ids are not UUIDs)
+ALTER TABLE public.payee_classifications
+  ADD COLUMN prompt_version_id TEXT;
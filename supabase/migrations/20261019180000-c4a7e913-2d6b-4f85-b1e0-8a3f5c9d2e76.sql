@@ -0,0 +1,43 @@
+-- Create spend ledger with the token usage and cost of each batch job, per model
+CREATE TABLE public.ai_spend_ledger (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  batch_id TEXT NOT NULL,
+  job_name TEXT,
+  model TEXT NOT NULL,
+  request_count INTEGER NOT NULL DEFAULT 0,
+  payee_count INTEGER NOT NULL DEFAULT 0,
+  prompt_tokens BIGINT NOT NULL DEFAULT 0,
+  completion_tokens BIGINT NOT NULL DEFAULT 0,
+  total_tokens BIGINT NOT NULL DEFAULT 0,
+  -- NULL when the model has no known price
+  cost_usd NUMERIC,
+  incurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- Re-reading a job's output replaces its entry instead of double counting
+  UNIQUE (batch_id, model)
+);
+
+CREATE INDEX idx_ai_spend_ledger_incurred_at ON public.ai_spend_ledger(incurred_at DESC);
+
+-- Create updated_at trigger
+CREATE TRIGGER update_ai_spend_ledger_updated_at
+  BEFORE UPDATE ON public.ai_spend_ledger
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable Row Level Security (RLS) for future user-specific access
+ALTER TABLE public.ai_spend_ledger ENABLE ROW LEVEL SECURITY;
+
+-- Create a permissive policy for now (can be restricted later when auth is added)
+CREATE POLICY "Allow all operations on ai_spend_ledger" 
+  ON public.ai_spend_ledger 
+  FOR ALL 
+  USING (true)
+  WITH CHECK (true);
+
+-- Token usage and cost of the AI request behind each classification
+ALTER TABLE public.payee_classifications
+  ADD COLUMN prompt_tokens INTEGER,
+  ADD COLUMN completion_tokens INTEGER,
+  ADD COLUMN ai_cost_usd NUMERIC;
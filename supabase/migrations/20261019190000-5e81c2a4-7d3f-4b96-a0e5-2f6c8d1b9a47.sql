@@ -0,0 +1,8 @@
+-- Allow the Suspicious Input processing tier for payee names that were screened out
+-- of AI prompts because they look like instructions to the model
+ALTER TABLE public.payee_classifications
+DROP CONSTRAINT IF EXISTS payee_classifications_processing_tier_check;
+
+ALTER TABLE public.payee_classifications
+ADD CONSTRAINT payee_classifications_processing_tier_check
+  CHECK (processing_tier IN ('Rule-Based', 'NLP-Based', 'AI-Assisted', 'AI-Powered', 'Excluded', 'Failed', 'Override', 'Suspicious Input'));
@@ -0,0 +1,42 @@
+-- Create the custom_id to payee mapping of every request submitted in a batch job,
+-- so output lines are matched to payees by custom_id instead of by position
+CREATE TABLE public.batch_job_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  batch_job_id TEXT NOT NULL,
+  custom_id TEXT NOT NULL,
+  -- More than one name for packed requests, in the order they were numbered
+  payee_names TEXT[] NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (batch_job_id, custom_id)
+);
+
+-- Create the report of the last reconciliation of each job's output against its mapping
+CREATE TABLE public.batch_reconciliation_reports (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  batch_job_id TEXT NOT NULL UNIQUE,
+  expected_count INTEGER NOT NULL DEFAULT 0,
+  matched_count INTEGER NOT NULL DEFAULT 0,
+  missing_ids TEXT[] NOT NULL DEFAULT '{}',
+  duplicated_ids TEXT[] NOT NULL DEFAULT '{}',
+  unknown_ids TEXT[] NOT NULL DEFAULT '{}',
+  -- False for jobs created before mappings were stored, reconciled from their custom_ids alone
+  used_stored_mapping BOOLEAN NOT NULL DEFAULT true,
+  reconciled_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security (RLS) for future user-specific access
+ALTER TABLE public.batch_job_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.batch_reconciliation_reports ENABLE ROW LEVEL SECURITY;
+
+-- Create permissive policies for now (can be restricted later when auth is added)
+CREATE POLICY "Allow all operations on batch_job_requests" 
+  ON public.batch_job_requests 
+  FOR ALL 
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow all operations on batch_reconciliation_reports" 
+  ON public.batch_reconciliation_reports 
+  FOR ALL 
+  USING (true)
+  WITH CHECK (true);
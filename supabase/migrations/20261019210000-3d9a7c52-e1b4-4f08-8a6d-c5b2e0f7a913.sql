@@ -0,0 +1,24 @@
+-- Create the follow-up batches submitted for a job's retryable failed requests. Every
+-- follow-up points at the original job, whose results it is merged into.
+CREATE TABLE public.batch_job_retries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  parent_batch_id TEXT NOT NULL,
+  child_batch_id TEXT NOT NULL UNIQUE,
+  -- The original job is attempt 1, its first follow-up attempt 2
+  attempt INTEGER NOT NULL,
+  payee_names TEXT[] NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (parent_batch_id, attempt)
+);
+
+CREATE INDEX idx_batch_job_retries_parent ON public.batch_job_retries (parent_batch_id);
+
+-- Enable Row Level Security (RLS) for future user-specific access
+ALTER TABLE public.batch_job_retries ENABLE ROW LEVEL SECURITY;
+
+-- Create permissive policies for now (can be restricted later when auth is added)
+CREATE POLICY "Allow all operations on batch_job_retries" 
+  ON public.batch_job_retries 
+  FOR ALL 
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,10 @@
+-- Add the OpenAI error of payees whose batch request failed, from the job's error file
+-- Rows without a failed request keep both columns null
+ALTER TABLE public.payee_classifications
+ADD COLUMN error_code TEXT,
+ADD COLUMN error_message TEXT;
+
+-- Add index for listing the failed rows of a batch
+CREATE INDEX idx_payee_classifications_errors
+  ON public.payee_classifications(batch_id)
+  WHERE error_message IS NOT NULL;
@@ -0,0 +1,23 @@
+-- Create the results of the synchronous retries for payees a packed batch response left
+-- out. They are paid requests, so each payee is retried once and the result reused on
+-- every later read of the job's output.
+CREATE TABLE public.batch_packed_retries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  batch_job_id TEXT NOT NULL,
+  payee_name TEXT NOT NULL,
+  result JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (batch_job_id, payee_name)
+);
+
+CREATE INDEX idx_batch_packed_retries_job ON public.batch_packed_retries (batch_job_id);
+
+-- Enable Row Level Security (RLS) for future user-specific access
+ALTER TABLE public.batch_packed_retries ENABLE ROW LEVEL SECURITY;
+
+-- Create permissive policies for now (can be restricted later when auth is added)
+CREATE POLICY "Allow all operations on batch_packed_retries" 
+  ON public.batch_packed_retries 
+  FOR ALL 
+  USING (true)
+  WITH CHECK (true);